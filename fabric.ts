@@ -18,12 +18,59 @@ export type { StaticCanvasOptions } from './src/canvas/StaticCanvasOptions';
 export { StaticCanvas } from './src/canvas/StaticCanvas';
 export { Canvas } from './src/canvas/Canvas';
 export type { CanvasOptions } from './src/canvas/CanvasOptions';
+export type {
+  CanvasHistoryOptions,
+  THistoryChange,
+  THistoryEntry,
+  THistoryState,
+} from './src/canvas/CanvasHistory';
+export { CanvasHistory } from './src/canvas/CanvasHistory';
+export type { TSnapGuide, TSnapLine } from './src/canvas/SnappingManager';
+export { SnappingManager } from './src/canvas/SnappingManager';
+export type { TGridType } from './src/canvas/GridManager';
+export { GridManager, gridProperties } from './src/canvas/GridManager';
+export type { TGuideLine } from './src/canvas/RulerManager';
+export { RulerManager } from './src/canvas/RulerManager';
+export type { TKeyCommand, TKeyMap } from './src/canvas/KeyboardManager';
+export {
+  KeyboardManager,
+  keyCommands,
+  canvasKeysMap,
+  getKeyCombination,
+} from './src/canvas/KeyboardManager';
+export type { TClipboardData } from './src/canvas/ClipboardManager';
+export { GestureManager } from './src/canvas/GestureManager';
+export {
+  ClipboardManager,
+  CLIPBOARD_FORMAT,
+} from './src/canvas/ClipboardManager';
+export type {
+  TWheelNavigation,
+  TViewportAnimationOptions,
+} from './src/canvas/ViewportManager';
+export { ViewportManager } from './src/canvas/ViewportManager';
+export { SpatialIndex } from './src/canvas/SpatialIndex';
+export type {
+  LayerProps,
+  SerializedLayerProps,
+} from './src/canvas/LayerManager';
+export { Layer, LayerManager } from './src/canvas/LayerManager';
+export type {
+  TTimelineValue,
+  TTimelineEasing,
+  TKeyframe,
+  TTimelineTrack,
+  TTimelineToOptions,
+  TimelineProps,
+  SerializedTimelineProps,
+} from './src/canvas/Timeline';
+export { Timeline } from './src/canvas/Timeline';
 export { CanvasDOMManager } from './src/canvas/DOMManagers/CanvasDOMManager';
 export { StaticCanvasDOMManager } from './src/canvas/DOMManagers/StaticCanvasDOMManager';
 
 export type { XY } from './src/Point';
 export { Point } from './src/Point';
-export type { IntersectionType } from './src/Intersection';
+export type { IntersectionType, TBezier } from './src/Intersection';
 export { Intersection } from './src/Intersection';
 export { Color } from './src/color/Color';
 export * from './src/color/typedefs';
@@ -65,6 +112,15 @@ export type { RectProps, SerializedRectProps } from './src/shapes/Rect';
 export { Rect } from './src/shapes/Rect';
 export type { PathProps, SerializedPathProps } from './src/shapes/Path';
 export { Path } from './src/shapes/Path';
+export type {
+  TConnectorType,
+  TConnectorAnchor,
+  TConnectorEnd,
+  TSerializedConnectorEnd,
+  ConnectorProps,
+  SerializedConnectorProps,
+} from './src/shapes/Connector';
+export { Connector } from './src/shapes/Connector';
 export type { SerializedPolylineProps } from './src/shapes/Polyline';
 export { Polyline } from './src/shapes/Polyline';
 export { Polygon } from './src/shapes/Polygon';
@@ -73,6 +129,7 @@ export type {
   SerializedTextProps,
   TPathAlign,
   TPathSide,
+  TWritingMode,
   TextProps,
 } from './src/shapes/Text/Text';
 export { Text, FabricText } from './src/shapes/Text/Text';
@@ -85,6 +142,12 @@ export type {
   GraphemeData,
   SerializedTextboxProps,
   TextboxProps,
+  TTextboxSizingMode,
+  TTextboxOverflow,
+  TTextboxLineBreak,
+  TParagraphListType,
+  TParagraphStyle,
+  TParagraphStyles,
 } from './src/shapes/Textbox';
 export { Textbox } from './src/shapes/Textbox';
 export type {
@@ -1,8 +1,9 @@
-import { expect } from '@jest/globals';
+import { afterEach, beforeEach, expect, jest } from '@jest/globals';
 import { toMatchSnapshot } from 'jest-snapshot';
 import type { CloneDeepWithCustomizer } from 'lodash';
 import { cloneDeepWith } from 'lodash';
 import { FabricObject } from './src/shapes/Object/Object';
+import { FabricText } from './src/shapes/Text/Text';
 
 type ExtendedOptions<T = unknown> =
   | {
@@ -21,6 +22,24 @@ export const roundSnapshotOptions = {
   },
 };
 
+/**
+ * Measures the graphemes of the texts of the calling `describe` block `fontSize / 40` wide, e.g. 10px at font size 400,
+ * and empty ones, e.g. hidden soft hyphens, with no width, so that layout expectations don't depend on the fonts of the environment
+ */
+export const mockGlyphWidths = () => {
+  beforeEach(() => {
+    jest
+      .spyOn(FabricText.prototype, '_measureChar')
+      .mockImplementation((char, { fontSize }) => {
+        const width = char ? fontSize / 40 : 0;
+        return { width, kernedWidth: width };
+      });
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+};
+
 expect.extend({
   toMatchSnapshot(
     this: any,
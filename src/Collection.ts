@@ -1,6 +1,7 @@
 import type { Constructor, TBBox } from './typedefs';
 import { removeFromArray } from './util/internals';
 import { Point } from './Point';
+import { makeBoundingBoxFromPoints } from './util/misc/boundingBoxFromPoints';
 import type { InteractiveFabricObject } from './shapes/Object/InteractiveObject';
 import type { FabricObject } from './shapes/Object/FabricObject';
 
@@ -27,6 +28,17 @@ export function createCollectionMixin<TBase extends Constructor>(Base: TBase) {
       // subclasses should override this method
     }
 
+    /**
+     * Returns the objects that may intersect a bounding box, in stack order.
+     * Used to narrow down the objects to test, subclasses may override this method.
+     * @param {TBBox} bbox bounding box in the coordinate plane of the collection
+     * @returns {FabricObject[]}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _queryObjects(bbox: TBBox): FabricObject[] {
+      return this._objects;
+    }
+
     /**
      * Adds objects to collection
      * Objects should be instances of (or inherit from) FabricObject
@@ -319,11 +331,12 @@ export function createCollectionMixin<TBase extends Constructor>(Base: TBase) {
     ) {
       const objects: InteractiveFabricObject[] = [],
         tl = new Point(left, top),
-        br = tl.add(new Point(width, height));
+        br = tl.add(new Point(width, height)),
+        candidates = this._queryObjects({ left, top, width, height });
 
       // we iterate reverse order to collect top first in case of click.
-      for (let i = this._objects.length - 1; i >= 0; i--) {
-        const object = this._objects[i] as unknown as InteractiveFabricObject;
+      for (let i = candidates.length - 1; i >= 0; i--) {
+        const object = candidates[i] as unknown as InteractiveFabricObject;
         if (
           object.selectable &&
           object.visible &&
@@ -338,6 +351,36 @@ export function createCollectionMixin<TBase extends Constructor>(Base: TBase) {
 
       return objects;
     }
+
+    /**
+     * Given a polygon, return all the objects of the collection that are contained in the polygon.
+     * If `includeIntersecting` is true, return also the objects that intersect the polygon as well.
+     * This is meant to work with lasso selection. Is not a generic method.
+     * @param {Point[]} points polygon points
+     * @returns array of objects contained in the polygon, ordered from top to bottom stacking wise
+     */
+    collectObjectsInPolygon(
+      points: Point[],
+      { includeIntersecting = true }: { includeIntersecting?: boolean } = {}
+    ) {
+      const objects: InteractiveFabricObject[] = [],
+        candidates = this._queryObjects(makeBoundingBoxFromPoints(points));
+
+      for (let i = candidates.length - 1; i >= 0; i--) {
+        const object = candidates[i] as unknown as InteractiveFabricObject;
+        if (
+          object.selectable &&
+          object.visible &&
+          (includeIntersecting
+            ? object.intersectsWithPolygon(points, true)
+            : object.isContainedWithinPolygon(points, true))
+        ) {
+          objects.push(object);
+        }
+      }
+
+      return objects;
+    }
   }
 
   // https://github.com/microsoft/TypeScript/issues/32080
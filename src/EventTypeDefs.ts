@@ -5,11 +5,15 @@ import type { Control } from './controls/Control';
 import type { Point } from './Point';
 import type { FabricObject } from './shapes/Object/FabricObject';
 import type { Group } from './shapes/Group';
-import type { TOriginX, TOriginY, TRadian } from './typedefs';
+import type { TMat2D, TOriginX, TOriginY, TRadian } from './typedefs';
 import type { saveObjectTransform } from './util/misc/objectTransforms';
 import type { Canvas } from './canvas/Canvas';
 import type { IText } from './shapes/IText/IText';
 import type { StaticCanvas } from './canvas/StaticCanvas';
+import type { THistoryEntry } from './canvas/CanvasHistory';
+import type { TSnapGuide } from './canvas/SnappingManager';
+import type { TGuideLine } from './canvas/RulerManager';
+import type { Layer } from './canvas/LayerManager';
 
 export type ModifierKey = keyof Pick<
   MouseEvent | PointerEvent | TouchEvent,
@@ -111,6 +115,40 @@ export interface ModifiedEvent<E extends Event = TPointerEvent>
   action: string;
 }
 
+export interface TouchTapEvent extends TEvent<PointerEvent> {
+  target?: FabricObject;
+  pointer: Point;
+  absolutePointer: Point;
+}
+
+export interface TouchGestureEvent extends TEvent<PointerEvent> {
+  /**
+   * the transformed object, the viewport is transformed if undefined
+   */
+  target?: FabricObject;
+  /**
+   * center of the gesture in the viewport
+   */
+  center: Point;
+  /**
+   * scale factor since the gesture started
+   */
+  scale: number;
+  /**
+   * rotation in degrees since the gesture started
+   */
+  rotation: number;
+  /**
+   * translation of the center since the gesture started, in the viewport
+   */
+  translation: Point;
+}
+
+export interface SnapEvent<E extends Event = TPointerEvent>
+  extends BasicTransformEvent<E> {
+  guides: TSnapGuide[];
+}
+
 type ModificationEventsSpec<
   Prefix extends string = '',
   Modification = BasicTransformEvent,
@@ -118,14 +156,21 @@ type ModificationEventsSpec<
 > = Record<`${Prefix}${TModificationEvents}`, Modification> &
   Record<`${Prefix}modified`, Modified>;
 
-type ObjectModificationEvents = ModificationEventsSpec;
+// objects can be modified by keyboard commands as well
+type ObjectModificationEvents = ModificationEventsSpec<
+  '',
+  BasicTransformEvent,
+  ModifiedEvent<TPointerEvent | KeyboardEvent>
+>;
 
 type CanvasModificationEvents = ModificationEventsSpec<
   'object:',
   BasicTransformEvent & { target: FabricObject },
-  ModifiedEvent | { target: FabricObject }
+  ModifiedEvent<TPointerEvent | KeyboardEvent> | { target: FabricObject }
 > & {
-  'before:transform': TEvent & { transform: Transform };
+  'before:transform': TEvent<TPointerEvent | KeyboardEvent> & {
+    transform: Transform;
+  };
 };
 
 export interface TPointerEventInfo<E extends TPointerEvent = TPointerEvent>
@@ -250,6 +295,9 @@ export interface ObjectEvents
     target: FabricObject;
   };
 
+  // snapping
+  snap: SnapEvent;
+
   // tree
   added: { target: Group | Canvas | StaticCanvas };
   removed: { target: Group | Canvas | StaticCanvas };
@@ -268,6 +316,18 @@ export interface StaticCanvasEvents extends CollectionEvents {
   // rendering
   'before:render': { ctx: CanvasRenderingContext2D };
   'after:render': { ctx: CanvasRenderingContext2D };
+
+  // viewport
+  'viewport:changed': { viewportTransform: TMat2D };
+
+  // layers
+  'layer:added': { layer: Layer };
+  'layer:removed': { layer: Layer };
+  'layer:modified': { layer: Layer };
+
+  // timeline
+  'timeline:update': { time: number; targets: FabricObject[] };
+  'timeline:complete': { time: number };
 }
 
 /**
@@ -303,4 +363,25 @@ export interface CanvasEvents
   'text:changed': { target: IText };
   'text:editing:entered': { target: IText };
   'text:editing:exited': { target: IText };
+
+  // snapping
+  'object:snap': SnapEvent & { target: FabricObject };
+
+  // history
+  'history:changed': { canUndo: boolean; canRedo: boolean };
+  'history:undo': { changes: THistoryEntry };
+  'history:redo': { changes: THistoryEntry };
+
+  // guides
+  'guide:added': { guide: TGuideLine };
+  'guide:modified': { guide: TGuideLine };
+  'guide:removed': { guide: TGuideLine };
+
+  // gestures
+  'touch:tap': TouchTapEvent;
+  'touch:doubletap': TouchTapEvent;
+  'touch:longpress': TouchTapEvent;
+  'touch:gesture:start': TouchGestureEvent;
+  'touch:gesture': TouchGestureEvent;
+  'touch:gesture:end': TouchGestureEvent;
 }
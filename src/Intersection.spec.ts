@@ -1,5 +1,7 @@
 import { Intersection } from './Intersection';
 import { Point } from './Point';
+import { Circle } from './shapes/Circle';
+import type { TSimplePathData } from './util/path/typedefs';
 
 const polygonPoints = [
   new Point(4, 1),
@@ -71,4 +73,212 @@ describe('Intersection', () => {
       });
     });
   });
+
+  describe('curves', () => {
+    const parabola = [new Point(0, 0), new Point(10, 20), new Point(20, 0)],
+      // the roots of 40t(1 - t) = 5
+      roots = [(1 - Math.SQRT1_2) / 2, (1 + Math.SQRT1_2) / 2];
+
+    const expectPoints = (
+      actual: Point[],
+      expected: Point[],
+      precision = 5
+    ) => {
+      expect(actual).toHaveLength(expected.length);
+      const sort = (points: Point[]) =>
+        [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+      sort(actual).forEach((point, index) => {
+        expect(point.x).toBeCloseTo(sort(expected)[index].x, precision);
+        expect(point.y).toBeCloseTo(sort(expected)[index].y, precision);
+      });
+    };
+
+    test('intersectBezierLine', () => {
+      const inter = Intersection.intersectBezierLine(
+        parabola,
+        new Point(0, 5),
+        new Point(1, 5)
+      );
+      expect(inter.status).toBe('Intersection');
+      expectPoints(
+        inter.points,
+        roots.map((t) => new Point(20 * t, 5))
+      );
+      expectPoints(
+        Intersection.intersectBezierSegment(
+          parabola,
+          new Point(0, 5),
+          new Point(10, 5)
+        ).points,
+        [new Point(20 * roots[0], 5)]
+      );
+      expect(
+        Intersection.intersectBezierSegment(
+          parabola,
+          new Point(0, 11),
+          new Point(20, 11)
+        ).status
+      ).toBeUndefined();
+      expect(
+        Intersection.intersectBezierLine(
+          [new Point(0, 0), new Point(5, 0), new Point(10, 0)],
+          new Point(20, 0),
+          new Point(30, 0)
+        ).status
+      ).toBe('Coincident');
+    });
+
+    test('intersectBezierLine of cubic curves', () => {
+      const s = [
+        new Point(0, 0),
+        new Point(10, 30),
+        new Point(20, -30),
+        new Point(30, 0),
+      ];
+      // the curve crosses its chord in its middle
+      expectPoints(
+        Intersection.intersectBezierLine(s, new Point(0, 0), new Point(30, 0))
+          .points,
+        [new Point(0, 0), new Point(15, 0), new Point(30, 0)]
+      );
+    });
+
+    test('intersectBezierRectangle', () => {
+      expectPoints(
+        Intersection.intersectBezierRectangle(
+          parabola,
+          new Point(0, 5),
+          new Point(10, 20)
+        ).points,
+        [new Point(20 * roots[0], 5), new Point(10, 10)]
+      );
+    });
+
+    test('intersectBezierBezier', () => {
+      const inter = Intersection.intersectBezierBezier(parabola, [
+        new Point(0, 10),
+        new Point(10, -10),
+        new Point(20, 10),
+      ]);
+      expect(inter.status).toBe('Intersection');
+      expectPoints(
+        inter.points,
+        roots.map((t) => new Point(20 * t, 5))
+      );
+      expect(
+        Intersection.intersectBezierBezier(parabola, [
+          new Point(0, 20),
+          new Point(10, 40),
+          new Point(20, 20),
+        ]).status
+      ).toBeUndefined();
+    });
+
+    test('intersectPathPath', () => {
+      const circle = (x: number) =>
+        new Circle({
+          left: x,
+          top: 0,
+          radius: 10,
+          originX: 'center',
+          originY: 'center',
+        }).toPathData();
+      expectPoints(
+        Intersection.intersectPathPath(
+          circle(0),
+          circle(0).map((command) =>
+            command.map((value, index) =>
+              typeof value === 'number' && index % 2 === 1 ? value + 10 : value
+            )
+          ) as TSimplePathData
+        ).points,
+        [new Point(5, -Math.sqrt(75)), new Point(5, Math.sqrt(75))],
+        2
+      );
+      expectPoints(
+        Intersection.intersectPathRectangle(
+          circle(0),
+          new Point(0, 0),
+          new Point(20, 20)
+        ).points,
+        [new Point(0, 10), new Point(10, 0)],
+        2
+      );
+    });
+
+    test('isPointInPath', () => {
+      const circle = new Circle({ radius: 10 }).toPathData();
+      expect(Intersection.isPointInPath(new Point(7, 7), circle)).toBe(true);
+      expect(Intersection.isPointInPath(new Point(7.2, 7.2), circle)).toBe(
+        false
+      );
+      expect(Intersection.isPointInPath(new Point(0, -9.9), circle)).toBe(true);
+      const arch: TSimplePathData = [
+        ['M', 0, 0],
+        ['Q', 10, 20, 20, 0],
+      ];
+      expect(Intersection.isPointInPath(new Point(10, 9), arch)).toBe(true);
+      expect(Intersection.isPointInPath(new Point(10, 11), arch)).toBe(false);
+      expect(Intersection.isPointInPath(new Point(2, 5), arch)).toBe(false);
+      const nested: TSimplePathData = [
+        ...circle,
+        ...new Circle({ radius: 5 }).toPathData(),
+      ];
+      expect(Intersection.isPointInPath(new Point(1, 1), nested)).toBe(true);
+      expect(
+        Intersection.isPointInPath(new Point(1, 1), nested, 'evenodd')
+      ).toBe(false);
+      expect(
+        Intersection.isPointInPath(new Point(7, 0), nested, 'evenodd')
+      ).toBe(true);
+    });
+
+    test('isPointInPathStroke', () => {
+      const line: TSimplePathData = [
+        ['M', 0, 0],
+        ['L', 10, 0],
+      ];
+      expect(Intersection.isPointInPathStroke(new Point(5, 0.9), line, 2)).toBe(
+        true
+      );
+      expect(Intersection.isPointInPathStroke(new Point(5, 1.1), line, 2)).toBe(
+        false
+      );
+      expect(
+        Intersection.isPointInPathStroke(new Point(10.5, 0), line, 2)
+      ).toBe(false);
+      expect(
+        Intersection.isPointInPathStroke(new Point(10.5, 0), line, 2, 'round')
+      ).toBe(true);
+      expect(
+        Intersection.isPointInPathStroke(new Point(10.9, 0.9), line, 2, 'round')
+      ).toBe(false);
+      expect(
+        Intersection.isPointInPathStroke(
+          new Point(10.9, 0.9),
+          line,
+          2,
+          'square'
+        )
+      ).toBe(true);
+      // closed subpaths have no caps
+      expect(
+        Intersection.isPointInPathStroke(
+          new Point(-0.5, 0),
+          [...line, ['L', 10, 10], ['Z']],
+          2
+        )
+      ).toBe(true);
+      const arch: TSimplePathData = [
+        ['M', 0, 0],
+        ['Q', 10, 20, 20, 0],
+      ];
+      expect(
+        Intersection.isPointInPathStroke(new Point(10, 9.5), arch, 2)
+      ).toBe(true);
+      expect(
+        Intersection.isPointInPathStroke(new Point(10, 8.5), arch, 2)
+      ).toBe(false);
+    });
+  });
 });
@@ -1,10 +1,133 @@
 import { Point } from './Point';
-import { createVector } from './util/misc/vectors';
+import {
+  createVector,
+  crossProduct,
+  dotProduct,
+  getUnitVector,
+} from './util/misc/vectors';
+import type { TSimplePathData } from './util/path/typedefs';
 
 /* Adaptation of work of Kevin Lindsey (kevin@kevlindev.com) */
 
 export type IntersectionType = 'Intersection' | 'Coincident' | 'Parallel';
 
+/**
+ * The control points of a segment or of a quadratic or cubic Bezier curve
+ */
+export type TBezier = Point[];
+
+type TSubpath = { curves: TBezier[]; closed: boolean };
+
+/**
+ * maximum distance between the control points of a curve and its chord for it to be considered flat
+ */
+const FLATNESS = 1e-7;
+
+/**
+ * @private
+ * @returns the value of a polynomial, given its coefficients in ascending order of degree
+ */
+const evaluate = (coefficients: number[], t: number) =>
+  coefficients.reduceRight((value, coefficient) => value * t + coefficient, 0);
+
+/**
+ * @private
+ * Finds the roots of a polynomial in [0, 1] by bisecting it between the roots of its derivative,
+ * where it is monotonic
+ * @param {number[]} coefficients in ascending order of degree
+ * @returns {number[]} sorted roots
+ */
+const getRootsInUnitInterval = (coefficients: number[]): number[] => {
+  const scale = Math.max(...coefficients.map(Math.abs));
+  let degree = coefficients.length - 1;
+  while (degree > 0 && Math.abs(coefficients[degree]) <= scale * 1e-12) {
+    degree--;
+  }
+  if (degree === 0) {
+    return [];
+  }
+  const polynomial = coefficients.slice(0, degree + 1);
+  if (degree === 1) {
+    const t = -polynomial[0] / polynomial[1];
+    return t >= 0 && t <= 1 ? [t] : [];
+  }
+  const bounds = [
+      0,
+      ...getRootsInUnitInterval(
+        polynomial
+          .slice(1)
+          .map((coefficient, index) => coefficient * (index + 1))
+      ),
+      1,
+    ],
+    roots: number[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    let a = bounds[i],
+      b = bounds[i + 1],
+      fa = evaluate(polynomial, a);
+    const fb = evaluate(polynomial, b);
+    if (fa === 0) {
+      roots.push(a);
+      continue;
+    } else if (fa * fb > 0 || (fb === 0 && i < bounds.length - 2)) {
+      // roots at bounds are found by the next interval
+      continue;
+    }
+    for (let j = 0; j < 64 && b - a > Number.EPSILON; j++) {
+      const m = (a + b) / 2,
+        fm = evaluate(polynomial, m);
+      if (fa * fm <= 0) {
+        b = m;
+      } else {
+        a = m;
+        fa = fm;
+      }
+    }
+    roots.push((a + b) / 2);
+  }
+  return roots.filter(
+    (root, index) => index === 0 || root !== roots[index - 1]
+  );
+};
+
+/**
+ * @private
+ * Splits a curve in halves with the de Casteljau algorithm
+ */
+const splitBezier = (curve: TBezier): [TBezier, TBezier] => {
+  const left = [curve[0]],
+    right = [curve[curve.length - 1]];
+  let points = curve;
+  while (points.length > 1) {
+    const previous = points;
+    points = previous
+      .slice(1)
+      .map((point, index) => previous[index].midPointFrom(point));
+    left.push(points[0]);
+    right.unshift(points[points.length - 1]);
+  }
+  return [left, right];
+};
+
+/**
+ * @private
+ * @returns true if the control points of the curve lie on its chord
+ */
+const isFlat = (curve: TBezier) => {
+  const start = curve[0],
+    end = curve[curve.length - 1],
+    chord = end.subtract(start),
+    length = start.distanceFrom(end);
+  return curve
+    .slice(1, -1)
+    .every((point) =>
+      length > 0
+        ? Math.abs(crossProduct(chord, point.subtract(start))) / length <=
+          FLATNESS
+        : point.distanceFrom(start) <= FLATNESS
+    );
+};
+
 export class Intersection {
   declare points: Point[];
 
@@ -39,6 +162,23 @@ export class Intersection {
     return this;
   }
 
+  /**
+   * Appends points of intersection, skipping points close to ones in the collection,
+   * e.g. points found on both curves meeting at them
+   * @param {Point[]} points
+   * @return {Intersection} thisArg
+   * @chainable
+   */
+  private appendDistinct(points: Point[]): Intersection {
+    points.forEach(
+      (point) =>
+        !this.points.some(
+          (other) => other.distanceFrom(point) <= FLATNESS * 10
+        ) && this.points.push(point)
+    );
+    return this;
+  }
+
   /**
    * check if point T is on the segment or line defined between A and B
    *
@@ -329,4 +469,536 @@ export class Intersection {
       bottomLeft,
     ]);
   }
+
+  /**
+   * @private
+   * @returns coefficients of the polynomial of the points of a curve, in ascending order of degree
+   */
+  private static getBezierCoefficients(curve: TBezier): Point[] {
+    const [p0, p1, p2, p3] = curve;
+    switch (curve.length) {
+      case 2:
+        return [p0, p1.subtract(p0)];
+      case 3:
+        return [
+          p0,
+          p1.subtract(p0).scalarMultiply(2),
+          p0.subtract(p1.scalarMultiply(2)).add(p2),
+        ];
+      default:
+        return [
+          p0,
+          p1.subtract(p0).scalarMultiply(3),
+          p0.subtract(p1.scalarMultiply(2)).add(p2).scalarMultiply(3),
+          p3.subtract(p0).add(p1.subtract(p2).scalarMultiply(3)),
+        ];
+    }
+  }
+
+  /**
+   * @private
+   * @returns the point of a curve at `t`
+   */
+  private static getPointOnBezier(coefficients: Point[], t: number) {
+    return new Point(
+      evaluate(
+        coefficients.map(({ x }) => x),
+        t
+      ),
+      evaluate(
+        coefficients.map(({ y }) => y),
+        t
+      )
+    );
+  }
+
+  /**
+   * @private
+   * Splits simplified path data in subpaths of curves, arcs being converted to curves by `makePathSimpler`
+   */
+  private static getPathCurves(path: TSimplePathData): TSubpath[] {
+    const subpaths: TSubpath[] = [];
+    let subpath: TSubpath = { curves: [], closed: false },
+      current = new Point(),
+      start = new Point();
+    for (const command of path) {
+      switch (command[0]) {
+        case 'M':
+          subpath.curves.length > 0 && subpaths.push(subpath);
+          subpath = { curves: [], closed: false };
+          current = start = new Point(command[1], command[2]);
+          continue;
+        case 'Z':
+          !current.eq(start) && subpath.curves.push([current, start]);
+          subpath.closed = true;
+          subpath.curves.length > 0 && subpaths.push(subpath);
+          subpath = { curves: [], closed: false };
+          current = start;
+          continue;
+      }
+      const curve = [current];
+      for (let i = 1; i < command.length; i += 2) {
+        curve.push(new Point(command[i] as number, command[i + 1] as number));
+      }
+      current = curve[curve.length - 1];
+      !curve.every((point) => point.eq(curve[0])) && subpath.curves.push(curve);
+    }
+    subpath.curves.length > 0 && subpaths.push(subpath);
+    return subpaths;
+  }
+
+  /**
+   * Checks if a line intersects a segment or a quadratic or cubic Bezier curve,
+   * solving the polynomial of the distance of the curve to the line
+   * @static
+   * @param {TBezier} curve control points of the curve
+   * @param {Point} a1 point on line
+   * @param {Point} a2 other point on line
+   * @param {boolean} [infinite=true] check segment intersection by passing `false`
+   * @return {Intersection}
+   */
+  static intersectBezierLine(
+    curve: TBezier,
+    a1: Point,
+    a2: Point,
+    infinite = true
+  ): Intersection {
+    if (curve.length === 2) {
+      return Intersection.intersectLineLine(
+        curve[0],
+        curve[1],
+        a1,
+        a2,
+        false,
+        infinite
+      );
+    }
+    const result = new Intersection();
+    if (a1.eq(a2)) {
+      return result;
+    }
+    const direction = createVector(a1, a2),
+      coefficients = Intersection.getBezierCoefficients(curve),
+      distances = coefficients.map((coefficient, index) =>
+        crossProduct(
+          getUnitVector(direction),
+          index === 0 ? coefficient.subtract(a1) : coefficient
+        )
+      );
+    if (distances.every((distance) => Math.abs(distance) <= FLATNESS)) {
+      return new Intersection('Coincident');
+    }
+    getRootsInUnitInterval(distances).forEach((t) => {
+      const point = Intersection.getPointOnBezier(coefficients, t),
+        s =
+          dotProduct(point.subtract(a1), direction) /
+          dotProduct(direction, direction);
+      (infinite || (s >= 0 && s <= 1)) && result.append(point);
+    });
+    if (result.points.length > 0) {
+      result.status = 'Intersection';
+    }
+    return result;
+  }
+
+  /**
+   * Checks if a segment intersects a quadratic or cubic Bezier curve
+   * @static
+   * @see {@link intersectBezierLine}
+   * @param {TBezier} curve control points of the curve
+   * @param {Point} a1 boundary point of segment
+   * @param {Point} a2 other boundary point of segment
+   * @return {Intersection}
+   */
+  static intersectBezierSegment(
+    curve: TBezier,
+    a1: Point,
+    a2: Point
+  ): Intersection {
+    return Intersection.intersectBezierLine(curve, a1, a2, false);
+  }
+
+  /**
+   * Checks if a quadratic or cubic Bezier curve intersects a polygon
+   * @static
+   * @see {@link intersectBezierSegment}
+   * @param {TBezier} curve control points of the curve
+   * @param {Point[]} points polygon points
+   * @return {Intersection}
+   */
+  static intersectBezierPolygon(curve: TBezier, points: Point[]): Intersection {
+    const result = new Intersection(),
+      length = points.length;
+    for (let i = 0; i < length; i++) {
+      const inter = Intersection.intersectBezierSegment(
+        curve,
+        points[i],
+        points[(i + 1) % length]
+      );
+      if (inter.status === 'Coincident') {
+        return inter;
+      }
+      result.appendDistinct(inter.points);
+    }
+    if (result.points.length > 0) {
+      result.status = 'Intersection';
+    }
+    return result;
+  }
+
+  /**
+   * Checks if a quadratic or cubic Bezier curve intersects a rectangle
+   * @static
+   * @see {@link intersectBezierPolygon}
+   * @param {TBezier} curve control points of the curve
+   * @param {Point} r1 top left point of rect
+   * @param {Point} r2 bottom right point of rect
+   * @return {Intersection}
+   */
+  static intersectBezierRectangle(
+    curve: TBezier,
+    r1: Point,
+    r2: Point
+  ): Intersection {
+    const min = r1.min(r2),
+      max = r1.max(r2);
+    return Intersection.intersectBezierPolygon(curve, [
+      min,
+      new Point(max.x, min.y),
+      max,
+      new Point(min.x, max.y),
+    ]);
+  }
+
+  /**
+   * Checks if two segments or quadratic or cubic Bezier curves intersect,
+   * subdividing them until they are flat where their bounding boxes overlap
+   * @static
+   * @param {TBezier} curve1 control points of a curve
+   * @param {TBezier} curve2 control points of the other curve
+   * @return {Intersection}
+   */
+  static intersectBezierBezier(curve1: TBezier, curve2: TBezier): Intersection {
+    if (curve1.length === 2 || curve2.length === 2) {
+      return curve1.length === 2
+        ? Intersection.intersectBezierSegment(curve2, curve1[0], curve1[1])
+        : Intersection.intersectBezierSegment(curve1, curve2[0], curve2[1]);
+    }
+    const result = new Intersection();
+    const intersect = (a: TBezier, b: TBezier, depth: number) => {
+      const minA = a.reduce((min, point) => min.min(point)),
+        maxA = a.reduce((max, point) => max.max(point)),
+        minB = b.reduce((min, point) => min.min(point)),
+        maxB = b.reduce((max, point) => max.max(point));
+      if (
+        minA.x > maxB.x + FLATNESS ||
+        minB.x > maxA.x + FLATNESS ||
+        minA.y > maxB.y + FLATNESS ||
+        minB.y > maxA.y + FLATNESS
+      ) {
+        return;
+      }
+      const flatA = isFlat(a),
+        flatB = isFlat(b);
+      if ((flatA && flatB) || depth > 48) {
+        // curves split at an intersection find it twice
+        result.appendDistinct(
+          Intersection.intersectSegmentSegment(
+            a[0],
+            a[a.length - 1],
+            b[0],
+            b[b.length - 1]
+          ).points
+        );
+        return;
+      }
+      if (
+        !flatA &&
+        (flatB ||
+          maxA.subtract(minA).distanceFrom(new Point()) >=
+            maxB.subtract(minB).distanceFrom(new Point()))
+      ) {
+        const [left, right] = splitBezier(a);
+        intersect(left, b, depth + 1);
+        intersect(right, b, depth + 1);
+      } else {
+        const [left, right] = splitBezier(b);
+        intersect(a, left, depth + 1);
+        intersect(a, right, depth + 1);
+      }
+    };
+    intersect(curve1, curve2, 0);
+    if (result.points.length > 0) {
+      result.status = 'Intersection';
+    }
+    return result;
+  }
+
+  /**
+   * Checks if a line intersects the curves of a path
+   * @static
+   * @param {TSimplePathData} path simplified path data, see `makePathSimpler`
+   * @param {Point} a1 point on line
+   * @param {Point} a2 other point on line
+   * @param {boolean} [infinite=true] check segment intersection by passing `false`
+   * @return {Intersection}
+   */
+  static intersectPathLine(
+    path: TSimplePathData,
+    a1: Point,
+    a2: Point,
+    infinite = true
+  ): Intersection {
+    const result = new Intersection();
+    Intersection.getPathCurves(path).forEach(({ curves }) =>
+      curves.forEach((curve) => {
+        const inter = Intersection.intersectBezierLine(curve, a1, a2, infinite);
+        inter.status === 'Coincident'
+          ? result.appendDistinct([curve[0], curve[curve.length - 1]])
+          : result.appendDistinct(inter.points);
+      })
+    );
+    if (result.points.length > 0) {
+      result.status = 'Intersection';
+    }
+    return result;
+  }
+
+  /**
+   * Checks if a segment intersects the curves of a path
+   * @static
+   * @see {@link intersectPathLine}
+   * @param {TSimplePathData} path simplified path data, see `makePathSimpler`
+   * @param {Point} a1 boundary point of segment
+   * @param {Point} a2 other boundary point of segment
+   * @return {Intersection}
+   */
+  static intersectPathSegment(
+    path: TSimplePathData,
+    a1: Point,
+    a2: Point
+  ): Intersection {
+    return Intersection.intersectPathLine(path, a1, a2, false);
+  }
+
+  /**
+   * Checks if the curves of a path intersect a polygon
+   * @static
+   * @param {TSimplePathData} path simplified path data, see `makePathSimpler`
+   * @param {Point[]} points polygon points
+   * @return {Intersection}
+   */
+  static intersectPathPolygon(
+    path: TSimplePathData,
+    points: Point[]
+  ): Intersection {
+    const result = new Intersection(),
+      length = points.length;
+    for (let i = 0; i < length; i++) {
+      result.appendDistinct(
+        Intersection.intersectPathSegment(
+          path,
+          points[i],
+          points[(i + 1) % length]
+        ).points
+      );
+    }
+    if (result.points.length > 0) {
+      result.status = 'Intersection';
+    }
+    return result;
+  }
+
+  /**
+   * Checks if the curves of a path intersect a rectangle
+   * @static
+   * @see {@link intersectPathPolygon}
+   * @param {TSimplePathData} path simplified path data, see `makePathSimpler`
+   * @param {Point} r1 top left point of rect
+   * @param {Point} r2 bottom right point of rect
+   * @return {Intersection}
+   */
+  static intersectPathRectangle(
+    path: TSimplePathData,
+    r1: Point,
+    r2: Point
+  ): Intersection {
+    const min = r1.min(r2),
+      max = r1.max(r2);
+    return Intersection.intersectPathPolygon(path, [
+      min,
+      new Point(max.x, min.y),
+      max,
+      new Point(min.x, max.y),
+    ]);
+  }
+
+  /**
+   * Checks if the curves of a path intersect the curves of another path
+   * @static
+   * @see {@link intersectBezierBezier}
+   * @param {TSimplePathData} path1 simplified path data, see `makePathSimpler`
+   * @param {TSimplePathData} path2 simplified path data
+   * @return {Intersection}
+   */
+  static intersectPathPath(
+    path1: TSimplePathData,
+    path2: TSimplePathData
+  ): Intersection {
+    const result = new Intersection(),
+      curves1 = Intersection.getPathCurves(path1).flatMap(
+        ({ curves }) => curves
+      ),
+      curves2 = Intersection.getPathCurves(path2).flatMap(
+        ({ curves }) => curves
+      );
+    curves1.forEach((curve1) =>
+      curves2.forEach((curve2) => {
+        const inter =
+          curve1.length === 2 && curve2.length === 2
+            ? Intersection.intersectSegmentSegment(
+                curve1[0],
+                curve1[1],
+                curve2[0],
+                curve2[1]
+              )
+            : Intersection.intersectBezierBezier(curve1, curve2);
+        result.appendDistinct(inter.points);
+      })
+    );
+    if (result.points.length > 0) {
+      result.status = 'Intersection';
+    }
+    return result;
+  }
+
+  /**
+   * Checks if a point is inside the filled area of a path, following its curves.
+   * Subpaths are closed, the way they are filled.
+   * @static
+   * @param {Point} point
+   * @param {TSimplePathData} path simplified path data, see `makePathSimpler`
+   * @param {CanvasFillRule} [fillRule] defaults to `nonzero`
+   * @returns {boolean}
+   */
+  static isPointInPath(
+    point: Point,
+    path: TSimplePathData,
+    fillRule: CanvasFillRule = 'nonzero'
+  ): boolean {
+    let winding = 0;
+    Intersection.getPathCurves(path).forEach(({ curves }) => {
+      const start = curves[0][0],
+        end = curves[curves.length - 1][curves[curves.length - 1].length - 1];
+      [...curves, ...(start.eq(end) ? [] : [[end, start]])].forEach((curve) => {
+        // count the crossings of a ray going right from the point, splitting the curve where it is monotonic in y
+        const coefficients = Intersection.getBezierCoefficients(curve),
+          ys = coefficients.map(({ y }) => y),
+          bounds = [
+            0,
+            ...getRootsInUnitInterval(
+              ys.slice(1).map((coefficient, index) => coefficient * (index + 1))
+            ),
+            1,
+          ];
+        for (let i = 0; i < bounds.length - 1; i++) {
+          const y1 = evaluate(ys, bounds[i]),
+            y2 = evaluate(ys, bounds[i + 1]);
+          if (
+            y1 === y2 ||
+            point.y < Math.min(y1, y2) ||
+            point.y >= Math.max(y1, y2)
+          ) {
+            continue;
+          }
+          let a = bounds[i],
+            b = bounds[i + 1];
+          for (let j = 0; j < 64 && b - a > Number.EPSILON; j++) {
+            const m = (a + b) / 2;
+            evaluate(ys, m) < point.y === y2 > y1 ? (a = m) : (b = m);
+          }
+          if (
+            Intersection.getPointOnBezier(coefficients, (a + b) / 2).x > point.x
+          ) {
+            winding += y2 > y1 ? 1 : -1;
+          }
+        }
+      });
+    });
+    return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+  }
+
+  /**
+   * Checks if a point is inside the stroke of a path, following its curves.
+   * Joins are tested as round ones.
+   * @static
+   * @param {Point} point
+   * @param {TSimplePathData} path simplified path data, see `makePathSimpler`
+   * @param {number} strokeWidth
+   * @param {CanvasLineCap} [strokeLineCap] defaults to `butt`
+   * @returns {boolean}
+   */
+  static isPointInPathStroke(
+    point: Point,
+    path: TSimplePathData,
+    strokeWidth: number,
+    strokeLineCap: CanvasLineCap = 'butt'
+  ): boolean {
+    const radius = strokeWidth / 2;
+    return Intersection.getPathCurves(path).some(({ curves, closed }) => {
+      const last = curves.length - 1,
+        hitsCurve = curves.some((curve, index) => {
+          const coefficients = Intersection.getBezierCoefficients(curve),
+            distanceAt = (t: number) =>
+              Intersection.getPointOnBezier(coefficients, t).distanceFrom(
+                point
+              ),
+            steps = curve.length * 8;
+          // sample the curve and refine the closest sample
+          let closest = 0;
+          for (let i = 1; i <= steps; i++) {
+            distanceAt(i / steps) < distanceAt(closest / steps) &&
+              (closest = i);
+          }
+          let a = Math.max(0, (closest - 1) / steps),
+            b = Math.min(1, (closest + 1) / steps);
+          for (let i = 0; i < 48; i++) {
+            const m1 = a + (b - a) / 3,
+              m2 = b - (b - a) / 3;
+            distanceAt(m1) < distanceAt(m2) ? (b = m2) : (a = m1);
+          }
+          const t = (a + b) / 2;
+          // past the ends of open subpaths, caps other than round are tested below
+          return (
+            distanceAt(t) <= radius &&
+            (closed ||
+              strokeLineCap === 'round' ||
+              !((index === 0 && t < 1e-6) || (index === last && t > 1 - 1e-6)))
+          );
+        });
+      if (hitsCurve || closed || strokeLineCap !== 'square') {
+        return hitsCurve;
+      }
+      const first = curves[0],
+        lastCurve = curves[last];
+      return [
+        [first[0], first.find((point) => !point.eq(first[0]))!],
+        [
+          lastCurve[lastCurve.length - 1],
+          [...lastCurve]
+            .reverse()
+            .find((point) => !point.eq(lastCurve[lastCurve.length - 1]))!,
+        ],
+      ].some(([end, previous]) => {
+        const direction = getUnitVector(end.subtract(previous)),
+          offset = point.subtract(end),
+          along = dotProduct(offset, direction);
+        return (
+          along >= 0 &&
+          along <= radius &&
+          Math.abs(crossProduct(direction, offset)) <= radius
+        );
+      });
+    });
+  }
 }
@@ -15,6 +15,7 @@ import { Point } from '../Point';
 import type { Group } from '../shapes/Group';
 import type { IText } from '../shapes/IText/IText';
 import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { TValidToObjectMethod } from '../typedefs';
 import { isTouchEvent, stopEvent } from '../util/dom_event';
 import { getDocumentFromElement, getWindowFromElement } from '../util/dom_misc';
 import { sendPointToPlane } from '../util/misc/planeChange';
@@ -22,8 +23,17 @@ import {
   isFabricObjectWithDragSupport,
   isInteractiveTextObject,
 } from '../util/typeAssertions';
+import type { CanvasHistory } from './CanvasHistory';
 import type { CanvasOptions, TCanvasOptions } from './CanvasOptions';
+import { gridProperties, GridManager } from './GridManager';
 import { SelectableCanvas } from './SelectableCanvas';
+import type { TSVGExportOptions } from './StaticCanvas';
+import { ClipboardManager } from './ClipboardManager';
+import { GestureManager } from './GestureManager';
+import { ViewportManager } from './ViewportManager';
+import { KeyboardManager } from './KeyboardManager';
+import { RulerManager } from './RulerManager';
+import { SnappingManager } from './SnappingManager';
 import { TextEditingManager } from './TextEditingManager';
 
 // 事件监听器选项，用于确定浏览器应该如何处理目标事件。
@@ -119,6 +129,26 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
 
   textEditingManager = new TextEditingManager(this);
 
+  snappingManager = new SnappingManager(this);
+
+  gridManager = new GridManager(this);
+
+  rulerManager = new RulerManager(this);
+
+  keyboardManager = new KeyboardManager(this);
+
+  clipboardManager = new ClipboardManager(this);
+
+  gestureManager = new GestureManager(this);
+
+  viewportManager = new ViewportManager(this);
+
+  /**
+   * Undo/redo manager, set by creating a {@link CanvasHistory} for this canvas
+   * @type CanvasHistory
+   */
+  declare history?: CanvasHistory;
+
   constructor(el?: string | HTMLCanvasElement, options: TCanvasOptions = {}) {
     super(el, options);
     // bind event handlers
@@ -130,11 +160,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
         '_onMouseUp',
         '_onTouchEnd',
         '_onResize',
-        // '_onGesture',
-        // '_onDrag',
-        // '_onShake',
-        // '_onLongPress',
-        // '_onOrientationChange',
+        '_onGesture',
         '_onMouseWheel',
         '_onMouseOut',
         '_onMouseEnter',
@@ -147,12 +173,14 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
         '_onDragEnter',
         '_onDragLeave',
         '_onDrop',
+        '_onKeyDown',
+        '_onClipboardEvent',
       ] as (keyof this)[]
     ).forEach((eventHandler) => {
       this[eventHandler] = (this[eventHandler] as Function).bind(this);
     });
     // register event handlers
-    this.addOrRemove(addListener, 'add');
+    this.addOrRemove(addListener);
   }
 
   /**
@@ -164,7 +192,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
   }
 
   // 在 upperCanvasEl 上绑定事件
-  addOrRemove(functor: any, eventjsFunctor: 'add' | 'remove') {
+  addOrRemove(functor: any) {
     const canvasElement = this.upperCanvasEl,
       eventTypePrefix = this._getEventPrefix();
     functor(getWindowFromElement(canvasElement), 'resize', this._onResize);
@@ -186,27 +214,25 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
     functor(canvasElement, 'dragenter', this._onDragEnter);
     functor(canvasElement, 'dragleave', this._onDragLeave);
     functor(canvasElement, 'drop', this._onDrop);
+    functor(canvasElement, 'keydown', this._onKeyDown);
+    functor(canvasElement, 'copy', this._onClipboardEvent);
+    functor(canvasElement, 'cut', this._onClipboardEvent);
+    functor(canvasElement, 'paste', this._onClipboardEvent);
     if (!this.enablePointerEvents) {
       functor(canvasElement, 'touchstart', this._onTouchStart, addEventOptions);
     }
-    // if (typeof eventjs !== 'undefined' && eventjsFunctor in eventjs) {
-    //   eventjs[eventjsFunctor](canvasElement, 'gesture', this._onGesture);
-    //   eventjs[eventjsFunctor](canvasElement, 'drag', this._onDrag);
-    //   eventjs[eventjsFunctor](
-    //     canvasElement,
-    //     'orientation',
-    //     this._onOrientationChange
-    //   );
-    //   eventjs[eventjsFunctor](canvasElement, 'shake', this._onShake);
-    //   eventjs[eventjsFunctor](canvasElement, 'longpress', this._onLongPress);
-    // }
+    // gestures are recognized from pointer events regardless of `enablePointerEvents`
+    functor(canvasElement, 'pointerdown', this._onGesture);
+    functor(canvasElement, 'pointermove', this._onGesture);
+    functor(canvasElement, 'pointerup', this._onGesture);
+    functor(canvasElement, 'pointercancel', this._onGesture);
   }
 
   /**
    * Removes all event listeners
    */
   removeListeners() {
-    this.addOrRemove(removeListener, 'remove');
+    this.addOrRemove(removeListener);
     // if you dispose on a mouseDown, before mouse up, you need to clean document to...
     const eventTypePrefix = this._getEventPrefix();
     const doc = getDocumentFromElement(this.upperCanvasEl);
@@ -235,6 +261,41 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
     );
   }
 
+  /**
+   * @private
+   * @param {KeyboardEvent} e Event object fired on keydown
+   */
+  private _onKeyDown(e: KeyboardEvent) {
+    this.keyboardManager.onKeyDown(e);
+  }
+
+  /**
+   * @private
+   * @param {ClipboardEvent} e Event object fired on copy, cut or paste
+   */
+  private _onClipboardEvent(e: ClipboardEvent) {
+    const activeObject = this._activeObject;
+    if (
+      !this.clipboardCommands ||
+      (isInteractiveTextObject(activeObject) && activeObject.isEditing)
+    ) {
+      return;
+    }
+    this.clipboardManager[e.type as 'copy' | 'cut' | 'paste'](e);
+  }
+
+  /**
+   * @private
+   * @param {PointerEvent} e Event object fired on pointerdown, pointermove, pointerup or pointercancel
+   */
+  private _onGesture(e: PointerEvent) {
+    if (this.gestureManager.handleEvent(e) && this._groupSelector) {
+      // the gesture takes over the selection started by the main pointer
+      this._groupSelector = null;
+      this.requestRenderAll();
+    }
+  }
+
   /**
    * @private
    * @param {Event} [e] Event object fired on wheel event
@@ -421,7 +482,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
    * prevent default to allow drop event to be fired
    * https://developer.mozilla.org/en-US/docs/Web/API/HTML_Drag_and_Drop_API/Drag_operations#specifying_drop_targets
    * @private
-   * @param {DragEvent} [e] Event object fired on Event.js shake
+   * @param {DragEvent} [e] Event object fired on dragover
    */
   private _onDragOver(e: DragEvent) {
     const eventType = 'dragover';
@@ -466,7 +527,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
   /**
    * fire `dragleave` on `dragover` targets
    * @private
-   * @param {Event} [e] Event object fired on Event.js shake
+   * @param {Event} [e] Event object fired on dragenter
    */
   private _onDragEnter(e: DragEvent) {
     const { target, targets } = this.findDragTargets(e);
@@ -484,7 +545,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
   /**
    * fire `dragleave` on `dragover` targets
    * @private
-   * @param {Event} [e] Event object fired on Event.js shake
+   * @param {Event} [e] Event object fired on dragleave
    */
   private _onDragLeave(e: DragEvent) {
     const options = {
@@ -825,6 +886,11 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
     if (!this._isMainEvent(e)) {
       return;
     }
+    if (this.viewportManager.onMouseUp(e) || this.rulerManager.onMouseUp(e)) {
+      this._handleEvent(e, 'up', LEFT_CLICK, isClick);
+      this._resetTransformEventData();
+      return;
+    }
     let shouldRender = false;
     if (transform) {
       this._finalizeCurrentTransform(e);
@@ -996,6 +1062,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
       target._scaling = false;
     }
 
+    this.snappingManager.clear();
     target.setCoords();
 
     if (transform.actionPerformed) {
@@ -1015,7 +1082,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
       this.requestRenderAll();
     }
     // this is an absolute pointer, the naming is wrong
-    const pointer = this.getPointer(e);
+    const pointer = this.gridManager.snapPoint(this.getPointer(e));
     this.freeDrawingBrush &&
       this.freeDrawingBrush.onMouseDown(pointer, { e, pointer });
     this._handleEvent(e, 'down');
@@ -1027,7 +1094,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
    */
   _onMouseMoveInDrawingMode(e: TPointerEvent) {
     if (this._isCurrentlyDrawing) {
-      const pointer = this.getPointer(e);
+      const pointer = this.gridManager.snapPoint(this.getPointer(e));
       this.freeDrawingBrush &&
         this.freeDrawingBrush.onMouseMove(pointer, {
           e,
@@ -1044,7 +1111,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
    * @param {Event} e Event object fired on mouseup
    */
   _onMouseUpInDrawingMode(e: TPointerEvent) {
-    const pointer = this.getPointer(e);
+    const pointer = this.gridManager.snapPoint(this.getPointer(e));
     if (this.freeDrawingBrush) {
       this._isCurrentlyDrawing = !!this.freeDrawingBrush.onMouseUp({
         e: e,
@@ -1099,6 +1166,17 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
       return;
     }
 
+    if (this.viewportManager.onMouseDown(e)) {
+      this._handleEvent(e, 'down');
+      return;
+    }
+
+    // guides and rulers are on top of objects
+    if (this.rulerManager.onMouseDown(e)) {
+      this._handleEvent(e, 'down');
+      return;
+    }
+
     let shouldRender = this._shouldRender(target);
     let grouped = false;
     if (this.handleMultiSelection(e, target)) {
@@ -1128,6 +1206,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
         y: p.y,
         deltaY: 0,
         deltaX: 0,
+        path: this.selectionMode === 'lasso' ? [p] : undefined,
       };
     }
 
@@ -1225,20 +1304,34 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
       return;
     }
 
+    if (
+      this.gestureManager.isGesturing() ||
+      this.viewportManager.onMouseMove(e)
+    ) {
+      // the main pointer is part of a gesture or pans the viewport, see `gestureManager` and `viewportManager`
+      this._handleEvent(e, 'move');
+      this._resetTransformEventData();
+      return;
+    }
+
     const groupSelector = this._groupSelector;
 
-    // We initially clicked in an empty area, so we draw a box for multiple selection
     if (groupSelector) {
+      // We initially clicked in an empty area, so we draw a box for multiple selection
       const pointer = this.getPointer(e);
 
       groupSelector.deltaX = pointer.x - groupSelector.x;
       groupSelector.deltaY = pointer.y - groupSelector.y;
+      const path = groupSelector.path;
+      path && !path[path.length - 1].eq(pointer) && path.push(pointer);
 
       this.renderTop();
     } else if (!this._currentTransform) {
-      const target = this.findTarget(e);
-      this._setCursorFromEvent(e, target);
-      this._fireOverOutEvents(e, target);
+      if (!this.rulerManager.onMouseMove(e)) {
+        const target = this.findTarget(e);
+        this._setCursorFromEvent(e, target);
+        this._fireOverOutEvents(e, target);
+      }
     } else {
       this._transformObject(e);
     }
@@ -1363,13 +1456,15 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
   }
 
   /**
-   * Method that defines actions when an Event Mouse Wheel
+   * Method that defines actions when an Event Mouse Wheel.
+   * The viewport is navigated by {@link viewportManager} unless a `mouse:wheel` handler prevents the default
    * @param {Event} e Event object fired on mouseup
    */
   __onMouseWheel(e: TPointerEvent) {
     this._cacheTransformEventData(e);
     this._handleEvent(e, 'wheel');
     this._resetTransformEventData();
+    !e.defaultPrevented && this.viewportManager.onWheel(e as WheelEvent);
   }
 
   /**
@@ -1553,7 +1648,7 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
 
   /**
    * ## Handles selection
-   * - selects objects that are contained in (and possibly intersecting) the selection bounding box
+   * - selects objects that are contained in (and possibly intersecting) the selection bounding box or lasso
    * - sets the active object
    * ---
    * runs on mouse up
@@ -1562,22 +1657,29 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
     if (!this.selection || !this._groupSelector) {
       return false;
     }
-    const { x, y, deltaX, deltaY } = this._groupSelector,
+    const { x, y, deltaX, deltaY, path } = this._groupSelector,
       point1 = new Point(x, y),
       point2 = point1.add(new Point(deltaX, deltaY)),
       tl = point1.min(point2),
       br = point1.max(point2),
       size = br.subtract(tl),
-      isClick = point1.eq(point2);
-
-    const collectedObjects = this.collectObjects(
-      {
-        left: tl.x,
-        top: tl.y,
-        width: size.x,
-        height: size.y,
-      },
-      { includeIntersecting: !this.selectionFullyContained }
+      // a lasso needs at least 3 points to enclose an area, otherwise it is handled as a rectangle
+      lasso = path && path.length > 2 ? path : undefined,
+      isClick = !lasso && point1.eq(point2),
+      options = { includeIntersecting: !this.selectionFullyContained };
+
+    const collectedObjects = (
+      lasso
+        ? this.collectObjectsInPolygon(lasso, options)
+        : this.collectObjects(
+            {
+              left: tl.x,
+              top: tl.y,
+              width: size.x,
+              height: size.y,
+            },
+            options
+          )
     ) as FabricObject[];
 
     const objects = isClick
@@ -1604,19 +1706,149 @@ export class Canvas extends SelectableCanvas implements CanvasOptions {
   }
 
   /**
-   * @override clear {@link textEditingManager}
+   * @override renders the grid, see {@link gridManager}.
+   * The grid is rendered only on the live canvas, exported images don't include it
+   */
+  _renderBackground(ctx: CanvasRenderingContext2D) {
+    super._renderBackground(ctx);
+    ctx === this.getContext() && this.gridManager.render(ctx);
+  }
+
+  /**
+   * @private
+   * @override exports the grid if requested by {@link TSVGExportOptions#grid}
+   */
+  _setSVGGrid(markup: string[], options: TSVGExportOptions) {
+    options.grid && markup.push(this.gridManager.toSVG(options));
+  }
+
+  /**
+   * @private
+   * @override serializes the grid options if `grid` is included in `propertiesToInclude`
+   */
+  _toObjectMethod(
+    methodName: TValidToObjectMethod,
+    propertiesToInclude?: string[]
+  ) {
+    return super._toObjectMethod(
+      methodName,
+      propertiesToInclude?.includes('grid')
+        ? [
+            ...propertiesToInclude.filter((key) => key !== 'grid'),
+            ...gridProperties,
+          ]
+        : propertiesToInclude
+    );
+  }
+
+  /**
+   * @override renders the guides of {@link snappingManager} and the rulers and guides of {@link rulerManager}
+   */
+  renderTopLayer(ctx: CanvasRenderingContext2D) {
+    super.renderTopLayer(ctx);
+    this.snappingManager.render(ctx);
+    this.rulerManager.render(ctx);
+  }
+
+  /**
+   * @override renders the guides of {@link snappingManager} and the rulers and guides of {@link rulerManager}
+   * since the top context is cleared
+   */
+  renderAll() {
+    super.renderAll();
+    if (this.destroyed) {
+      return;
+    }
+    this.snappingManager.guides.length > 0 &&
+      this.snappingManager.render(this.contextTop);
+    this.rulerManager.render(this.contextTop);
+  }
+
+  /**
+   * @override records all added objects as a single {@link history} entry
+   */
+  add(...objects: FabricObject[]) {
+    this.history?.startTransaction();
+    const size = super.add(...objects);
+    this.history?.endTransaction();
+    return size;
+  }
+
+  /**
+   * @override records all inserted objects as a single {@link history} entry
+   */
+  insertAt(index: number, ...objects: FabricObject[]) {
+    this.history?.startTransaction();
+    const size = super.insertAt(index, ...objects);
+    this.history?.endTransaction();
+    return size;
+  }
+
+  /**
+   * @override records all removed objects as a single {@link history} entry
+   */
+  remove(...objects: FabricObject[]) {
+    this.history?.startTransaction();
+    const removed = super.remove(...objects);
+    this.history?.endTransaction();
+    return removed;
+  }
+
+  /**
+   * @private
+   * @param {FabricObject} obj Object that was added
+   */
+  _onObjectAdded(obj: FabricObject) {
+    super._onObjectAdded(obj);
+    this.history?._onObjectAdded(obj);
+  }
+
+  /**
+   * @private
+   * @param {FabricObject} obj Object that was removed
+   */
+  _onObjectRemoved(obj: FabricObject) {
+    super._onObjectRemoved(obj);
+    this.history?._onObjectRemoved(obj);
+  }
+
+  /**
+   * @private
+   * @param {FabricObject} obj Object that was moved in the stack
+   */
+  _onStackOrderChanged(obj: FabricObject) {
+    super._onStackOrderChanged(obj);
+    this.history?._onStackOrderChanged(obj);
+  }
+
+  /**
+   * @override clears {@link history} once loaded
+   */
+  loadFromJSON(...args: Parameters<SelectableCanvas['loadFromJSON']>) {
+    return super.loadFromJSON(...args).then((canvas) => {
+      this.history?.clear();
+      return canvas;
+    });
+  }
+
+  /**
+   * @override clear {@link textEditingManager} and {@link history}
    */
   clear() {
     this.textEditingManager.clear();
     super.clear();
+    this.history?.clear();
   }
 
   /**
-   * @override clear {@link textEditingManager}
+   * @override clear {@link textEditingManager} and {@link history}
    */
   destroy() {
     this.removeListeners();
     this.textEditingManager.dispose();
+    this.gestureManager.clear();
+    this.viewportManager.stop();
+    this.history?.dispose();
     super.destroy();
   }
 }
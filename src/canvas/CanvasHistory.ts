@@ -0,0 +1,466 @@
+import type { CanvasEvents } from '../EventTypeDefs';
+import { Point } from '../Point';
+import { ActiveSelection } from '../shapes/ActiveSelection';
+import type { Group } from '../shapes/Group';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { TOptions } from '../typedefs';
+import type { Canvas } from './Canvas';
+
+export type THistoryState = Record<string, unknown>;
+
+export type THistoryChange =
+  | { type: 'add'; target: FabricObject; index: number }
+  | { type: 'remove'; target: FabricObject; index: number }
+  | { type: 'stack'; target: FabricObject; from: number; to: number }
+  | {
+      type: 'modify';
+      target: FabricObject;
+      before: THistoryState;
+      after: THistoryState;
+    }
+  | { type: 'group' | 'ungroup'; target: Group; objects: FabricObject[] };
+
+/**
+ * A group of changes that are undone/redone together
+ */
+export type THistoryEntry = THistoryChange[];
+
+export interface CanvasHistoryOptions {
+  /**
+   * Max number of entries kept in the undo stack, oldest entries are dropped first.
+   * Use `0` to keep all entries.
+   * @type Number
+   * @default
+   */
+  limit: number;
+}
+
+export const canvasHistoryDefaults: CanvasHistoryOptions = {
+  limit: 100,
+};
+
+/**
+ * @private
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * @private
+ * Clones arrays, points and plain objects so that later mutations of the object don't leak into history
+ */
+const cloneValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  } else if (value instanceof Point) {
+    return new Point(value);
+  } else if (isPlainObject(value)) {
+    return cloneState(value);
+  }
+  return value;
+};
+
+/**
+ * @private
+ */
+const cloneState = (state: THistoryState): THistoryState =>
+  Object.fromEntries(
+    Object.entries(state).map(([key, value]) => [key, cloneValue(value)])
+  );
+
+/**
+ * @private
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  } else if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isSameValue(v, b[i]));
+  } else if (a instanceof Point && b instanceof Point) {
+    return a.eq(b);
+  } else if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => isSameValue(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/**
+ * Undo/redo manager of a {@link Canvas}.
+ *
+ * Records objects added to, removed from and restacked in the canvas
+ * as well as objects modified by the user (`object:modified`).
+ * Changes performed during a transaction are undone/redone as a single entry.
+ *
+ * Programmatic modifications are not tracked, call {@link recordModification} after changing an object
+ * or wrap the change with {@link track} and {@link recordModification}.
+ *
+ * @example
+ * const history = new CanvasHistory(canvas, { limit: 50 });
+ * canvas.on('history:changed', ({ canUndo, canRedo }) => { ... });
+ * history.transaction(() => {
+ *   canvas.add(rect);
+ *   canvas.remove(circle);
+ * });
+ * history.undo();
+ */
+export class CanvasHistory implements CanvasHistoryOptions {
+  declare limit: number;
+
+  declare readonly canvas: Canvas;
+
+  private undoStack: THistoryEntry[] = [];
+  private redoStack: THistoryEntry[] = [];
+
+  /**
+   * changes collected by the running transaction
+   */
+  private declare pending?: THistoryEntry;
+  private transactionDepth = 0;
+
+  /**
+   * `true` while undoing/redoing, changes are not recorded
+   */
+  private applying = false;
+
+  /**
+   * mirror of the canvas stack, used to find the index an object was removed from
+   */
+  private stack: FabricObject[] = [];
+
+  /**
+   * last known state of each tracked object
+   */
+  private states = new WeakMap<FabricObject, THistoryState>();
+
+  private __disposer: VoidFunction;
+
+  constructor(canvas: Canvas, options: TOptions<CanvasHistoryOptions> = {}) {
+    Object.assign(this, canvasHistoryDefaults, options);
+    this.canvas = canvas;
+    canvas.history?.dispose();
+    canvas.history = this;
+    this.reset();
+    const beforeTransform = ({
+      transform: { target },
+    }: CanvasEvents['before:transform']) => this.track(target);
+    const editingEntered = ({ target }: CanvasEvents['text:editing:entered']) =>
+      this.track(target);
+    const modified = ({ target }: CanvasEvents['object:modified']) =>
+      this.recordModification(target);
+    this.__disposer = () => {
+      canvas.off('before:transform', beforeTransform);
+      canvas.off('text:editing:entered', editingEntered);
+      canvas.off('object:modified', modified);
+    };
+    canvas.on('before:transform', beforeTransform);
+    canvas.on('text:editing:entered', editingEntered);
+    canvas.on('object:modified', modified);
+  }
+
+  /**
+   * @private
+   * @returns the objects to track for `target`, the children of an active selection are tracked in place of it
+   */
+  private getTargets(target: FabricObject): FabricObject[] {
+    return target instanceof ActiveSelection ? target.getObjects() : [target];
+  }
+
+  /**
+   * @private
+   * @returns the state of `target` as it would be if it were not part of the active selection
+   */
+  private getState(target: FabricObject): THistoryState {
+    const { stateProperties, cacheProperties } =
+      target.constructor as typeof FabricObject;
+    const original = this.canvas._realizeGroupTransformOnObject(target);
+    const state: THistoryState = {};
+    new Set([...stateProperties, ...cacheProperties]).forEach((key) => {
+      state[key] = cloneValue(target[key as keyof FabricObject]);
+    });
+    target.set(original);
+    return state;
+  }
+
+  /**
+   * Stores the current state of objects as the state to restore on undo
+   * when they are later modified.
+   * Called automatically when an object is added and before it is transformed or edited by the user.
+   * @param {FabricObject} target
+   */
+  track(target: FabricObject) {
+    this.getTargets(target).forEach((object) =>
+      this.states.set(object, this.getState(object))
+    );
+  }
+
+  /**
+   * Records the changes of `target` since it was last tracked.
+   * Called automatically on `object:modified`.
+   * @param {FabricObject} target
+   */
+  recordModification(target: FabricObject) {
+    this.transaction(() =>
+      this.getTargets(target).forEach((object) => {
+        const prev = this.states.get(object),
+          next = this.getState(object);
+        this.states.set(object, next);
+        if (!prev) {
+          return;
+        }
+        const before: THistoryState = {},
+          after: THistoryState = {};
+        Object.keys(next).forEach((key) => {
+          if (!isSameValue(prev[key], next[key])) {
+            before[key] = prev[key];
+            after[key] = next[key];
+          }
+        });
+        Object.keys(after).length > 0 &&
+          this.record({ type: 'modify', target: object, before, after });
+      })
+    );
+  }
+
+  /**
+   * Records `objects` entering or exiting `target`.
+   * Call after grouping/ungrouping objects of the canvas, in the same transaction as adding/removing them from the canvas.
+   * @param {'group' | 'ungroup'} type
+   * @param {Group} target
+   * @param {FabricObject[]} objects
+   */
+  recordGrouping(
+    type: 'group' | 'ungroup',
+    target: Group,
+    objects: FabricObject[]
+  ) {
+    this.record({ type, target, objects: [...objects] });
+  }
+
+  /**
+   * @private
+   * Called by the canvas after an object was added
+   */
+  _onObjectAdded(target: FabricObject) {
+    const index = this.canvas._objects.indexOf(target);
+    this.stack.splice(index, 0, target);
+    this.track(target);
+    this.record({ type: 'add', target, index });
+  }
+
+  /**
+   * @private
+   * Called by the canvas after an object was removed
+   */
+  _onObjectRemoved(target: FabricObject) {
+    const index = this.stack.indexOf(target);
+    if (index === -1) {
+      return;
+    }
+    this.stack.splice(index, 1);
+    this.record({ type: 'remove', target, index });
+  }
+
+  /**
+   * @private
+   * Called by the canvas after an object was moved in the stack
+   */
+  _onStackOrderChanged(target: FabricObject) {
+    const from = this.stack.indexOf(target),
+      to = this.canvas._objects.indexOf(target);
+    this.stack = [...this.canvas._objects];
+    from !== to && this.record({ type: 'stack', target, from, to });
+  }
+
+  /**
+   * @private
+   */
+  private record(change: THistoryChange) {
+    if (this.applying) {
+      return;
+    }
+    if (this.pending) {
+      this.pending.push(change);
+    } else {
+      this.commit([change]);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private commit(entry: THistoryEntry) {
+    this.undoStack.push(entry);
+    this.limit > 0 &&
+      this.undoStack.length > this.limit &&
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    this.redoStack = [];
+    this.fireChanged();
+  }
+
+  /**
+   * Starts collecting changes into a single history entry, until the matching {@link endTransaction} call.
+   * Transactions can be nested, only the outermost one commits.
+   */
+  startTransaction() {
+    this.transactionDepth++ === 0 && (this.pending = []);
+  }
+
+  /**
+   * Ends a transaction started by {@link startTransaction}
+   */
+  endTransaction() {
+    if (this.transactionDepth === 0 || --this.transactionDepth > 0) {
+      return;
+    }
+    const entry = this.pending;
+    this.pending = undefined;
+    entry && entry.length > 0 && this.commit(entry);
+  }
+
+  /**
+   * Runs `callback` in a transaction so that all changes it performs are undone/redone as a single entry
+   * @param {Function} callback
+   * @returns the return value of `callback`
+   */
+  transaction<T>(callback: () => T): T {
+    this.startTransaction();
+    try {
+      return callback();
+    } finally {
+      this.endTransaction();
+    }
+  }
+
+  canUndo() {
+    return this.undoStack.length > 0 && this.transactionDepth === 0;
+  }
+
+  canRedo() {
+    return this.redoStack.length > 0 && this.transactionDepth === 0;
+  }
+
+  /**
+   * Reverts the last entry
+   * @returns {boolean} true if an entry was reverted
+   */
+  undo() {
+    const entry = this.canUndo() && this.undoStack.pop();
+    if (!entry) {
+      return false;
+    }
+    this.apply(entry, true);
+    this.redoStack.push(entry);
+    this.canvas.fire('history:undo', { changes: entry });
+    this.fireChanged();
+    return true;
+  }
+
+  /**
+   * Reapplies the last reverted entry
+   * @returns {boolean} true if an entry was reapplied
+   */
+  redo() {
+    const entry = this.canRedo() && this.redoStack.pop();
+    if (!entry) {
+      return false;
+    }
+    this.apply(entry, false);
+    this.undoStack.push(entry);
+    this.canvas.fire('history:redo', { changes: entry });
+    this.fireChanged();
+    return true;
+  }
+
+  /**
+   * @private
+   * @param {THistoryEntry} entry
+   * @param {boolean} revert true to undo the entry
+   */
+  private apply(entry: THistoryEntry, revert: boolean) {
+    const canvas = this.canvas,
+      activeObject = canvas.getActiveObject();
+    // modifications are recorded in the canvas plane, the active selection must be released first
+    activeObject &&
+      entry.some(({ target }) => target.group === activeObject) &&
+      canvas.discardActiveObject();
+    this.applying = true;
+    try {
+      (revert ? [...entry].reverse() : entry).forEach((change) => {
+        const { target } = change;
+        switch (change.type) {
+          case 'add':
+          case 'remove':
+            (change.type === 'add') === revert
+              ? canvas.remove(target)
+              : canvas.insertAt(change.index, target);
+            break;
+          case 'stack':
+            canvas.moveObjectTo(target, revert ? change.from : change.to);
+            break;
+          case 'modify':
+            target.set(cloneState(revert ? change.before : change.after));
+            target.setCoords();
+            this.track(target);
+            break;
+          case 'group':
+          case 'ungroup':
+            (change.type === 'group') === revert
+              ? change.target.remove(...change.objects)
+              : change.target.add(...change.objects);
+            change.objects.forEach((object) => object.setCoords());
+            break;
+        }
+      });
+    } finally {
+      this.applying = false;
+    }
+    canvas.requestRenderAll();
+  }
+
+  /**
+   * @private
+   */
+  private fireChanged() {
+    this.canvas.fire('history:changed', {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+    });
+  }
+
+  /**
+   * @private
+   * syncs state with the canvas
+   */
+  private reset() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.stack = [...this.canvas._objects];
+    this.states = new WeakMap();
+    this.stack.forEach((object) => this.track(object));
+  }
+
+  /**
+   * Clears all entries, the current state of the canvas becomes the initial state
+   */
+  clear() {
+    this.reset();
+    this.fireChanged();
+  }
+
+  /**
+   * Stops recording and detaches from the canvas
+   */
+  dispose() {
+    this.__disposer();
+    // @ts-expect-error disposing
+    delete this.__disposer;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.stack = [];
+    this.canvas.history === this && delete this.canvas.history;
+  }
+}
@@ -5,6 +5,8 @@ import type { ModifierKey, TOptionalModifierKey } from '../EventTypeDefs';
 import type { ActiveSelection } from '../shapes/ActiveSelection';
 import type { TOptions } from '../typedefs';
 import type { StaticCanvasOptions } from './StaticCanvasOptions';
+import type { TGridType } from './GridManager';
+import type { TWheelNavigation } from './ViewportManager';
 
 export interface CanvasTransformOptions {
   /**
@@ -134,11 +136,291 @@ export interface CanvasSelectionOptions {
   selectionLineWidth: number;
 
   /**
-   * Select only shapes that are fully contained in the dragged selection rectangle.
+   * Select only shapes that are fully contained in the dragged selection rectangle or lasso.
    * @type Boolean
    * @default
    */
   selectionFullyContained: boolean;
+
+  /**
+   * Shape of the area dragged to select objects:
+   * - `rect`: a rectangle from the pointer down position to the current pointer
+   * - `lasso`: a freeform polygon following the pointer
+   * @type String
+   * @default
+   */
+  selectionMode: 'rect' | 'lasso';
+}
+
+export interface CanvasSnappingOptions {
+  /**
+   * When true, objects dragged or scaled by the user snap to the edges and centers
+   * of other objects and of the visible canvas area, alignment guides are rendered while snapped.
+   * Objects can opt out with {@link FabricObject#excludeFromSnapping}
+   * @type Boolean
+   * @default
+   */
+  objectSnapping: boolean;
+
+  /**
+   * Distance in pixels under which an object snaps
+   * @type Number
+   * @default
+   */
+  snapTolerance: number;
+
+  /**
+   * Color of the alignment guides
+   * @type String
+   * @default
+   */
+  snapGuideColor: string;
+
+  /**
+   * Width of the alignment guides in pixels
+   * @type Number
+   * @default
+   */
+  snapGuideWidth: number;
+}
+
+export interface CanvasGridOptions {
+  /**
+   * When true, a grid is rendered below objects.
+   * The grid is not part of exported images, it is exported to SVG only if requested.
+   * @type Boolean
+   * @default
+   */
+  showGrid: boolean;
+
+  /**
+   * Grid made of `lines` or of `dots` at lines intersections
+   * @type TGridType
+   * @default lines
+   */
+  gridType: TGridType;
+
+  /**
+   * Size of a grid cell, the grid unit, in the canvas coordinate plane
+   * @type Number
+   * @default
+   */
+  gridSize: number;
+
+  /**
+   * Number of cells between lines of the major grid, `0` disables the major grid
+   * @type Number
+   * @default
+   */
+  gridMajorInterval: number;
+
+  /**
+   * Color of the minor grid
+   * @type String
+   * @default
+   */
+  gridColor: string;
+
+  /**
+   * Color of the major grid
+   * @type String
+   * @default
+   */
+  gridMajorColor: string;
+
+  /**
+   * When true, objects positions, sizes and polygon points snap to grid units during transforms
+   * and free drawing snaps the pointer to the grid.
+   * Snapping to objects, see {@link objectSnapping}, takes precedence.
+   * @type Boolean
+   * @default
+   */
+  snapToGrid: boolean;
+}
+
+export interface CanvasRulerOptions {
+  /**
+   * When true, rulers tracking the viewport are rendered along the top and left edges of the canvas.
+   * Guides are created by dragging them out of the rulers.
+   * @type Boolean
+   * @default
+   */
+  showRulers: boolean;
+
+  /**
+   * Thickness of the rulers in pixels
+   * @type Number
+   * @default
+   */
+  rulerSize: number;
+
+  /**
+   * Background color of the rulers
+   * @type String
+   * @default
+   */
+  rulerBackgroundColor: string;
+
+  /**
+   * Color of the ticks and labels of the rulers
+   * @type String
+   * @default
+   */
+  rulerColor: string;
+
+  /**
+   * Font of the labels of the rulers
+   * @type String
+   * @default
+   */
+  rulerFont: string;
+
+  /**
+   * Color of guides
+   * @type String
+   * @default
+   */
+  guideColor: string;
+
+  /**
+   * Distance in pixels from a guide within which the pointer hits the guide
+   * @type Number
+   * @default
+   */
+  guideHitTolerance: number;
+
+  /**
+   * When true, objects dragged or scaled by the user snap to guides.
+   * Uses {@link snapTolerance}.
+   * @type Boolean
+   * @default
+   */
+  snapToGuides: boolean;
+}
+
+export interface CanvasKeyboardOptions {
+  /**
+   * When true, the canvas performs the keyboard commands of {@link KeyboardManager},
+   * such as nudging, deleting and grouping the selected objects.
+   * Key events are handled only if the upper canvas element is focusable, see {@link KeyboardManager}
+   * @type Boolean
+   * @default
+   */
+  keyboardCommands: boolean;
+
+  /**
+   * Distance objects are moved by arrow keys, in the canvas coordinate plane
+   * @type Number
+   * @default
+   */
+  nudgeStep: number;
+
+  /**
+   * Distance objects are moved by arrow keys while shift is pressed, in the canvas coordinate plane
+   * @type Number
+   * @default
+   */
+  largeNudgeStep: number;
+}
+
+export interface CanvasClipboardOptions {
+  /**
+   * When true, the canvas handles the `copy`, `cut` and `paste` events of its upper canvas element
+   * using {@link ClipboardManager}.
+   * The upper canvas element must be focusable to receive them.
+   * @type Boolean
+   * @default
+   */
+  clipboardCommands: boolean;
+
+  /**
+   * Offset of pasted objects from the copied objects, growing with each paste of the same objects,
+   * in the canvas coordinate plane
+   * @type Number
+   * @default
+   */
+  pasteOffset: number;
+}
+
+export interface CanvasGestureOptions {
+  /**
+   * When true, touch and pen pointers perform the gestures of {@link GestureManager}:
+   * tap, double tap, long press, pinch-rotate-scale of the active object and pinch-zoom/pan of the viewport
+   * @type Boolean
+   * @default
+   */
+  enableGestures: boolean;
+
+  /**
+   * Maximum delay in ms between 2 taps of a double tap
+   * @type Number
+   * @default
+   */
+  doubleTapDelay: number;
+
+  /**
+   * Delay in ms a pointer has to be pressed without moving to perform a long press
+   * @type Number
+   * @default
+   */
+  longPressDelay: number;
+
+  /**
+   * Distance in pixels a pointer can move while still performing a tap or a long press
+   * @type Number
+   * @default
+   */
+  tapTolerance: number;
+}
+
+export interface CanvasViewportOptions {
+  /**
+   * How the wheel navigates the viewport using {@link ViewportManager}:
+   * 'none', 'zoom' around the pointer or 'pan', zooming while ctrl or meta is pressed and on trackpad pinches.
+   * A handler of `mouse:wheel` calling `preventDefault` on the event takes precedence.
+   * @type TWheelNavigation
+   * @default
+   */
+  wheelNavigation: TWheelNavigation;
+
+  /**
+   * Minimum zoom applied by {@link ViewportManager}
+   * @type Number
+   * @default
+   */
+  minZoom: number;
+
+  /**
+   * Maximum zoom applied by {@link ViewportManager}
+   * @type Number
+   * @default
+   */
+  maxZoom: number;
+
+  /**
+   * When true, {@link ViewportManager} limits panning to the bounds of the objects:
+   * objects smaller than the canvas stay within it, objects larger than the canvas cover it
+   * @type Boolean
+   * @default
+   */
+  limitPanToContent: boolean;
+
+  /**
+   * Indicates which key enables panning the viewport by dragging.
+   * values: 'altKey', 'shiftKey', 'ctrlKey', 'metaKey'.
+   * If `null` or 'none' or any other string that is not a modifier key
+   * feature is disabled.
+   * @type ModifierKey
+   * @default
+   */
+  panKey: TOptionalModifierKey;
+
+  /**
+   * Duration in ms of the inertial panning after releasing a moving pan, 0 disables it
+   * @type Number
+   * @default
+   */
+  panInertia: number;
 }
 
 export interface CanvasCursorOptions {
@@ -243,6 +525,13 @@ export interface CanvasOptions
   extends StaticCanvasOptions,
     CanvasTransformOptions,
     CanvasSelectionOptions,
+    CanvasSnappingOptions,
+    CanvasGridOptions,
+    CanvasRulerOptions,
+    CanvasKeyboardOptions,
+    CanvasClipboardOptions,
+    CanvasGestureOptions,
+    CanvasViewportOptions,
     CanvasCursorOptions,
     TargetFindOptions,
     CanvasEventsOptions {
@@ -282,6 +571,48 @@ export const canvasDefaults: TOptions<CanvasOptions> = {
   selectionBorderColor: 'rgba(255, 255, 255, 0.3)',
   selectionLineWidth: 1,
   selectionFullyContained: false,
+  selectionMode: 'rect',
+
+  objectSnapping: false,
+  snapTolerance: 5,
+  snapGuideColor: 'rgb(255, 0, 120)',
+  snapGuideWidth: 1,
+
+  showGrid: false,
+  gridType: 'lines',
+  gridSize: 10,
+  gridMajorInterval: 5,
+  gridColor: 'rgba(0, 0, 0, 0.08)',
+  gridMajorColor: 'rgba(0, 0, 0, 0.2)',
+  snapToGrid: false,
+
+  showRulers: false,
+  rulerSize: 20,
+  rulerBackgroundColor: 'rgb(245, 245, 245)',
+  rulerColor: 'rgb(120, 120, 120)',
+  rulerFont: '9px sans-serif',
+  guideColor: 'rgb(0, 160, 255)',
+  guideHitTolerance: 4,
+  snapToGuides: true,
+
+  keyboardCommands: false,
+  nudgeStep: 1,
+  largeNudgeStep: 10,
+
+  clipboardCommands: false,
+  pasteOffset: 10,
+
+  enableGestures: false,
+  doubleTapDelay: 300,
+  longPressDelay: 500,
+  tapTolerance: 10,
+
+  wheelNavigation: 'none',
+  minZoom: 0.01,
+  maxZoom: 100,
+  limitPanToContent: false,
+  panKey: null,
+  panInertia: 400,
 
   hoverCursor: 'move',
   moveCursor: 'move',
@@ -0,0 +1,287 @@
+import { config } from '../config';
+import { VERSION } from '../constants';
+import { getEnv } from '../env';
+import { log } from '../util/internals/console';
+import { loadSVGFromString } from '../parser/loadSVGFromString';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { TBBox } from '../typedefs';
+import { isCollection } from '../util/typeAssertions';
+import { makeBoundingBoxFromPoints } from '../util/misc/boundingBoxFromPoints';
+import { enlivenObjects } from '../util/misc/objectEnlive';
+import { toFixed } from '../util/misc/toFixed';
+import type { Canvas } from './Canvas';
+
+export const CLIPBOARD_FORMAT = 'fabric/objects';
+
+/**
+ * Objects copied by a {@link ClipboardManager}, serialized in the canvas coordinate plane
+ */
+export type TClipboardData = {
+  format: typeof CLIPBOARD_FORMAT;
+  version: string;
+  objects: ReturnType<FabricObject['toObject']>[];
+};
+
+/**
+ * @private
+ * @returns `text` parsed if it is clipboard data
+ */
+const parseClipboardData = (text?: string): TClipboardData | undefined => {
+  if (!text) {
+    return;
+  }
+  try {
+    const data = JSON.parse(text);
+    return data &&
+      data.format === CLIPBOARD_FORMAT &&
+      Array.isArray(data.objects)
+      ? data
+      : undefined;
+  } catch (error) {
+    return;
+  }
+};
+
+/**
+ * @private
+ * @returns true if `text` is svg markup
+ */
+const isSVG = (text?: string): text is string =>
+  !!text && /^\s*(<\?xml[^>]*>\s*)?(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(text);
+
+/**
+ * @private
+ * Moves `object` by `offset`, including absolutely positioned clip paths of it and of its descendants
+ */
+const offsetObject = (
+  object: FabricObject,
+  offset: number,
+  isChild = false
+) => {
+  !isChild &&
+    object.set({ left: object.left + offset, top: object.top + offset });
+  const clipPath = object.clipPath;
+  clipPath?.absolutePositioned &&
+    clipPath.set({
+      left: clipPath.left + offset,
+      top: clipPath.top + offset,
+    });
+  isCollection(object) &&
+    object.forEachObject((child) => offsetObject(child, offset, true));
+  object.setCoords();
+};
+
+/**
+ * In charge of copying, cutting and pasting objects of a {@link Canvas}.
+ *
+ * Copied objects are kept in the clipboard of the fabric env, see {@link TCopyPasteData},
+ * so that they can be pasted in any canvas.
+ * When called with a clipboard event the objects are written to the system clipboard as well,
+ * as JSON (`application/fabric` and `text/plain`) and as SVG (`image/svg+xml`).
+ * Pasting reads the system clipboard first, accepting JSON copied by fabric and SVG markup.
+ *
+ * The canvas handles clipboard events of its upper canvas element if {@link Canvas#clipboardCommands} is enabled.
+ *
+ * @example
+ * document.addEventListener('copy', (e) => canvas.clipboardManager.copy(e));
+ * document.addEventListener('paste', (e) => canvas.clipboardManager.paste(e));
+ */
+export class ClipboardManager {
+  declare readonly canvas: Canvas;
+
+  /**
+   * Additional properties to serialize when copying objects
+   */
+  propertiesToInclude: string[] = [];
+
+  /**
+   * the objects pasted last and the number of times they were pasted, used to offset successive pastes
+   */
+  private declare lastPasted?: { key: string; count: number };
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @private
+   * @returns the selected objects ordered by their stack index
+   */
+  private getSelectedObjects() {
+    const activeObjects = this.canvas.getActiveObjects();
+    return this.canvas
+      .getObjects()
+      .filter((object) => activeObjects.includes(object));
+  }
+
+  /**
+   * Serializes `objects` in the canvas coordinate plane
+   * @param {FabricObject[]} objects objects of the canvas, possibly selected
+   * @returns {{ data: TClipboardData, svg: string }}
+   */
+  serialize(objects: FabricObject[]) {
+    const canvas = this.canvas,
+      NUM_FRACTION_DIGITS = config.NUM_FRACTION_DIGITS,
+      n = (value: number) => toFixed(value, NUM_FRACTION_DIGITS),
+      serialized: ReturnType<FabricObject['toObject']>[] = [],
+      markup: string[] = [];
+    let bbox: TBBox | undefined;
+    objects.forEach((object) => {
+      // objects of the active selection are in its coordinate plane,
+      // once realized `getCoords` would apply the transform of the selection twice
+      const original = canvas._realizeGroupTransformOnObject(object),
+        { tl, tr, br, bl } = object.calcACoords(),
+        rect = makeBoundingBoxFromPoints([tl, tr, br, bl]);
+      serialized.push(object.toObject(this.propertiesToInclude));
+      markup.push(object.toSVG());
+      object.set(original);
+      bbox = bbox
+        ? {
+            left: Math.min(bbox.left, rect.left),
+            top: Math.min(bbox.top, rect.top),
+            width:
+              Math.max(bbox.left + bbox.width, rect.left + rect.width) -
+              Math.min(bbox.left, rect.left),
+            height:
+              Math.max(bbox.top + bbox.height, rect.top + rect.height) -
+              Math.min(bbox.top, rect.top),
+          }
+        : rect;
+    });
+    const { left, top, width, height } = bbox || {
+      left: 0,
+      top: 0,
+      width: 0,
+      height: 0,
+    };
+    return {
+      data: {
+        format: CLIPBOARD_FORMAT,
+        version: VERSION,
+        objects: serialized,
+      } as TClipboardData,
+      svg: [
+        '<svg xmlns="http://www.w3.org/2000/svg" ',
+        'xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1" ',
+        `width="${n(width)}" height="${n(height)}" `,
+        `viewBox="${n(left)} ${n(top)} ${n(width)} ${n(height)}">\n`,
+        ...markup,
+        '</svg>',
+      ].join(''),
+    };
+  }
+
+  /**
+   * Copies the selected objects
+   * @param {ClipboardEvent} [e] clipboard event to write the objects to the system clipboard
+   * @returns {boolean} true if objects were copied
+   */
+  copy(e?: ClipboardEvent) {
+    const objects = this.getSelectedObjects();
+    if (objects.length === 0) {
+      return false;
+    }
+    const { data, svg } = this.serialize(objects),
+      json = JSON.stringify(data);
+    getEnv().copyPasteData.copiedObjects = data;
+    if (e && e.clipboardData) {
+      e.clipboardData.setData('application/fabric', json);
+      e.clipboardData.setData('text/plain', json);
+      e.clipboardData.setData('image/svg+xml', svg);
+      e.preventDefault();
+    }
+    return true;
+  }
+
+  /**
+   * Copies and removes the selected objects
+   * @param {ClipboardEvent} [e] clipboard event to write the objects to the system clipboard
+   * @returns {boolean} true if objects were cut
+   */
+  cut(e?: ClipboardEvent) {
+    const objects = this.getSelectedObjects();
+    if (!this.copy(e)) {
+      return false;
+    }
+    this.canvas.discardActiveObject();
+    this.canvas.remove(...objects);
+    this.canvas.requestRenderAll();
+    return true;
+  }
+
+  /**
+   * @private
+   * @returns the objects of the system clipboard or of the clipboard of the fabric env
+   */
+  private read(e?: ClipboardEvent): TClipboardData | string | undefined {
+    const clipboardData = e && e.clipboardData;
+    if (!clipboardData) {
+      return getEnv().copyPasteData.copiedObjects;
+    }
+    const text = clipboardData.getData('text/plain'),
+      svg = clipboardData.getData('image/svg+xml');
+    return (
+      parseClipboardData(clipboardData.getData('application/fabric')) ||
+      parseClipboardData(text) ||
+      (isSVG(svg) ? svg : isSVG(text) ? text : undefined)
+    );
+  }
+
+  /**
+   * @private
+   * @returns the objects of `source`, none if it can't be enlivened,
+   * since the system clipboard can hold data of unknown classes or malformed markup
+   */
+  private async enliven(source: TClipboardData | string) {
+    try {
+      if (typeof source === 'string') {
+        const { objects } = await loadSVGFromString(source);
+        return objects.filter((object): object is FabricObject => !!object);
+      }
+      return await enlivenObjects<FabricObject>(source.objects);
+    } catch (error) {
+      log('error', error);
+      return [];
+    }
+  }
+
+  /**
+   * Pastes objects and selects them.
+   * Pasting the same objects again offsets them by {@link Canvas#pasteOffset} from the previous paste.
+   * @param {ClipboardEvent} [e] clipboard event to read the objects from the system clipboard
+   * @returns {Promise<FabricObject[]>} the pasted objects
+   */
+  async paste(e?: ClipboardEvent) {
+    const source = this.read(e);
+    if (!source) {
+      return [];
+    }
+    e && e.preventDefault();
+    const objects = await this.enliven(source);
+    if (objects.length === 0) {
+      return objects;
+    }
+    const canvas = this.canvas;
+    if (typeof source !== 'string') {
+      // data read from the system clipboard is parsed on each paste, compare it by value
+      const key = JSON.stringify(source.objects),
+        lastPasted =
+          this.lastPasted?.key === key
+            ? this.lastPasted
+            : (this.lastPasted = { key, count: 0 }),
+        offset = ++lastPasted.count * canvas.pasteOffset;
+      objects.forEach((object) => offsetObject(object, offset));
+    }
+    canvas.discardActiveObject();
+    canvas.add(...objects);
+    if (objects.length > 1) {
+      const activeSelection = canvas.getActiveSelection();
+      activeSelection.add(...objects);
+      canvas.setActiveObject(activeSelection);
+    } else {
+      canvas.setActiveObject(objects[0]);
+    }
+    canvas.requestRenderAll();
+    return objects;
+  }
+}
@@ -0,0 +1,415 @@
+import { CENTER } from '../constants';
+import { fireEvent } from '../controls/fireEvent';
+import type { ScaleTransform } from '../controls/scale';
+import { scalingEqually } from '../controls/scale';
+import type {
+  TouchGestureEvent,
+  TouchTapEvent,
+  Transform,
+} from '../EventTypeDefs';
+import { Point } from '../Point';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { TMat2D } from '../typedefs';
+import {
+  createScaleMatrix,
+  createTranslateMatrix,
+  invertTransform,
+  multiplyTransformMatrixArray,
+} from '../util/misc/matrix';
+import { radiansToDegrees } from '../util/misc/radiansDegreesConversion';
+import { calcVectorRotation, createVector } from '../util/misc/vectors';
+import type { Canvas } from './Canvas';
+
+type TTapState = {
+  pointerId: number;
+  e: PointerEvent;
+  start: Point;
+  target?: FabricObject;
+  timer: ReturnType<typeof setTimeout>;
+  longPressed: boolean;
+};
+
+type TGestureState = {
+  /**
+   * the transformed object, the viewport is transformed if undefined
+   */
+  target?: FabricObject;
+  start: { center: Point; distance: number; vpt: TMat2D };
+  /**
+   * state of {@link target} when the gesture started
+   */
+  original?: { center: Point; angle: number };
+  lastAngle: number;
+  /**
+   * accumulated rotation in radians, tracked continuously so that it doesn't wrap around
+   */
+  rotation: number;
+};
+
+/**
+ * @private
+ * @returns `angle` normalized to [-PI, PI]
+ */
+const normalizeAngle = (angle: number) =>
+  angle - Math.round(angle / (2 * Math.PI)) * 2 * Math.PI;
+
+/**
+ * Recognizes gestures of touch and pen pointers of a {@link Canvas}, enabled by {@link Canvas#enableGestures}.
+ * Built on Pointer Events, the mouse is ignored.
+ *
+ * - tap, double tap and long press fire `touch:tap`, `touch:doubletap` and `touch:longpress`
+ * - 2 pointers pinch, rotate and move the active object if the gesture starts on it,
+ * otherwise they zoom and pan the viewport.
+ * They fire `touch:gesture:start`, `touch:gesture` and `touch:gesture:end`.
+ *
+ * A gesture takes over the interaction started by the main pointer.
+ * The object transform it performs fires the regular modification events and is finalized when the main pointer is released.
+ * The upper canvas element must not let the browser handle touches, see {@link Canvas#allowTouchScrolling}.
+ */
+export class GestureManager {
+  declare readonly canvas: Canvas;
+
+  /**
+   * positions of the active pointers in the viewport
+   */
+  private pointers = new Map<number, Point>();
+
+  private declare tap?: TTapState;
+
+  private declare lastTap?: { point: Point; time: number };
+
+  private declare gesture?: TGestureState;
+
+  /**
+   * true from the start of a gesture until all of its pointers are released
+   */
+  private gesturing = false;
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @returns true if a gesture is performed, the main pointer should then be ignored
+   */
+  isGesturing() {
+    return this.gesturing;
+  }
+
+  /**
+   * Handles pointer events of the upper canvas element
+   * @param {PointerEvent} e `pointerdown`, `pointermove`, `pointerup` or `pointercancel` event
+   * @returns {boolean} true if `e` is part of a gesture
+   */
+  handleEvent(e: PointerEvent) {
+    if (!this.canvas.enableGestures || e.pointerType === 'mouse') {
+      return false;
+    }
+    switch (e.type) {
+      case 'pointerdown':
+        this.onPointerDown(e);
+        break;
+      case 'pointermove':
+        this.onPointerMove(e);
+        break;
+      case 'pointerup':
+      case 'pointercancel':
+        this.onPointerUp(e);
+        break;
+    }
+    return this.gesturing;
+  }
+
+  /**
+   * @private
+   */
+  private onPointerDown(e: PointerEvent) {
+    const point = this.canvas.getPointer(e, true);
+    this.pointers.set(e.pointerId, point);
+    if (this.pointers.size === 1 && !this.gesturing) {
+      this.tap = {
+        pointerId: e.pointerId,
+        e,
+        start: point,
+        target: this.canvas.findTarget(e),
+        timer: setTimeout(() => this.onLongPress(), this.canvas.longPressDelay),
+        longPressed: false,
+      };
+    } else if (this.pointers.size === 2) {
+      this.startGesture(e);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private onPointerMove(e: PointerEvent) {
+    if (!this.pointers.has(e.pointerId)) {
+      return;
+    }
+    const point = this.canvas.getPointer(e, true);
+    this.pointers.set(e.pointerId, point);
+    const tap = this.tap;
+    if (
+      tap &&
+      tap.pointerId === e.pointerId &&
+      point.distanceFrom(tap.start) > this.canvas.tapTolerance
+    ) {
+      this.cancelTap();
+    }
+    this.gesture && this.updateGesture(e, this.gesture);
+  }
+
+  /**
+   * @private
+   */
+  private onPointerUp(e: PointerEvent) {
+    if (!this.pointers.has(e.pointerId)) {
+      return;
+    }
+    // the gesture is performed by the first 2 pointers
+    this.gesture &&
+      Array.from(this.pointers.keys()).indexOf(e.pointerId) < 2 &&
+      this.endGesture(e, this.gesture);
+    this.pointers.delete(e.pointerId);
+    const tap = this.tap;
+    if (tap && tap.pointerId === e.pointerId) {
+      this.cancelTap();
+      !tap.longPressed && e.type === 'pointerup' && this.onTap(e, tap);
+    }
+    this.pointers.size === 0 && (this.gesturing = false);
+  }
+
+  /**
+   * @private
+   */
+  private cancelTap() {
+    this.tap && clearTimeout(this.tap.timer);
+    this.tap = undefined;
+  }
+
+  /**
+   * @private
+   */
+  private createTapEvent(
+    e: PointerEvent,
+    target?: FabricObject
+  ): TouchTapEvent {
+    const pointer = this.canvas.getPointer(e, true);
+    return {
+      e,
+      target,
+      pointer,
+      absolutePointer: this.canvas.restorePointerVpt(pointer),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private onTap(e: PointerEvent, { start, target }: TTapState) {
+    const canvas = this.canvas,
+      lastTap = this.lastTap,
+      time = Date.now();
+    canvas.fire('touch:tap', this.createTapEvent(e, target));
+    if (
+      lastTap &&
+      time - lastTap.time <= canvas.doubleTapDelay &&
+      start.distanceFrom(lastTap.point) <= canvas.tapTolerance
+    ) {
+      this.lastTap = undefined;
+      canvas.fire('touch:doubletap', this.createTapEvent(e, target));
+    } else {
+      this.lastTap = { point: start, time };
+    }
+  }
+
+  /**
+   * @private
+   */
+  private onLongPress() {
+    const tap = this.tap;
+    if (!tap) {
+      return;
+    }
+    tap.longPressed = true;
+    this.lastTap = undefined;
+    this.canvas.fire('touch:longpress', this.createTapEvent(tap.e, tap.target));
+  }
+
+  /**
+   * @private
+   * @returns center, distance and angle of the first 2 pointers
+   */
+  private getPinch() {
+    const [a, b] = Array.from(this.pointers.values()),
+      vector = createVector(a, b);
+    return {
+      center: a.midPointFrom(b),
+      distance: a.distanceFrom(b),
+      angle: calcVectorRotation(vector),
+    };
+  }
+
+  /**
+   * @private
+   * @returns the gesture data of the current state
+   */
+  private getGestureInfo(
+    e: PointerEvent,
+    { target, start, rotation }: TGestureState
+  ): TouchGestureEvent {
+    const { center, distance } = this.getPinch();
+    return {
+      e,
+      target,
+      center,
+      scale: start.distance > 0 ? distance / start.distance : 1,
+      rotation: radiansToDegrees(rotation),
+      translation: center.subtract(start.center),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private startGesture(e: PointerEvent) {
+    const canvas = this.canvas,
+      { center, distance, angle } = this.getPinch(),
+      activeObject = canvas.getActiveObject(),
+      transform = canvas._currentTransform,
+      target =
+        activeObject &&
+        (transform?.target === activeObject ||
+          Array.from(this.pointers.values()).some((point) =>
+            activeObject.containsPoint(point)
+          ))
+          ? activeObject
+          : undefined;
+    this.cancelTap();
+    this.lastTap = undefined;
+    this.gesturing = true;
+    canvas.viewportManager.stop();
+    if (target) {
+      // take over the transform started by the main pointer
+      (transform && transform.target === target) ||
+        canvas._setupCurrentTransform(e, target, true);
+      Object.assign(canvas._currentTransform as Transform, {
+        action: 'gesture',
+        originX: CENTER,
+        originY: CENTER,
+        scaleX: target.scaleX,
+        scaleY: target.scaleY,
+      });
+    }
+    const gesture: TGestureState = {
+      target,
+      start: { center, distance, vpt: [...canvas.viewportTransform] },
+      original: target && {
+        center: target.getRelativeCenterPoint(),
+        angle: target.angle,
+      },
+      lastAngle: angle,
+      rotation: 0,
+    };
+    this.gesture = gesture;
+    canvas.fire('touch:gesture:start', this.getGestureInfo(e, gesture));
+  }
+
+  /**
+   * @private
+   */
+  private updateGesture(e: PointerEvent, gesture: TGestureState) {
+    const { angle } = this.getPinch();
+    gesture.rotation += normalizeAngle(angle - gesture.lastAngle);
+    gesture.lastAngle = angle;
+    const info = this.getGestureInfo(e, gesture);
+    gesture.target
+      ? this.transformObject(e, info, gesture)
+      : this.transformViewport(info, gesture);
+    this.canvas.fire('touch:gesture', info);
+  }
+
+  /**
+   * @private
+   */
+  private endGesture(e: PointerEvent, gesture: TGestureState) {
+    const info = this.getGestureInfo(e, gesture);
+    this.gesture = undefined;
+    this.canvas.fire('touch:gesture:end', info);
+  }
+
+  /**
+   * @private
+   * Zooms the viewport around the gesture center and pans it by the gesture translation,
+   * within the limits of {@link Canvas#viewportManager}
+   */
+  private transformViewport(
+    { center, scale }: TouchGestureEvent,
+    { start }: TGestureState
+  ) {
+    this.canvas.viewportManager.setViewportTransform(
+      multiplyTransformMatrixArray([
+        createTranslateMatrix(center.x, center.y),
+        createScaleMatrix(scale),
+        createTranslateMatrix(-start.center.x, -start.center.y),
+        start.vpt,
+      ]),
+      center
+    );
+  }
+
+  /**
+   * @private
+   * Scales and rotates the target around its center and moves it by the gesture translation
+   */
+  private transformObject(
+    e: PointerEvent,
+    { scale, rotation, translation }: TouchGestureEvent,
+    { target, original }: TGestureState
+  ) {
+    const canvas = this.canvas,
+      transform = canvas._currentTransform;
+    if (!target || !original || !transform || transform.target !== target) {
+      return;
+    }
+    const pointer = canvas.getPointer(e),
+      options = { e, transform, pointer };
+    (transform as ScaleTransform).gestureScale = scale;
+    target._scaling = true;
+    scalingEqually(e, transform, pointer.x, pointer.y);
+    if (!target.lockRotation) {
+      target.rotate(original.angle + rotation);
+      fireEvent('rotating', options);
+    }
+    const delta = translation.transform(
+      invertTransform(canvas.viewportTransform),
+      true
+    );
+    target.setPositionByOrigin(
+      original.center.add(
+        new Point(
+          target.lockMovementX ? 0 : delta.x,
+          target.lockMovementY ? 0 : delta.y
+        )
+      ),
+      CENTER,
+      CENTER
+    );
+    target.setCoords();
+    fireEvent('moving', options);
+    transform.actionPerformed = true;
+    canvas.requestRenderAll();
+  }
+
+  /**
+   * Cancels pending taps and forgets the active pointers
+   */
+  clear() {
+    this.cancelTap();
+    this.pointers.clear();
+    this.lastTap = undefined;
+    this.gesture = undefined;
+    this.gesturing = false;
+  }
+}
@@ -0,0 +1,255 @@
+import { config } from '../config';
+import { Point } from '../Point';
+import type { TBBox } from '../typedefs';
+import { toFixed } from '../util/misc/toFixed';
+import type { Canvas } from './Canvas';
+import type { TSVGExportOptions } from './StaticCanvas';
+
+/**
+ * Minimum distance in pixels between rendered lines/dots of the minor grid,
+ * below it only the major grid is rendered
+ */
+const MIN_CELL_SIZE = 4;
+
+export type TGridType = 'lines' | 'dots';
+
+/**
+ * Canvas options serialized by `canvas.toObject(['grid'])`
+ */
+export const gridProperties = [
+  'showGrid',
+  'gridType',
+  'gridSize',
+  'gridMajorInterval',
+  'gridColor',
+  'gridMajorColor',
+  'snapToGrid',
+];
+
+type TGridLines = {
+  x: number[];
+  y: number[];
+};
+
+/**
+ * In charge of rendering the grid of a {@link Canvas} and of snapping values to it.
+ * Configured by the grid options of the canvas, see {@link Canvas#showGrid} and {@link Canvas#snapToGrid}.
+ * The grid is rendered below objects on the live canvas only, it is not part of exported images.
+ */
+export class GridManager {
+  declare readonly canvas: Canvas;
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @returns true if transforms and drawing snap to the grid
+   */
+  shouldSnap() {
+    return this.canvas.snapToGrid && this.canvas.gridSize > 0;
+  }
+
+  /**
+   * Rounds `value` to the closest grid unit
+   * @param {number} value a value in the canvas coordinate plane
+   * @returns {number}
+   */
+  snapValue(value: number) {
+    const size = this.canvas.gridSize;
+    return size > 0 ? Math.round(value / size) * size : value;
+  }
+
+  /**
+   * Rounds `point` to the closest grid intersection if {@link Canvas#snapToGrid} is enabled
+   * @param {Point} point a point in the canvas coordinate plane
+   * @returns {Point}
+   */
+  snapPoint(point: Point) {
+    return this.shouldSnap()
+      ? new Point(this.snapValue(point.x), this.snapValue(point.y))
+      : point;
+  }
+
+  /**
+   * @private
+   * @param {TBBox} area area to cover in the canvas coordinate plane
+   * @param {number} size distance between lines
+   * @param {number} [skip] skip lines that are multiple of this value
+   * @returns the values of lines of the grid in `area`
+   */
+  private getLines(
+    { left, top, width, height }: TBBox,
+    size: number,
+    skip = 0
+  ): TGridLines {
+    const getValues = (start: number, end: number) => {
+      const values: number[] = [];
+      for (let i = Math.ceil(start / size); i * size <= end; i++) {
+        (!skip || i % skip !== 0) && values.push(i * size);
+      }
+      return values;
+    };
+    return {
+      x: getValues(left, left + width),
+      y: getValues(top, top + height),
+    };
+  }
+
+  /**
+   * @private
+   * @returns the minor lines, excluding major ones, and the major lines to render in `area`,
+   * omitting lines that are too dense for the given `zoom`
+   */
+  private getGrid(area: TBBox, zoom: number) {
+    const { gridSize: size, gridMajorInterval: interval } = this.canvas,
+      major = interval > 0 ? size * interval : 0;
+    return {
+      minor:
+        size * zoom >= MIN_CELL_SIZE
+          ? this.getLines(area, size, interval > 0 ? interval : 0)
+          : undefined,
+      major:
+        major > 0 && major * zoom >= MIN_CELL_SIZE
+          ? this.getLines(area, major)
+          : undefined,
+    };
+  }
+
+  /**
+   * @private
+   * @returns the visible area of the canvas in the canvas coordinate plane
+   */
+  private getVisibleArea(): TBBox {
+    const { tl, br } = this.canvas.vptCoords;
+    return { left: tl.x, top: tl.y, width: br.x - tl.x, height: br.y - tl.y };
+  }
+
+  /**
+   * Renders the grid respecting the viewport transform
+   * @param {CanvasRenderingContext2D} ctx
+   */
+  render(ctx: CanvasRenderingContext2D) {
+    const {
+      showGrid,
+      gridSize,
+      gridType,
+      gridColor,
+      gridMajorColor,
+      viewportTransform: v,
+    } = this.canvas;
+    if (!showGrid || !(gridSize > 0)) {
+      return;
+    }
+    const zoom = this.canvas.getZoom(),
+      area = this.getVisibleArea(),
+      { minor, major } = this.getGrid(area, zoom);
+    ctx.save();
+    ctx.transform(v[0], v[1], v[2], v[3], v[4], v[5]);
+    (
+      [
+        [minor, gridColor, 1],
+        [major, gridMajorColor, 1.5],
+      ] as const
+    ).forEach(([lines, color, dotSize]) => {
+      if (!lines || !color) {
+        return;
+      }
+      // line width and dot size are in pixels
+      if (gridType === 'dots') {
+        const size = dotSize / zoom;
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        lines.x.forEach((x) =>
+          lines.y.forEach((y) =>
+            ctx.rect(x - size, y - size, size * 2, size * 2)
+          )
+        );
+        ctx.fill();
+      } else {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1 / zoom;
+        ctx.beginPath();
+        lines.x.forEach((x) => {
+          ctx.moveTo(x, area.top);
+          ctx.lineTo(x, area.top + area.height);
+        });
+        lines.y.forEach((y) => {
+          ctx.moveTo(area.left, y);
+          ctx.lineTo(area.left + area.width, y);
+        });
+        ctx.stroke();
+      }
+    });
+    ctx.restore();
+  }
+
+  /**
+   * Returns svg representation of the grid covering the exported area
+   * @param {TSVGExportOptions} [options]
+   * @returns {String} svg representation of the grid
+   */
+  toSVG({ viewBox }: TSVGExportOptions = {}) {
+    const { gridSize, gridType, gridColor, gridMajorColor } = this.canvas;
+    if (!(gridSize > 0)) {
+      return '';
+    }
+    const NUM_FRACTION_DIGITS = config.NUM_FRACTION_DIGITS,
+      area = viewBox
+        ? {
+            left: viewBox.x,
+            top: viewBox.y,
+            width: viewBox.width,
+            height: viewBox.height,
+          }
+        : this.getVisibleArea(),
+      zoom = viewBox ? 1 : this.canvas.getZoom(),
+      { minor, major } = this.getGrid(area, zoom),
+      n = (value: number) => toFixed(value, NUM_FRACTION_DIGITS),
+      markup = ['<g>\n'];
+    (
+      [
+        [minor, gridColor, 1],
+        [major, gridMajorColor, 1.5],
+      ] as const
+    ).forEach(([lines, color, dotSize]) => {
+      if (!lines || !color) {
+        return;
+      }
+      const d: string[] = [];
+      if (gridType === 'dots') {
+        const size = dotSize / zoom;
+        lines.x.forEach((x) =>
+          lines.y.forEach((y) =>
+            d.push(
+              `M ${n(x - size)} ${n(y - size)} h ${n(size * 2)} v ${n(
+                size * 2
+              )} h ${n(-size * 2)} Z`
+            )
+          )
+        );
+        markup.push(
+          `\t<path d="${d.join(
+            ' '
+          )}" style="stroke: none; fill: ${color};" />\n`
+        );
+      } else {
+        lines.x.forEach((x) =>
+          d.push(`M ${n(x)} ${n(area.top)} V ${n(area.top + area.height)}`)
+        );
+        lines.y.forEach((y) =>
+          d.push(`M ${n(area.left)} ${n(y)} H ${n(area.left + area.width)}`)
+        );
+        markup.push(
+          `\t<path d="${d.join(
+            ' '
+          )}" style="stroke: ${color}; stroke-width: ${n(
+            1 / zoom
+          )}; fill: none;" />\n`
+        );
+      }
+    });
+    markup.push('</g>\n');
+    return markup.join('');
+  }
+}
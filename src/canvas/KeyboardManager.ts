@@ -0,0 +1,325 @@
+import type { Transform } from '../EventTypeDefs';
+import { Group } from '../shapes/Group';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import { saveObjectTransform } from '../util/misc/objectTransforms';
+import { degreesToRadians } from '../util/misc/radiansDegreesConversion';
+import {
+  isActiveSelection,
+  isInteractiveTextObject,
+} from '../util/typeAssertions';
+import type { Canvas } from './Canvas';
+
+/**
+ * A keyboard command of the canvas
+ * @returns {boolean} true if the command was performed, the key event is then prevented
+ */
+export type TKeyCommand = (e: KeyboardEvent, canvas: Canvas) => boolean;
+
+/**
+ * Maps key combinations to the name of a command of {@link KeyboardManager#commands} or to a command.
+ * A combination is the `key` of the event, lower cased if it is a character,
+ * prefixed by the pressed modifiers in this order: `mod+alt+shift+`, `mod` standing for ctrl or cmd.
+ * e.g. `ArrowLeft`, `shift+ArrowLeft`, `mod+shift+g`
+ */
+export type TKeyMap = Record<string, string | TKeyCommand>;
+
+/**
+ * @returns the key combination of `e`, see {@link TKeyMap}
+ */
+export const getKeyCombination = (e: KeyboardEvent) =>
+  [
+    (e.ctrlKey || e.metaKey) && 'mod',
+    e.altKey && 'alt',
+    e.shiftKey && 'shift',
+    e.key.length === 1 ? e.key.toLowerCase() : e.key,
+  ]
+    .filter(Boolean)
+    .join('+');
+
+/**
+ * @private
+ * Runs `callback` in a transaction of the canvas history
+ */
+const transaction = (canvas: Canvas, callback: () => void) =>
+  canvas.history ? canvas.history.transaction(callback) : callback();
+
+/**
+ * @private
+ * @returns the selected objects ordered by their stack index
+ */
+const getSelectedObjects = (canvas: Canvas) => {
+  const activeObjects = canvas.getActiveObjects();
+  return canvas.getObjects().filter((object) => activeObjects.includes(object));
+};
+
+/**
+ * @private
+ * Selects `objects`, using the active selection for more than 1 object
+ */
+const select = (canvas: Canvas, objects: FabricObject[]) => {
+  if (objects.length > 1) {
+    const activeSelection = canvas.getActiveSelection();
+    activeSelection.add(...objects);
+    canvas.setActiveObject(activeSelection);
+  } else if (objects.length === 1) {
+    canvas.setActiveObject(objects[0]);
+  }
+};
+
+/**
+ * @private
+ * @returns a transform describing a keyboard modification of `target`
+ */
+const createTransform = (target: FabricObject, action: string): Transform => ({
+  target,
+  action,
+  actionPerformed: false,
+  corner: '',
+  scaleX: target.scaleX,
+  scaleY: target.scaleY,
+  skewX: target.skewX,
+  skewY: target.skewY,
+  offsetX: 0,
+  offsetY: 0,
+  originX: target.originX,
+  originY: target.originY,
+  ex: target.left,
+  ey: target.top,
+  lastX: target.left,
+  lastY: target.top,
+  theta: degreesToRadians(target.angle),
+  width: target.width,
+  height: target.height,
+  shiftKey: false,
+  altKey: false,
+  original: {
+    ...saveObjectTransform(target),
+    originX: target.originX,
+    originY: target.originY,
+  },
+});
+
+/**
+ * @private
+ * Moves the active object by {@link Canvas#nudgeStep} or by {@link Canvas#largeNudgeStep} if shift is pressed.
+ * Fires `before:transform` and `object:modified` as a transform performed by the user does.
+ */
+const createNudgeCommand =
+  (x: number, y: number): TKeyCommand =>
+  (e, canvas) => {
+    const target = canvas.getActiveObject();
+    if (!target) {
+      return false;
+    }
+    const step = e.shiftKey ? canvas.largeNudgeStep : canvas.nudgeStep,
+      deltaX = target.lockMovementX ? 0 : x * step,
+      deltaY = target.lockMovementY ? 0 : y * step;
+    if (!deltaX && !deltaY) {
+      // consume the event so that the page doesn't scroll
+      return true;
+    }
+    const transform = createTransform(target, 'nudge'),
+      options = { e, target, transform, action: transform.action };
+    canvas.fire('before:transform', { e, transform });
+    target.set({ left: target.left + deltaX, top: target.top + deltaY });
+    target.setCoords();
+    transform.actionPerformed = true;
+    canvas.fire('object:modified', options);
+    target.fire('modified', options);
+    canvas.requestRenderAll();
+    return true;
+  };
+
+const removeSelected: TKeyCommand = (e, canvas) => {
+  const objects = canvas.getActiveObjects();
+  if (objects.length === 0) {
+    return false;
+  }
+  canvas.discardActiveObject();
+  canvas.remove(...objects);
+  canvas.requestRenderAll();
+  return true;
+};
+
+const selectAll: TKeyCommand = (e, canvas) => {
+  const objects = canvas
+    .getObjects()
+    .filter(
+      (object) =>
+        object.selectable &&
+        object.visible &&
+        canvas.layerManager.isInteractive(object)
+    );
+  if (!canvas.selection || objects.length === 0) {
+    return false;
+  }
+  canvas.discardActiveObject();
+  select(canvas, objects);
+  canvas.requestRenderAll();
+  return true;
+};
+
+/**
+ * Groups the objects of the active selection, the group takes the stack position of the top most object
+ */
+const group: TKeyCommand = (e, canvas) => {
+  if (!isActiveSelection(canvas.getActiveObject())) {
+    return false;
+  }
+  const objects = getSelectedObjects(canvas),
+    index =
+      canvas.getObjects().indexOf(objects[objects.length - 1]) -
+      objects.length +
+      1;
+  canvas.discardActiveObject();
+  transaction(canvas, () => {
+    canvas.remove(...objects);
+    const group = new Group(objects);
+    canvas.history?.recordGrouping('group', group, objects);
+    canvas.insertAt(index, group);
+    canvas.setActiveObject(group);
+  });
+  canvas.requestRenderAll();
+  return true;
+};
+
+/**
+ * Ungroups the active group, its objects take the stack position of the group and are selected
+ */
+const ungroup: TKeyCommand = (e, canvas) => {
+  const target = canvas.getActiveObject();
+  if (!(target instanceof Group) || isActiveSelection(target)) {
+    return false;
+  }
+  const index = canvas.getObjects().indexOf(target);
+  canvas.discardActiveObject();
+  transaction(canvas, () => {
+    const objects = target.removeAll();
+    canvas.history?.recordGrouping('ungroup', target, objects);
+    canvas.remove(target);
+    canvas.insertAt(index, ...objects);
+    select(canvas, objects);
+  });
+  canvas.requestRenderAll();
+  return true;
+};
+
+const bringForward: TKeyCommand = (e, canvas) => {
+  const objects = getSelectedObjects(canvas);
+  if (objects.length === 0) {
+    return false;
+  }
+  // move the top most object first so that objects keep their relative order
+  transaction(canvas, () =>
+    objects.reverse().forEach((object) => canvas.bringObjectForward(object))
+  );
+  canvas.requestRenderAll();
+  return true;
+};
+
+const sendBackwards: TKeyCommand = (e, canvas) => {
+  const objects = getSelectedObjects(canvas);
+  if (objects.length === 0) {
+    return false;
+  }
+  // move the bottom most object first so that objects keep their relative order
+  transaction(canvas, () =>
+    objects.forEach((object) => canvas.sendObjectBackwards(object))
+  );
+  canvas.requestRenderAll();
+  return true;
+};
+
+const discardSelection: TKeyCommand = (e, canvas) => {
+  if (!canvas.getActiveObject()) {
+    return false;
+  }
+  canvas.discardActiveObject();
+  canvas.requestRenderAll();
+  return true;
+};
+
+export const keyCommands: Record<string, TKeyCommand> = {
+  nudgeLeft: createNudgeCommand(-1, 0),
+  nudgeRight: createNudgeCommand(1, 0),
+  nudgeUp: createNudgeCommand(0, -1),
+  nudgeDown: createNudgeCommand(0, 1),
+  delete: removeSelected,
+  selectAll,
+  group,
+  ungroup,
+  bringForward,
+  sendBackwards,
+  discardSelection,
+};
+
+export const canvasKeysMap: TKeyMap = {
+  ArrowLeft: 'nudgeLeft',
+  ArrowRight: 'nudgeRight',
+  ArrowUp: 'nudgeUp',
+  ArrowDown: 'nudgeDown',
+  'shift+ArrowLeft': 'nudgeLeft',
+  'shift+ArrowRight': 'nudgeRight',
+  'shift+ArrowUp': 'nudgeUp',
+  'shift+ArrowDown': 'nudgeDown',
+  Delete: 'delete',
+  Backspace: 'delete',
+  'mod+a': 'selectAll',
+  'mod+g': 'group',
+  'mod+shift+g': 'ungroup',
+  'mod+]': 'bringForward',
+  'mod+[': 'sendBackwards',
+  Escape: 'discardSelection',
+};
+
+/**
+ * In charge of the keyboard commands of a {@link Canvas}, enabled by {@link Canvas#keyboardCommands}.
+ *
+ * The canvas handles `keydown` events of its upper canvas element, which must be focusable for that (set its `tabIndex`).
+ * Alternatively forward key events from the document to {@link onKeyDown}.
+ * Keys are ignored while text is being edited.
+ *
+ * @example
+ * // add a binding
+ * canvas.keyboardManager.keysMap['mod+d'] = (e, canvas) => { ... return true; };
+ * // override a command for all bindings
+ * canvas.keyboardManager.commands.delete = (e, canvas) => { ... return true; };
+ * // remove a binding
+ * delete canvas.keyboardManager.keysMap.Backspace;
+ */
+export class KeyboardManager {
+  declare readonly canvas: Canvas;
+
+  keysMap: TKeyMap = { ...canvasKeysMap };
+
+  commands: Record<string, TKeyCommand> = { ...keyCommands };
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * Performs the command bound to the key combination of `e`
+   * @param {KeyboardEvent} e
+   * @returns {boolean} true if a command was performed
+   */
+  onKeyDown(e: KeyboardEvent) {
+    const canvas = this.canvas,
+      activeObject = canvas.getActiveObject();
+    if (
+      !canvas.keyboardCommands ||
+      e.defaultPrevented ||
+      canvas._currentTransform ||
+      (isInteractiveTextObject(activeObject) && activeObject.isEditing)
+    ) {
+      return false;
+    }
+    const binding = this.keysMap[getKeyCombination(e)],
+      command = typeof binding === 'string' ? this.commands[binding] : binding;
+    if (!command || !command(e, canvas)) {
+      return false;
+    }
+    e.preventDefault();
+    return true;
+  }
+}
@@ -0,0 +1,453 @@
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { FabricObject as BaseFabricObject } from '../shapes/Object/Object';
+import type { TDataUrlOptions, TSVGReviver } from '../typedefs';
+import { FabricError } from '../util/internals/console';
+import { removeFromArray } from '../util/internals/removeFromArray';
+import type { StaticCanvas, TSVGExportOptions } from './StaticCanvas';
+
+export type LayerProps = {
+  /**
+   * Unique name of the layer, objects refer to it by {@link FabricObject#layer}
+   */
+  name: string;
+  /**
+   * When `false`, objects of the layer are not rendered nor interactive
+   */
+  visible: boolean;
+  /**
+   * When `true`, objects of the layer can't be hovered, targeted or selected
+   */
+  locked: boolean;
+};
+
+export type SerializedLayerProps = LayerProps & {
+  objects: ReturnType<FabricObject['toObject']>[];
+};
+
+/**
+ * A named layer of a {@link StaticCanvas}, see {@link LayerManager}
+ */
+export class Layer implements LayerProps {
+  declare readonly canvas: StaticCanvas;
+
+  /**
+   * use {@link LayerManager#renameLayer} to rename the layer
+   */
+  declare name: string;
+
+  visible = true;
+
+  locked = false;
+
+  constructor(canvas: StaticCanvas, { name, ...options }: LayerProps) {
+    this.canvas = canvas;
+    this.name = name;
+    Object.assign(this, options);
+  }
+
+  /**
+   * @returns true if `object` is a top level object of the canvas belonging to the layer
+   */
+  contains(object: BaseFabricObject) {
+    return (
+      object.layer === this.name &&
+      (object.canvas as StaticCanvas | undefined) === this.canvas &&
+      !object.group
+    );
+  }
+
+  /**
+   * @returns the objects of the layer, from bottom to top
+   */
+  getObjects() {
+    return this.canvas._objects.filter((object) => this.contains(object));
+  }
+
+  /**
+   * Sets the visibility and the lock of the layer
+   * @param {Partial<Omit<LayerProps, 'name'>>} options
+   */
+  set({
+    visible = this.visible,
+    locked = this.locked,
+  }: Partial<Omit<LayerProps, 'name'>>) {
+    if (visible === this.visible && locked === this.locked) {
+      return;
+    }
+    this.visible = visible;
+    this.locked = locked;
+    this.canvas._onLayersChanged();
+    this.canvas.fire('layer:modified', { layer: this });
+  }
+
+  /**
+   * Returns an object representation of the layer and of its objects
+   * @param {string[]} [propertiesToInclude] Any properties that you might want to additionally include in the output
+   * @return {SerializedLayerProps}
+   */
+  toObject(propertiesToInclude?: string[]): SerializedLayerProps {
+    return {
+      name: this.name,
+      visible: this.visible,
+      locked: this.locked,
+      objects: this.getObjects()
+        .filter((object) => !object.excludeFromExport)
+        .map((object) =>
+          this.canvas._toObject(object, 'toObject', propertiesToInclude)
+        ),
+    };
+  }
+
+  toJSON() {
+    return this.toObject();
+  }
+
+  /**
+   * Exports the canvas with the objects of the layer only, regardless of its visibility
+   * @param {TSVGExportOptions} [options] see {@link StaticCanvas#toSVG}
+   * @param {TSVGReviver} reviver
+   * @return {String} svg string
+   */
+  toSVG(options: TSVGExportOptions = {}, reviver: TSVGReviver) {
+    return this.canvas.toSVG(
+      { ...options, filter: (object) => this.contains(object) },
+      reviver
+    );
+  }
+
+  /**
+   * Exports the canvas with the objects of the layer only, regardless of its visibility
+   * @param {TDataUrlOptions} [options] see {@link StaticCanvas#toDataURL}
+   * @return {String} data url
+   */
+  toDataURL(options = {} as TDataUrlOptions) {
+    return this.canvas.toDataURL({
+      ...options,
+      filter: (object) => this.contains(object),
+    });
+  }
+}
+
+/**
+ * Manages the named layers of a {@link StaticCanvas}.
+ *
+ * Layers are ordered from bottom to top and each object belongs to the layer named by {@link FabricObject#layer}.
+ * The canvas keeps the objects of a layer contiguous in its stack, so that stacking methods such as
+ * {@link StaticCanvas#bringObjectToFront} move objects within their layer.
+ * Objects added to the canvas without a layer join the active layer.
+ * Objects that don't belong to any layer are stacked below all layers.
+ *
+ * Objects of hidden layers are neither rendered nor exported, unless the layer is exported on its own.
+ * Objects of hidden and locked layers can't be targeted or selected.
+ */
+export class LayerManager {
+  declare readonly canvas: StaticCanvas;
+
+  private layers: Layer[] = [];
+
+  /**
+   * index of each layer by name
+   */
+  private ranks = new Map<string, number>();
+
+  private declare activeLayer?: Layer;
+
+  constructor(canvas: StaticCanvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @returns the layers from bottom to top
+   */
+  getLayers() {
+    return [...this.layers];
+  }
+
+  /**
+   * @param {String} name
+   */
+  getLayer(name: string) {
+    const rank = this.ranks.get(name);
+    return rank !== undefined ? this.layers[rank] : undefined;
+  }
+
+  /**
+   * @returns the layer `object` belongs to
+   */
+  getLayerOf(object: FabricObject) {
+    return object.layer !== undefined ? this.getLayer(object.layer) : undefined;
+  }
+
+  /**
+   * @returns the layer objects added without a layer join
+   */
+  getActiveLayer() {
+    return this.activeLayer;
+  }
+
+  /**
+   * @param {String} name name of the layer objects added without a layer join
+   */
+  setActiveLayer(name: string) {
+    const layer = this.getLayer(name);
+    if (!layer) {
+      throw new FabricError(`layer "${name}" doesn't exist`);
+    }
+    this.activeLayer = layer;
+  }
+
+  /**
+   * Adds a layer, it becomes the active layer if there is none
+   * @param {String} name unique name of the layer
+   * @param {Partial<Pick<LayerProps, 'visible' | 'locked'>>} [options]
+   * @param {Number} [index] position of the layer, defaults to the top
+   * @returns {Layer}
+   */
+  addLayer(
+    name: string,
+    options: Partial<Omit<LayerProps, 'name'>> = {},
+    index = this.layers.length
+  ) {
+    if (this.getLayer(name)) {
+      throw new FabricError(`layer "${name}" already exists`);
+    }
+    const layer = new Layer(this.canvas, {
+      visible: true,
+      locked: false,
+      ...options,
+      name,
+    });
+    this.layers.splice(index, 0, layer);
+    this.activeLayer = this.activeLayer || layer;
+    this.sortObjects();
+    this.canvas._onLayersChanged();
+    this.canvas.fire('layer:added', { layer });
+    return layer;
+  }
+
+  /**
+   * Removes a layer and its objects from the canvas
+   * @param {String} name
+   * @returns {FabricObject[]} removed objects
+   */
+  removeLayer(name: string) {
+    const layer = this.getLayer(name);
+    if (!layer) {
+      return [];
+    }
+    const removed = this.canvas.remove(...layer.getObjects());
+    removeFromArray(this.layers, layer);
+    this.activeLayer === layer && (this.activeLayer = this.layers[0]);
+    this.updateRanks();
+    this.canvas.fire('layer:removed', { layer });
+    return removed;
+  }
+
+  /**
+   * Renames a layer and moves its objects to the new name
+   * @param {String} name
+   * @param {String} newName
+   */
+  renameLayer(name: string, newName: string) {
+    const layer = this.getLayer(name);
+    if (!layer || name === newName) {
+      return false;
+    }
+    if (this.getLayer(newName)) {
+      throw new FabricError(`layer "${newName}" already exists`);
+    }
+    layer.getObjects().forEach((object) => (object.layer = newName));
+    layer.name = newName;
+    this.updateRanks();
+    this.canvas.fire('layer:modified', { layer });
+    return true;
+  }
+
+  /**
+   * Moves a layer and its objects to `index` in the layer stack
+   * @param {String} name
+   * @param {Number} index
+   */
+  moveLayerTo(name: string, index: number) {
+    const layer = this.getLayer(name);
+    if (!layer) {
+      return false;
+    }
+    removeFromArray(this.layers, layer);
+    this.layers.splice(
+      Math.max(0, Math.min(index, this.layers.length)),
+      0,
+      layer
+    );
+    this.sortObjects();
+    this.canvas._onLayersChanged();
+    this.canvas.fire('layer:modified', { layer });
+    return true;
+  }
+
+  /**
+   * Moves an object of the canvas to the top of a layer
+   * @param {FabricObject} object
+   * @param {String} name
+   */
+  moveObjectToLayer(object: FabricObject, name: string) {
+    const layer = this.getLayer(name),
+      objects = this.canvas._objects,
+      index = objects.indexOf(object);
+    if (!layer || index === -1) {
+      return false;
+    }
+    object.layer = name;
+    objects.splice(index, 1);
+    objects.push(object);
+    this.placeObject(object);
+    this.canvas._onStackOrderChanged(object);
+    this.canvas._onLayersChanged();
+    return true;
+  }
+
+  /**
+   * @returns true if `object` doesn't belong to a hidden layer
+   */
+  isVisible(object: FabricObject) {
+    const layer = this.getLayerOf(object);
+    return !layer || layer.visible;
+  }
+
+  /**
+   * @returns true if `object` doesn't belong to a hidden or locked layer
+   */
+  isInteractive(object: FabricObject) {
+    const layer = this.getLayerOf(object);
+    return !layer || (layer.visible && !layer.locked);
+  }
+
+  /**
+   * @returns `objects` that don't belong to a hidden layer
+   */
+  filterVisible(objects: FabricObject[]) {
+    return this.layers.some(({ visible }) => !visible)
+      ? objects.filter((object) => this.isVisible(object))
+      : objects;
+  }
+
+  /**
+   * @returns `objects` that don't belong to a hidden or locked layer
+   */
+  filterInteractive(objects: FabricObject[]) {
+    return this.layers.some(({ visible, locked }) => !visible || locked)
+      ? objects.filter((object) => this.isInteractive(object))
+      : objects;
+  }
+
+  /**
+   * Assigns the active layer to an object added to the canvas and stacks it in its layer
+   * @param {FabricObject} object
+   */
+  onObjectAdded(object: FabricObject) {
+    if (this.layers.length === 0) {
+      return;
+    }
+    object.layer === undefined &&
+      this.activeLayer &&
+      (object.layer = this.activeLayer.name);
+    this.placeObject(object);
+  }
+
+  /**
+   * Keeps an object moved in the stack of the canvas in its layer
+   * @param {FabricObject} object
+   */
+  onStackOrderChanged(object: FabricObject) {
+    this.layers.length > 0 && this.placeObject(object);
+  }
+
+  /**
+   * @returns the layer definitions, without their objects, that are serialized with the canvas
+   */
+  toObject(): LayerProps[] {
+    return this.layers.map(({ name, visible, locked }) => ({
+      name,
+      visible,
+      locked,
+    }));
+  }
+
+  /**
+   * Replaces the layers, used to restore the layers of a serialized canvas
+   * @param {LayerProps[]} layers
+   */
+  fromObject(layers: Partial<LayerProps>[] = []) {
+    this.layers = layers
+      .filter(({ name }) => typeof name === 'string')
+      .map(
+        ({ name, visible = true, locked = false }) =>
+          new Layer(this.canvas, { name: name as string, visible, locked })
+      );
+    this.activeLayer = this.layers[0];
+    this.sortObjects();
+  }
+
+  /**
+   * @private
+   */
+  private updateRanks() {
+    this.ranks = new Map(this.layers.map(({ name }, index) => [name, index]));
+  }
+
+  /**
+   * @private
+   * @returns index of the layer of `object`, objects without a layer are below all layers
+   */
+  private getRank(object: FabricObject) {
+    const rank =
+      object.layer !== undefined ? this.ranks.get(object.layer) : undefined;
+    return rank !== undefined ? rank : -1;
+  }
+
+  /**
+   * Stacks the objects of the canvas by layer, preserving their order within each layer
+   * @private
+   */
+  private sortObjects() {
+    this.updateRanks();
+    const objects = this.canvas._objects,
+      sorted = objects
+        .map((object, index) => ({ object, index, rank: this.getRank(object) }))
+        .sort((a, b) => a.rank - b.rank || a.index - b.index)
+        .map(({ object }) => object);
+    objects.splice(0, objects.length, ...sorted);
+  }
+
+  /**
+   * Moves an object that left its layer in the stack back into it,
+   * to the top of the layer if it is above it or to the bottom if it is below
+   * @private
+   */
+  private placeObject(object: FabricObject) {
+    const objects = this.canvas._objects,
+      index = objects.indexOf(object),
+      rank = this.getRank(object),
+      prev = objects[index - 1],
+      next = objects[index + 1];
+    if (
+      index === -1 ||
+      ((!prev || this.getRank(prev) <= rank) &&
+        (!next || this.getRank(next) >= rank))
+    ) {
+      return;
+    }
+    objects.splice(index, 1);
+    let i = index;
+    if (prev && this.getRank(prev) > rank) {
+      while (i > 0 && this.getRank(objects[i - 1]) > rank) {
+        i--;
+      }
+    } else {
+      while (i < objects.length && this.getRank(objects[i]) < rank) {
+        i++;
+      }
+    }
+    objects.splice(i, 0, object);
+  }
+}
@@ -0,0 +1,383 @@
+import { config } from '../config';
+import type { TPointerEvent } from '../EventTypeDefs';
+import type { Point } from '../Point';
+import type { TAxis } from '../typedefs';
+import { removeFromArray } from '../util/internals';
+import { toFixed } from '../util/misc/toFixed';
+import type { Canvas } from './Canvas';
+import type { TSnapLine } from './SnappingManager';
+
+/**
+ * A guide in the canvas coordinate plane.
+ * An `x` guide is a vertical line at `x = value`, a `y` guide is a horizontal line at `y = value`.
+ */
+export type TGuideLine = {
+  axis: TAxis;
+  value: number;
+};
+
+type TGuideDrag = {
+  guide: TGuideLine;
+  /**
+   * true if the guide is being dragged out of a ruler
+   */
+  isNew: boolean;
+};
+
+/**
+ * Minimum distance in pixels between labeled ticks of the rulers
+ */
+const MIN_LABEL_SPACING = 50;
+
+/**
+ * Number of ticks between labeled ticks of the rulers
+ */
+const TICKS_PER_LABEL = 10;
+
+const cursors = { x: 'ew-resize', y: 'ns-resize' } as const;
+
+/**
+ * @private
+ * @returns the smallest step of 1, 2 or 5 times a power of 10 greater than `min`
+ */
+const getStep = (min: number) => {
+  const base = Math.pow(10, Math.floor(Math.log10(min)));
+  return [1, 2, 5, 10].map((f) => f * base).find((step) => step >= min)!;
+};
+
+/**
+ * In charge of the rulers and guides of a {@link Canvas}.
+ * Rulers are rendered along the top and left edges of the canvas and track the viewport, see {@link Canvas#showRulers}.
+ * Guides are dragged out of the rulers, moved by dragging them and deleted by dropping them back on the rulers or out of the canvas.
+ * Objects snap to guides, see {@link Canvas#snapToGuides}.
+ * Rulers and guides are rendered on the top context and are not part of the canvas objects,
+ * use {@link toObject} and {@link loadGuides} to serialize them.
+ *
+ * The viewport is assumed not to be rotated or skewed.
+ */
+export class RulerManager {
+  declare readonly canvas: Canvas;
+
+  /**
+   * Use {@link addGuide} and {@link removeGuide} to modify guides
+   */
+  guides: TGuideLine[] = [];
+
+  private declare dragging?: TGuideDrag;
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * Adds a guide
+   * @param {TAxis} axis `x` for a vertical guide, `y` for a horizontal guide
+   * @param {number} value position of the guide in the canvas coordinate plane
+   * @returns {TGuideLine} the added guide
+   */
+  addGuide(axis: TAxis, value: number) {
+    const guide: TGuideLine = { axis, value };
+    this.guides.push(guide);
+    this.canvas.fire('guide:added', { guide });
+    this.canvas.requestRenderAll();
+    return guide;
+  }
+
+  /**
+   * Removes a guide
+   * @param {TGuideLine} guide
+   * @returns {boolean} true if the guide was removed
+   */
+  removeGuide(guide: TGuideLine) {
+    if (!this.guides.includes(guide)) {
+      return false;
+    }
+    removeFromArray(this.guides, guide);
+    this.dragging?.guide === guide && (this.dragging = undefined);
+    this.canvas.fire('guide:removed', { guide });
+    this.canvas.requestRenderAll();
+    return true;
+  }
+
+  /**
+   * Returns the guides to serialize, separately from the canvas objects
+   * @returns {TGuideLine[]}
+   */
+  toObject(): TGuideLine[] {
+    return this.guides.map(({ axis, value }) => ({ axis, value }));
+  }
+
+  /**
+   * Replaces the guides with guides serialized by {@link toObject}
+   * @param {TGuideLine[]} guides
+   */
+  loadGuides(guides: TGuideLine[]) {
+    this.dragging = undefined;
+    this.guides = guides.map(({ axis, value }) => ({ axis, value }));
+    this.canvas.requestRenderAll();
+  }
+
+  /**
+   * @private
+   * @returns `value` of `axis` converted from the canvas to the viewport coordinate plane
+   */
+  private toViewport(axis: TAxis, value: number) {
+    const v = this.canvas.viewportTransform;
+    return axis === 'x' ? value * v[0] + v[4] : value * v[3] + v[5];
+  }
+
+  /**
+   * @private
+   * @returns `value` of `axis` converted from the viewport to the canvas coordinate plane
+   */
+  private toCanvas(axis: TAxis, value: number) {
+    const v = this.canvas.viewportTransform;
+    return axis === 'x' ? (value - v[4]) / v[0] : (value - v[5]) / v[3];
+  }
+
+  /**
+   * @param {Point} pointer pointer in the viewport coordinate plane
+   * @returns {boolean} true if `pointer` is over the rulers
+   */
+  isOverRulers(pointer: Point) {
+    const { showRulers, rulerSize } = this.canvas;
+    return showRulers && (pointer.x <= rulerSize || pointer.y <= rulerSize);
+  }
+
+  /**
+   * @private
+   * @param {Point} pointer pointer in the viewport coordinate plane
+   * @returns the axis of the guide created by dragging the ruler under `pointer`
+   */
+  private getRulerAxis(pointer: Point): TAxis | undefined {
+    const { rulerSize } = this.canvas;
+    if (!this.isOverRulers(pointer)) {
+      return;
+    }
+    // the horizontal ruler creates horizontal guides and vice versa, the corner creates none
+    return pointer.y <= rulerSize && pointer.x > rulerSize
+      ? 'y'
+      : pointer.x <= rulerSize && pointer.y > rulerSize
+      ? 'x'
+      : undefined;
+  }
+
+  /**
+   * Hit-tests guides, the last added guide is on top
+   * @param {Point} pointer pointer in the viewport coordinate plane
+   * @returns {TGuideLine | undefined} the closest guide within {@link Canvas#guideHitTolerance}
+   */
+  findGuide(pointer: Point) {
+    const tolerance = this.canvas.guideHitTolerance;
+    let found: TGuideLine | undefined,
+      min = Infinity;
+    for (let i = this.guides.length - 1; i >= 0; i--) {
+      const guide = this.guides[i],
+        distance = Math.abs(
+          this.toViewport(guide.axis, guide.value) - pointer[guide.axis]
+        );
+      if (distance <= tolerance && distance < min) {
+        found = guide;
+        min = distance;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * @returns {TSnapLine[]} the lines objects snap to, the guide being dragged is excluded
+   */
+  getSnapLines(): TSnapLine[] {
+    const { tl, br } = this.canvas.vptCoords;
+    return this.guides
+      .filter((guide) => guide !== this.dragging?.guide)
+      .map(({ axis, value }) => ({
+        axis,
+        value,
+        start: axis === 'x' ? tl.y : tl.x,
+        end: axis === 'x' ? br.y : br.x,
+      }));
+  }
+
+  /**
+   * Starts dragging the guide under the pointer or a new guide out of the rulers
+   * @param {TPointerEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onMouseDown(e: TPointerEvent) {
+    const pointer = this.canvas.getPointer(e, true),
+      found = this.findGuide(pointer),
+      axis = found ? found.axis : this.getRulerAxis(pointer);
+    if (!axis) {
+      // the corner of the rulers is not interactive but it is on top of objects
+      return this.isOverRulers(pointer);
+    }
+    const guide = found || { axis, value: this.toCanvas(axis, pointer[axis]) };
+    !found && this.guides.push(guide);
+    this.dragging = { guide, isNew: !found };
+    this.canvas.setCursor(cursors[axis]);
+    this.canvas.renderTop();
+    return true;
+  }
+
+  /**
+   * Moves the dragged guide, snapping it to the grid, or sets the cursor while hovering a guide or the rulers
+   * @param {TPointerEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onMouseMove(e: TPointerEvent) {
+    const canvas = this.canvas,
+      pointer = canvas.getPointer(e, true);
+    if (this.dragging) {
+      const { guide } = this.dragging,
+        { gridManager } = canvas,
+        value = this.toCanvas(guide.axis, pointer[guide.axis]);
+      guide.value = gridManager.shouldSnap()
+        ? gridManager.snapValue(value)
+        : value;
+      canvas.setCursor(cursors[guide.axis]);
+      canvas.renderTop();
+      return true;
+    }
+    const guide = this.findGuide(pointer),
+      axis = guide ? guide.axis : this.getRulerAxis(pointer);
+    if (axis) {
+      canvas.setCursor(cursors[axis]);
+      return true;
+    } else if (this.isOverRulers(pointer)) {
+      canvas.setCursor(canvas.defaultCursor);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Drops the dragged guide, a guide dropped on the rulers or out of the canvas is removed
+   * @param {TPointerEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onMouseUp(e: TPointerEvent) {
+    if (!this.dragging) {
+      return false;
+    }
+    const canvas = this.canvas,
+      { guide, isNew } = this.dragging,
+      pointer = canvas.getPointer(e, true);
+    this.dragging = undefined;
+    if (
+      this.isOverRulers(pointer) ||
+      pointer.x < 0 ||
+      pointer.y < 0 ||
+      pointer.x > canvas.width ||
+      pointer.y > canvas.height
+    ) {
+      removeFromArray(this.guides, guide);
+      !isNew && canvas.fire('guide:removed', { guide });
+    } else {
+      canvas.fire(isNew ? 'guide:added' : 'guide:modified', { guide });
+    }
+    canvas.renderTop();
+    return true;
+  }
+
+  /**
+   * Renders guides and rulers respecting the viewport transform
+   * @param {CanvasRenderingContext2D} ctx context to render on, the top context
+   */
+  render(ctx: CanvasRenderingContext2D) {
+    const { showRulers, guideColor, width, height } = this.canvas;
+    if (!showRulers && this.guides.length === 0) {
+      return;
+    }
+    ctx.save();
+    if (guideColor) {
+      ctx.strokeStyle = guideColor;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      this.guides.forEach(({ axis, value }) => {
+        // align to the pixel grid to render crisp lines
+        const position = Math.round(this.toViewport(axis, value)) + 0.5;
+        if (axis === 'x') {
+          ctx.moveTo(position, 0);
+          ctx.lineTo(position, height);
+        } else {
+          ctx.moveTo(0, position);
+          ctx.lineTo(width, position);
+        }
+      });
+      ctx.stroke();
+    }
+    showRulers && this.renderRulers(ctx);
+    ctx.restore();
+    this.canvas.contextTopDirty = true;
+  }
+
+  /**
+   * @private
+   * @param {CanvasRenderingContext2D} ctx
+   */
+  private renderRulers(ctx: CanvasRenderingContext2D) {
+    const {
+      width,
+      height,
+      rulerSize: size,
+      rulerBackgroundColor,
+      rulerColor,
+      rulerFont,
+      viewportTransform: v,
+    } = this.canvas;
+    ctx.fillStyle = rulerBackgroundColor;
+    ctx.fillRect(0, 0, width, size);
+    ctx.fillRect(0, 0, size, height);
+    ctx.strokeStyle = ctx.fillStyle = rulerColor;
+    ctx.lineWidth = 1;
+    ctx.font = rulerFont;
+    ctx.textBaseline = 'top';
+    ctx.beginPath();
+    ctx.moveTo(size, size - 0.5);
+    ctx.lineTo(width, size - 0.5);
+    ctx.moveTo(size - 0.5, size);
+    ctx.lineTo(size - 0.5, height);
+    (['x', 'y'] as TAxis[]).forEach((axis) => {
+      const zoom = axis === 'x' ? v[0] : v[3],
+        length = axis === 'x' ? width : height,
+        step = getStep(MIN_LABEL_SPACING / Math.abs(zoom)) / TICKS_PER_LABEL,
+        start = this.toCanvas(axis, size),
+        end = this.toCanvas(axis, length),
+        from = Math.ceil(Math.min(start, end) / step),
+        to = Math.floor(Math.max(start, end) / step);
+      for (let i = from; i <= to; i++) {
+        const position = Math.round(this.toViewport(axis, i * step)) + 0.5,
+          tickSize =
+            i % TICKS_PER_LABEL === 0
+              ? size
+              : i % (TICKS_PER_LABEL / 2) === 0
+              ? size / 2
+              : size / 4;
+        if (axis === 'x') {
+          ctx.moveTo(position, size - tickSize);
+          ctx.lineTo(position, size);
+        } else {
+          ctx.moveTo(size - tickSize, position);
+          ctx.lineTo(size, position);
+        }
+        if (i % TICKS_PER_LABEL !== 0) {
+          continue;
+        }
+        const label = String(toFixed(i * step, config.NUM_FRACTION_DIGITS));
+        if (axis === 'x') {
+          ctx.fillText(label, position + 2, 2);
+        } else {
+          ctx.save();
+          ctx.translate(2, position - 2);
+          ctx.rotate(-Math.PI / 2);
+          ctx.fillText(label, 0, 0);
+          ctx.restore();
+        }
+      }
+    });
+    ctx.stroke();
+    ctx.fillStyle = rulerBackgroundColor;
+    ctx.fillRect(0, 0, size, size);
+  }
+}
@@ -37,6 +37,8 @@ import { createCanvasElement } from '../util';
 import { CanvasDOMManager } from './DOMManagers/CanvasDOMManager';
 import { BOTTOM, CENTER, LEFT, RIGHT, TOP } from '../constants';
 import type { CanvasOptions, TCanvasOptions } from './CanvasOptions';
+import type { TGridType } from './GridManager';
+import type { TWheelNavigation } from './ViewportManager';
 import { canvasDefaults } from './CanvasOptions';
 
 /**
@@ -156,6 +158,55 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
   declare selectionBorderColor: string;
   declare selectionLineWidth: number;
   declare selectionFullyContained: boolean;
+  declare selectionMode: 'rect' | 'lasso';
+
+  // snapping config
+  declare objectSnapping: boolean;
+  declare snapTolerance: number;
+  declare snapGuideColor: string;
+  declare snapGuideWidth: number;
+
+  // grid config
+  declare showGrid: boolean;
+  declare gridType: TGridType;
+  declare gridSize: number;
+  declare gridMajorInterval: number;
+  declare gridColor: string;
+  declare gridMajorColor: string;
+  declare snapToGrid: boolean;
+
+  // rulers config
+  declare showRulers: boolean;
+  declare rulerSize: number;
+  declare rulerBackgroundColor: string;
+  declare rulerColor: string;
+  declare rulerFont: string;
+  declare guideColor: string;
+  declare guideHitTolerance: number;
+  declare snapToGuides: boolean;
+
+  // keyboard config
+  declare keyboardCommands: boolean;
+  declare nudgeStep: number;
+  declare largeNudgeStep: number;
+
+  // clipboard config
+  declare clipboardCommands: boolean;
+  declare pasteOffset: number;
+
+  // gestures config
+  declare enableGestures: boolean;
+  declare doubleTapDelay: number;
+  declare longPressDelay: number;
+  declare tapTolerance: number;
+
+  // viewport config
+  declare wheelNavigation: TWheelNavigation;
+  declare minZoom: number;
+  declare maxZoom: number;
+  declare limitPanToContent: boolean;
+  declare panKey: TOptionalModifierKey;
+  declare panInertia: number;
 
   // cursors
   declare hoverCursor: CSSStyleDeclaration['cursor'];
@@ -235,6 +286,10 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
     y: number;
     deltaX: number;
     deltaY: number;
+    /**
+     * points of the lasso in the canvas coordinate plane, see {@link selectionMode}
+     */
+    path?: Point[];
   } | null = null;
 
   /**
@@ -345,9 +400,20 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
     super._onObjectRemoved(obj);
   }
 
-  _onStackOrderChanged() {
+  _onStackOrderChanged(obj: FabricObject) {
     this._objectsToRender = undefined;
-    super._onStackOrderChanged();
+    super._onStackOrderChanged(obj);
+  }
+
+  /**
+   * @override discards the active object if some of its objects can't be selected anymore
+   */
+  _onLayersChanged() {
+    this._objectsToRender = undefined;
+    this.getActiveObjects().some(
+      (object) => !this.layerManager.isInteractive(object)
+    ) && this.discardActiveObject();
+    super._onLayersChanged();
   }
 
   /**
@@ -356,12 +422,13 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
    * @return {Array} objects to render immediately and pushes the other in the activeGroup.
    */
   _chooseObjectsToRender(): FabricObject[] {
-    const activeObject = this._activeObject;
+    const activeObject = this._activeObject,
+      objects = this.layerManager.filterVisible(this._objects);
     return !this.preserveObjectStacking && activeObject
-      ? this._objects
+      ? objects
           .filter((object) => !object.group && object !== activeObject)
           .concat(activeObject)
-      : this._objects;
+      : objects;
   }
 
   /**
@@ -661,8 +728,12 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
    * @param {CanvasRenderingContext2D} ctx to draw the selection on
    */
   _drawSelection(ctx: CanvasRenderingContext2D): void {
-    const { x, y, deltaX, deltaY } = this._groupSelector!,
-      start = new Point(x, y).transform(this.viewportTransform),
+    const { x, y, deltaX, deltaY, path } = this._groupSelector!;
+    if (path) {
+      this._drawLasso(ctx, path);
+      return;
+    }
+    const start = new Point(x, y).transform(this.viewportTransform),
       extent = new Point(x + deltaX, y + deltaY).transform(
         this.viewportTransform
       ),
@@ -697,6 +768,37 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
     ctx.strokeRect(minX, minY, maxX - minX, maxY - minY);
   }
 
+  /**
+   * @private
+   * @param {CanvasRenderingContext2D} ctx to draw the lasso on
+   * @param {Point[]} path points of the lasso in the canvas coordinate plane
+   */
+  _drawLasso(ctx: CanvasRenderingContext2D, path: Point[]): void {
+    ctx.beginPath();
+    path.forEach((point, index) => {
+      const { x, y } = point.transform(this.viewportTransform);
+      index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+
+    if (this.selectionColor) {
+      ctx.fillStyle = this.selectionColor;
+      ctx.fill();
+    }
+
+    if (!this.selectionLineWidth || !this.selectionBorderColor) {
+      return;
+    }
+    ctx.lineWidth = this.selectionLineWidth;
+    ctx.strokeStyle = this.selectionBorderColor;
+    FabricObject.prototype._setLineDash.call(
+      this,
+      ctx,
+      this.selectionDashArray
+    );
+    ctx.stroke();
+  }
+
   /**
    * Method that determines what object we are clicking on
    * 11/09/2018 TODO: would be cool if findTarget could discern between being a full target
@@ -712,7 +814,10 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
 
     const pointer = this.getPointer(e, true), // 获取事件的指针位置
       activeObject = this._activeObject,
-      aObjects = this.getActiveObjects(); // 检索当前活动对象以及所有活动对象
+      aObjects = this.getActiveObjects(), // 检索当前活动对象以及所有活动对象
+      { x, y } = this.restorePointerVpt(pointer),
+      // objects that may contain the pointer
+      objects = this._queryObjects({ left: x, top: y, width: 0, height: 0 });
 
     this.targets = [];
 
@@ -737,7 +842,7 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
         } else {
           const subTargets = this.targets;
           this.targets = [];
-          const target = this.searchPossibleTargets(this._objects, pointer);
+          const target = this.searchPossibleTargets(objects, pointer);
           if (
             e[this.altSelectionKey as ModifierKey] &&
             target &&
@@ -753,7 +858,7 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
       }
     }
 
-    return this.searchPossibleTargets(this._objects, pointer);
+    return this.searchPossibleTargets(objects, pointer);
   }
 
   /**
@@ -768,7 +873,9 @@ export class SelectableCanvas<EventSpec extends CanvasEvents = CanvasEvents>
       obj &&
       obj.visible &&
       obj.evented &&
-      obj.containsPoint(this.restorePointerVpt(pointer), true)
+      obj.containsPoint(this.restorePointerVpt(pointer), true) &&
+      (!obj.shapeTargetFind ||
+        obj.containsPointInShape(this.restorePointerVpt(pointer)))
     ) {
       if (
         (this.perPixelTargetFind || obj.perPixelTargetFind) &&
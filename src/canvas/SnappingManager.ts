@@ -0,0 +1,415 @@
+import type { TPointerEvent, Transform } from '../EventTypeDefs';
+import { Point } from '../Point';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { TAxis, TBBox } from '../typedefs';
+import { resolveOrigin } from '../util/misc/resolveOrigin';
+import type { Canvas } from './Canvas';
+
+/**
+ * A line objects can snap to, in the canvas coordinate plane.
+ * An `x` line is a vertical line at `x = value` going from `start` to `end` on the y axis and vice versa.
+ */
+export type TSnapLine = {
+  axis: TAxis;
+  value: number;
+  start: number;
+  end: number;
+  /**
+   * the object that generated the line, `undefined` for the canvas
+   */
+  object?: FabricObject;
+};
+
+/**
+ * A guide rendered while an object is snapped
+ */
+export type TSnapGuide = {
+  axis: TAxis;
+  value: number;
+  start: number;
+  end: number;
+  /**
+   * the objects the target is aligned to
+   */
+  objects: FabricObject[];
+};
+
+type TSnapMatch = {
+  delta: number;
+  value: number;
+};
+
+const otherAxis = { x: 'y', y: 'x' } as const;
+
+/**
+ * @private
+ * @returns the values of the edges and center of `bbox` on `axis`
+ */
+const getBBoxValues = ({ left, top, width, height }: TBBox, axis: TAxis) =>
+  axis === 'x'
+    ? [left, left + width / 2, left + width]
+    : [top, top + height / 2, top + height];
+
+/**
+ * @private
+ * @returns the extent of `bbox` across `axis`, the range a guide on `axis` spans
+ */
+const getBBoxRange = (
+  { left, top, width, height }: TBBox,
+  axis: TAxis
+): [number, number] =>
+  axis === 'x' ? [top, top + height] : [left, left + width];
+
+/**
+ * In charge of snapping objects to each other and to the canvas while they are dragged or scaled by the user.
+ * Alignment guides are rendered on the top context during the transform.
+ * Enabled by {@link Canvas#objectSnapping} and {@link Canvas#snapToGuides},
+ * falls back to the grid if {@link Canvas#snapToGrid} is enabled
+ */
+export class SnappingManager {
+  declare readonly canvas: Canvas;
+
+  /**
+   * guides of the current snap, rendered by {@link render}
+   */
+  guides: TSnapGuide[] = [];
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @param {FabricObject} target
+   * @returns true if `target` should snap during its transform
+   */
+  shouldSnap(target: FabricObject) {
+    const { objectSnapping, snapToGuides, rulerManager, gridManager } =
+      this.canvas;
+    return (
+      (objectSnapping ||
+        (snapToGuides && rulerManager.guides.length > 0) ||
+        gridManager.shouldSnap()) &&
+      !target.excludeFromSnapping &&
+      // objects of a group are in the group's coordinate plane
+      !target.group
+    );
+  }
+
+  /**
+   * Override to customize the lines objects snap to
+   * @param {FabricObject} target the object being transformed
+   * @returns {TSnapLine[]} the edges and centers of other objects and of the visible canvas area
+   */
+  getSnapLines(target: FabricObject): TSnapLine[] {
+    const lines: TSnapLine[] = [];
+    const addBBox = (bbox: TBBox, object?: FabricObject) =>
+      (['x', 'y'] as TAxis[]).forEach((axis) => {
+        const [start, end] = getBBoxRange(bbox, axis);
+        getBBoxValues(bbox, axis).forEach((value) =>
+          lines.push({ axis, value, start, end, object })
+        );
+      });
+    this.canvas.forEachObject((object) => {
+      object !== target &&
+        object.group !== target &&
+        object.visible &&
+        !object.excludeFromSnapping &&
+        addBBox(object.getBoundingRect(true, true), object);
+    });
+    const { tl, br } = this.canvas.vptCoords;
+    addBBox({ left: tl.x, top: tl.y, width: br.x - tl.x, height: br.y - tl.y });
+    return lines;
+  }
+
+  /**
+   * @private
+   * @returns the tolerance in the canvas coordinate plane
+   */
+  private getTolerance() {
+    return this.canvas.snapTolerance / this.canvas.getZoom();
+  }
+
+  /**
+   * @private
+   * @param {number[]} values values of the target
+   * @param {TSnapLine[]} lines lines of the axis
+   * @returns the closest line within tolerance
+   */
+  private findMatch(values: number[], lines: TSnapLine[]) {
+    let match: TSnapMatch | undefined;
+    const tolerance = this.getTolerance();
+    values.forEach((value) =>
+      lines.forEach((line) => {
+        const delta = line.value - value;
+        Math.abs(delta) <= tolerance &&
+          (!match || Math.abs(delta) < Math.abs(match.delta)) &&
+          (match = { delta, value: line.value });
+      })
+    );
+    return match;
+  }
+
+  /**
+   * @private
+   * @returns guides of the lines aligned to `bbox` on `axis`
+   */
+  private createGuides(
+    bbox: TBBox,
+    lines: TSnapLine[],
+    axis: TAxis
+  ): TSnapGuide[] {
+    const guides: TSnapGuide[] = [];
+    getBBoxValues(bbox, axis).forEach((value) => {
+      const aligned = lines.filter(
+        (line) => line.axis === axis && Math.abs(line.value - value) < 0.01
+      );
+      if (
+        aligned.length === 0 ||
+        guides.some((guide) => guide.value === value)
+      ) {
+        return;
+      }
+      const [start, end] = getBBoxRange(bbox, axis);
+      const objects: FabricObject[] = [];
+      aligned.forEach(({ object }) => {
+        object && !objects.includes(object) && objects.push(object);
+      });
+      guides.push({
+        axis,
+        value,
+        start: Math.min(start, ...aligned.map(({ start }) => start)),
+        end: Math.max(end, ...aligned.map(({ end }) => end)),
+        objects,
+      });
+    });
+    return guides;
+  }
+
+  /**
+   * @private
+   * @returns lines of objects if {@link Canvas#objectSnapping} is enabled and guides if {@link Canvas#snapToGuides} is enabled
+   */
+  private getLines(target: FabricObject) {
+    const { objectSnapping, snapToGuides, rulerManager } = this.canvas;
+    return [
+      ...(objectSnapping ? this.getSnapLines(target) : []),
+      ...(snapToGuides ? rulerManager.getSnapLines() : []),
+    ];
+  }
+
+  /**
+   * @private
+   */
+  private setGuides(
+    guides: TSnapGuide[],
+    snapped: boolean,
+    eventData: TPointerEvent,
+    transform: Transform,
+    pointer: Point
+  ) {
+    const { target } = transform;
+    this.guides = guides;
+    if (snapped) {
+      const options = { e: eventData, transform, pointer, guides };
+      this.canvas.fire('object:snap', { ...options, target });
+      target.fire('snap', options);
+    }
+  }
+
+  /**
+   * Snaps the position of a dragged object
+   * @param {Event} eventData javascript event that is doing the transform
+   * @param {Transform} transform
+   * @param {Point} pointer current pointer position, canvas normalized
+   * @param {Point} position the new `left`/`top` of the target
+   * @returns {Point} the snapped `left`/`top`
+   */
+  snapPosition(
+    eventData: TPointerEvent,
+    transform: Transform,
+    pointer: Point,
+    position: Point
+  ): Point {
+    const { target } = transform;
+    if (!this.shouldSnap(target)) {
+      this.guides = [];
+      return position;
+    }
+    const { gridManager } = this.canvas,
+      lines = this.getLines(target),
+      bbox = target.getBoundingRect(true, true);
+    bbox.left += position.x - target.left;
+    bbox.top += position.y - target.top;
+    const snapped = new Point(position),
+      guides: TSnapGuide[] = [];
+    (['x', 'y'] as TAxis[]).forEach((axis) => {
+      if (target[axis === 'x' ? 'lockMovementX' : 'lockMovementY']) {
+        return;
+      }
+      const key = axis === 'x' ? 'left' : 'top',
+        axisLines = lines.filter((line) => line.axis === axis),
+        match = this.findMatch(getBBoxValues(bbox, axis), axisLines),
+        // fallback to snapping the bounding box to the grid
+        delta = match
+          ? match.delta
+          : gridManager.shouldSnap()
+          ? gridManager.snapValue(bbox[key]) - bbox[key]
+          : 0;
+      snapped[axis] += delta;
+      bbox[key] += delta;
+    });
+    (['x', 'y'] as TAxis[]).forEach(
+      (axis) =>
+        !target[axis === 'x' ? 'lockMovementX' : 'lockMovementY'] &&
+        guides.push(...this.createGuides(bbox, lines, axis))
+    );
+    this.setGuides(
+      guides,
+      !snapped.eq(position),
+      eventData,
+      transform,
+      pointer
+    );
+    return snapped;
+  }
+
+  /**
+   * Snaps the edges of a scaled object.
+   * Should run after the scale is set and before the anchor of the transform is restored,
+   * only objects that are not rotated or skewed are snapped.
+   * @param {Event} eventData javascript event that is doing the transform
+   * @param {Transform} transform
+   * @param {Point} pointer current pointer position, canvas normalized
+   * @param {Point} anchor the point of the target that doesn't move during the transform
+   * @param {Object} options
+   * @param {TAxis[]} options.axes axes being scaled
+   * @param {boolean} options.proportional true if the target is scaled equally on both axes
+   */
+  snapScale(
+    eventData: TPointerEvent,
+    transform: Transform,
+    pointer: Point,
+    anchor: Point,
+    { axes, proportional }: { axes: TAxis[]; proportional: boolean }
+  ) {
+    const { target } = transform;
+    if (
+      !this.shouldSnap(target) ||
+      target.angle % 360 !== 0 ||
+      target.skewX !== 0 ||
+      target.skewY !== 0
+    ) {
+      this.guides = [];
+      return;
+    }
+    const { gridManager } = this.canvas,
+      lines = this.getLines(target),
+      dim = target._getTransformedDimensions(),
+      origin = {
+        x: resolveOrigin(transform.originX),
+        y: resolveOrigin(transform.originY),
+      };
+    // the factor to apply to each axis dimension to snap
+    const factors: Partial<Record<TAxis, { factor: number; delta: number }>> =
+      {};
+    axes.forEach((axis) => {
+      const size = dim[axis],
+        // position of each edge is `anchor + coef * size`
+        coefs = [-(origin[axis] + 0.5), 0.5 - origin[axis]].filter(
+          (coef) => coef !== 0
+        );
+      if (size === 0) {
+        return;
+      }
+      const tolerance = this.getTolerance(),
+        snapEdge = (value: number, coef: number, tolerance: number) => {
+          const edge = anchor[axis] + coef * size,
+            delta = value - edge,
+            factor = (value - anchor[axis]) / (coef * size);
+          factor > 0 &&
+            Math.abs(delta) <= tolerance &&
+            (!factors[axis] ||
+              Math.abs(delta) < Math.abs(factors[axis]!.delta)) &&
+            (factors[axis] = { factor, delta });
+        };
+      lines.forEach((line) => {
+        line.axis === axis &&
+          coefs.forEach((coef) => snapEdge(line.value, coef, tolerance));
+      });
+      // fallback to snapping the moving edges to the grid
+      !factors[axis] &&
+        gridManager.shouldSnap() &&
+        coefs.forEach((coef) =>
+          snapEdge(
+            gridManager.snapValue(anchor[axis] + coef * size),
+            coef,
+            Infinity
+          )
+        );
+    });
+    if (proportional) {
+      const best = [factors.x, factors.y]
+        .filter(Boolean)
+        .sort((a, b) => Math.abs(a!.delta) - Math.abs(b!.delta))[0];
+      best && (factors.x = factors.y = best);
+    }
+    factors.x && target.set('scaleX', target.scaleX * factors.x.factor);
+    factors.y && target.set('scaleY', target.scaleY * factors.y.factor);
+    const size = target._getTransformedDimensions(),
+      bbox: TBBox = {
+        left: anchor.x - (origin.x + 0.5) * size.x,
+        top: anchor.y - (origin.y + 0.5) * size.y,
+        width: size.x,
+        height: size.y,
+      },
+      guides: TSnapGuide[] = [];
+    (['x', 'y'] as TAxis[]).forEach(
+      (axis) =>
+        (axes.includes(axis) || proportional) &&
+        guides.push(...this.createGuides(bbox, lines, axis))
+    );
+    this.setGuides(
+      guides,
+      !!(factors.x || factors.y),
+      eventData,
+      transform,
+      pointer
+    );
+  }
+
+  /**
+   * Renders the guides of the current snap
+   * @param {CanvasRenderingContext2D} ctx context to render on, the top context
+   */
+  render(ctx: CanvasRenderingContext2D) {
+    const { snapGuideColor, snapGuideWidth, viewportTransform } = this.canvas;
+    if (this.guides.length === 0 || !snapGuideColor || !snapGuideWidth) {
+      return;
+    }
+    ctx.save();
+    ctx.strokeStyle = snapGuideColor;
+    ctx.lineWidth = snapGuideWidth;
+    ctx.beginPath();
+    this.guides.forEach(({ axis, value, start, end }) => {
+      const from = new Point(),
+        to = new Point();
+      from[axis] = to[axis] = value;
+      from[otherAxis[axis]] = start;
+      to[otherAxis[axis]] = end;
+      const a = from.transform(viewportTransform),
+        b = to.transform(viewportTransform);
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+    });
+    ctx.stroke();
+    ctx.restore();
+    this.canvas.contextTopDirty = true;
+  }
+
+  /**
+   * Clears the guides of the current snap
+   */
+  clear() {
+    this.guides = [];
+  }
+}
@@ -0,0 +1,292 @@
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { FabricObject as BaseFabricObject } from '../shapes/Object/Object';
+import type { TBBox } from '../typedefs';
+import { makeBoundingBoxFromPoints } from '../util/misc/boundingBoxFromPoints';
+import type { StaticCanvas } from './StaticCanvas';
+
+type TQuadNode = {
+  bounds: TBBox;
+  /**
+   * objects that don't fit in a single child
+   */
+  objects: Set<FabricObject>;
+  children?: TQuadNode[];
+};
+
+type TIndexEntry = {
+  bbox: TBBox;
+  node: TQuadNode;
+};
+
+/**
+ * Number of objects a node holds before it is split
+ */
+const NODE_CAPACITY = 16;
+
+/**
+ * Maximum depth of the tree, deeper nodes are not split anymore
+ */
+const MAX_DEPTH = 16;
+
+const containsBBox = (outer: TBBox, inner: TBBox) =>
+  inner.left >= outer.left &&
+  inner.top >= outer.top &&
+  inner.left + inner.width <= outer.left + outer.width &&
+  inner.top + inner.height <= outer.top + outer.height;
+
+const intersectsBBox = (a: TBBox, b: TBBox) =>
+  a.left <= b.left + b.width &&
+  b.left <= a.left + a.width &&
+  a.top <= b.top + b.height &&
+  b.top <= a.top + a.height;
+
+const isFiniteBBox = ({ left, top, width, height }: TBBox) =>
+  isFinite(left) && isFinite(top) && isFinite(width) && isFinite(height);
+
+const createNode = (bounds: TBBox): TQuadNode => ({
+  bounds,
+  objects: new Set(),
+});
+
+const splitBBox = ({ left, top, width, height }: TBBox): TBBox[] => {
+  const w = width / 2,
+    h = height / 2;
+  return [
+    { left, top, width: w, height: h },
+    { left: left + w, top, width: w, height: h },
+    { left, top: top + h, width: w, height: h },
+    { left: left + w, top: top + h, width: w, height: h },
+  ];
+};
+
+/**
+ * A quadtree of the bounding boxes of the objects of a {@link StaticCanvas}, in the canvas coordinate plane,
+ * enabled by {@link StaticCanvas#enableSpatialIndex}.
+ * It narrows down the objects tested by hit-testing, selection and off-screen culling.
+ *
+ * The index is built on first use and maintained as objects are added, removed and modified.
+ * An object is considered modified when its coordinates are set, so objects modified programmatically
+ * must call {@link FabricObject#setCoords}, as hit-testing already requires.
+ * The tree grows to fit objects wherever they are.
+ */
+export class SpatialIndex {
+  declare readonly canvas: StaticCanvas;
+
+  private declare root?: TQuadNode;
+
+  private entries = new Map<FabricObject, TIndexEntry>();
+
+  /**
+   * objects with a non finite bounding box, they are found by every search
+   */
+  private unbounded = new Set<FabricObject>();
+
+  private built = false;
+
+  constructor(canvas: StaticCanvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @returns true if the index is built and should be maintained
+   */
+  private isMaintained() {
+    if (this.built && !this.canvas.enableSpatialIndex) {
+      this.clear();
+    }
+    return this.built;
+  }
+
+  /**
+   * Builds the index of the objects of the canvas if needed
+   */
+  private build() {
+    if (!this.built) {
+      this.built = true;
+      this.canvas._objects.forEach((object) => this.add(object));
+    }
+  }
+
+  /**
+   * Drops the index, it is rebuilt on next use
+   */
+  clear() {
+    this.root = undefined;
+    this.entries.clear();
+    this.unbounded.clear();
+    this.built = false;
+  }
+
+  /**
+   * @returns true if `object` is indexed
+   */
+  has(object: FabricObject) {
+    return this.entries.has(object) || this.unbounded.has(object);
+  }
+
+  /**
+   * Indexes an object added to the canvas
+   * @param {FabricObject} object
+   */
+  insert(object: FabricObject) {
+    this.isMaintained() && !this.has(object) && this.add(object);
+  }
+
+  /**
+   * Removes an object removed from the canvas from the index
+   * @param {FabricObject} object
+   */
+  remove(object: FabricObject) {
+    if (!this.isMaintained()) {
+      return;
+    }
+    const entry = this.entries.get(object);
+    entry && entry.node.objects.delete(object);
+    this.entries.delete(object);
+    this.unbounded.delete(object);
+  }
+
+  /**
+   * Moves an indexed object in the index if its bounding box changed, other objects are ignored
+   * @param {FabricObject} object
+   */
+  update(object: BaseFabricObject) {
+    const indexed = object as FabricObject;
+    if (!this.isMaintained() || !this.has(indexed)) {
+      return;
+    }
+    const bbox = makeBoundingBoxFromPoints(indexed.getCoords(true)),
+      entry = this.entries.get(indexed);
+    if (
+      entry &&
+      entry.bbox.left === bbox.left &&
+      entry.bbox.top === bbox.top &&
+      entry.bbox.width === bbox.width &&
+      entry.bbox.height === bbox.height
+    ) {
+      return;
+    }
+    this.remove(indexed);
+    this.add(indexed, bbox);
+  }
+
+  /**
+   * @private
+   */
+  private add(
+    object: FabricObject,
+    bbox = makeBoundingBoxFromPoints(object.getCoords(true))
+  ) {
+    if (!isFiniteBBox(bbox)) {
+      this.unbounded.add(object);
+      return;
+    }
+    if (!this.root) {
+      this.root = createNode({
+        left: bbox.left,
+        top: bbox.top,
+        width: Math.max(bbox.width, bbox.height, 1),
+        height: Math.max(bbox.width, bbox.height, 1),
+      });
+    }
+    while (!containsBBox(this.root.bounds, bbox)) {
+      this.grow(bbox);
+    }
+    this.insertInNode(this.root, object, bbox, 0);
+  }
+
+  /**
+   * Doubles the size of the root towards `bbox`, the root becomes a child of the new root
+   * @private
+   */
+  private grow(bbox: TBBox) {
+    const root = this.root as TQuadNode,
+      { left, top, width, height } = root.bounds,
+      growLeft = bbox.left < left,
+      growUp = bbox.top < top,
+      bounds = {
+        left: growLeft ? left - width : left,
+        top: growUp ? top - height : top,
+        width: width * 2,
+        height: height * 2,
+      },
+      node = createNode(bounds),
+      rootIndex = (growLeft ? 1 : 0) + (growUp ? 2 : 0);
+    node.children = splitBBox(bounds).map((childBounds, index) =>
+      index === rootIndex ? root : createNode(childBounds)
+    );
+    this.root = node;
+  }
+
+  /**
+   * @private
+   */
+  private insertInNode(
+    node: TQuadNode,
+    object: FabricObject,
+    bbox: TBBox,
+    depth: number
+  ) {
+    const child = node.children?.find((child) =>
+      containsBBox(child.bounds, bbox)
+    );
+    if (child) {
+      this.insertInNode(child, object, bbox, depth + 1);
+      return;
+    }
+    node.objects.add(object);
+    this.entries.set(object, { bbox, node });
+    if (
+      !node.children &&
+      node.objects.size > NODE_CAPACITY &&
+      depth < MAX_DEPTH
+    ) {
+      node.children = splitBBox(node.bounds).map(createNode);
+      node.objects.forEach((object) => {
+        const { bbox } = this.entries.get(object) as TIndexEntry;
+        if (node.children?.some((child) => containsBBox(child.bounds, bbox))) {
+          node.objects.delete(object);
+          this.insertInNode(node, object, bbox, depth);
+        }
+      });
+    }
+  }
+
+  /**
+   * @param {TBBox} bbox in the canvas coordinate plane
+   * @returns the indexed objects whose bounding box intersects `bbox`, in no particular order
+   */
+  search(bbox: TBBox) {
+    this.build();
+    const found = new Set(this.unbounded),
+      visit = (node: TQuadNode) => {
+        if (!intersectsBBox(node.bounds, bbox)) {
+          return;
+        }
+        node.objects.forEach((object) => {
+          const entry = this.entries.get(object) as TIndexEntry;
+          intersectsBBox(entry.bbox, bbox) && found.add(object);
+        });
+        node.children?.forEach(visit);
+      };
+    this.root && visit(this.root);
+    return found;
+  }
+
+  /**
+   * Narrows down `objects` to the ones that may intersect `bbox`, preserving their order.
+   * Objects that are not indexed and objects of the active selection, that follow the selection, are kept.
+   * @param {FabricObject[]} objects
+   * @param {TBBox} bbox in the canvas coordinate plane
+   * @returns `objects` if the index is disabled
+   */
+  filterObjects(objects: FabricObject[], bbox: TBBox) {
+    if (!this.canvas.enableSpatialIndex) {
+      return objects;
+    }
+    const found = this.search(bbox);
+    return objects.filter(
+      (object) => found.has(object) || object.group || !this.has(object)
+    );
+  }
+}
@@ -10,6 +10,7 @@ import type { TCachedFabricObject } from '../shapes/Object/Object';
 import type {
   Abortable,
   Constructor,
+  TBBox,
   TCornerPoint,
   TDataUrlOptions,
   TFiller,
@@ -28,6 +29,7 @@ import { runningAnimations } from '../util/animation/AnimationRegistry';
 import { uid } from '../util/internals/uid';
 import { createCanvasElement, toDataURL } from '../util/misc/dom';
 import { invertTransform, transformPoint } from '../util/misc/matrix';
+import { makeBoundingBoxFromPoints } from '../util/misc/boundingBoxFromPoints';
 import type { EnlivenObjectOptions } from '../util/misc/objectEnlive';
 import {
   enlivenObjectEnlivables,
@@ -47,6 +49,9 @@ import type { CSSDimensions } from './DOMManagers/util';
 import type { FabricObject } from '../shapes/Object/FabricObject';
 import type { StaticCanvasOptions } from './StaticCanvasOptions';
 import { staticCanvasDefaults } from './StaticCanvasOptions';
+import { SpatialIndex } from './SpatialIndex';
+import { LayerManager } from './LayerManager';
+import { Timeline } from './Timeline';
 import { log, FabricError } from '../util/internals/console';
 
 export type TCanvasSizeOptions = {
@@ -56,6 +61,10 @@ export type TCanvasSizeOptions = {
 
 export type TSVGExportOptions = {
   suppressPreamble?: boolean;
+  /**
+   * include the grid of an interactive canvas
+   */
+  grid?: boolean;
   viewBox?: {
     x: number;
     y: number;
@@ -66,6 +75,10 @@ export type TSVGExportOptions = {
   width?: string;
   height?: string;
   reviver?: TSVGReviver;
+  /**
+   * exports only the objects passing the filter, objects of hidden layers are excluded by default
+   */
+  filter?: (object: FabricObject) => boolean;
 };
 
 /**
@@ -103,6 +116,7 @@ export class StaticCanvas<
   // rendering config
   declare renderOnAddRemove: boolean;
   declare skipOffscreen: boolean;
+  declare enableSpatialIndex: boolean;
   declare enableRetinaScaling: boolean;
   declare imageSmoothingEnabled: boolean;
 
@@ -160,6 +174,24 @@ export class StaticCanvas<
 
   declare elements: StaticCanvasDOMManager;
 
+  /**
+   * Index of the objects, see {@link enableSpatialIndex}
+   * @type SpatialIndex
+   */
+  spatialIndex = new SpatialIndex(this);
+
+  /**
+   * Named layers of the objects
+   * @type LayerManager
+   */
+  layerManager = new LayerManager(this);
+
+  /**
+   * Keyframe animations of the objects
+   * @type Timeline
+   */
+  timeline = new Timeline(this);
+
   static ownDefaults = staticCanvasDefaults;
 
   // reference to
@@ -224,20 +256,42 @@ export class StaticCanvas<
     }
     obj._set('canvas', this);
     obj.setCoords();
+    this.spatialIndex.insert(obj);
+    this.layerManager.onObjectAdded(obj);
     this.fire('object:added', { target: obj });
     obj.fire('added', { target: this });
   }
 
   _onObjectRemoved(obj: FabricObject) {
+    this.spatialIndex.remove(obj);
     obj._set('canvas', undefined);
     this.fire('object:removed', { target: obj });
     obj.fire('removed', { target: this });
   }
 
-  _onStackOrderChanged() {
+  _onStackOrderChanged(obj: FabricObject) {
+    this.layerManager.onStackOrderChanged(obj);
     this.renderOnAddRemove && this.requestRenderAll();
   }
 
+  /**
+   * @private
+   * Called by {@link layerManager} after layers were added, reordered, hidden or locked
+   */
+  _onLayersChanged() {
+    this.requestRenderAll();
+  }
+
+  /**
+   * @override narrows down the objects using {@link spatialIndex},
+   * objects of hidden and locked layers are excluded
+   */
+  _queryObjects(bbox: TBBox) {
+    return this.layerManager.filterInteractive(
+      this.spatialIndex.filterObjects(this._objects, bbox)
+    );
+  }
+
   /**
    * @private
    */
@@ -359,7 +413,7 @@ export class StaticCanvas<
   }
 
   /**
-   * Sets viewport transformation of this canvas instance
+   * Sets viewport transformation of this canvas instance, fires `viewport:changed`
    * @param {Array} vpt a Canvas 2D API transform matrix
    */
   setViewportTransform(vpt: TMat2D) {
@@ -381,6 +435,7 @@ export class StaticCanvas<
     }
     this.calcViewportBoundaries();
     this.renderOnAddRemove && this.requestRenderAll();
+    this.fire('viewport:changed', { viewportTransform: vpt });
   }
 
   /**
@@ -484,7 +539,10 @@ export class StaticCanvas<
     if (this.destroyed) {
       return;
     }
-    this.renderCanvas(this.getContext(), this._objects);
+    this.renderCanvas(
+      this.getContext(),
+      this.layerManager.filterVisible(this._objects)
+    );
   }
 
   /**
@@ -650,6 +708,13 @@ export class StaticCanvas<
    * @param {Array} objects to render
    */
   _renderObjects(ctx: CanvasRenderingContext2D, objects: FabricObject[]) {
+    if (this.skipOffscreen) {
+      const { tl, tr, br, bl } = this.vptCoords;
+      objects = this.spatialIndex.filterObjects(
+        objects,
+        makeBoundingBoxFromPoints([tl, tr, br, bl])
+      );
+    }
     for (let i = 0, len = objects.length; i < len; ++i) {
       objects[i] && objects[i].render(ctx);
     }
@@ -892,6 +957,12 @@ export class StaticCanvas<
         .map((instance) =>
           this._toObject(instance, methodName, propertiesToInclude)
         ),
+      ...(this.layerManager.getLayers().length > 0
+        ? { layers: this.layerManager.toObject() }
+        : null),
+      ...(this.timeline.getTracks().length > 0
+        ? { timeline: this.timeline.toObject() }
+        : null),
       ...this.__serializeBgOverlay(methodName, propertiesToInclude),
       ...(clipPathData ? { clipPath: clipPathData } : null),
     };
@@ -1018,7 +1089,8 @@ export class StaticCanvas<
     }
     this._setSVGBgOverlayColor(markup, 'background');
     this._setSVGBgOverlayImage(markup, 'backgroundImage', reviver);
-    this._setSVGObjects(markup, reviver);
+    this._setSVGGrid(markup, options);
+    this._setSVGObjects(markup, reviver, options.filter);
     if (this.clipPath) {
       markup.push('</g>\n');
     }
@@ -1030,6 +1102,15 @@ export class StaticCanvas<
     return markup.join('');
   }
 
+  /**
+   * @private
+   * subclasses rendering a grid should override this method
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _setSVGGrid(markup: string[], options: TSVGExportOptions) {
+    // noop
+  }
+
   /**
    * @private
    */
@@ -1186,9 +1267,13 @@ export class StaticCanvas<
   /**
    * @private
    */
-  _setSVGObjects(markup: string[], reviver: TSVGReviver) {
+  _setSVGObjects(
+    markup: string[],
+    reviver: TSVGReviver,
+    filter = (object: FabricObject) => this.layerManager.isVisible(object)
+  ) {
     this.forEachObject((fabricObject) => {
-      if (fabricObject.excludeFromExport) {
+      if (fabricObject.excludeFromExport || !filter(fabricObject)) {
         return;
       }
       this._setSVGObject(markup, fabricObject, reviver);
@@ -1300,7 +1385,8 @@ export class StaticCanvas<
     }
 
     // parse json if it wasn't already
-    const serialized = typeof json === 'string' ? JSON.parse(json) : json;
+    const { timeline, ...serialized } =
+      typeof json === 'string' ? JSON.parse(json) : json;
     const {
       objects = [],
       backgroundImage,
@@ -1308,6 +1394,7 @@ export class StaticCanvas<
       overlayImage,
       overlay,
       clipPath,
+      layers,
     } = serialized;
     const renderOnAddRemove = this.renderOnAddRemove;
     this.renderOnAddRemove = false;
@@ -1329,7 +1416,9 @@ export class StaticCanvas<
       ),
     ]).then(([enlived, enlivedMap]) => {
       this.clear();
+      this.layerManager.fromObject(layers);
       this.add(...enlived);
+      this.timeline.fromObject(timeline);
       this.set(serialized);
       this.set(enlivedMap);
       this.renderOnAddRemove = renderOnAddRemove;
@@ -1369,7 +1458,7 @@ export class StaticCanvas<
    * @param {Number} [options.width] Cropping width. Introduced in v1.2.14
    * @param {Number} [options.height] Cropping height. Introduced in v1.2.14
    * @param {Boolean} [options.enableRetinaScaling] Enable retina scaling for clone image. Introduce in 2.0.0
-   * @param {(object: fabric.Object) => boolean} [options.filter] Function to filter objects.
+   * @param {(object: fabric.Object) => boolean} [options.filter] Function to filter objects, objects of hidden layers are excluded by default.
    * @return {String} Returns a data: URL containing a representation of the object in the format specified by options.format
    * @see {@link https://jsfiddle.net/xsjua1rd/ demo}
    * @example <caption>Generate jpeg dataURL with lower quality</caption>
@@ -1425,7 +1514,7 @@ export class StaticCanvas<
    * @param {Number} [options.top] Cropping top offset.
    * @param {Number} [options.width] Cropping width.
    * @param {Number} [options.height] Cropping height.
-   * @param {(object: fabric.Object) => boolean} [options.filter] Function to filter objects.
+   * @param {(object: fabric.Object) => boolean} [options.filter] Function to filter objects, objects of hidden layers are excluded by default.
    */
   toCanvasElement(
     multiplier = 1,
@@ -1445,7 +1534,7 @@ export class StaticCanvas<
       canvasEl = createCanvasElement(),
       objectsToRender = filter
         ? this._objects.filter((obj) => filter(obj))
-        : this._objects;
+        : this.layerManager.filterVisible(this._objects);
     canvasEl.width = scaledWidth;
     canvasEl.height = scaledHeight;
     this.enableRetinaScaling = false;
@@ -1472,6 +1561,7 @@ export class StaticCanvas<
     !this.disposed &&
       this.elements.cleanupDOM({ width: this.width, height: this.height });
     runningAnimations.cancelByCanvas(this);
+    this.timeline.pause();
     this.disposed = true;
     return new Promise<boolean>((resolve, reject) => {
       const task = () => {
@@ -85,6 +85,15 @@ interface CanvasRenderingOptions {
    */
   skipOffscreen: boolean;
 
+  /**
+   * When true, a {@link SpatialIndex} of the objects narrows down the objects tested by hit-testing,
+   * selection and off-screen culling ({@link skipOffscreen}).
+   * Speeds up canvases with many objects, objects modified programmatically must call `setCoords`.
+   * @type Boolean
+   * @default
+   */
+  enableSpatialIndex: boolean;
+
   /**
    * When true, canvas is scaled by devicePixelRatio for better rendering on retina screens
    * @type Boolean
@@ -186,6 +195,7 @@ export const staticCanvasDefaults: TOptions<StaticCanvasOptions> = {
 
   renderOnAddRemove: true,
   skipOffscreen: true,
+  enableSpatialIndex: false,
   enableRetinaScaling: true,
   imageSmoothingEnabled: true,
 
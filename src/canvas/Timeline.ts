@@ -0,0 +1,477 @@
+import { Color } from '../color/Color';
+import type { TRGBAColorSource } from '../color/typedefs';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import {
+  cancelAnimFrame,
+  requestAnimFrame,
+} from '../util/animation/AnimationFrameProvider';
+import * as ease from '../util/animation/easing';
+import type { TEasingFunction } from '../util/animation/types';
+import { assignObjectId } from '../util/internals/assignObjectId';
+import { findObjectById } from '../util/internals/findObjectById';
+import { capValue } from '../util/misc/capValue';
+import type { StaticCanvas } from './StaticCanvas';
+
+/**
+ * Value of a keyframe.
+ * Numbers, lists of numbers and colors are interpolated, other values change when their keyframe is reached
+ */
+export type TTimelineValue = number | number[] | string | boolean | null;
+
+/**
+ * Name of an easing function of {@link ease}, or `linear`
+ */
+export type TTimelineEasing = 'linear' | keyof typeof ease;
+
+export type TKeyframe = {
+  /**
+   * Time of the keyframe in ms
+   */
+  time: number;
+  value: TTimelineValue;
+  /**
+   * Easing of the transition from the previous keyframe
+   * @default 'linear'
+   */
+  easing?: TTimelineEasing;
+};
+
+/**
+ * The keyframes of a property of an object
+ */
+export type TTimelineTrack = {
+  target: FabricObject;
+  /**
+   * Property of the target, nested properties are separated by dots, e.g. `shadow.blur`
+   */
+  property: string;
+  /**
+   * Keyframes sorted by time
+   */
+  keyframes: TKeyframe[];
+};
+
+export type TTimelineToOptions = {
+  /**
+   * Start time of the transitions in ms
+   * @default the duration of the timeline, sequencing the transitions after the existing ones
+   */
+  at: number;
+  /**
+   * Duration of the transitions in ms
+   * @default 500
+   */
+  duration: number;
+  easing: TTimelineEasing;
+};
+
+export type TimelineProps = {
+  /**
+   * Speed of the playback, 2 plays twice as fast
+   */
+  playbackRate: number;
+  /**
+   * When `true`, the playback restarts after reaching an end of the timeline
+   */
+  loop: boolean;
+  /**
+   * When `true`, the timeline plays backwards
+   */
+  reversed: boolean;
+};
+
+export type SerializedTimelineProps = TimelineProps & {
+  /**
+   * Tracks reference their objects by {@link FabricObject#id}
+   */
+  tracks: (Omit<TTimelineTrack, 'target'> & { objectId: string })[];
+};
+
+const linear: TEasingFunction = (t, b, c, d) => b + (c * t) / d;
+
+/**
+ * @private
+ * @returns the value at the end of `path` in `target`
+ */
+const getDeepValue = (target: FabricObject, path: string[]) =>
+  path.reduce<unknown>(
+    (deep, key) => (deep as Record<string, unknown> | undefined)?.[key],
+    target
+  );
+
+/**
+ * @private
+ * @returns the value of `property` of `target`, nested properties are separated by dots
+ */
+const getValue = (target: FabricObject, property: string): TTimelineValue =>
+  getDeepValue(target, property.split('.')) as TTimelineValue;
+
+/**
+ * @private
+ * Sets the value of `property` of `target`, nested properties are separated by dots
+ */
+const setValue = (
+  target: FabricObject,
+  property: string,
+  value: TTimelineValue
+) => {
+  const path = property.split('.'),
+    key = path.pop() as string;
+  if (path.length === 0) {
+    target.set(key, value);
+    return;
+  }
+  const parent = getDeepValue(target, path) as
+    | Record<string, unknown>
+    | undefined;
+  if (parent) {
+    parent[key] = value;
+    target.set('dirty', true);
+  }
+};
+
+/**
+ * @private
+ * @returns the value between `from` and `to` at `progress` ∈ [0, 1]
+ */
+const interpolate = (
+  from: TTimelineValue,
+  to: TTimelineValue,
+  progress: number,
+  isColor: boolean
+): TTimelineValue => {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return from + (to - from) * progress;
+  } else if (
+    Array.isArray(from) &&
+    Array.isArray(to) &&
+    from.length === to.length
+  ) {
+    return from.map((value, i) => value + (to[i] - value) * progress);
+  } else if (isColor && typeof from === 'string' && typeof to === 'string') {
+    const start = new Color(from).getSource(),
+      end = new Color(to).getSource();
+    const [r, g, b, a] = start.map(
+      (value, i) => value + (end[i] - value) * progress
+    );
+    return new Color([
+      ...[r, g, b].map(Math.round),
+      capValue(0, a, 1),
+    ] as TRGBAColorSource).toRgba();
+  }
+  return progress < 1 ? from : to;
+};
+
+/**
+ * Plays keyframe animations of the objects of a {@link StaticCanvas}.
+ *
+ * Each track holds the keyframes of a property of an object, tracks of many objects are played together
+ * and can overlap in time. Between 2 keyframes the value of the property is interpolated with the easing of the later one.
+ * Before the first keyframe and after the last one the value is held.
+ *
+ * The timeline can be played, paused, reversed, looped and played at any rate.
+ * {@link seek} applies the values of any time, e.g. to scrub the timeline or to export frames.
+ *
+ * Tracks are serialized with the canvas, referencing their objects by {@link FabricObject#id},
+ * assigned when adding keyframes if missing.
+ *
+ * @example
+ * canvas.timeline
+ *   .to(rect, { left: 200 }, { duration: 1000 })
+ *   .to(rect, { fill: 'red', angle: 90 }, { easing: 'easeOutQuad' })
+ *   .to(circle, { opacity: 0 }, { at: 500 });
+ * canvas.timeline.play();
+ *
+ * @example Exporting frames
+ * for (let time = 0; time <= canvas.timeline.getDuration(); time += 1000 / 30) {
+ *   canvas.timeline.seek(time);
+ *   frames.push(canvas.toDataURL());
+ * }
+ */
+export class Timeline implements TimelineProps {
+  declare readonly canvas: StaticCanvas;
+
+  playbackRate = 1;
+
+  loop = false;
+
+  reversed = false;
+
+  private tracks: TTimelineTrack[] = [];
+
+  /**
+   * Current time in ms, use {@link seek} to change it
+   */
+  private _time = 0;
+
+  private declare frameHandle?: number;
+
+  private declare lastTimestamp?: number;
+
+  constructor(canvas: StaticCanvas) {
+    this.canvas = canvas;
+    this.tick = this.tick.bind(this);
+  }
+
+  get time() {
+    return this._time;
+  }
+
+  /**
+   * @returns the time of the last keyframe in ms
+   */
+  getDuration() {
+    return this.tracks.reduce(
+      (duration, { keyframes }) =>
+        Math.max(duration, keyframes[keyframes.length - 1]?.time ?? 0),
+      0
+    );
+  }
+
+  getTracks() {
+    return [...this.tracks];
+  }
+
+  /**
+   * Adds keyframes to the track of `property` of `target`, replacing keyframes at the same time
+   * @param {FabricObject} target
+   * @param {string} property nested properties are separated by dots, e.g. `shadow.blur`
+   * @param {TKeyframe[]} keyframes
+   */
+  addKeyframes(target: FabricObject, property: string, keyframes: TKeyframe[]) {
+    let track = this.tracks.find(
+      (track) => track.target === target && track.property === property
+    );
+    if (!track) {
+      assignObjectId(target, this.canvas.getObjects(), 'timeline_target');
+      track = { target, property, keyframes: [] };
+      this.tracks.push(track);
+    }
+    const times = new Set(keyframes.map(({ time }) => time));
+    track.keyframes = [
+      ...track.keyframes.filter(({ time }) => !times.has(time)),
+      ...keyframes.map((keyframe) => ({ ...keyframe })),
+    ].sort((a, b) => a.time - b.time);
+    return this;
+  }
+
+  /**
+   * Adds transitions of properties of `target` from their values at the start time to `properties`
+   * @param {FabricObject} target
+   * @param {Record<string, TTimelineValue>} properties end values
+   * @param {Partial<TTimelineToOptions>} [options]
+   */
+  to(
+    target: FabricObject,
+    properties: Record<string, TTimelineValue>,
+    {
+      at = this.getDuration(),
+      duration = 500,
+      easing = 'linear',
+    }: Partial<TTimelineToOptions> = {}
+  ) {
+    Object.entries(properties).forEach(([property, value]) => {
+      const track = this.tracks.find(
+        (track) => track.target === target && track.property === property
+      );
+      // a keyframe at the start time is kept with the easing of its transition
+      const start = track?.keyframes.some(({ time }) => time === at)
+        ? []
+        : [
+            {
+              time: at,
+              value: track
+                ? this.getValueAt(track, at)
+                : getValue(target, property),
+            },
+          ];
+      this.addKeyframes(target, property, [
+        ...start,
+        { time: at + duration, value, easing },
+      ]);
+    });
+    return this;
+  }
+
+  /**
+   * Removes the tracks of `target`, or its track of `property`
+   * @param {FabricObject} target
+   * @param {string} [property]
+   */
+  removeTracks(target: FabricObject, property?: string) {
+    this.tracks = this.tracks.filter(
+      (track) =>
+        track.target !== target ||
+        (property !== undefined && track.property !== property)
+    );
+    return this;
+  }
+
+  /**
+   * @returns the value of the track at `time`
+   */
+  getValueAt({ target, property, keyframes }: TTimelineTrack, time: number) {
+    const index = keyframes.findIndex((keyframe) => keyframe.time > time);
+    if (index === 0) {
+      return keyframes[0].value;
+    } else if (index === -1) {
+      return keyframes[keyframes.length - 1]?.value;
+    }
+    const from = keyframes[index - 1],
+      to = keyframes[index],
+      easing = to.easing && to.easing !== 'linear' ? ease[to.easing] : linear;
+    return interpolate(
+      from.value,
+      to.value,
+      easing(time - from.time, 0, 1, to.time - from.time),
+      target.colorProperties.includes(property.split('.').pop() as string)
+    );
+  }
+
+  /**
+   * @private
+   * Applies the values of the tracks at `time`, tracks of objects that are not on the canvas are skipped
+   */
+  private applyTime(time: number) {
+    this._time = time;
+    const targets = new Set<FabricObject>();
+    this.tracks.forEach((track) => {
+      if (track.keyframes.length > 0 && track.target.canvas === this.canvas) {
+        setValue(track.target, track.property, this.getValueAt(track, time));
+        targets.add(track.target);
+      }
+    });
+    targets.forEach((target) => target.setCoords());
+    this.canvas.fire('timeline:update', { time, targets: [...targets] });
+  }
+
+  /**
+   * Moves the timeline to `time`, applying the values of its tracks.
+   * Rendering is requested, call {@link StaticCanvas#renderAll} to render synchronously
+   * @param {number} time in ms, bound to the duration of the timeline
+   */
+  seek(time: number) {
+    this.applyTime(capValue(0, time, this.getDuration()));
+    this.canvas.requestRenderAll();
+    return this;
+  }
+
+  isPlaying() {
+    return this.frameHandle !== undefined;
+  }
+
+  /**
+   * Plays the timeline from the current time, restarting it if it reached its end
+   */
+  play() {
+    if (this.isPlaying()) {
+      return this;
+    }
+    const duration = this.getDuration();
+    if (!this.reversed && this._time >= duration) {
+      this._time = 0;
+    } else if (this.reversed && this._time <= 0) {
+      this._time = duration;
+    }
+    this.lastTimestamp = undefined;
+    this.frameHandle = requestAnimFrame(this.tick);
+    return this;
+  }
+
+  pause() {
+    this.frameHandle !== undefined && cancelAnimFrame(this.frameHandle);
+    this.frameHandle = undefined;
+    return this;
+  }
+
+  /**
+   * Changes the direction of the playback
+   */
+  reverse() {
+    this.reversed = !this.reversed;
+    return this;
+  }
+
+  /**
+   * @private
+   */
+  private tick(timestamp: number) {
+    const now = timestamp || +new Date(),
+      elapsed =
+        (now - (this.lastTimestamp ?? now)) *
+        this.playbackRate *
+        (this.reversed ? -1 : 1),
+      duration = this.getDuration();
+    this.lastTimestamp = now;
+    let time = this._time + elapsed,
+      completed = false;
+    if (time < 0 || time > duration) {
+      if (this.loop && duration > 0) {
+        time = ((time % duration) + duration) % duration;
+      } else {
+        time = capValue(0, time, duration);
+        completed = true;
+      }
+    }
+    this.applyTime(time);
+    this.canvas.renderAll();
+    if (completed) {
+      this.frameHandle = undefined;
+      this.canvas.fire('timeline:complete', { time });
+    } else {
+      this.frameHandle = requestAnimFrame(this.tick);
+    }
+  }
+
+  /**
+   * Returns an object representation of the timeline, tracks of objects that are not on the canvas are omitted
+   * @return {SerializedTimelineProps}
+   */
+  toObject(): SerializedTimelineProps {
+    const objects = this.canvas.getObjects();
+    return {
+      playbackRate: this.playbackRate,
+      loop: this.loop,
+      reversed: this.reversed,
+      tracks: this.tracks
+        .filter(
+          ({ target }) =>
+            target.id !== undefined &&
+            findObjectById(objects, target.id) === target
+        )
+        .map(({ target, property, keyframes }) => ({
+          objectId: target.id as string,
+          property,
+          keyframes: keyframes.map((keyframe) => ({ ...keyframe })),
+        })),
+    };
+  }
+
+  toJSON() {
+    return this.toObject();
+  }
+
+  /**
+   * Replaces the tracks, used to restore the timeline of a serialized canvas.
+   * Tracks referencing objects that are not on the canvas are dropped
+   * @param {Partial<SerializedTimelineProps>} timeline
+   */
+  fromObject({
+    playbackRate = 1,
+    loop = false,
+    reversed = false,
+    tracks = [],
+  }: Partial<SerializedTimelineProps> = {}) {
+    this.pause();
+    this.playbackRate = playbackRate;
+    this.loop = loop;
+    this.reversed = reversed;
+    this._time = 0;
+    this.tracks = [];
+    const objects = this.canvas.getObjects();
+    tracks.forEach(({ objectId, property, keyframes }) => {
+      const target = findObjectById(objects, objectId);
+      target && this.addKeyframes(target, property, keyframes);
+    });
+  }
+}
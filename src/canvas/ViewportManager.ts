@@ -0,0 +1,451 @@
+import type { ModifierKey, TPointerEvent } from '../EventTypeDefs';
+import { Point } from '../Point';
+import type { FabricObject } from '../shapes/Object/FabricObject';
+import type { TBBox, TMat2D } from '../typedefs';
+import { animate } from '../util/animation/animate';
+import { easeInOutCubic, easeOutCubic } from '../util/animation/easing';
+import type { TEasingFunction } from '../util/animation/types';
+import type { ValueAnimation } from '../util/animation/ValueAnimation';
+import { makeBoundingBoxFromPoints } from '../util/misc/boundingBoxFromPoints';
+import {
+  createScaleMatrix,
+  createTranslateMatrix,
+  invertTransform,
+  multiplyTransformMatrixArray,
+} from '../util/misc/matrix';
+import type { Canvas } from './Canvas';
+
+/**
+ * - `none`: the wheel is not handled
+ * - `zoom`: the wheel zooms around the pointer
+ * - `pan`: the wheel pans, it zooms around the pointer while ctrl or meta is pressed,
+ * which is also how browsers report trackpad pinches
+ */
+export type TWheelNavigation = 'none' | 'zoom' | 'pan';
+
+export type TViewportAnimationOptions = {
+  /**
+   * space in pixels around the objects
+   * @default 0
+   */
+  padding?: number;
+  /**
+   * duration of the animation in ms, 0 changes the viewport at once
+   * @default 500
+   */
+  duration?: number;
+  /**
+   * @default easeInOutCubic
+   */
+  easing?: TEasingFunction;
+};
+
+type TPanState = {
+  last: Point;
+  /**
+   * recent positions of the pointer in the viewport, used to compute the velocity of the pan
+   */
+  samples: { point: Point; time: number }[];
+};
+
+/**
+ * Zoom factor of a wheel delta of 1 pixel, deltas of a mouse wheel are usually 100 pixels
+ */
+const WHEEL_ZOOM_BASE = 0.999;
+
+/**
+ * Pixels of a wheel delta of 1 line
+ */
+const WHEEL_LINE_HEIGHT = 16;
+
+/**
+ * Time window in ms of the pointer positions used to compute the velocity of a pan
+ */
+const VELOCITY_WINDOW = 100;
+
+/**
+ * Minimum velocity in pixels per ms of a pan to start the inertial panning
+ */
+const MIN_INERTIA_VELOCITY = 0.05;
+
+const PAN_CURSOR = 'grabbing';
+
+/**
+ * Navigates the viewport of a {@link Canvas}.
+ *
+ * - wheel and trackpad zoom around the pointer and pan, see {@link Canvas#wheelNavigation}
+ * - dragging while {@link Canvas#panKey} is pressed pans, releasing the pointer while dragging pans on by inertia, see {@link Canvas#panInertia}
+ * - {@link fitToObjects} and {@link zoomToObject} animate the viewport to objects
+ *
+ * The zoom is kept within {@link Canvas#minZoom} and {@link Canvas#maxZoom},
+ * panning is limited to the bounds of the objects if {@link Canvas#limitPanToContent} is true.
+ * Limits are applied by the methods of the manager, not by the viewport methods of the canvas.
+ * Every change of the viewport fires `viewport:changed`.
+ *
+ * The viewport is assumed not to be rotated or skewed.
+ */
+export class ViewportManager {
+  declare readonly canvas: Canvas;
+
+  private declare panning?: TPanState;
+
+  /**
+   * running animation of the viewport, either inertial panning or an animation to objects
+   */
+  private declare animation?: ValueAnimation;
+
+  constructor(canvas: Canvas) {
+    this.canvas = canvas;
+  }
+
+  /**
+   * @returns the center of the canvas element in the viewport
+   */
+  private getViewportCenter() {
+    return new Point(this.canvas.width / 2, this.canvas.height / 2);
+  }
+
+  /**
+   * @param {number} zoom
+   * @returns `zoom` bounded by {@link Canvas#minZoom} and {@link Canvas#maxZoom}
+   */
+  clampZoom(zoom: number) {
+    const { minZoom, maxZoom } = this.canvas;
+    return Math.min(Math.max(zoom, minZoom), maxZoom);
+  }
+
+  /**
+   * @param {FabricObject[]} [objects] defaults to the objects of the canvas
+   * @returns the bounding box of `objects` in the canvas coordinate plane, undefined if there are no objects
+   */
+  getContentBounds(
+    objects: FabricObject[] = this.canvas.getObjects()
+  ): TBBox | undefined {
+    return objects.length > 0
+      ? makeBoundingBoxFromPoints(
+          objects.flatMap((object) => object.getCoords(true))
+        )
+      : undefined;
+  }
+
+  /**
+   * Applies the zoom and pan limits to a viewport transform
+   * @param {TMat2D} vpt
+   * @param {Point} [point] point of the viewport that doesn't move when the zoom is limited, defaults to the center of the canvas
+   * @returns the constrained viewport transform
+   */
+  constrain(vpt: TMat2D, point = this.getViewportCenter()): TMat2D {
+    const zoom = vpt[0],
+      bounded = this.clampZoom(zoom);
+    if (bounded !== zoom) {
+      vpt = multiplyTransformMatrixArray([
+        createTranslateMatrix(point.x, point.y),
+        createScaleMatrix(bounded / zoom),
+        createTranslateMatrix(-point.x, -point.y),
+        vpt,
+      ]);
+    }
+    return this.canvas.limitPanToContent ? this.limitPan(vpt) : vpt;
+  }
+
+  /**
+   * Content smaller than the canvas stays within the canvas,
+   * content larger than the canvas covers it.
+   * @private
+   */
+  private limitPan(vpt: TMat2D): TMat2D {
+    const bounds = this.getContentBounds();
+    if (!bounds) {
+      return vpt;
+    }
+    const { width, height } = this.canvas,
+      limit = (
+        translation: number,
+        zoom: number,
+        size: number,
+        start: number,
+        end: number
+      ) => {
+        const a = size - end * zoom,
+          b = -start * zoom;
+        return Math.min(Math.max(translation, Math.min(a, b)), Math.max(a, b));
+      };
+    const [scaleX, skewY, skewX, scaleY, x, y] = vpt;
+    return [
+      scaleX,
+      skewY,
+      skewX,
+      scaleY,
+      limit(x, scaleX, width, bounds.left, bounds.left + bounds.width),
+      limit(y, scaleY, height, bounds.top, bounds.top + bounds.height),
+    ];
+  }
+
+  /**
+   * Sets the viewport transform of the canvas, applying the zoom and pan limits
+   * @param {TMat2D} vpt
+   * @param {Point} [point] point of the viewport that doesn't move when the zoom is limited
+   */
+  setViewportTransform(vpt: TMat2D, point?: Point) {
+    this.canvas.setViewportTransform(this.constrain(vpt, point));
+  }
+
+  /**
+   * Zooms around a point of the viewport, applying the zoom and pan limits
+   * @param {Point} point in the viewport
+   * @param {number} zoom
+   */
+  zoomToPoint(point: Point, zoom: number) {
+    const vpt = this.canvas.viewportTransform;
+    this.setViewportTransform(
+      multiplyTransformMatrixArray([
+        createTranslateMatrix(point.x, point.y),
+        createScaleMatrix(zoom / vpt[0]),
+        createTranslateMatrix(-point.x, -point.y),
+        vpt,
+      ]),
+      point
+    );
+  }
+
+  /**
+   * Pans the viewport, applying the pan limits
+   * @param {Point} delta in pixels
+   */
+  relativePan(delta: Point) {
+    const vpt: TMat2D = [...this.canvas.viewportTransform];
+    vpt[4] += delta.x;
+    vpt[5] += delta.y;
+    this.setViewportTransform(vpt);
+  }
+
+  /**
+   * Animates the viewport to fit objects in the canvas, centered
+   * @param {FabricObject[]} [objects] defaults to the objects of the canvas
+   * @param {TViewportAnimationOptions} [options]
+   * @returns the animation, undefined if the viewport is changed at once or there are no objects
+   */
+  fitToObjects(
+    objects: FabricObject[] = this.canvas.getObjects(),
+    { padding = 0, ...options }: TViewportAnimationOptions = {}
+  ) {
+    const bounds = this.getContentBounds(objects);
+    if (!bounds) {
+      return;
+    }
+    const { width, height } = this.canvas;
+    return this.animateTo(
+      new Point(bounds.left + bounds.width / 2, bounds.top + bounds.height / 2),
+      Math.min(
+        (width - 2 * padding) / bounds.width,
+        (height - 2 * padding) / bounds.height
+      ),
+      options
+    );
+  }
+
+  /**
+   * Animates the viewport to fit an object in the canvas, centered
+   * @param {FabricObject} object
+   * @param {TViewportAnimationOptions} [options]
+   * @returns the animation, undefined if the viewport is changed at once
+   */
+  zoomToObject(object: FabricObject, options?: TViewportAnimationOptions) {
+    return this.fitToObjects([object], options);
+  }
+
+  /**
+   * Animates the viewport so that `center` is in the center of the canvas at `zoom`.
+   * The center moves linearly and the zoom geometrically so that the motion looks steady.
+   * @private
+   */
+  private animateTo(
+    center: Point,
+    zoom: number,
+    {
+      duration = 500,
+      easing = easeInOutCubic,
+    }: Omit<TViewportAnimationOptions, 'padding'>
+  ) {
+    this.stop();
+    const canvas = this.canvas,
+      viewportCenter = this.getViewportCenter(),
+      startZoom = canvas.getZoom(),
+      startCenter = viewportCenter.transform(
+        invertTransform(canvas.viewportTransform)
+      ),
+      endZoom = this.clampZoom(zoom),
+      setViewport = (t: number) => {
+        const z = startZoom * Math.pow(endZoom / startZoom, t),
+          { x, y } = startCenter.lerp(center, t);
+        this.setViewportTransform([
+          z,
+          0,
+          0,
+          z,
+          viewportCenter.x - x * z,
+          viewportCenter.y - y * z,
+        ]);
+      };
+    if (duration <= 0) {
+      setViewport(1);
+      return;
+    }
+    const animation = animate({
+      startValue: 0,
+      endValue: 1,
+      duration,
+      easing,
+      onChange: setViewport,
+      onComplete: () => {
+        this.animation === animation && (this.animation = undefined);
+      },
+    });
+    this.animation = animation;
+    return animation;
+  }
+
+  /**
+   * Pans on by inertia, slowing down from `velocity`
+   * @private
+   * @param {Point} velocity in pixels per ms
+   */
+  private glide(velocity: Point) {
+    const duration = this.canvas.panInertia,
+      // the initial velocity of `easeOutCubic` is 3 times its average velocity
+      distance = velocity.scalarMultiply(duration / 3);
+    let progress = 0;
+    const animation = animate({
+      startValue: 0,
+      endValue: 1,
+      duration,
+      easing: easeOutCubic,
+      onChange: (value) => {
+        this.relativePan(distance.scalarMultiply(value - progress));
+        progress = value;
+      },
+      onComplete: () => {
+        this.animation === animation && (this.animation = undefined);
+      },
+    });
+    this.animation = animation;
+  }
+
+  /**
+   * Stops the running animation of the viewport
+   */
+  stop() {
+    this.animation?.abort();
+    this.animation = undefined;
+  }
+
+  /**
+   * @returns true while the viewport is being panned by dragging
+   */
+  isPanning() {
+    return !!this.panning;
+  }
+
+  /**
+   * Zooms or pans according to {@link Canvas#wheelNavigation}
+   * @param {WheelEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onWheel(e: WheelEvent) {
+    const canvas = this.canvas,
+      mode = canvas.wheelNavigation;
+    if (mode === 'none') {
+      return false;
+    }
+    e.preventDefault();
+    this.stop();
+    const factor =
+        e.deltaMode === 1
+          ? WHEEL_LINE_HEIGHT
+          : e.deltaMode === 2
+          ? canvas.height
+          : 1,
+      deltaX = e.deltaX * factor,
+      deltaY = e.deltaY * factor;
+    if (mode === 'zoom' || e.ctrlKey || e.metaKey) {
+      this.zoomToPoint(
+        canvas.getPointer(e, true),
+        canvas.getZoom() * Math.pow(WHEEL_ZOOM_BASE, deltaY)
+      );
+    } else {
+      this.relativePan(new Point(-deltaX, -deltaY));
+    }
+    return true;
+  }
+
+  /**
+   * Starts panning if {@link Canvas#panKey} is pressed
+   * @param {TPointerEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onMouseDown(e: TPointerEvent) {
+    const canvas = this.canvas,
+      { panKey } = canvas;
+    if (!panKey || !e[panKey as ModifierKey]) {
+      return false;
+    }
+    this.stop();
+    const point = canvas.getPointer(e, true);
+    this.panning = { last: point, samples: [{ point, time: Date.now() }] };
+    canvas.setCursor(PAN_CURSOR);
+    return true;
+  }
+
+  /**
+   * Pans by the pointer movement
+   * @param {TPointerEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onMouseMove(e: TPointerEvent) {
+    const panning = this.panning;
+    if (!panning) {
+      return false;
+    }
+    const point = this.canvas.getPointer(e, true),
+      time = Date.now();
+    this.relativePan(point.subtract(panning.last));
+    panning.last = point;
+    panning.samples = panning.samples.filter(
+      (sample) => time - sample.time <= VELOCITY_WINDOW
+    );
+    panning.samples.push({ point, time });
+    this.canvas.setCursor(PAN_CURSOR);
+    return true;
+  }
+
+  /**
+   * Ends panning, starting the inertial panning if the pointer was moving
+   * @param {TPointerEvent} e
+   * @returns {boolean} true if the event was handled
+   */
+  onMouseUp(e: TPointerEvent) {
+    const panning = this.panning;
+    if (!panning) {
+      return false;
+    }
+    // pan to the release point
+    this.onMouseMove(e);
+    const canvas = this.canvas,
+      time = Date.now(),
+      samples = panning.samples.filter(
+        (sample) => time - sample.time <= VELOCITY_WINDOW
+      );
+    this.panning = undefined;
+    canvas.setCursor(canvas.defaultCursor);
+    if (canvas.panInertia > 0 && samples.length > 1) {
+      const first = samples[0],
+        last = samples[samples.length - 1],
+        velocity = last.point
+          .subtract(first.point)
+          .scalarDivide(Math.max(last.time - first.time, 1));
+      velocity.distanceFrom(new Point()) >= MIN_INERTIA_VELOCITY &&
+        this.glide(velocity);
+    }
+    return true;
+  }
+}
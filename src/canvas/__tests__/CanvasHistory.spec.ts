@@ -0,0 +1,148 @@
+import { ActiveSelection } from '../../shapes/ActiveSelection';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+import { CanvasHistory } from '../CanvasHistory';
+
+describe('CanvasHistory', () => {
+  test('registers on canvas', () => {
+    const canvas = new Canvas();
+    const history = new CanvasHistory(canvas);
+    expect(canvas.history).toBe(history);
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    history.dispose();
+    expect(canvas.history).toBeUndefined();
+  });
+
+  test('add/remove', () => {
+    const canvas = new Canvas();
+    const history = new CanvasHistory(canvas);
+    const a = new Rect({ width: 10, height: 10 });
+    const b = new Rect({ width: 10, height: 10 });
+    const c = new Rect({ width: 10, height: 10 });
+    canvas.add(a, b);
+    canvas.add(c);
+    canvas.remove(a, c);
+    expect(canvas.getObjects()).toEqual([b]);
+
+    expect(history.undo()).toBe(true);
+    expect(canvas.getObjects()).toEqual([a, b, c]);
+    expect(history.undo()).toBe(true);
+    expect(canvas.getObjects()).toEqual([a, b]);
+    expect(history.undo()).toBe(true);
+    expect(canvas.getObjects()).toEqual([]);
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(history.redo()).toBe(true);
+    expect(history.redo()).toBe(true);
+    expect(canvas.getObjects()).toEqual([b]);
+    expect(history.redo()).toBe(false);
+  });
+
+  test('stack order', () => {
+    const canvas = new Canvas();
+    const a = new Rect({ width: 10, height: 10 });
+    const b = new Rect({ width: 10, height: 10 });
+    const c = new Rect({ width: 10, height: 10 });
+    canvas.add(a, b, c);
+    const history = new CanvasHistory(canvas);
+    canvas.bringObjectToFront(a);
+    canvas.sendObjectBackwards(c);
+    expect(canvas.getObjects()).toEqual([b, c, a]);
+    history.undo();
+    expect(canvas.getObjects()).toEqual([b, a, c]);
+    history.undo();
+    expect(canvas.getObjects()).toEqual([a, b, c]);
+    history.redo();
+    history.redo();
+    expect(canvas.getObjects()).toEqual([b, c, a]);
+  });
+
+  test('modification', () => {
+    const canvas = new Canvas();
+    const rect = new Rect({ width: 10, height: 10, fill: 'red' });
+    canvas.add(rect);
+    const history = new CanvasHistory(canvas);
+    rect.set({ left: 50, fill: 'blue' });
+    canvas.fire('object:modified', { target: rect });
+    history.undo();
+    expect(rect.left).toBe(0);
+    expect(rect.fill).toBe('red');
+    history.redo();
+    expect(rect.left).toBe(50);
+    expect(rect.fill).toBe('blue');
+  });
+
+  test('modification of active selection children', () => {
+    const canvas = new Canvas();
+    const a = new Rect({ width: 10, height: 10 });
+    const b = new Rect({ left: 20, width: 10, height: 10 });
+    canvas.add(a, b);
+    const history = new CanvasHistory(canvas);
+    const selection = new ActiveSelection([a, b]);
+    canvas.setActiveObject(selection);
+    selection.set({ left: selection.left + 100 });
+    canvas.fire('object:modified', { target: selection });
+    history.undo();
+    expect(canvas.getActiveObject()).toBeUndefined();
+    expect(a.left).toBe(0);
+    expect(b.left).toBe(20);
+    history.redo();
+    expect(a.left).toBe(100);
+    expect(b.left).toBe(120);
+  });
+
+  test('transaction', () => {
+    const canvas = new Canvas();
+    const history = new CanvasHistory(canvas);
+    const rect = new Rect({ width: 10, height: 10 });
+    history.transaction(() => {
+      canvas.add(rect);
+      rect.set({ left: 10 });
+      history.recordModification(rect);
+      history.transaction(() => canvas.remove(rect));
+      expect(history.canUndo()).toBe(false);
+    });
+    expect(history.canUndo()).toBe(true);
+    history.undo();
+    expect(canvas.getObjects()).toEqual([]);
+    expect(rect.left).toBe(0);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  test('limit', () => {
+    const canvas = new Canvas();
+    const history = new CanvasHistory(canvas, { limit: 2 });
+    canvas.add(new Rect({ width: 10, height: 10 }));
+    canvas.add(new Rect({ width: 10, height: 10 }));
+    canvas.add(new Rect({ width: 10, height: 10 }));
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(canvas.getObjects()).toHaveLength(1);
+  });
+
+  test('recording clears redo', () => {
+    const canvas = new Canvas();
+    const history = new CanvasHistory(canvas);
+    canvas.add(new Rect({ width: 10, height: 10 }));
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+    canvas.add(new Rect({ width: 10, height: 10 }));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  test('history:changed event', () => {
+    const canvas = new Canvas();
+    const history = new CanvasHistory(canvas);
+    const spy = jest.fn();
+    canvas.on('history:changed', spy);
+    canvas.add(new Rect({ width: 10, height: 10 }));
+    expect(spy).toHaveBeenLastCalledWith({ canUndo: true, canRedo: false });
+    history.undo();
+    expect(spy).toHaveBeenLastCalledWith({ canUndo: false, canRedo: true });
+    canvas.clear();
+    expect(spy).toHaveBeenLastCalledWith({ canUndo: false, canRedo: false });
+  });
+});
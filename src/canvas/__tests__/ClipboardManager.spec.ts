@@ -0,0 +1,161 @@
+import { getEnv } from '../../env';
+import { ActiveSelection } from '../../shapes/ActiveSelection';
+import { Group } from '../../shapes/Group';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+import { CLIPBOARD_FORMAT } from '../ClipboardManager';
+
+const createClipboardEvent = (
+  type: string,
+  data: Record<string, string> = {}
+) =>
+  ({
+    type,
+    clipboardData: {
+      setData: (format: string, value: string) => (data[format] = value),
+      getData: (format: string) => data[format] || '',
+    },
+    preventDefault: jest.fn(),
+  } as unknown as ClipboardEvent);
+
+describe('ClipboardManager', () => {
+  let canvas: Canvas;
+  let a: Rect;
+  let b: Rect;
+
+  beforeEach(() => {
+    getEnv().copyPasteData.copiedObjects = undefined;
+    canvas = new Canvas();
+    a = new Rect({ left: 0, top: 0, width: 10, height: 10, fill: 'red' });
+    b = new Rect({ left: 20, top: 0, width: 10, height: 10, fill: 'blue' });
+    canvas.add(a, b);
+  });
+
+  test('copy and paste with offset', async () => {
+    canvas.setActiveObject(a);
+    expect(canvas.clipboardManager.copy()).toBe(true);
+    const [first] = await canvas.clipboardManager.paste();
+    expect(first).toBeInstanceOf(Rect);
+    expect(first).not.toBe(a);
+    expect(first.fill).toBe('red');
+    expect(first.left).toBe(10);
+    expect(first.top).toBe(10);
+    expect(canvas.getActiveObject()).toBe(first);
+    const [second] = await canvas.clipboardManager.paste();
+    expect(second.left).toBe(20);
+    expect(canvas.getObjects()).toEqual([a, b, first, second]);
+  });
+
+  test('nothing to copy or paste', async () => {
+    expect(canvas.clipboardManager.copy()).toBe(false);
+    expect(await canvas.clipboardManager.paste()).toEqual([]);
+    expect(canvas.getObjects()).toEqual([a, b]);
+  });
+
+  test('cut', async () => {
+    canvas.setActiveObject(b);
+    expect(canvas.clipboardManager.cut()).toBe(true);
+    expect(canvas.getObjects()).toEqual([a]);
+    expect(canvas.getActiveObject()).toBeUndefined();
+  });
+
+  test('active selection is copied in the canvas plane to another canvas', async () => {
+    canvas.setActiveObject(new ActiveSelection([a, b]));
+    expect(canvas.clipboardManager.serialize([a, b]).svg).toContain(
+      'viewBox="0 0 31 11"'
+    );
+    canvas.clipboardManager.copy();
+    const other = new Canvas();
+    const pasted = await other.clipboardManager.paste();
+    expect(pasted).toHaveLength(2);
+    other.discardActiveObject();
+    expect(pasted.map(({ left, top }) => ({ left, top }))).toEqual([
+      { left: 10, top: 10 },
+      { left: 30, top: 10 },
+    ]);
+    expect(pasted[1].fill).toBe('blue');
+  });
+
+  test('groups and clip paths are preserved', async () => {
+    const clipPath = new Rect({
+      left: 0,
+      top: 0,
+      width: 5,
+      height: 5,
+      absolutePositioned: true,
+    });
+    const group = new Group([new Rect({ width: 10, height: 10 })], {
+      clipPath,
+    });
+    canvas.add(group);
+    canvas.setActiveObject(group);
+    canvas.clipboardManager.copy();
+    const [pasted] = (await canvas.clipboardManager.paste()) as Group[];
+    expect(pasted).toBeInstanceOf(Group);
+    expect(pasted.getObjects()).toHaveLength(1);
+    expect(pasted.left).toBe(group.left + 10);
+    expect(pasted.clipPath).toBeInstanceOf(Rect);
+    expect(pasted.clipPath!.left).toBe(10);
+    expect(pasted.clipPath!.absolutePositioned).toBe(true);
+  });
+
+  test('system clipboard', async () => {
+    canvas.setActiveObject(a);
+    const data: Record<string, string> = {};
+    const e = createClipboardEvent('copy', data);
+    canvas.clipboardManager.copy(e);
+    expect(e.preventDefault).toHaveBeenCalled();
+    expect(JSON.parse(data['text/plain'])).toMatchObject({
+      format: CLIPBOARD_FORMAT,
+      objects: [{ type: 'Rect', fill: 'red' }],
+    });
+    expect(data['application/fabric']).toBe(data['text/plain']);
+    expect(data['image/svg+xml']).toMatch(/^<svg[\s\S]*<rect[\s\S]*<\/svg>$/);
+
+    getEnv().copyPasteData.copiedObjects = undefined;
+    const other = new Canvas();
+    const pasted = await other.clipboardManager.paste(
+      createClipboardEvent('paste', { 'text/plain': data['text/plain'] })
+    );
+    expect(pasted).toHaveLength(1);
+    expect(pasted[0].fill).toBe('red');
+
+    const fromSVG = await other.clipboardManager.paste(
+      createClipboardEvent('paste', { 'image/svg+xml': data['image/svg+xml'] })
+    );
+    expect(fromSVG).toHaveLength(1);
+    expect(fromSVG[0].fill).toBe('rgb(255,0,0)');
+
+    const e2 = createClipboardEvent('paste', { 'text/plain': 'hello' });
+    expect(await other.clipboardManager.paste(e2)).toEqual([]);
+    expect(e2.preventDefault).not.toHaveBeenCalled();
+  });
+
+  test('pasting objects of unknown classes', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation();
+    const e = createClipboardEvent('paste', {
+      'text/plain': JSON.stringify({
+        format: CLIPBOARD_FORMAT,
+        version: '6.0.0',
+        objects: [{ type: 'Unknown' }],
+      }),
+    });
+    expect(await canvas.clipboardManager.paste(e)).toEqual([]);
+    expect(spy).toHaveBeenCalled();
+    expect(canvas.getObjects()).toEqual([a, b]);
+    spy.mockRestore();
+  });
+
+  test('clipboard events of the canvas', async () => {
+    canvas.setActiveObject(a);
+    const data: Record<string, string> = {};
+    // @ts-expect-error private method
+    canvas._onClipboardEvent(createClipboardEvent('copy', data));
+    expect(data).toEqual({});
+    canvas.clipboardCommands = true;
+    // @ts-expect-error private method
+    canvas._onClipboardEvent(createClipboardEvent('cut', data));
+    expect(data['text/plain']).toBeDefined();
+    expect(canvas.getObjects()).toEqual([b]);
+  });
+});
@@ -0,0 +1,196 @@
+import { getFabricDocument } from '../../env';
+import { Point } from '../../Point';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+
+const createPointerEvent = (
+  type: string,
+  pointerId: number,
+  clientX: number,
+  clientY: number,
+  pointerType = 'touch'
+) => {
+  // jsdom doesn't implement PointerEvent
+  const e = new MouseEvent(type, { clientX, clientY, bubbles: true });
+  Object.defineProperties(e, {
+    pointerId: { value: pointerId },
+    pointerType: { value: pointerType },
+    isPrimary: { value: pointerId === 1 },
+  });
+  return e as PointerEvent;
+};
+
+describe('GestureManager', () => {
+  let canvas: Canvas;
+  const dispatch = (
+    type: string,
+    pointerId: number,
+    x: number,
+    y: number,
+    pointerType?: string
+  ) =>
+    canvas.upperCanvasEl.dispatchEvent(
+      createPointerEvent(type, pointerId, x, y, pointerType)
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    canvas = new Canvas(undefined, {
+      enablePointerEvents: true,
+      enableGestures: true,
+    });
+    // the main pointer is tracked by listeners of the document
+    getFabricDocument().body.appendChild(canvas.wrapperEl);
+  });
+
+  afterEach(() => {
+    canvas.wrapperEl.remove();
+    canvas.destroy();
+    jest.useRealTimers();
+  });
+
+  test('tap and double tap', () => {
+    const tap = jest.fn();
+    const doubleTap = jest.fn();
+    canvas.on('touch:tap', tap);
+    canvas.on('touch:doubletap', doubleTap);
+    dispatch('pointerdown', 1, 10, 10);
+    dispatch('pointerup', 1, 10, 10);
+    expect(tap).toHaveBeenCalledTimes(1);
+    expect(tap.mock.calls[0][0].pointer).toEqual(new Point(10, 10));
+    jest.advanceTimersByTime(100);
+    dispatch('pointerdown', 1, 12, 12);
+    dispatch('pointerup', 1, 12, 12);
+    expect(tap).toHaveBeenCalledTimes(2);
+    expect(doubleTap).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(500);
+    dispatch('pointerdown', 1, 12, 12);
+    dispatch('pointerup', 1, 12, 12);
+    expect(tap).toHaveBeenCalledTimes(3);
+    expect(doubleTap).toHaveBeenCalledTimes(1);
+  });
+
+  test('ignores the mouse and is disabled by default', () => {
+    const tap = jest.fn();
+    canvas.on('touch:tap', tap);
+    dispatch('pointerdown', 1, 10, 10, 'mouse');
+    dispatch('pointerup', 1, 10, 10, 'mouse');
+    canvas.enableGestures = false;
+    dispatch('pointerdown', 1, 10, 10);
+    dispatch('pointerup', 1, 10, 10);
+    expect(tap).not.toHaveBeenCalled();
+  });
+
+  test('long press', () => {
+    const rect = new Rect({ width: 50, height: 50 });
+    canvas.add(rect);
+    const tap = jest.fn();
+    const longPress = jest.fn();
+    canvas.on('touch:tap', tap);
+    canvas.on('touch:longpress', longPress);
+    dispatch('pointerdown', 1, 10, 10);
+    jest.advanceTimersByTime(canvas.longPressDelay);
+    expect(longPress).toHaveBeenCalledTimes(1);
+    expect(longPress.mock.calls[0][0].target).toBe(rect);
+    dispatch('pointerup', 1, 10, 10);
+    expect(tap).not.toHaveBeenCalled();
+
+    // moving cancels the long press
+    dispatch('pointerdown', 1, 100, 100);
+    dispatch('pointermove', 1, 130, 100);
+    jest.advanceTimersByTime(canvas.longPressDelay);
+    dispatch('pointerup', 1, 130, 100);
+    expect(longPress).toHaveBeenCalledTimes(1);
+    expect(tap).not.toHaveBeenCalled();
+  });
+
+  test('pinch zooms and pans the viewport', () => {
+    const start = jest.fn();
+    const gesture = jest.fn();
+    const end = jest.fn();
+    canvas.on('touch:gesture:start', start);
+    canvas.on('touch:gesture', gesture);
+    canvas.on('touch:gesture:end', end);
+    dispatch('pointerdown', 1, 100, 100);
+    dispatch('pointerdown', 2, 200, 100);
+    expect(start).toHaveBeenCalledTimes(1);
+    // @ts-expect-error protected property
+    expect(canvas._groupSelector).toBeNull();
+    dispatch('pointermove', 2, 300, 100);
+    expect(canvas.viewportTransform).toEqual([2, 0, 0, 2, -100, -100]);
+    expect(gesture).toHaveBeenCalledTimes(1);
+    expect(gesture.mock.calls[0][0]).toMatchObject({
+      target: undefined,
+      scale: 2,
+      rotation: 0,
+      center: new Point(200, 100),
+      translation: new Point(50, 0),
+    });
+    dispatch('pointerup', 2, 300, 100);
+    expect(end).toHaveBeenCalledTimes(1);
+    // the main pointer is ignored until released
+    dispatch('pointermove', 1, 150, 150);
+    expect(canvas.viewportTransform).toEqual([2, 0, 0, 2, -100, -100]);
+    expect(canvas.gestureManager.isGesturing()).toBe(true);
+    dispatch('pointerup', 1, 150, 150);
+    expect(canvas.gestureManager.isGesturing()).toBe(false);
+    expect(canvas.getActiveObject()).toBeUndefined();
+  });
+
+  test('pinch rotates and scales the active object', () => {
+    const rect = new Rect({
+      left: 80,
+      top: 80,
+      width: 40,
+      height: 40,
+      strokeWidth: 0,
+    });
+    canvas.add(rect);
+    canvas.setActiveObject(rect);
+    const beforeTransform = jest.fn();
+    const modified = jest.fn();
+    const rotating = jest.fn();
+    canvas.on('before:transform', beforeTransform);
+    canvas.on('object:modified', modified);
+    canvas.on('object:rotating', rotating);
+    dispatch('pointerdown', 1, 90, 100);
+    dispatch('pointerdown', 2, 110, 100);
+    expect(beforeTransform).toHaveBeenCalledTimes(1);
+    expect(canvas._currentTransform?.action).toBe('gesture');
+    dispatch('pointermove', 1, 100, 80);
+    dispatch('pointermove', 2, 100, 120);
+    expect(rect.scaleX).toBeCloseTo(2);
+    expect(rect.scaleY).toBeCloseTo(2);
+    expect(rect.angle).toBeCloseTo(90);
+    expect(rect.getCenterPoint().x).toBeCloseTo(100);
+    expect(rect.getCenterPoint().y).toBeCloseTo(100);
+    expect(rotating).toHaveBeenCalled();
+    expect(canvas.viewportTransform).toEqual([1, 0, 0, 1, 0, 0]);
+    dispatch('pointerup', 2, 100, 120);
+    dispatch('pointerup', 1, 100, 80);
+    expect(modified).toHaveBeenCalledTimes(1);
+    expect(modified.mock.calls[0][0].action).toBe('gesture');
+    expect(canvas._currentTransform).toBeNull();
+  });
+
+  test('pinch respects locks', () => {
+    const rect = new Rect({
+      left: 80,
+      top: 80,
+      width: 40,
+      height: 40,
+      lockRotation: true,
+      lockMovementX: true,
+    });
+    canvas.add(rect);
+    canvas.setActiveObject(rect);
+    dispatch('pointerdown', 1, 90, 100);
+    dispatch('pointerdown', 2, 110, 100);
+    dispatch('pointermove', 1, 120, 80);
+    dispatch('pointermove', 2, 120, 120);
+    expect(rect.angle).toBe(0);
+    expect(rect.scaleX).toBeCloseTo(2);
+    expect(rect.getCenterPoint().x).toBeCloseTo(100.5);
+    expect(rect.getCenterPoint().y).toBeCloseTo(100.5);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Transform } from '../../EventTypeDefs';
+import { Point } from '../../Point';
+import { dragHandler } from '../../controls/drag';
+import { createPolyControls } from '../../controls/polyControl';
+import { Polyline } from '../../shapes/Polyline';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+
+describe('GridManager', () => {
+  let canvas: Canvas;
+
+  beforeEach(() => {
+    canvas = new Canvas(undefined, { width: 100, height: 100 });
+  });
+
+  test('snapValue', () => {
+    expect(canvas.gridManager.snapValue(14)).toBe(10);
+    expect(canvas.gridManager.snapValue(15)).toBe(20);
+    canvas.gridSize = 0;
+    expect(canvas.gridManager.snapValue(14)).toBe(14);
+  });
+
+  test('snapPoint respects snapToGrid', () => {
+    const point = new Point(13, 27);
+    expect(canvas.gridManager.snapPoint(point)).toBe(point);
+    canvas.snapToGrid = true;
+    expect(canvas.gridManager.snapPoint(point)).toEqual(new Point(10, 30));
+  });
+
+  test('dragging snaps to the grid', () => {
+    canvas.snapToGrid = true;
+    const target = new Rect({ width: 20, height: 20, strokeWidth: 0 });
+    canvas.add(target);
+    const spy = jest.fn();
+    canvas.on('object:snap', spy);
+    dragHandler(
+      new MouseEvent('mousemove'),
+      {
+        target,
+        action: 'drag',
+        offsetX: 0,
+        offsetY: 0,
+      } as unknown as Transform,
+      33,
+      48
+    );
+    expect(target.left).toBe(30);
+    expect(target.top).toBe(50);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  test('poly point snaps to the grid', () => {
+    canvas.snapToGrid = true;
+    const poly = new Polyline(
+      [
+        { x: 0, y: 0 },
+        { x: 50, y: 0 },
+        { x: 50, y: 50 },
+      ],
+      { strokeWidth: 0 }
+    );
+    poly.controls = createPolyControls(poly);
+    canvas.add(poly);
+    poly.controls.p1.actionHandler(
+      new MouseEvent('mousemove'),
+      { target: poly, corner: 'p1' } as unknown as Transform,
+      62,
+      -3
+    );
+    expect(poly.points[1]).toEqual(new Point(60, 0));
+  });
+
+  test('toObject', () => {
+    canvas.showGrid = true;
+    expect(canvas.toObject()).not.toHaveProperty('showGrid');
+    expect(canvas.toObject(['grid'])).toMatchObject({
+      showGrid: true,
+      gridType: 'lines',
+      gridSize: 10,
+      snapToGrid: false,
+    });
+  });
+
+  test('toSVG', () => {
+    canvas.showGrid = true;
+    canvas.gridColor = 'red';
+    const reviver = (markup: string) => markup;
+    expect(canvas.toSVG({}, reviver)).not.toContain('stroke: red');
+    expect(canvas.toSVG({ grid: true }, reviver)).toContain('stroke: red');
+  });
+});
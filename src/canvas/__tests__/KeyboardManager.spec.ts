@@ -0,0 +1,136 @@
+import { Group } from '../../shapes/Group';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+import { CanvasHistory } from '../CanvasHistory';
+import { getKeyCombination } from '../KeyboardManager';
+
+const keyDown = (canvas: Canvas, init: KeyboardEventInit) => {
+  const e = new KeyboardEvent('keydown', { cancelable: true, ...init });
+  canvas.upperCanvasEl.dispatchEvent(e);
+  return e;
+};
+
+describe('KeyboardManager', () => {
+  let canvas: Canvas;
+  let a: Rect;
+  let b: Rect;
+  let c: Rect;
+
+  beforeEach(() => {
+    canvas = new Canvas(undefined, { keyboardCommands: true });
+    a = new Rect({ left: 0, width: 10, height: 10 });
+    b = new Rect({ left: 20, width: 10, height: 10 });
+    c = new Rect({ left: 40, width: 10, height: 10 });
+    canvas.add(a, b, c);
+  });
+
+  test('getKeyCombination', () => {
+    expect(getKeyCombination(new KeyboardEvent('keydown', { key: 'a' }))).toBe(
+      'a'
+    );
+    expect(
+      getKeyCombination(
+        new KeyboardEvent('keydown', {
+          key: 'G',
+          shiftKey: true,
+          metaKey: true,
+        })
+      )
+    ).toBe('mod+shift+g');
+    expect(
+      getKeyCombination(
+        new KeyboardEvent('keydown', { key: 'ArrowLeft', shiftKey: true })
+      )
+    ).toBe('shift+ArrowLeft');
+  });
+
+  test('disabled', () => {
+    canvas.keyboardCommands = false;
+    canvas.setActiveObject(a);
+    const e = keyDown(canvas, { key: 'ArrowRight' });
+    expect(a.left).toBe(0);
+    expect(e.defaultPrevented).toBe(false);
+  });
+
+  test('nudge', () => {
+    const history = new CanvasHistory(canvas);
+    const spy = jest.fn();
+    canvas.on('object:modified', spy);
+    canvas.setActiveObject(a);
+    const e = keyDown(canvas, { key: 'ArrowRight' });
+    expect(e.defaultPrevented).toBe(true);
+    expect(a.left).toBe(1);
+    keyDown(canvas, { key: 'ArrowDown', shiftKey: true });
+    expect(a.top).toBe(10);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(spy.mock.calls[0][0].target).toBe(a);
+    expect(spy.mock.calls[0][0].action).toBe('nudge');
+    history.undo();
+    expect(a.top).toBe(0);
+    expect(a.left).toBe(1);
+    a.lockMovementX = true;
+    keyDown(canvas, { key: 'ArrowLeft' });
+    expect(a.left).toBe(1);
+  });
+
+  test('delete', () => {
+    canvas.setActiveObject(a);
+    keyDown(canvas, { key: 'Delete' });
+    expect(canvas.getObjects()).toEqual([b, c]);
+    expect(canvas.getActiveObject()).toBeUndefined();
+  });
+
+  test('select all and discard selection', () => {
+    keyDown(canvas, { key: 'a', ctrlKey: true });
+    expect(canvas.getActiveObjects()).toEqual([a, b, c]);
+    keyDown(canvas, { key: 'Escape' });
+    expect(canvas.getActiveObject()).toBeUndefined();
+  });
+
+  test('group and ungroup', () => {
+    const history = new CanvasHistory(canvas);
+    keyDown(canvas, { key: 'a', ctrlKey: true });
+    canvas.getActiveSelection().remove(c);
+    keyDown(canvas, { key: 'g', ctrlKey: true });
+    const group = canvas.getActiveObject() as Group;
+    expect(group).toBeInstanceOf(Group);
+    expect(canvas.getObjects()).toEqual([group, c]);
+    expect(group.getObjects()).toEqual([a, b]);
+
+    keyDown(canvas, { key: 'G', ctrlKey: true, shiftKey: true });
+    expect(canvas.getObjects()).toEqual([a, b, c]);
+    expect(canvas.getActiveObjects()).toEqual([a, b]);
+    canvas.discardActiveObject();
+    expect(a.left).toBeCloseTo(0);
+    expect(b.left).toBeCloseTo(20);
+
+    history.undo();
+    expect(canvas.getObjects()).toEqual([group, c]);
+    expect(group.getObjects()).toEqual([a, b]);
+    history.undo();
+    expect(canvas.getObjects()).toEqual([a, b, c]);
+    expect(a.group).toBeUndefined();
+    expect(a.left).toBeCloseTo(0);
+    expect(b.left).toBeCloseTo(20);
+  });
+
+  test('stacking', () => {
+    canvas.setActiveObject(a);
+    keyDown(canvas, { key: ']', ctrlKey: true });
+    expect(canvas.getObjects()).toEqual([b, a, c]);
+    keyDown(canvas, { key: '[', ctrlKey: true });
+    expect(canvas.getObjects()).toEqual([a, b, c]);
+  });
+
+  test('custom bindings', () => {
+    const command = jest.fn(() => true);
+    canvas.keyboardManager.keysMap['mod+d'] = command;
+    delete canvas.keyboardManager.keysMap.Backspace;
+    canvas.setActiveObject(a);
+    keyDown(canvas, { key: 'Backspace' });
+    expect(canvas.getObjects()).toEqual([a, b, c]);
+    const e = keyDown(canvas, { key: 'd', metaKey: true });
+    expect(command).toHaveBeenCalledWith(e, canvas);
+    expect(e.defaultPrevented).toBe(true);
+  });
+});
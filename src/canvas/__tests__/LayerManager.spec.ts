@@ -0,0 +1,184 @@
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+import { StaticCanvas } from '../StaticCanvas';
+
+describe('LayerManager', () => {
+  test('objects are stacked by layer', () => {
+    const canvas = new StaticCanvas();
+    const { layerManager } = canvas;
+    const unlayered = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(unlayered);
+    const background = layerManager.addLayer('background');
+    layerManager.addLayer('foreground');
+    expect(layerManager.getActiveLayer()).toBe(background);
+    expect(unlayered.layer).toBeUndefined();
+
+    const a = new Rect({ width: 10, height: 10, strokeWidth: 0 }),
+      b = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(a);
+    layerManager.setActiveLayer('foreground');
+    canvas.add(b);
+    const c = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    c.layer = 'background';
+    canvas.add(c);
+    expect(a.layer).toBe('background');
+    expect(b.layer).toBe('foreground');
+    expect(canvas.getObjects()).toEqual([unlayered, a, c, b]);
+    expect(background.getObjects()).toEqual([a, c]);
+
+    // stacking methods move objects within their layer
+    canvas.bringObjectToFront(a);
+    expect(canvas.getObjects()).toEqual([unlayered, c, a, b]);
+    canvas.sendObjectToBack(b);
+    expect(canvas.getObjects()).toEqual([unlayered, c, a, b]);
+    canvas.moveObjectTo(b, 0);
+    expect(canvas.getObjects()).toEqual([unlayered, c, a, b]);
+    const d = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.insertAt(0, d);
+    expect(canvas.getObjects()).toEqual([unlayered, c, a, d, b]);
+
+    expect(layerManager.moveObjectToLayer(b, 'background')).toBe(true);
+    expect(canvas.getObjects()).toEqual([unlayered, c, a, b, d]);
+    expect(background.getObjects()).toEqual([c, a, b]);
+  });
+
+  test('reordering, renaming and removing layers', () => {
+    const canvas = new StaticCanvas();
+    const { layerManager } = canvas;
+    const added = jest.fn(),
+      modified = jest.fn(),
+      removed = jest.fn();
+    canvas.on('layer:added', added);
+    canvas.on('layer:modified', modified);
+    canvas.on('layer:removed', removed);
+    const bottom = layerManager.addLayer('bottom');
+    const top = layerManager.addLayer('top');
+    expect(added).toHaveBeenCalledTimes(2);
+    const a = new Rect({ width: 10, height: 10, strokeWidth: 0 }),
+      b = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(a);
+    layerManager.setActiveLayer('top');
+    canvas.add(b);
+
+    layerManager.moveLayerTo('top', 0);
+    expect(layerManager.getLayers()).toEqual([top, bottom]);
+    expect(canvas.getObjects()).toEqual([b, a]);
+    expect(modified).toHaveBeenCalledWith({ layer: top });
+
+    expect(() => layerManager.renameLayer('top', 'bottom')).toThrow();
+    layerManager.renameLayer('top', 'first');
+    expect(top.name).toBe('first');
+    expect(b.layer).toBe('first');
+    expect(layerManager.getLayer('first')).toBe(top);
+    expect(layerManager.getLayer('top')).toBeUndefined();
+    expect(() => layerManager.addLayer('first')).toThrow();
+
+    expect(layerManager.removeLayer('first')).toEqual([b]);
+    expect(canvas.getObjects()).toEqual([a]);
+    expect(layerManager.getActiveLayer()).toBe(bottom);
+    expect(removed).toHaveBeenCalledWith({ layer: top });
+  });
+
+  test('hidden layers are not rendered nor exported', () => {
+    const canvas = new StaticCanvas(undefined, { renderOnAddRemove: false });
+    const { layerManager } = canvas;
+    const layer = layerManager.addLayer('layer');
+    layerManager.addLayer('other');
+    const a = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(a);
+    layerManager.setActiveLayer('other');
+    const b = new Rect({
+      left: 20,
+      top: 20,
+      width: 10,
+      height: 10,
+      strokeWidth: 0,
+    });
+    canvas.add(b);
+    const render = jest.spyOn(a, 'render');
+    layer.set({ visible: false });
+    canvas.renderAll();
+    expect(render).not.toHaveBeenCalled();
+
+    const svg = canvas.toSVG({}, (markup) => markup);
+    expect(svg).toContain(b.toSVG());
+    expect(svg).not.toContain(a.toSVG());
+    canvas.toDataURL();
+    expect(render).not.toHaveBeenCalled();
+
+    // the layer exports on its own regardless of its visibility
+    const layerSVG = layer.toSVG({}, (markup) => markup);
+    expect(layerSVG).toContain(a.toSVG());
+    expect(layerSVG).not.toContain(b.toSVG());
+    layer.toDataURL();
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(layer.toJSON()).toEqual({
+      name: 'layer',
+      visible: false,
+      locked: false,
+      objects: [a.toObject()],
+    });
+  });
+
+  test('serialization', async () => {
+    const canvas = new StaticCanvas();
+    const { layerManager } = canvas;
+    layerManager.addLayer('bottom', { locked: true });
+    layerManager.addLayer('top', { visible: false });
+    canvas.add(new Rect({ width: 10, height: 10, strokeWidth: 0 }));
+    layerManager.setActiveLayer('top');
+    canvas.add(new Rect({ width: 10, height: 10, strokeWidth: 0 }));
+    const json = canvas.toJSON();
+    expect(json.layers).toEqual([
+      { name: 'bottom', visible: true, locked: true },
+      { name: 'top', visible: false, locked: false },
+    ]);
+    expect(json.objects.map(({ layer }: { layer: string }) => layer)).toEqual([
+      'bottom',
+      'top',
+    ]);
+    expect(new StaticCanvas().toJSON()).not.toHaveProperty('layers');
+    expect(
+      new Rect({ width: 10, height: 10, strokeWidth: 0 }).toObject()
+    ).not.toHaveProperty('layer');
+
+    const restored = await new StaticCanvas().loadFromJSON(json);
+    expect(restored.layerManager.toObject()).toEqual(json.layers);
+    expect(restored.layerManager.getLayer('top')?.getObjects()).toEqual([
+      restored.item(1),
+    ]);
+  });
+
+  test('locked and hidden layers are not interactive', () => {
+    const canvas = new Canvas(undefined, { width: 100, height: 100 });
+    const { layerManager } = canvas;
+    const locked = layerManager.addLayer('locked');
+    const a = new Rect({
+      left: 10,
+      top: 10,
+      width: 10,
+      height: 10,
+      strokeWidth: 0,
+    });
+    canvas.add(a);
+    const target = () =>
+      canvas.findTarget(
+        new MouseEvent('mousedown', { clientX: 15, clientY: 15 })
+      );
+    expect(target()).toBe(a);
+    canvas.setActiveObject(a);
+
+    locked.set({ locked: true });
+    expect(canvas.getActiveObject()).toBeUndefined();
+    expect(target()).toBeUndefined();
+    expect(
+      canvas.collectObjects({ left: 0, top: 0, width: 100, height: 100 })
+    ).toEqual([]);
+
+    locked.set({ locked: false, visible: false });
+    expect(target()).toBeUndefined();
+    expect(canvas._chooseObjectsToRender()).toEqual([]);
+    locked.set({ visible: true });
+    expect(target()).toBe(a);
+  });
+});
@@ -0,0 +1,127 @@
+import type { Transform } from '../../EventTypeDefs';
+import { Point } from '../../Point';
+import { dragHandler } from '../../controls/drag';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+
+describe('RulerManager', () => {
+  let canvas: Canvas;
+
+  beforeEach(() => {
+    canvas = new Canvas(undefined, { width: 500, height: 500 });
+  });
+
+  test('add/remove guides', () => {
+    const added = jest.fn();
+    const removed = jest.fn();
+    canvas.on('guide:added', added);
+    canvas.on('guide:removed', removed);
+    const guide = canvas.rulerManager.addGuide('x', 100);
+    expect(canvas.rulerManager.guides).toEqual([{ axis: 'x', value: 100 }]);
+    expect(added).toHaveBeenCalledWith({ guide });
+    expect(canvas.rulerManager.removeGuide(guide)).toBe(true);
+    expect(canvas.rulerManager.removeGuide(guide)).toBe(false);
+    expect(canvas.rulerManager.guides).toEqual([]);
+    expect(removed).toHaveBeenCalledTimes(1);
+  });
+
+  test('serialization', () => {
+    canvas.rulerManager.addGuide('x', 100);
+    canvas.rulerManager.addGuide('y', 50);
+    const serialized = JSON.parse(
+      JSON.stringify(canvas.rulerManager.toObject())
+    );
+    expect(serialized).toEqual([
+      { axis: 'x', value: 100 },
+      { axis: 'y', value: 50 },
+    ]);
+    expect(canvas.toObject()).not.toHaveProperty('guides');
+    const other = new Canvas();
+    other.rulerManager.loadGuides(serialized);
+    expect(other.rulerManager.guides).toEqual(serialized);
+    expect(other.rulerManager.guides[0]).not.toBe(serialized[0]);
+  });
+
+  test('findGuide respects the viewport', () => {
+    const guide = canvas.rulerManager.addGuide('x', 100);
+    expect(canvas.rulerManager.findGuide(new Point(103, 0))).toBe(guide);
+    expect(canvas.rulerManager.findGuide(new Point(106, 0))).toBeUndefined();
+    canvas.setViewportTransform([2, 0, 0, 2, 50, 0]);
+    expect(canvas.rulerManager.findGuide(new Point(103, 0))).toBeUndefined();
+    expect(canvas.rulerManager.findGuide(new Point(252, 0))).toBe(guide);
+  });
+
+  test('dragging a guide out of a ruler, moving and deleting it', () => {
+    canvas.showRulers = true;
+    const added = jest.fn();
+    const modified = jest.fn();
+    const removed = jest.fn();
+    canvas.on('guide:added', added);
+    canvas.on('guide:modified', modified);
+    canvas.on('guide:removed', removed);
+    canvas.__onMouseDown(
+      new MouseEvent('mousedown', { clientX: 100, clientY: 10 })
+    );
+    canvas.__onMouseMove(
+      new MouseEvent('mousemove', { clientX: 100, clientY: 60 })
+    );
+    canvas.__onMouseUp(
+      new MouseEvent('mouseup', { clientX: 100, clientY: 60 })
+    );
+    expect(canvas.rulerManager.guides).toEqual([{ axis: 'y', value: 60 }]);
+    expect(added).toHaveBeenCalledTimes(1);
+
+    canvas.__onMouseDown(
+      new MouseEvent('mousedown', { clientX: 200, clientY: 62 })
+    );
+    canvas.__onMouseMove(
+      new MouseEvent('mousemove', { clientX: 200, clientY: 80 })
+    );
+    canvas.__onMouseUp(
+      new MouseEvent('mouseup', { clientX: 200, clientY: 80 })
+    );
+    expect(canvas.rulerManager.guides).toEqual([{ axis: 'y', value: 80 }]);
+    expect(modified).toHaveBeenCalledTimes(1);
+
+    canvas.__onMouseDown(
+      new MouseEvent('mousedown', { clientX: 200, clientY: 80 })
+    );
+    canvas.__onMouseMove(
+      new MouseEvent('mousemove', { clientX: 200, clientY: 5 })
+    );
+    canvas.__onMouseUp(new MouseEvent('mouseup', { clientX: 200, clientY: 5 }));
+    expect(canvas.rulerManager.guides).toEqual([]);
+    expect(removed).toHaveBeenCalledTimes(1);
+  });
+
+  test('objects snap to guides', () => {
+    const target = new Rect({ width: 50, height: 50, strokeWidth: 0 });
+    canvas.add(target);
+    canvas.rulerManager.addGuide('x', 200);
+    dragHandler(
+      new MouseEvent('mousemove'),
+      {
+        target,
+        action: 'drag',
+        offsetX: 0,
+        offsetY: 0,
+      } as unknown as Transform,
+      153,
+      100
+    );
+    expect(target.left).toBe(150);
+    canvas.snapToGuides = false;
+    dragHandler(
+      new MouseEvent('mousemove'),
+      {
+        target,
+        action: 'drag',
+        offsetX: 0,
+        offsetY: 0,
+      } as unknown as Transform,
+      153,
+      100
+    );
+    expect(target.left).toBe(153);
+  });
+});
@@ -1,3 +1,5 @@
+import { Point } from '../../Point';
+import { ActiveSelection } from '../../shapes/ActiveSelection';
 import { FabricObject } from '../../shapes/Object/FabricObject';
 import { Canvas } from '../Canvas';
 
@@ -57,4 +59,127 @@ describe('Canvas', () => {
       expect(canvas._objectsToRender).toBeUndefined();
     });
   });
+
+  describe('lasso selection', () => {
+    // an L shaped lasso, its notch is in its bounding box but outside of it
+    const lasso = [
+      new Point(0, 0),
+      new Point(100, 0),
+      new Point(100, 40),
+      new Point(40, 40),
+      new Point(40, 100),
+      new Point(0, 100),
+    ];
+
+    const drawLasso = (canvas: Canvas, points: Point[]) => {
+      const [start, ...rest] = points;
+      canvas.__onMouseDown(
+        new MouseEvent('mousedown', { clientX: start.x, clientY: start.y })
+      );
+      rest.forEach(({ x, y }) =>
+        canvas.__onMouseMove(
+          new MouseEvent('mousemove', { clientX: x, clientY: y })
+        )
+      );
+      canvas.__onMouseUp(
+        new MouseEvent('mouseup', { clientX: start.x, clientY: start.y })
+      );
+    };
+
+    let canvas: Canvas;
+    let contained: FabricObject;
+    let intersecting: FabricObject;
+    let inNotch: FabricObject;
+
+    beforeEach(() => {
+      canvas = new Canvas(undefined, { selectionMode: 'lasso' });
+      contained = new FabricObject({
+        left: 10,
+        top: 10,
+        width: 20,
+        height: 20,
+      });
+      intersecting = new FabricObject({
+        left: 30,
+        top: 30,
+        width: 20,
+        height: 20,
+      });
+      inNotch = new FabricObject({ left: 60, top: 60, width: 10, height: 10 });
+      canvas.add(contained, intersecting, inNotch);
+    });
+
+    test('geometry', () => {
+      expect(contained.isContainedWithinPolygon(lasso)).toBe(true);
+      expect(contained.intersectsWithPolygon(lasso)).toBe(true);
+      expect(intersecting.isContainedWithinPolygon(lasso)).toBe(false);
+      expect(intersecting.intersectsWithPolygon(lasso)).toBe(true);
+      expect(inNotch.isContainedWithinPolygon(lasso)).toBe(false);
+      expect(inNotch.intersectsWithPolygon(lasso)).toBe(false);
+      // the object contains the lasso
+      expect(
+        inNotch.intersectsWithPolygon([
+          new Point(62, 62),
+          new Point(65, 62),
+          new Point(65, 65),
+        ])
+      ).toBe(true);
+    });
+
+    test('selects intersecting objects', () => {
+      const created = jest.fn();
+      canvas.on('selection:created', created);
+      drawLasso(canvas, lasso);
+      const activeObject = canvas.getActiveObject() as ActiveSelection;
+      expect(activeObject).toBeInstanceOf(ActiveSelection);
+      expect(activeObject.getObjects()).toEqual([contained, intersecting]);
+      expect(created).toHaveBeenCalledTimes(1);
+      expect(created.mock.calls[0][0].selected).toEqual([
+        contained,
+        intersecting,
+      ]);
+    });
+
+    test('selectionFullyContained', () => {
+      canvas.selectionFullyContained = true;
+      drawLasso(canvas, lasso);
+      expect(canvas.getActiveObject()).toBe(contained);
+    });
+
+    test('rendering', () => {
+      canvas.__onMouseDown(
+        new MouseEvent('mousedown', { clientX: 0, clientY: 0 })
+      );
+      canvas.__onMouseMove(
+        new MouseEvent('mousemove', { clientX: 0, clientY: 0 })
+      );
+      canvas.__onMouseMove(
+        new MouseEvent('mousemove', { clientX: 100, clientY: 0 })
+      );
+      // @ts-expect-error protected property
+      expect(canvas._groupSelector.path).toEqual([
+        new Point(0, 0),
+        new Point(100, 0),
+      ]);
+      const ctx = canvas.contextTop;
+      const lineTo = jest.spyOn(ctx, 'lineTo');
+      const strokeRect = jest.spyOn(ctx, 'strokeRect');
+      canvas.renderTop();
+      expect(lineTo).toHaveBeenCalledWith(100, 0);
+      expect(strokeRect).not.toHaveBeenCalled();
+    });
+
+    test('a lasso of less than 3 points falls back to a rectangle', () => {
+      canvas.__onMouseDown(
+        new MouseEvent('mousedown', { clientX: 5, clientY: 5 })
+      );
+      canvas.__onMouseMove(
+        new MouseEvent('mousemove', { clientX: 35, clientY: 35 })
+      );
+      canvas.__onMouseUp(
+        new MouseEvent('mouseup', { clientX: 35, clientY: 35 })
+      );
+      expect(canvas.getActiveObjects()).toEqual([contained, intersecting]);
+    });
+  });
 });
@@ -0,0 +1,110 @@
+import type { Transform } from '../../EventTypeDefs';
+import { dragHandler } from '../../controls/drag';
+import { scalingX } from '../../controls/scale';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+
+const createTransform = (target: Rect, transform: Partial<Transform> = {}) =>
+  ({
+    target,
+    corner: 0,
+    action: 'drag',
+    offsetX: 0,
+    offsetY: 0,
+    originX: 'left',
+    originY: 'top',
+    scaleX: target.scaleX,
+    scaleY: target.scaleY,
+    original: { scaleX: target.scaleX, scaleY: target.scaleY },
+    ...transform,
+  } as Transform);
+
+describe('SnappingManager', () => {
+  let canvas: Canvas;
+  let object: Rect;
+  let target: Rect;
+
+  beforeEach(() => {
+    canvas = new Canvas(undefined, { width: 1000, height: 1000 });
+    canvas.objectSnapping = true;
+    object = new Rect({ left: 300, top: 0, width: 100, height: 100 });
+    target = new Rect({ left: 500, top: 500, width: 50, height: 50 });
+    object.strokeWidth = target.strokeWidth = 0;
+    canvas.add(object, target);
+  });
+
+  test('dragging snaps to edges of other objects', () => {
+    const spy = jest.fn();
+    canvas.on('object:snap', spy);
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 403, 523);
+    expect(target.left).toBe(400);
+    expect(target.top).toBe(523);
+    expect(canvas.snappingManager.guides).toEqual([
+      { axis: 'x', value: 400, start: 0, end: 573, objects: [object] },
+    ]);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0].target).toBe(target);
+  });
+
+  test('dragging snaps centers', () => {
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 600, 22);
+    expect(target.top).toBe(25);
+    expect(canvas.snappingManager.guides).toEqual([
+      { axis: 'y', value: 50, start: 300, end: 650, objects: [object] },
+    ]);
+  });
+
+  test('dragging snaps to the canvas', () => {
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 948, 700);
+    expect(target.left).toBe(950);
+    expect(canvas.snappingManager.guides).toEqual([
+      { axis: 'x', value: 1000, start: 0, end: 1000, objects: [] },
+    ]);
+  });
+
+  test('tolerance accounts for zoom', () => {
+    canvas.setZoom(2);
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 404, 523);
+    expect(target.left).toBe(404);
+    expect(canvas.snappingManager.guides).toEqual([]);
+  });
+
+  test('locked axis does not snap', () => {
+    target.lockMovementX = true;
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 403, 523);
+    expect(target.left).toBe(500);
+  });
+
+  test('opt-out', () => {
+    object.excludeFromSnapping = true;
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 403, 523);
+    expect(target.left).toBe(403);
+    target.excludeFromSnapping = true;
+    object.excludeFromSnapping = false;
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 403, 523);
+    expect(target.left).toBe(403);
+  });
+
+  test('disabled', () => {
+    canvas.objectSnapping = false;
+    dragHandler(new MouseEvent('mousemove'), createTransform(target), 403, 523);
+    expect(target.left).toBe(403);
+    expect(canvas.snappingManager.guides).toEqual([]);
+  });
+
+  test('scaling snaps the moving edge', () => {
+    target.set({ left: 200, top: 0 });
+    scalingX(
+      new MouseEvent('mousemove'),
+      createTransform(target, { corner: 'mr', action: 'scaleX' }),
+      298,
+      25
+    );
+    expect(target.left).toBe(200);
+    expect(target.scaleX).toBeCloseTo(2);
+    expect(target.scaleY).toBe(1);
+    expect(canvas.snappingManager.guides).toEqual([
+      { axis: 'x', value: 300, start: 0, end: 100, objects: [object] },
+    ]);
+  });
+});
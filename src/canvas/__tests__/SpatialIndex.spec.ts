@@ -0,0 +1,159 @@
+import { Point } from '../../Point';
+import { ActiveSelection } from '../../shapes/ActiveSelection';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+import { StaticCanvas } from '../StaticCanvas';
+
+const createGrid = (columns: number, rows: number, size = 10, gap = 20) => {
+  const rects: Rect[] = [];
+  for (let i = 0; i < columns; i++) {
+    for (let j = 0; j < rows; j++) {
+      rects.push(
+        new Rect({
+          left: i * gap,
+          top: j * gap,
+          width: size,
+          height: size,
+          strokeWidth: 0,
+        })
+      );
+    }
+  }
+  return rects;
+};
+
+describe('SpatialIndex', () => {
+  test('search', () => {
+    const canvas = new StaticCanvas(undefined, { enableSpatialIndex: true });
+    const rects = createGrid(20, 20);
+    const far = new Rect({ left: -5000, top: 8000, width: 10, height: 10 });
+    canvas.add(...rects, far);
+    const { spatialIndex } = canvas;
+
+    const found = spatialIndex.search({
+      left: 35,
+      top: 35,
+      width: 10,
+      height: 30,
+    });
+    expect(found).toEqual(new Set([rects[2 * 20 + 2], rects[2 * 20 + 3]]));
+    expect(
+      spatialIndex.search({ left: -5000, top: 8000, width: 0, height: 0 })
+    ).toEqual(new Set([far]));
+    expect(
+      spatialIndex.search({ left: 1000, top: 1000, width: 100, height: 100 })
+        .size
+    ).toBe(0);
+
+    // modified
+    far.set({ left: 45, top: 45 });
+    far.setCoords();
+    expect(
+      spatialIndex.search({ left: 52, top: 52, width: 0, height: 0 })
+    ).toEqual(new Set([far]));
+
+    // removed
+    canvas.remove(rects[2 * 20 + 2]);
+    expect(
+      spatialIndex.search({ left: 40, top: 40, width: 0, height: 0 })
+    ).toEqual(new Set());
+  });
+
+  test('filterObjects preserves the stack order and is bypassed when disabled', () => {
+    const canvas = new StaticCanvas();
+    const rects = createGrid(10, 10);
+    canvas.add(...rects);
+    const bbox = { left: 0, top: 0, width: 25, height: 25 },
+      objects = canvas.getObjects().reverse();
+    expect(canvas.spatialIndex.filterObjects(objects, bbox)).toBe(objects);
+    canvas.enableSpatialIndex = true;
+    expect(canvas.spatialIndex.filterObjects(objects, bbox)).toEqual([
+      rects[11],
+      rects[10],
+      rects[1],
+      rects[0],
+    ]);
+    // the index is dropped once disabled
+    canvas.enableSpatialIndex = false;
+    canvas.remove(rects[0]);
+    expect(canvas.spatialIndex.has(rects[1])).toBe(false);
+  });
+
+  test('findTarget and selection', () => {
+    const canvas = new Canvas(undefined, {
+      enableSpatialIndex: true,
+      width: 400,
+      height: 400,
+    });
+    const rects = createGrid(20, 20);
+    canvas.add(...rects);
+    const checkTarget = jest.spyOn(canvas, '_checkTarget');
+    const target = canvas.findTarget(
+      new MouseEvent('mousedown', { clientX: 65, clientY: 25 })
+    );
+    expect(target).toBe(rects[3 * 20 + 1]);
+    expect(checkTarget).toHaveBeenCalledTimes(1);
+
+    canvas.setViewportTransform([2, 0, 0, 2, -100, 0]);
+    expect(
+      canvas.findTarget(
+        new MouseEvent('mousedown', { clientX: 110, clientY: 90 })
+      )
+    ).toBe(rects[5 * 20 + 2]);
+
+    expect(
+      canvas.collectObjects(
+        { left: 0, top: 0, width: 35, height: 15 },
+        { includeIntersecting: true }
+      )
+    ).toEqual([rects[20], rects[0]]);
+    expect(
+      canvas.collectObjectsInPolygon(
+        [new Point(0, 0), new Point(35, 0), new Point(0, 35)],
+        { includeIntersecting: true }
+      )
+    ).toEqual([rects[20], rects[1], rects[0]]);
+  });
+
+  test('objects of the active selection are always found', () => {
+    const canvas = new Canvas(undefined, {
+      enableSpatialIndex: true,
+      preserveObjectStacking: true,
+    });
+    const rects = createGrid(2, 1);
+    canvas.add(...rects);
+    const selection = new ActiveSelection(rects);
+    canvas.setActiveObject(selection);
+    selection.set({ left: 500, top: 500 });
+    selection.setCoords();
+    expect(
+      canvas.spatialIndex.filterObjects(canvas.getObjects(), {
+        left: 0,
+        top: 0,
+        width: 1,
+        height: 1,
+      })
+    ).toEqual(rects);
+  });
+
+  test('off-screen objects are not rendered', () => {
+    const canvas = new StaticCanvas(undefined, {
+      enableSpatialIndex: true,
+      width: 100,
+      height: 100,
+      renderOnAddRemove: false,
+    });
+    const onScreen = new Rect({ left: 10, top: 10, width: 10, height: 10 });
+    const offScreen = new Rect({ left: 200, top: 10, width: 10, height: 10 });
+    canvas.add(onScreen, offScreen);
+    const renderOnScreen = jest.spyOn(onScreen, 'render');
+    const renderOffScreen = jest.spyOn(offScreen, 'render');
+    canvas.renderAll();
+    expect(renderOnScreen).toHaveBeenCalledTimes(1);
+    expect(renderOffScreen).not.toHaveBeenCalled();
+
+    canvas.skipOffscreen = false;
+    canvas.renderAll();
+    expect(renderOffScreen).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,162 @@
+import { Rect } from '../../shapes/Rect';
+import { StaticCanvas } from '../StaticCanvas';
+
+describe('Timeline', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('keyframes are interpolated and held outside of their range', () => {
+    const canvas = new StaticCanvas();
+    const rect = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(rect);
+    canvas.timeline.addKeyframes(rect, 'left', [
+      { time: 100, value: 0 },
+      { time: 200, value: 100 },
+      { time: 300, value: 0, easing: 'easeInQuad' },
+    ]);
+    expect(canvas.timeline.getDuration()).toBe(300);
+    canvas.timeline.seek(50);
+    expect(rect.left).toBe(0);
+    canvas.timeline.seek(150);
+    expect(rect.left).toBe(50);
+    canvas.timeline.seek(250);
+    expect(rect.left).toBe(75);
+    canvas.timeline.seek(1000);
+    expect(canvas.timeline.time).toBe(300);
+    expect(rect.left).toBe(0);
+  });
+
+  test('to sequences and overlaps transitions', () => {
+    const canvas = new StaticCanvas();
+    const a = new Rect({ width: 10, height: 10, strokeWidth: 0 }),
+      b = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(a, b);
+    canvas.timeline
+      .to(a, { left: 100, fill: 'rgba(0,0,255,1)' }, { duration: 1000 })
+      .to(a, { top: 50 })
+      .to(b, { opacity: 0 }, { at: 500, duration: 500 });
+    expect(canvas.timeline.getDuration()).toBe(1500);
+    canvas.timeline.seek(750);
+    expect(a.left).toBe(75);
+    expect(a.top).toBe(0);
+    expect(b.opacity).toBe(0.5);
+    expect(a.fill).toBe('rgba(0,0,191,1)');
+    canvas.timeline.seek(1250);
+    expect(a.left).toBe(100);
+    expect(a.top).toBe(25);
+    expect(b.opacity).toBe(0);
+  });
+
+  test('transitions start from the value of the track', () => {
+    const canvas = new StaticCanvas();
+    const rect = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(rect);
+    canvas.timeline.to(rect, { left: 100 }).to(rect, { left: 0 });
+    expect(canvas.timeline.getTracks()[0].keyframes).toEqual([
+      { time: 0, value: 0 },
+      { time: 500, value: 100, easing: 'linear' },
+      { time: 1000, value: 0, easing: 'linear' },
+    ]);
+  });
+
+  test('tracks of objects removed from the canvas are not applied', () => {
+    const canvas = new StaticCanvas();
+    const rect = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(rect);
+    canvas.timeline.to(rect, { left: 100 });
+    canvas.remove(rect);
+    canvas.timeline.seek(250);
+    expect(rect.left).toBe(0);
+    canvas.add(rect);
+    canvas.timeline.seek(250);
+    expect(rect.left).toBe(50);
+  });
+
+  test('play, pause, reverse and loop', () => {
+    const canvas = new StaticCanvas();
+    const rect = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(rect);
+    const { timeline } = canvas;
+    const onComplete = jest.fn();
+    canvas.on('timeline:complete', onComplete);
+    timeline.addKeyframes(rect, 'left', [
+      { time: 0, value: 0 },
+      { time: 1000, value: 1000 },
+    ]);
+    timeline.play();
+    expect(timeline.isPlaying()).toBe(true);
+    jest.advanceTimersByTime(500);
+    expect(rect.left).toBeGreaterThan(400);
+    expect(rect.left).toBeLessThan(600);
+    timeline.pause();
+    const time = timeline.time;
+    jest.advanceTimersByTime(500);
+    expect(timeline.time).toBe(time);
+
+    timeline.playbackRate = 2;
+    timeline.reverse().play();
+    jest.advanceTimersByTime(500);
+    expect(timeline.time).toBe(0);
+    expect(rect.left).toBe(0);
+    expect(timeline.isPlaying()).toBe(false);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+
+    timeline.loop = true;
+    timeline.reversed = false;
+    timeline.play();
+    jest.advanceTimersByTime(1200);
+    expect(timeline.isPlaying()).toBe(true);
+    expect(timeline.time).toBeLessThan(1000);
+    timeline.pause();
+  });
+
+  test('the timeline is serialized with the canvas', async () => {
+    const canvas = new StaticCanvas();
+    const rect = new Rect({ width: 10, height: 10, strokeWidth: 0 });
+    canvas.add(rect);
+    canvas.timeline.loop = true;
+    canvas.timeline.to(rect, { left: 100, opacity: 0.5 });
+    expect(rect.id).toBeDefined();
+    const data = canvas.toObject();
+    expect(data.timeline).toEqual({
+      playbackRate: 1,
+      loop: true,
+      reversed: false,
+      tracks: [
+        {
+          objectId: rect.id,
+          property: 'left',
+          keyframes: [
+            { time: 0, value: 0 },
+            { time: 500, value: 100, easing: 'linear' },
+          ],
+        },
+        {
+          objectId: rect.id,
+          property: 'opacity',
+          keyframes: [
+            { time: 0, value: 1 },
+            { time: 500, value: 0.5, easing: 'linear' },
+          ],
+        },
+      ],
+    });
+
+    const restored = new StaticCanvas();
+    await restored.loadFromJSON(JSON.stringify(data));
+    const [target] = restored.getObjects();
+    expect(restored.timeline).not.toBe(data.timeline);
+    expect(restored.timeline.loop).toBe(true);
+    expect(restored.timeline.getTracks()[0].target).toBe(target);
+    restored.timeline.seek(250);
+    expect(target.left).toBe(50);
+
+    canvas.remove(rect);
+    expect(canvas.toObject().timeline.tracks).toEqual([]);
+  });
+});
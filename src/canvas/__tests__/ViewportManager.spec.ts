@@ -0,0 +1,188 @@
+import { getFabricDocument } from '../../env';
+import { Point } from '../../Point';
+import { Rect } from '../../shapes/Rect';
+import { Canvas } from '../Canvas';
+
+describe('ViewportManager', () => {
+  let canvas: Canvas;
+
+  const dispatchMouse = (
+    type: string,
+    clientX: number,
+    clientY: number,
+    init: MouseEventInit = {}
+  ) => {
+    const e = new MouseEvent(type, {
+      clientX,
+      clientY,
+      bubbles: true,
+      ...init,
+    });
+    (type === 'mousedown'
+      ? canvas.upperCanvasEl
+      : getFabricDocument()
+    ).dispatchEvent(e);
+  };
+
+  const dispatchWheel = (init: WheelEventInit) => {
+    const e = new WheelEvent('wheel', {
+      bubbles: true,
+      cancelable: true,
+      ...init,
+    });
+    canvas.upperCanvasEl.dispatchEvent(e);
+    return e;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    canvas = new Canvas(undefined, { width: 200, height: 100 });
+    // the main pointer is tracked by listeners of the document
+    getFabricDocument().body.appendChild(canvas.wrapperEl);
+  });
+
+  afterEach(() => {
+    canvas.wrapperEl.remove();
+    canvas.destroy();
+    jest.useRealTimers();
+  });
+
+  test('wheel zooms around the pointer within the zoom bounds', () => {
+    const changed = jest.fn();
+    canvas.on('viewport:changed', changed);
+    expect(
+      dispatchWheel({ deltaY: 100, clientX: 50, clientY: 50 }).defaultPrevented
+    ).toBe(false);
+    expect(changed).not.toHaveBeenCalled();
+
+    canvas.wheelNavigation = 'zoom';
+    canvas.maxZoom = 2;
+    const e = dispatchWheel({ deltaY: -100, clientX: 50, clientY: 50 });
+    expect(e.defaultPrevented).toBe(true);
+    const zoom = Math.pow(0.999, -100);
+    expect(canvas.getZoom()).toBeCloseTo(zoom);
+    expect(canvas.viewportTransform[4]).toBeCloseTo(50 - 50 * zoom);
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(changed.mock.calls[0][0].viewportTransform).toBe(
+      canvas.viewportTransform
+    );
+
+    // the point under the pointer stays still
+    const anchor = canvas.restorePointerVpt(new Point(50, 50));
+    for (let i = 0; i < 20; i++) {
+      dispatchWheel({ deltaY: -100, clientX: 50, clientY: 50 });
+    }
+    expect(canvas.getZoom()).toBeCloseTo(2);
+    const point = canvas.restorePointerVpt(new Point(50, 50));
+    expect(point.x).toBeCloseTo(anchor.x);
+    expect(point.y).toBeCloseTo(anchor.y);
+  });
+
+  test('wheel pans and zooms with ctrl in pan mode', () => {
+    canvas.wheelNavigation = 'pan';
+    dispatchWheel({ deltaX: 10, deltaY: 20 });
+    expect(canvas.viewportTransform).toEqual([1, 0, 0, 1, -10, -20]);
+    dispatchWheel({ deltaMode: 1, deltaY: 1 });
+    expect(canvas.viewportTransform).toEqual([1, 0, 0, 1, -10, -36]);
+    dispatchWheel({ deltaY: -100, ctrlKey: true });
+    expect(canvas.getZoom()).toBeCloseTo(Math.pow(0.999, -100));
+  });
+
+  test('a mouse:wheel handler preventing default takes precedence', () => {
+    canvas.wheelNavigation = 'zoom';
+    canvas.on('mouse:wheel', ({ e }) => e.preventDefault());
+    dispatchWheel({ deltaY: -100 });
+    expect(canvas.viewportTransform).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+
+  test('pan limits to content', () => {
+    canvas.add(
+      new Rect({ left: 0, top: 0, width: 100, height: 50, strokeWidth: 0 })
+    );
+    canvas.limitPanToContent = true;
+    const { viewportManager } = canvas;
+    // content smaller than the canvas stays within it
+    viewportManager.relativePan(new Point(500, -500));
+    expect(canvas.viewportTransform[4]).toBeCloseTo(100);
+    expect(canvas.viewportTransform[5]).toBeCloseTo(0);
+    // content larger than the canvas covers it
+    viewportManager.zoomToPoint(new Point(0, 0), 4);
+    expect(canvas.getZoom()).toBe(4);
+    viewportManager.relativePan(new Point(500, -500));
+    expect(canvas.viewportTransform[4]).toBeCloseTo(0);
+    expect(canvas.viewportTransform[5]).toBeCloseTo(-100);
+    // canvas methods are not limited
+    canvas.absolutePan(new Point(-500, 0));
+    expect(canvas.viewportTransform[4]).toBe(500);
+  });
+
+  test('dragging with the pan key pans with inertia', () => {
+    const rect = new Rect({ left: 10, top: 10, width: 50, height: 50 });
+    canvas.add(rect);
+    canvas.panKey = 'altKey';
+    const down = jest.fn();
+    canvas.on('mouse:down', down);
+    dispatchMouse('mousedown', 20, 20, { altKey: true });
+    expect(down).toHaveBeenCalledTimes(1);
+    expect(canvas.upperCanvasEl.style.cursor).toBe('grabbing');
+    jest.advanceTimersByTime(10);
+    dispatchMouse('mousemove', 30, 20, { altKey: true });
+    jest.advanceTimersByTime(10);
+    dispatchMouse('mousemove', 40, 20, { altKey: true });
+    expect(canvas.viewportTransform).toEqual([1, 0, 0, 1, 20, 0]);
+    expect(canvas.viewportManager.isPanning()).toBe(true);
+    dispatchMouse('mouseup', 40, 20);
+    expect(canvas.viewportManager.isPanning()).toBe(false);
+    expect(canvas.getActiveObject()).toBeUndefined();
+    expect(rect.left).toBe(10);
+    // 1 pixel per ms
+    jest.advanceTimersByTime(canvas.panInertia + 100);
+    expect(canvas.viewportTransform[4]).toBeCloseTo(20 + canvas.panInertia / 3);
+    expect(canvas.viewportTransform[5]).toBeCloseTo(0);
+  });
+
+  test('fitToObjects and zoomToObject animate the viewport', () => {
+    const rect = new Rect({
+      left: 100,
+      top: 100,
+      width: 100,
+      height: 100,
+      strokeWidth: 0,
+    });
+    const small = new Rect({
+      left: 300,
+      top: 100,
+      width: 10,
+      height: 10,
+      strokeWidth: 0,
+    });
+    canvas.add(rect, small);
+    const { viewportManager } = canvas;
+    const animation = viewportManager.fitToObjects(undefined, {
+      padding: 10,
+      duration: 100,
+    });
+    expect(animation).toBeDefined();
+    jest.advanceTimersByTime(200);
+    expect(animation?.isDone()).toBe(true);
+    // 210 x 100 fit in 180 x 80
+    expect(canvas.getZoom()).toBeCloseTo(0.8);
+    expect(new Point(205, 150).transform(canvas.viewportTransform)).toEqual(
+      new Point(100, 50)
+    );
+
+    canvas.maxZoom = 5;
+    expect(
+      viewportManager.zoomToObject(small, { duration: 0 })
+    ).toBeUndefined();
+    expect(canvas.viewportTransform).toEqual([5, 0, 0, 5, -1425, -475]);
+
+    // a new animation stops the running one
+    const first = viewportManager.zoomToObject(rect);
+    const second = viewportManager.zoomToObject(small);
+    expect(first?.state).toBe('aborted');
+    jest.advanceTimersByTime(1000);
+    expect(second?.isDone()).toBe(true);
+    expect(canvas.viewportTransform).toEqual([5, 0, 0, 5, -1425, -475]);
+  });
+});
@@ -1,5 +1,6 @@
 import type { TransformActionHandler } from '../EventTypeDefs';
 import { LEFT, TOP } from '../constants';
+import { Point } from '../Point';
 import { fireEvent } from './fireEvent';
 import { commonEventInfo, isLocked } from './util';
 
@@ -19,8 +20,15 @@ export const dragHandler: TransformActionHandler = (
   y
 ) => {
   const { target, offsetX, offsetY } = transform,
-    newLeft = x - offsetX,
-    newTop = y - offsetY,
+    position = new Point(x - offsetX, y - offsetY),
+    { x: newLeft, y: newTop } = target.canvas?.snappingManager
+      ? target.canvas.snappingManager.snapPosition(
+          eventData,
+          transform,
+          new Point(x, y),
+          position
+        )
+      : position,
     moveX = !isLocked(target, 'lockMovementX') && target.left !== newLeft,
     moveY = !isLocked(target, 'lockMovementY') && target.top !== newTop;
   moveX && target.set(LEFT, newLeft);
@@ -3,6 +3,7 @@ export { renderCircleControl, renderSquareControl } from './controlRendering';
 export * from './commonControls';
 export { dragHandler } from './drag';
 export * from './polyControl';
+export * from './pathControl';
 export { rotationStyleHandler, rotationWithSnapping } from './rotate';
 export {
   scaleCursorStyleHandler,
@@ -0,0 +1,168 @@
+import { Point } from '../Point';
+import type { Transform } from '../EventTypeDefs';
+import { Path } from '../shapes/Path';
+import {
+  PathControl,
+  addPathNode,
+  createPathControls,
+  pathActionHandler,
+  removePathNode,
+  setPathNodeType,
+} from './pathControl';
+
+/**
+ * drags a control to a point in the coordinates of the commands of the path
+ */
+const drag = (path: Path, corner: string, point: Point) => {
+  const { x, y } = point
+    .subtract(path.pathOffset)
+    .transform(path.calcOwnMatrix());
+  return pathActionHandler(
+    {} as MouseEvent,
+    { target: path, corner } as unknown as Transform,
+    x,
+    y
+  );
+};
+
+/**
+ * @returns the points of the commands of the path in the parent plane
+ */
+const getPoints = (path: Path) =>
+  path.path.map((command) => {
+    const points: Point[] = [];
+    for (let i = 1; i < command.length; i += 2) {
+      points.push(
+        new Point(command[i] as number, command[i + 1] as number)
+          .subtract(path.pathOffset)
+          .transform(path.calcOwnMatrix())
+      );
+    }
+    return points;
+  });
+
+describe('path controls', () => {
+  let path: Path;
+  beforeEach(() => {
+    path = new Path('M 0 0 C 0 10 10 20 20 20 C 30 20 40 10 40 0 L 40 -20 Z', {
+      left: 50,
+      top: 50,
+      angle: 30,
+      scaleX: 2,
+    });
+    path.controls = createPathControls(path, { sizeX: 10 });
+  });
+
+  test('createPathControls', () => {
+    expect(Object.keys(path.controls)).toEqual([
+      'p0',
+      'p1_1',
+      'p1_2',
+      'p1',
+      'p2_1',
+      'p2_2',
+      'p2',
+      'p3',
+    ]);
+    Object.values(path.controls).forEach((control) => {
+      expect(control).toBeInstanceOf(PathControl);
+      expect(control.sizeX).toBe(10);
+      expect(control.actionName).toBe('modifyPath');
+    });
+    expect((path.controls.p1 as PathControl).nodeType).toBe('smooth');
+    expect((path.controls.p2 as PathControl).nodeType).toBe('corner');
+    expect((path.controls.p1 as PathControl).isAnchor(path)).toBe(true);
+    expect((path.controls.p1_2 as PathControl).isAnchor(path)).toBe(false);
+  });
+
+  test('closing command shares the node of the start of the subpath', () => {
+    const closed = new Path('M 0 0 L 10 0 L 10 10 L 0 0 Z');
+    expect(Object.keys(createPathControls(closed))).toEqual(['p0', 'p1', 'p2']);
+  });
+
+  test('dragging an anchor keeps the other points in place', () => {
+    const points = getPoints(path),
+      target = new Point(60, -40)
+        .subtract(path.pathOffset)
+        .transform(path.calcOwnMatrix());
+    expect(drag(path, 'p3', new Point(60, -40))).toBe(true);
+    const moved = getPoints(path);
+    expect(moved[3][0].x).toBeCloseTo(target.x);
+    expect(moved[3][0].y).toBeCloseTo(target.y);
+    [0, 1, 2].forEach((index) =>
+      points[index].forEach((point, i) => {
+        expect(moved[index][i].x).toBeCloseTo(point.x);
+        expect(moved[index][i].y).toBeCloseTo(point.y);
+      })
+    );
+    expect(path.width).toBeCloseTo(60);
+    expect(path.height).toBeCloseTo(60);
+  });
+
+  test('dragging an anchor drags its handles along', () => {
+    drag(path, 'p1', new Point(20, 30));
+    [10, 30, 20, 30].forEach((value, index) =>
+      expect(path.path[1][index + 3]).toBeCloseTo(value)
+    );
+    expect(path.path[2][1]).toBeCloseTo(30);
+    expect(path.path[2][2]).toBeCloseTo(30);
+  });
+
+  test('handles of smooth nodes stay aligned', () => {
+    drag(path, 'p1_2', new Point(20, 10));
+    // the opposite handle keeps its length
+    expect(path.path[2][1]).toBeCloseTo(20);
+    expect(path.path[2][2]).toBeCloseTo(30);
+    setPathNodeType(path, 1, 'corner');
+    drag(path, 'p1_2', new Point(10, 20));
+    expect(path.path[2][1]).toBeCloseTo(20);
+    expect(path.path[2][2]).toBeCloseTo(30);
+    setPathNodeType(path, 1, 'smooth');
+    expect((path.controls.p1 as PathControl).nodeType).toBe('smooth');
+    const [, x1, y1, x2, y2] = path.path[2] as number[],
+      [, , , hx, hy, ax, ay] = path.path[1] as number[];
+    expect((ax - hx) * (y1 - ay) - (ay - hy) * (x1 - ax)).toBeCloseTo(0);
+    expect(x2).toBe(40);
+    expect(y2).toBe(10);
+  });
+
+  test('addPathNode keeps the shape of curves', () => {
+    const points = getPoints(path);
+    expect(addPathNode(path, 1)).toBe(1);
+    expect(path.path).toHaveLength(6);
+    expect(path.path[1]).toEqual(['C', 0, 5, 2.5, 10, 6.25, 13.75]);
+    expect(path.path[2]).toEqual(['C', 10, 17.5, 15, 20, 20, 20]);
+    const moved = getPoints(path);
+    expect(moved[2][2].x).toBeCloseTo(points[1][2].x);
+    expect(moved[2][2].y).toBeCloseTo(points[1][2].y);
+    // controls follow the new commands
+    expect(path.controls.p2).toBeInstanceOf(PathControl);
+    expect((path.controls.p2 as PathControl).nodeType).toBe('smooth');
+    expect(path.controls.p1).toBeInstanceOf(PathControl);
+    expect(path.controls.p1.sizeX).toBe(10);
+
+    expect(addPathNode(path, 4)).toBe(4);
+    expect(path.path[4]).toEqual(['L', 40, -10]);
+    expect(addPathNode(path, 0)).toBe(-1);
+  });
+
+  test('removePathNode joins the segments around the node', () => {
+    expect(removePathNode(path, 1)).toBe(true);
+    expect(path.path).toEqual([
+      ['M', 0, 0],
+      ['C', 0, 10, 40, 10, 40, 0],
+      ['L', 40, -20],
+      ['Z'],
+    ]);
+    expect(Object.keys(path.controls)).toEqual([
+      'p0',
+      'p1_1',
+      'p1_2',
+      'p1',
+      'p2',
+    ]);
+    expect(removePathNode(path, 3)).toBe(false);
+    expect(removePathNode(path, 0)).toBe(true);
+    expect(path.path[0]).toEqual(['M', 40, 0]);
+  });
+});
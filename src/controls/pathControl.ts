@@ -0,0 +1,598 @@
+import { Point } from '../Point';
+import { Control } from './Control';
+import type { TMat2D } from '../typedefs';
+import { iMatrix } from '../constants';
+import type { Path } from '../shapes/Path';
+import type { InteractiveFabricObject } from '../shapes/Object/InteractiveObject';
+import { multiplyTransformMatrices } from '../util/misc/matrix';
+import { pick } from '../util/misc/pick';
+import { sendPointToPlane } from '../util/misc/planeChange';
+import { getUnitVector, magnitude } from '../util/misc/vectors';
+import type { TSimpleParsedCommand } from '../util/path/typedefs';
+import type { TPointerEvent, Transform } from '../EventTypeDefs';
+import type { ControlRenderingStyleOverride } from './controlRendering';
+
+/**
+ * - `smooth` handles of the node stay aligned when one of them is dragged
+ * - `corner` handles of the node move independently
+ */
+export type TPathNodeType = 'smooth' | 'corner';
+
+/**
+ * A point of a command of `Path.path`, `pointIndex` being the index of its x coordinate in the command
+ */
+type TPathPoint = { commandIndex: number; pointIndex: number };
+
+/**
+ * The points of the path making a node: its anchor, the anchor of the command closing its subpath on it,
+ * and the handles of the curves around it
+ */
+type TPathNode = {
+  anchors: TPathPoint[];
+  handleIn?: TPathPoint;
+  handleOut?: TPathPoint;
+};
+
+/**
+ * A control of a point of a command of `Path.path`, either an anchor or a control point of a curve
+ */
+export class PathControl extends Control {
+  /**
+   * index of the command of the point in `Path.path`
+   */
+  declare commandIndex: number;
+
+  /**
+   * index of the x coordinate of the point in the command
+   */
+  declare pointIndex: number;
+
+  /**
+   * type of the node of an anchor
+   */
+  declare nodeType?: TPathNodeType;
+
+  constructor(options: Partial<PathControl>) {
+    super({
+      actionName: 'modifyPath',
+      actionHandler: pathActionHandler,
+      ...options,
+    });
+  }
+
+  /**
+   * @returns true if the control is the anchor of a node
+   */
+  isAnchor(path: Path) {
+    return this.pointIndex === path.path[this.commandIndex].length - 2;
+  }
+
+  positionHandler(
+    dim: Point,
+    finalMatrix: TMat2D,
+    path: InteractiveFabricObject
+  ) {
+    return getPointPosition(path as Path, this);
+  }
+
+  /**
+   * Renders anchors like other controls, and handles as a circle connected to their anchor
+   */
+  render(
+    ctx: CanvasRenderingContext2D,
+    left: number,
+    top: number,
+    styleOverride: ControlRenderingStyleOverride | undefined,
+    fabricObject: InteractiveFabricObject
+  ) {
+    const path = fabricObject as Path;
+    if (this.isAnchor(path)) {
+      return super.render(ctx, left, top, styleOverride, fabricObject);
+    }
+    const anchor = getPointPosition(
+      path,
+      this.pointIndex === 1
+        ? getPreviousAnchor(path, this.commandIndex)
+        : { commandIndex: this.commandIndex, pointIndex: 5 }
+    );
+    ctx.save();
+    ctx.strokeStyle = fabricObject.borderColor;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(anchor.x, anchor.y);
+    ctx.lineTo(left, top);
+    ctx.stroke();
+    ctx.restore();
+    super.render(
+      ctx,
+      left,
+      top,
+      { ...styleOverride, cornerStyle: 'circle' },
+      fabricObject
+    );
+  }
+}
+
+const getPoint = (path: Path, { commandIndex, pointIndex }: TPathPoint) => {
+  const command = path.path[commandIndex];
+  return new Point(
+    command[pointIndex] as number,
+    command[pointIndex + 1] as number
+  );
+};
+
+const setPoint = (
+  path: Path,
+  { commandIndex, pointIndex }: TPathPoint,
+  { x, y }: Point
+) => {
+  const command = path.path[commandIndex] as (string | number)[];
+  command[pointIndex] = x;
+  command[pointIndex + 1] = y;
+};
+
+/**
+ * @returns the position of a point of the path in the viewport
+ */
+const getPointPosition = (path: Path, point: TPathPoint) =>
+  getPoint(path, point)
+    .subtract(path.pathOffset)
+    .transform(
+      multiplyTransformMatrices(
+        path.canvas?.viewportTransform ?? iMatrix,
+        path.calcTransformMatrix()
+      )
+    );
+
+/**
+ * @returns the index of the command starting the subpath of a command
+ */
+const getSubpathStart = (path: Path, commandIndex: number) => {
+  let index = commandIndex;
+  while (index > 0 && path.path[index][0] !== 'M') {
+    index--;
+  }
+  return index;
+};
+
+/**
+ * @returns the anchor a command ends on, the one starting its subpath for a `Z` command
+ */
+const getAnchor = (path: Path, commandIndex: number): TPathPoint => {
+  const command = path.path[commandIndex];
+  return command[0] === 'Z'
+    ? { commandIndex: getSubpathStart(path, commandIndex), pointIndex: 1 }
+    : { commandIndex, pointIndex: command.length - 2 };
+};
+
+/**
+ * @returns the anchor the segment of a command starts from
+ */
+const getPreviousAnchor = (path: Path, commandIndex: number) =>
+  getAnchor(path, commandIndex - 1);
+
+/**
+ * @returns the index of the last command of a closed subpath ending on its starting point
+ */
+const getClosingCommand = (path: Path, moveIndex: number) => {
+  let index = moveIndex + 1;
+  while (index < path.path.length && !'MZ'.includes(path.path[index][0])) {
+    index++;
+  }
+  return path.path[index]?.[0] === 'Z' &&
+    index - 1 > moveIndex &&
+    getPoint(path, getAnchor(path, index - 1)).eq(
+      getPoint(path, { commandIndex: moveIndex, pointIndex: 1 })
+    )
+    ? index - 1
+    : undefined;
+};
+
+/**
+ * @returns true if the anchor of a command is the one of the command starting its subpath
+ */
+const isClosingCommand = (path: Path, commandIndex: number) =>
+  path.path[commandIndex][0] !== 'M' &&
+  getClosingCommand(path, getSubpathStart(path, commandIndex)) === commandIndex;
+
+const getNode = (path: Path, commandIndex: number): TPathNode => {
+  const commands = path.path,
+    command = commands[commandIndex],
+    closing =
+      command[0] === 'M' ? getClosingCommand(path, commandIndex) : undefined,
+    incoming = closing ?? commandIndex,
+    next = commands[commandIndex + 1];
+  return {
+    anchors: [
+      getAnchor(path, commandIndex),
+      ...(closing !== undefined ? [getAnchor(path, closing)] : []),
+    ],
+    handleIn:
+      commands[incoming][0] === 'C'
+        ? { commandIndex: incoming, pointIndex: 3 }
+        : undefined,
+    handleOut:
+      next?.[0] === 'C'
+        ? { commandIndex: commandIndex + 1, pointIndex: 1 }
+        : undefined,
+  };
+};
+
+/**
+ * @returns the node of a handle and the opposite handle of the node
+ */
+const getHandleNode = (
+  path: Path,
+  { commandIndex, pointIndex }: TPathPoint
+) => {
+  if (path.path[commandIndex][0] !== 'C') {
+    return;
+  }
+  let nodeIndex = pointIndex === 1 ? commandIndex - 1 : commandIndex;
+  if (pointIndex === 1 && path.path[nodeIndex][0] === 'Z') {
+    return;
+  }
+  if (isClosingCommand(path, nodeIndex)) {
+    nodeIndex = getSubpathStart(path, nodeIndex);
+  }
+  const node = getNode(path, nodeIndex);
+  return {
+    nodeIndex,
+    node,
+    opposite: pointIndex === 1 ? node.handleIn : node.handleOut,
+  };
+};
+
+/**
+ * @returns the type of a node deduced from the alignment of its handles
+ */
+const inferNodeType = (path: Path, commandIndex: number): TPathNodeType => {
+  const { anchors, handleIn, handleOut } = getNode(path, commandIndex);
+  if (!handleIn || !handleOut) {
+    return 'corner';
+  }
+  const anchor = getPoint(path, anchors[0]),
+    d1 = anchor.subtract(getPoint(path, handleIn)),
+    d2 = getPoint(path, handleOut).subtract(anchor);
+  return magnitude(d1) > 0 &&
+    magnitude(d2) > 0 &&
+    getUnitVector(d1).distanceFrom(getUnitVector(d2)) < 1e-3
+    ? 'smooth'
+    : 'corner';
+};
+
+/**
+ * Aligns the handles of a node, keeping their length
+ */
+const alignHandles = (path: Path, commandIndex: number) => {
+  const { anchors, handleIn, handleOut } = getNode(path, commandIndex);
+  if (!handleIn || !handleOut) {
+    return;
+  }
+  const anchor = getPoint(path, anchors[0]),
+    d1 = anchor.subtract(getPoint(path, handleIn)),
+    d2 = getPoint(path, handleOut).subtract(anchor),
+    direction = getUnitVector(getUnitVector(d1).add(getUnitVector(d2)));
+  if (magnitude(direction) === 0) {
+    return;
+  }
+  setPoint(
+    path,
+    handleIn,
+    anchor.subtract(direction.scalarMultiply(magnitude(d1)))
+  );
+  setPoint(
+    path,
+    handleOut,
+    anchor.add(direction.scalarMultiply(magnitude(d2)))
+  );
+};
+
+/**
+ * Moves a point of the path, dragging the handles of anchors along and keeping the handles of smooth nodes aligned
+ */
+const movePoint = (path: Path, control: PathControl, point: Point) => {
+  if (control.isAnchor(path)) {
+    const { anchors, handleIn, handleOut } = getNode(
+        path,
+        control.commandIndex
+      ),
+      delta = point.subtract(getPoint(path, anchors[0]));
+    anchors.forEach((anchor) => setPoint(path, anchor, point));
+    [handleIn, handleOut].forEach(
+      (handle) =>
+        handle && setPoint(path, handle, getPoint(path, handle).add(delta))
+    );
+    return;
+  }
+  setPoint(path, control, point);
+  const handleNode = getHandleNode(path, control),
+    nodeControl =
+      handleNode &&
+      (path.controls[`p${handleNode.nodeIndex}`] as PathControl | undefined);
+  if (handleNode?.opposite && nodeControl?.nodeType === 'smooth') {
+    const anchor = getPoint(path, handleNode.node.anchors[0]),
+      direction = getUnitVector(anchor.subtract(point)),
+      length = magnitude(getPoint(path, handleNode.opposite).subtract(anchor));
+    magnitude(direction) > 0 &&
+      setPoint(
+        path,
+        handleNode.opposite,
+        anchor.add(direction.scalarMultiply(length))
+      );
+  }
+};
+
+/**
+ * Moves the point of the control being dragged to the pointer, in the plane of the path.
+ * The path is resized keeping its other points in place, see {@link Path#setDimensionsInPlace}.
+ */
+export const pathActionHandler = (
+  eventData: TPointerEvent,
+  transform: Transform,
+  x: number,
+  y: number
+) => {
+  const path = transform.target as Path,
+    control = path.controls[transform.corner] as PathControl,
+    // snap the point to the grid of the canvas, the pointer is in the group plane for nested objects
+    pointer =
+      !path.group && path.canvas?.gridManager
+        ? path.canvas.gridManager.snapPoint(new Point(x, y))
+        : new Point(x, y),
+    point = sendPointToPlane(pointer, undefined, path.calcOwnMatrix()).add(
+      path.pathOffset
+    );
+  if (getPoint(path, control).eq(point)) {
+    return false;
+  }
+  movePoint(path, control, point);
+  path.setDimensionsInPlace();
+  path.set('dirty', true);
+  return true;
+};
+
+/**
+ * Creates the controls to edit the nodes of a path: a control for the anchor of every command, named `p<index>`,
+ * and for the control points of its curves, named `p<index>_1` and `p<index>_2`.
+ * The type of nodes is deduced from the alignment of their handles.
+ * Assign them to `path.controls` to enter the edit mode of the path, and restore its previous controls to leave it.
+ * @param {Path} path
+ * @param {Partial<PathControl>} [options] options of the controls
+ * @returns {Record<string, PathControl>}
+ */
+export const createPathControls = (
+  path: Path,
+  options: Partial<PathControl> = {}
+) => {
+  const controls = {} as Record<string, PathControl>;
+  path.path.forEach((command, commandIndex) => {
+    if (command[0] === 'C' || command[0] === 'Q') {
+      const count = command[0] === 'C' ? 2 : 1;
+      for (let i = 1; i <= count; i++) {
+        controls[`p${commandIndex}_${i}`] = new PathControl({
+          ...options,
+          commandIndex,
+          pointIndex: i * 2 - 1,
+        });
+      }
+    }
+    if (command[0] !== 'Z' && !isClosingCommand(path, commandIndex)) {
+      controls[`p${commandIndex}`] = new PathControl({
+        ...options,
+        commandIndex,
+        pointIndex: command.length - 2,
+        nodeType: inferNodeType(path, commandIndex),
+      });
+    }
+  });
+  return controls;
+};
+
+/**
+ * Properties of a {@link PathControl} locating its point, the others are the options of the controls
+ */
+const pointProperties: (keyof PathControl)[] = [
+  'commandIndex',
+  'pointIndex',
+  'nodeType',
+];
+
+/**
+ * Creates the controls of the path again after its commands changed, keeping their options and the type of nodes
+ * @param {(index: number) => number | undefined} mapIndex maps indexes of commands to their new index
+ */
+const updateControls = (
+  path: Path,
+  mapIndex: (index: number) => number | undefined
+) => {
+  const controls = Object.values(path.controls).filter(
+    (control): control is PathControl => control instanceof PathControl
+  );
+  if (controls.length === 0) {
+    return;
+  }
+  const control = controls[0],
+    options = pick(
+      control,
+      (Object.keys(control) as (keyof PathControl)[]).filter(
+        (key) => !pointProperties.includes(key)
+      )
+    ),
+    newControls = createPathControls(path, options);
+  controls.forEach(({ commandIndex, nodeType }) => {
+    const index = mapIndex(commandIndex),
+      control = index !== undefined ? newControls[`p${index}`] : undefined;
+    nodeType && control && (control.nodeType = nodeType);
+  });
+  path.controls = newControls;
+};
+
+/**
+ * Adds a node to a path, splitting the segment of a command without changing its shape
+ * @param {Path} path
+ * @param {number} commandIndex index of a `L`, `C`, `Q` or `Z` command
+ * @param {number} [t] where to split the segment, from 0 to 1
+ * @returns {number} index of the command of the new node
+ */
+export const addPathNode = (path: Path, commandIndex: number, t = 0.5) => {
+  const command = path.path[commandIndex];
+  if (command[0] === 'M') {
+    return -1;
+  }
+  const start = getPoint(path, getPreviousAnchor(path, commandIndex));
+  let replacement: TSimpleParsedCommand[];
+  switch (command[0]) {
+    case 'C': {
+      const [c1, c2, end] = [1, 3, 5].map((pointIndex) =>
+          getPoint(path, { commandIndex, pointIndex })
+        ),
+        a = start.lerp(c1, t),
+        b = c1.lerp(c2, t),
+        c = c2.lerp(end, t),
+        d = a.lerp(b, t),
+        e = b.lerp(c, t),
+        f = d.lerp(e, t);
+      replacement = [
+        ['C', a.x, a.y, d.x, d.y, f.x, f.y],
+        ['C', e.x, e.y, c.x, c.y, end.x, end.y],
+      ];
+      break;
+    }
+    case 'Q': {
+      const [c1, end] = [1, 3].map((pointIndex) =>
+          getPoint(path, { commandIndex, pointIndex })
+        ),
+        a = start.lerp(c1, t),
+        b = c1.lerp(end, t),
+        c = a.lerp(b, t);
+      replacement = [
+        ['Q', a.x, a.y, c.x, c.y],
+        ['Q', b.x, b.y, end.x, end.y],
+      ];
+      break;
+    }
+    case 'Z': {
+      const end = getPoint(path, {
+          commandIndex: getSubpathStart(path, commandIndex),
+          pointIndex: 1,
+        }),
+        point = start.lerp(end, t);
+      replacement = [['L', point.x, point.y], command];
+      break;
+    }
+    default: {
+      const point = start.lerp(
+        getPoint(path, { commandIndex, pointIndex: 1 }),
+        t
+      );
+      replacement = [['L', point.x, point.y], command];
+    }
+  }
+  path.path.splice(commandIndex, 1, ...replacement);
+  path.setDimensionsInPlace();
+  path.set('dirty', true);
+  updateControls(path, (index) => (index < commandIndex ? index : index + 1));
+  return commandIndex;
+};
+
+/**
+ * Removes a node from a path, joining the segments around it.
+ * Curves around the node are joined in a curve keeping their outer handles.
+ * @param {Path} path
+ * @param {number} commandIndex index of the command of the node
+ * @returns {boolean} true if the node was removed
+ */
+export const removePathNode = (path: Path, commandIndex: number) => {
+  const commands = path.path,
+    command = commands[commandIndex],
+    next = commands[commandIndex + 1],
+    length = commands.length;
+  if (command[0] === 'Z') {
+    return false;
+  }
+  if (command[0] === 'M') {
+    // the next node starts the subpath
+    if (!next || 'MZ'.includes(next[0])) {
+      const end = next?.[0] === 'Z' ? 2 : 1;
+      commands.splice(commandIndex, end);
+    } else {
+      const closing = getClosingCommand(path, commandIndex),
+        anchor = getPoint(path, getAnchor(path, commandIndex + 1));
+      closing !== undefined && setPoint(path, getAnchor(path, closing), anchor);
+      commands.splice(commandIndex, 2, ['M', anchor.x, anchor.y]);
+    }
+  } else if (!next || 'MZ'.includes(next[0])) {
+    commands.splice(commandIndex, 1);
+  } else {
+    const start = getPoint(path, getPreviousAnchor(path, commandIndex)),
+      end = getPoint(path, getAnchor(path, commandIndex + 1));
+    if (command[0] === 'L' && next[0] === 'L') {
+      commands.splice(commandIndex, 2, ['L', end.x, end.y]);
+    } else {
+      // quadratic curves are elevated to cubic ones
+      const c1 =
+          command[0] === 'C'
+            ? getPoint(path, { commandIndex, pointIndex: 1 })
+            : command[0] === 'Q'
+            ? start.lerp(getPoint(path, { commandIndex, pointIndex: 1 }), 2 / 3)
+            : start,
+        c2 =
+          next[0] === 'C'
+            ? getPoint(path, { commandIndex: commandIndex + 1, pointIndex: 3 })
+            : next[0] === 'Q'
+            ? end.lerp(
+                getPoint(path, {
+                  commandIndex: commandIndex + 1,
+                  pointIndex: 1,
+                }),
+                2 / 3
+              )
+            : end;
+      commands.splice(commandIndex, 2, [
+        'C',
+        c1.x,
+        c1.y,
+        c2.x,
+        c2.y,
+        end.x,
+        end.y,
+      ]);
+    }
+  }
+  const removed = length - commands.length;
+  path.setDimensionsInPlace();
+  path.set('dirty', true);
+  updateControls(path, (index) =>
+    index < commandIndex
+      ? index
+      : index > commandIndex
+      ? index - removed
+      : undefined
+  );
+  return true;
+};
+
+/**
+ * Sets the type of a node, aligning its handles for `smooth`.
+ * The type is kept by the controls of the path, see {@link createPathControls}
+ * @param {Path} path
+ * @param {number} commandIndex index of the command of the node
+ * @param {TPathNodeType} nodeType
+ */
+export const setPathNodeType = (
+  path: Path,
+  commandIndex: number,
+  nodeType: TPathNodeType
+) => {
+  if (isClosingCommand(path, commandIndex)) {
+    commandIndex = getSubpathStart(path, commandIndex);
+  }
+  const control = path.controls[`p${commandIndex}`];
+  control instanceof PathControl && (control.nodeType = nodeType);
+  if (nodeType === 'smooth') {
+    alignHandles(path, commandIndex);
+    path.setDimensionsInPlace();
+    path.set('dirty', true);
+  }
+};
@@ -49,7 +49,18 @@ export const polyActionHandler = (
 ) => {
   const poly = transform.target as Polyline,
     pointIndex = transform.pointIndex,
-    mouseLocalPosition = getLocalPoint(transform, CENTER, CENTER, x, y),
+    // snap the point to the grid of the canvas, the pointer is in the group plane for nested objects
+    pointer =
+      !poly.group && poly.canvas?.gridManager
+        ? poly.canvas.gridManager.snapPoint(new Point(x, y))
+        : new Point(x, y),
+    mouseLocalPosition = getLocalPoint(
+      transform,
+      CENTER,
+      CENTER,
+      pointer.x,
+      pointer.y
+    ),
     polygonBaseSize = getSize(poly),
     size = poly._getTransformedDimensions(),
     sizeFactor = polygonBaseSize.divide(size),
@@ -7,6 +7,7 @@ import type {
 import type { FabricObject } from '../shapes/Object/FabricObject';
 import type { TAxis } from '../typedefs';
 import type { Canvas } from '../canvas/Canvas';
+import { Point } from '../Point';
 import {
   findCornerQuadrant,
   getLocalPoint,
@@ -18,7 +19,7 @@ import {
 import { wrapWithFireEvent } from './wrapWithFireEvent';
 import { wrapWithFixedAnchor } from './wrapWithFixedAnchor';
 
-type ScaleTransform = Transform & {
+export type ScaleTransform = Transform & {
   gestureScale?: number;
   signX?: number;
   signY?: number;
@@ -123,12 +124,21 @@ function scaleObject(
   const target = transform.target,
     by = options.by,
     scaleProportionally = scaleIsProportional(eventData, target),
-    forbidScaling = scalingIsForbidden(target, by, scaleProportionally);
+    forbidScaling = scalingIsForbidden(target, by, scaleProportionally),
+    snappingManager = target.canvas?.snappingManager;
   let newPoint, scaleX, scaleY, dim, signX, signY;
 
   if (forbidScaling) {
     return false;
   }
+  // the point that `wrapWithFixedAnchor` keeps in place, read before the origin is inverted by flipping
+  const anchor =
+    snappingManager &&
+    target.translateToOriginPoint(
+      target.getRelativeCenterPoint(),
+      transform.originX,
+      transform.originY
+    );
   if (transform.gestureScale) {
     scaleX = transform.scaleX * transform.gestureScale;
     scaleY = transform.scaleY * transform.gestureScale;
@@ -204,6 +214,19 @@ function scaleObject(
     by === 'x' && target.set('scaleX', scaleX);
     by === 'y' && target.set('scaleY', scaleY);
   }
+  if (snappingManager && !transform.gestureScale) {
+    const axes: TAxis[] =
+      by === 'x' || by === 'y'
+        ? [by]
+        : (['x', 'y'] as const).filter(
+            (axis) =>
+              !isLocked(target, axis === 'x' ? 'lockScalingX' : 'lockScalingY')
+          );
+    snappingManager.snapScale(eventData, transform, new Point(x, y), anchor!, {
+      axes,
+      proportional: scaleProportionally && !by,
+    });
+  }
   return oldScaleX !== target.scaleX || oldScaleY !== target.scaleY;
 }
 
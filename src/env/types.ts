@@ -1,10 +1,15 @@
 import type { GLProbe } from '../filters/GLProbes/GLProbe';
 import type { DOMWindow } from 'jsdom';
 import type { TextStyleDeclaration } from '../shapes/Text/StyledText';
+import type { TClipboardData } from '../canvas/ClipboardManager';
 
 export type TCopyPasteData = {
   copiedText?: string;
   copiedTextStyle?: TextStyleDeclaration[];
+  /**
+   * objects copied by {@link ClipboardManager}, shared by all canvases
+   */
+  copiedObjects?: TClipboardData;
 };
 export type TFabricEnv = {
   document: Document;
@@ -9,6 +9,8 @@ import { FabricObject, cacheProperties } from './Object/FabricObject';
 import type { Abortable, TClassProperties, TOptions } from '../typedefs';
 import type { FabricObjectProps, SerializedObjectProps } from './Object/types';
 import type { CSSRules } from '../parser/typedefs';
+import { getArcPath } from '../util/path';
+import type { TSimplePathData } from '../util/path/typedefs';
 
 interface UniqueCircleProps {
   /**
@@ -106,6 +108,22 @@ export class Circle<
     this._renderPaintInOrder(ctx);
   }
 
+  /**
+   * Returns the outline of the circle, or of its arc closed by a chord, as path data in its own plane
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    return [
+      ...getArcPath(
+        this.radius,
+        this.radius,
+        degreesToRadians(this.startAngle),
+        degreesToRadians(this.endAngle)
+      ),
+      ['Z'],
+    ];
+  }
+
   /**
    * Returns horizontal radius of an object (according to how an object is scaled)
    * @return {Number}
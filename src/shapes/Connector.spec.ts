@@ -0,0 +1,258 @@
+import { Canvas } from '../canvas/Canvas';
+import { CanvasHistory } from '../canvas/CanvasHistory';
+import { StaticCanvas } from '../canvas/StaticCanvas';
+import { alignObjects } from '../util/misc/align';
+import { ActiveSelection } from './ActiveSelection';
+import { Connector } from './Connector';
+import { Rect } from './Rect';
+
+const roundPath = (connector: Connector) =>
+  connector.path.map(([command, ...values]) => [
+    command,
+    ...(values as number[]).map((value) => Math.round(value * 100) / 100),
+  ]);
+
+describe('Connector', () => {
+  test('routing between anchors', () => {
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({
+        left: 100,
+        top: 50,
+        width: 20,
+        height: 20,
+        strokeWidth: 0,
+      });
+    const connector = new Connector([
+      { object: a, anchor: 'right' },
+      { object: b, anchor: 'left' },
+    ]);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 60],
+    ]);
+    connector.set('connectorType', 'elbow');
+    connector.updatePath();
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 60, 10],
+      ['L', 60, 60],
+      ['L', 100, 60],
+    ]);
+    connector.connect({ object: a, anchor: 'bottom' }, { object: b });
+    expect(roundPath(connector)).toEqual([
+      ['M', 10, 20],
+      ['L', 10, 60],
+      ['L', 110, 60],
+    ]);
+    connector.set('connectorType', 'curved');
+    connector.connect(
+      { object: a, anchor: 'right' },
+      { object: b, anchor: 'left' }
+    );
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['C', 60, 10, 60, 60, 100, 60],
+    ]);
+    // relative anchor and free end
+    connector.set('connectorType', 'straight');
+    connector.connect(
+      { object: a, anchor: { x: 0.5, y: 0.5 } },
+      { x: 5, y: 100 }
+    );
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 20],
+      ['L', 5, 100],
+    ]);
+    // positioned by the bounding box of the path, stroke included
+    expect(connector.left).toBe(4.5);
+    expect(connector.top).toBe(19.5);
+  });
+
+  test('perimeter anchors', () => {
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({ left: 100, width: 20, height: 20, strokeWidth: 0 }),
+      rotated = new Rect({
+        left: 100,
+        top: 100,
+        width: 20,
+        height: 20,
+        angle: 45,
+        originX: 'center',
+        originY: 'center',
+        strokeWidth: 0,
+      });
+    const connector = new Connector([
+      { object: a, anchor: 'perimeter' },
+      { object: b, anchor: 'perimeter' },
+    ]);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 10],
+    ]);
+    connector.connect(undefined, { object: rotated, anchor: 'perimeter' });
+    const [, x, y] = connector.path[1] as number[];
+    // the corner of the rotated rect facing a
+    expect(x).toBeCloseTo(100 - 5 * Math.SQRT2);
+    expect(y).toBeCloseTo(x);
+  });
+
+  test('re-routes when attached objects change', () => {
+    const canvas = new Canvas(undefined, { width: 200, height: 200 });
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({ left: 100, width: 20, height: 20, strokeWidth: 0 }),
+      connector = new Connector([
+        { object: a, anchor: 'right' },
+        { object: b, anchor: 'left' },
+      ]);
+    canvas.add(a, b, connector);
+    a.set({ top: 50 });
+    a.fire('moving', {} as never);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 60],
+      ['L', 100, 10],
+    ]);
+    b.set({ scaleY: 2 });
+    b.fire('modified', {} as never);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 60],
+      ['L', 100, 20],
+    ]);
+    // programmatic modifications firing object:modified
+    alignObjects([a, b], 'top');
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 20],
+    ]);
+    // objects of a transformed active selection
+    const selection = new ActiveSelection([a], { canvas });
+    canvas.setActiveObject(selection);
+    selection.set({ left: selection.left + 10 });
+    canvas.fire('object:moving', {
+      target: selection,
+      transform: {},
+    } as never);
+    expect(roundPath(connector)).toEqual([
+      ['M', 30, 10],
+      ['L', 100, 20],
+    ]);
+    canvas.destroy();
+  });
+
+  test('re-routes when attached objects change by undo and redo', () => {
+    const canvas = new Canvas(undefined, { width: 200, height: 200 });
+    const history = new CanvasHistory(canvas);
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({ left: 100, width: 20, height: 20, strokeWidth: 0 }),
+      connector = new Connector([
+        { object: a, anchor: 'right' },
+        { object: b, anchor: 'left' },
+      ]);
+    canvas.add(a, b, connector);
+    history.track(a);
+    a.set({ top: 50 });
+    history.recordModification(a);
+    a.fire('modified', {} as never);
+    history.undo();
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 10],
+    ]);
+    history.redo();
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 60],
+      ['L', 100, 10],
+    ]);
+    history.dispose();
+    canvas.destroy();
+  });
+
+  test('re-routes when attached objects change by the timeline', () => {
+    const canvas = new StaticCanvas();
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({ left: 100, width: 20, height: 20, strokeWidth: 0 }),
+      connector = new Connector([
+        { object: a, anchor: 'right' },
+        { object: b, anchor: 'left' },
+      ]);
+    canvas.add(a, b, connector);
+    canvas.timeline.to(b, { top: 100 }, { duration: 1000 });
+    canvas.timeline.seek(500);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 60],
+    ]);
+  });
+
+  test('ends are detached from removed objects', () => {
+    const canvas = new StaticCanvas();
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({ left: 100, width: 20, height: 20, strokeWidth: 0 }),
+      connector = new Connector([
+        { object: a, anchor: 'right' },
+        { object: b, anchor: 'left' },
+      ]);
+    canvas.add(a, b, connector);
+    canvas.remove(b);
+    expect(connector.end).toEqual({ x: 100, y: 10 });
+    b.set({ left: 200 });
+    b.fire('modified', {} as never);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 10],
+    ]);
+    // the connector stops listening once removed
+    canvas.remove(connector);
+    a.set({ top: 50 });
+    a.fire('modified', {} as never);
+    expect(roundPath(connector)).toEqual([
+      ['M', 20, 10],
+      ['L', 100, 10],
+    ]);
+  });
+
+  test('serialization links objects by id', async () => {
+    const canvas = new StaticCanvas();
+    const a = new Rect({ width: 20, height: 20, strokeWidth: 0 }),
+      b = new Rect({ left: 100, width: 20, height: 20, strokeWidth: 0 });
+    b.id = 'b';
+    const connector = new Connector(
+      [
+        { object: a, anchor: { x: 0.5, y: 0 } },
+        { object: b, anchor: 'perimeter' },
+      ],
+      { connectorType: 'elbow' }
+    );
+    canvas.add(a, b, connector);
+    expect(a.id).toBeDefined();
+    const { start, end, connectorType } = connector.toObject();
+    expect({ start, end, connectorType }).toEqual({
+      start: { objectId: a.id, anchor: { x: 0.5, y: 0 } },
+      end: { objectId: 'b', anchor: 'perimeter' },
+      connectorType: 'elbow',
+    });
+    expect(
+      new Connector([
+        { x: 0, y: 0 },
+        { x: 10, y: 10 },
+      ]).toObject()
+    ).toMatchObject({
+      start: { x: 0, y: 0 },
+      end: { x: 10, y: 10 },
+    });
+
+    const restored = await new StaticCanvas().loadFromJSON(canvas.toJSON());
+    const [ra, rb, rc] = restored.getObjects() as [Rect, Rect, Connector];
+    expect(rc).toBeInstanceOf(Connector);
+    expect(rc.start).toEqual({ object: ra, anchor: { x: 0.5, y: 0 } });
+    expect(rc.end).toEqual({ object: rb, anchor: 'perimeter' });
+    expect(rc.path).toEqual(connector.path);
+    rb.set({ top: 50 });
+    rb.fire('modified', {} as never);
+    expect(rc.path).not.toEqual(connector.path);
+
+    // unresolved links are kept until the connector is added to a canvas containing the objects
+    const detached = await Connector.fromObject(connector.toObject());
+    expect(detached.start).toEqual({ x: 20, y: 10 });
+    expect(detached.toObject().start).toEqual(connector.toObject().start);
+  });
+});
@@ -0,0 +1,568 @@
+import type { THistoryEntry } from '../canvas/CanvasHistory';
+import type { StaticCanvas } from '../canvas/StaticCanvas';
+import { classRegistry } from '../ClassRegistry';
+import type {
+  CanvasEvents,
+  ObjectEvents,
+  TModificationEvents,
+} from '../EventTypeDefs';
+import { Intersection } from '../Intersection';
+import type { XY } from '../Point';
+import { Point } from '../Point';
+import type { TClassProperties, TOptions } from '../typedefs';
+import { assignObjectId } from '../util/internals/assignObjectId';
+import { findObjectById } from '../util/internals/findObjectById';
+import { sendPointToPlane } from '../util/misc/planeChange';
+import { getUnitVector } from '../util/misc/vectors';
+import { transformPath } from '../util/path';
+import type { TSimplePathData } from '../util/path/typedefs';
+import type { FabricObject } from './Object/FabricObject';
+import type { PathProps, SerializedPathProps } from './Path';
+import { Path } from './Path';
+
+export type TConnectorType = 'straight' | 'elbow' | 'curved';
+
+/**
+ * Where a connector attaches to an object:
+ * - a named anchor point of the object
+ * - `perimeter` the point of the outline of the object facing the other end
+ * - a point relative to the size of the object, from `{ x: -0.5, y: -0.5 }` (top left corner) to `{ x: 0.5, y: 0.5 }` (bottom right corner)
+ */
+export type TConnectorAnchor =
+  | 'center'
+  | 'top'
+  | 'right'
+  | 'bottom'
+  | 'left'
+  | 'perimeter'
+  | XY;
+
+/**
+ * An end of a connector, either attached to an object or a free point in the canvas coordinate plane
+ */
+export type TConnectorEnd =
+  | XY
+  | { object: FabricObject; anchor?: TConnectorAnchor };
+
+/**
+ * An end of a serialized connector, attached objects are referenced by {@link FabricObject#id}
+ */
+export type TSerializedConnectorEnd =
+  | XY
+  | { objectId: string; anchor?: TConnectorAnchor };
+
+type TEndName = 'start' | 'end';
+
+export const connectorDefaultValues: Partial<TClassProperties<Connector>> = {
+  connectorType: 'straight',
+  fill: '',
+  stroke: 'rgb(0,0,0)',
+  hasControls: false,
+  lockMovementX: true,
+  lockMovementY: true,
+  objectCaching: false,
+};
+
+interface UniqueConnectorProps {
+  connectorType: TConnectorType;
+}
+
+export interface SerializedConnectorProps
+  extends SerializedPathProps,
+    UniqueConnectorProps {
+  start: TSerializedConnectorEnd;
+  end: TSerializedConnectorEnd;
+}
+
+export interface ConnectorProps extends PathProps, UniqueConnectorProps {}
+
+const NAMED_ANCHORS: Record<string, XY> = {
+  center: { x: 0, y: 0 },
+  top: { x: 0, y: -0.5 },
+  right: { x: 0.5, y: 0 },
+  bottom: { x: 0, y: 0.5 },
+  left: { x: -0.5, y: 0 },
+};
+
+const TRANSFORM_EVENTS: TModificationEvents[] = [
+  'moving',
+  'scaling',
+  'rotating',
+  'skewing',
+  'resizing',
+];
+
+const isAttached = (
+  end: TConnectorEnd
+): end is { object: FabricObject; anchor?: TConnectorAnchor } =>
+  !!(end as { object?: FabricObject }).object;
+
+/**
+ * @private
+ * @returns true if `ancestor` is `object` or one of its groups
+ */
+const isSelfOrAncestor = (ancestor: FabricObject, object: FabricObject) => {
+  let current: FabricObject | undefined = object;
+  while (current) {
+    if (current === ancestor) {
+      return true;
+    }
+    current = current.group;
+  }
+  return false;
+};
+
+/**
+ * A line, elbow or curved connector between 2 ends attached to objects or to free points.
+ *
+ * Attached ends follow their objects: the connector re-routes when an object is moved, scaled, rotated,
+ * skewed or resized by the user, when `object:modified` is fired on the canvas for it, e.g. by {@link alignObjects},
+ * and when it is changed by undo/redo or by the timeline of the canvas.
+ * Objects modified otherwise programmatically require a call to {@link updatePath}.
+ * When an object is removed from the canvas its end is detached where it was.
+ *
+ * Attached objects are serialized by their {@link FabricObject#id}, assigned when attaching if missing,
+ * and linked again once the connector is added to a canvas containing them, e.g. by `loadFromJSON`.
+ * The path of the connector lives in the coordinate plane of its parent, the connector should not be transformed.
+ */
+export class Connector<
+  Props extends TOptions<ConnectorProps> = Partial<ConnectorProps>,
+  SProps extends SerializedConnectorProps = SerializedConnectorProps,
+  EventSpec extends ObjectEvents = ObjectEvents
+> extends Path<Props, SProps, EventSpec> {
+  /**
+   * Routing of the connector
+   * @type TConnectorType
+   * @default 'straight'
+   */
+  declare connectorType: TConnectorType;
+
+  declare start: TConnectorEnd;
+
+  declare end: TConnectorEnd;
+
+  /**
+   * ends referencing objects by id that are not linked yet
+   */
+  private declare links?: Partial<
+    Record<TEndName, { objectId: string; anchor?: TConnectorAnchor }>
+  >;
+
+  private declare __disposers?: VoidFunction[];
+
+  static type = 'Connector';
+
+  static ownDefaults: Record<string, any> = connectorDefaultValues;
+
+  static getDefaults(): Record<string, any> {
+    return {
+      ...super.getDefaults(),
+      ...Connector.ownDefaults,
+    };
+  }
+
+  /**
+   * Constructor
+   * @param {[TConnectorEnd | TSerializedConnectorEnd, TConnectorEnd | TSerializedConnectorEnd]} ends start and end of the connector
+   * @param {Partial<ConnectorProps>} [options] Options object
+   */
+  constructor(
+    [start, end]: [
+      TConnectorEnd | TSerializedConnectorEnd,
+      TConnectorEnd | TSerializedConnectorEnd
+    ],
+    { path, ...options }: Partial<Props> = {}
+  ) {
+    super(path || [], options as Partial<Props>);
+    const [first, last] = this.getPathEnds();
+    this.start = this.toEnd('start', start, first);
+    this.end = this.toEnd('end', end, last);
+    this.updatePath();
+    this.on('added', () => this.attach());
+    this.on('removed', () => !this.canvas && this.detach());
+  }
+
+  /**
+   * @private
+   * @returns the first and last points of the path
+   */
+  private getPathEnds(): [Point, Point] {
+    const path = this.path,
+      first = path[0],
+      last = path[path.length - 1];
+    return [
+      first ? new Point(first[1] as number, first[2] as number) : new Point(),
+      last
+        ? new Point(
+            last[last.length - 2] as number,
+            last[last.length - 1] as number
+          )
+        : new Point(),
+    ];
+  }
+
+  /**
+   * @private
+   * Stores ends referencing an object by id as links resolved later, using `fallback` meanwhile
+   */
+  private toEnd(
+    name: TEndName,
+    end: TConnectorEnd | TSerializedConnectorEnd,
+    fallback: Point
+  ): TConnectorEnd {
+    const { objectId, anchor } = end as {
+      objectId?: string;
+      anchor?: TConnectorAnchor;
+    };
+    if (objectId === undefined) {
+      return end as TConnectorEnd;
+    }
+    this.links = { ...this.links, [name]: { objectId, anchor } };
+    return { x: fallback.x, y: fallback.y };
+  }
+
+  /**
+   * Attaches the ends of the connector
+   * @param {TConnectorEnd} [start]
+   * @param {TConnectorEnd} [end]
+   */
+  connect(start: TConnectorEnd = this.start, end: TConnectorEnd = this.end) {
+    this.links = undefined;
+    this.start = start;
+    this.end = end;
+    this.canvas ? this.attach() : this.updatePath();
+  }
+
+  /**
+   * @private
+   * Links the ends referencing objects of the canvas and listens to the changes of the attached objects
+   */
+  private attach() {
+    // history events are fired by interactive canvases only
+    const canvas = this.canvas as StaticCanvas<CanvasEvents> | undefined;
+    if (!canvas) {
+      return;
+    }
+    this.detach();
+    const links = this.links;
+    links &&
+      (
+        Object.entries(links) as [
+          TEndName,
+          { objectId: string; anchor?: TConnectorAnchor }
+        ][]
+      ).forEach(([name, { objectId, anchor }]) => {
+        const object = findObjectById(canvas.getObjects(), objectId);
+        if (object) {
+          this[name] = { object, anchor };
+          delete links[name];
+        }
+      });
+    links && !links.start && !links.end && (this.links = undefined);
+    const objects = [this.start, this.end]
+      .filter(isAttached)
+      .map(({ object }) => object);
+    const onChange = () => this.updatePath(),
+      objectHandlers = {
+        ...Object.fromEntries(TRANSFORM_EVENTS.map((name) => [name, onChange])),
+        modified: onChange,
+      },
+      isAffectedBy = (target: FabricObject) =>
+        objects.some((object) => isSelfOrAncestor(target, object)),
+      canvasHandler = ({
+        target,
+        ...options
+      }: {
+        target: FabricObject;
+        transform?: unknown;
+      }) =>
+        objects.some(
+          (object) =>
+            // transforms of the object itself are handled by its own events
+            (target !== object || !options.transform) &&
+            isSelfOrAncestor(target, object)
+        ) && this.updatePath(),
+      historyHandler = ({ changes }: { changes: THistoryEntry }) =>
+        changes.some(({ target }) => isAffectedBy(target)) && this.updatePath(),
+      timelineHandler = ({ targets }: { targets: FabricObject[] }) =>
+        targets.some(isAffectedBy) && this.updatePath();
+    this.__disposers = [
+      ...objects.flatMap((object) => {
+        assignObjectId(object, canvas.getObjects(), `${this.type}_target`);
+        return [
+          object.on(objectHandlers),
+          object.on('removed', () => this.onObjectRemoved(object)),
+        ];
+      }),
+      canvas.on({
+        ...Object.fromEntries(
+          TRANSFORM_EVENTS.map((name) => [`object:${name}`, canvasHandler])
+        ),
+        'object:modified': canvasHandler,
+        'history:undo': historyHandler,
+        'history:redo': historyHandler,
+        'timeline:update': timelineHandler,
+      }),
+    ];
+    this.updatePath();
+  }
+
+  /**
+   * @private
+   * Stops listening to the attached objects
+   */
+  private detach() {
+    this.__disposers?.forEach((dispose) => dispose());
+    this.__disposers = undefined;
+  }
+
+  /**
+   * @private
+   * Detaches the ends attached to an object removed from the canvas where they were
+   */
+  private onObjectRemoved(object: FabricObject) {
+    if ((object.canvas as StaticCanvas | undefined) === this.canvas) {
+      return;
+    }
+    (['start', 'end'] as TEndName[]).forEach((name) => {
+      const end = this[name];
+      if (isAttached(end) && end.object === object) {
+        const { x, y } = this.getEndPoint(name);
+        this[name] = { x, y };
+      }
+    });
+    this.attach();
+    this.canvas?.requestRenderAll();
+  }
+
+  /**
+   * @private
+   * @returns the corners of `object` in the canvas coordinate plane
+   */
+  private getCorners(object: FabricObject) {
+    return object.getCoords(true, true);
+  }
+
+  /**
+   * @private
+   * @returns the point an end points at, the center of the object for the perimeter
+   */
+  private getReferencePoint(end: TConnectorEnd): Point {
+    if (!isAttached(end)) {
+      return new Point(end);
+    }
+    const [tl, tr, br, bl] = this.getCorners(end.object),
+      anchor = end.anchor || 'center',
+      { x, y } =
+        typeof anchor === 'string'
+          ? NAMED_ANCHORS[anchor] || NAMED_ANCHORS.center
+          : anchor;
+    return anchor === 'perimeter'
+      ? tl.midPointFrom(br)
+      : tl
+          .add(tr.subtract(tl).scalarMultiply(x + 0.5))
+          .add(bl.subtract(tl).scalarMultiply(y + 0.5));
+  }
+
+  /**
+   * @param {TEndName} name
+   * @returns the point of an end in the canvas coordinate plane
+   */
+  getEndPoint(name: TEndName): Point {
+    const end = this[name],
+      point = this.getReferencePoint(end);
+    if (!isAttached(end) || end.anchor !== 'perimeter') {
+      return point;
+    }
+    const other = this.getReferencePoint(
+        this[name === 'start' ? 'end' : 'start']
+      ),
+      // the outline of the shape of the object, following its curves
+      { points } = Intersection.intersectPathSegment(
+        transformPath(
+          end.object.toPathData(),
+          end.object.calcTransformMatrix(),
+          new Point()
+        ),
+        point,
+        other
+      );
+    // the outermost point of concave shapes
+    return (
+      points.reduce<Point | undefined>(
+        (closest, intersection) =>
+          !closest ||
+          intersection.distanceFrom(other) < closest.distanceFrom(other)
+            ? intersection
+            : closest,
+        undefined
+      ) || point
+    );
+  }
+
+  /**
+   * @private
+   * @returns the direction an end leaves its object in, if it is meaningful
+   */
+  private getEndDirection(name: TEndName, point: Point): Point | undefined {
+    const end = this[name];
+    if (!isAttached(end) || end.anchor === 'center') {
+      return;
+    }
+    const center = this.getReferencePoint({ object: end.object }),
+      direction = point.subtract(center);
+    return direction.x || direction.y ? direction : undefined;
+  }
+
+  /**
+   * @private
+   * @returns the path data routing the connector from `start` to `end`
+   */
+  private route(start: Point, end: Point): TSimplePathData {
+    const startDirection = this.getEndDirection('start', start),
+      endDirection = this.getEndDirection('end', end),
+      delta = end.subtract(start),
+      horizontal = (direction?: Point) =>
+        direction
+          ? Math.abs(direction.x) >= Math.abs(direction.y)
+          : Math.abs(delta.x) >= Math.abs(delta.y);
+    switch (this.connectorType) {
+      case 'elbow': {
+        // an end without direction takes a single bend
+        const startH = startDirection
+            ? horizontal(startDirection)
+            : endDirection
+            ? !horizontal(endDirection)
+            : horizontal(),
+          endH = endDirection
+            ? horizontal(endDirection)
+            : startDirection
+            ? !startH
+            : startH,
+          mid = start.midPointFrom(end);
+        const points =
+          startH && endH
+            ? [new Point(mid.x, start.y), new Point(mid.x, end.y)]
+            : !startH && !endH
+            ? [new Point(start.x, mid.y), new Point(end.x, mid.y)]
+            : startH
+            ? [new Point(end.x, start.y)]
+            : [new Point(start.x, end.y)];
+        return [
+          ['M', start.x, start.y],
+          ...points.map(({ x, y }) => ['L', x, y] as ['L', number, number]),
+          ['L', end.x, end.y],
+        ];
+      }
+      case 'curved': {
+        const distance = Math.max(Math.abs(delta.x), Math.abs(delta.y)) / 2,
+          control = (point: Point, sign: number, direction?: Point) =>
+            point.add(
+              direction
+                ? getUnitVector(direction).scalarMultiply(distance)
+                : horizontal()
+                ? new Point(Math.sign(delta.x) * sign * distance, 0)
+                : new Point(0, Math.sign(delta.y) * sign * distance)
+            ),
+          c1 = control(start, 1, startDirection),
+          c2 = control(end, -1, endDirection);
+        return [
+          ['M', start.x, start.y],
+          ['C', c1.x, c1.y, c2.x, c2.y, end.x, end.y],
+        ];
+      }
+      default:
+        return [
+          ['M', start.x, start.y],
+          ['L', end.x, end.y],
+        ];
+    }
+  }
+
+  /**
+   * Re-routes the connector between its ends
+   */
+  updatePath() {
+    const plane = this.group?.calcTransformMatrix(),
+      [start, end] = (['start', 'end'] as TEndName[]).map((name) =>
+        sendPointToPlane(this.getEndPoint(name), undefined, plane)
+      );
+    this._setPath(this.route(start, end), true);
+    this.setCoords();
+    this.set('dirty', true);
+  }
+
+  /**
+   * @private
+   */
+  private serializeEnd(name: TEndName): TSerializedConnectorEnd {
+    const link = this.links?.[name],
+      end = this[name];
+    if (link) {
+      return { ...link };
+    }
+    if (isAttached(end)) {
+      const { object, anchor } = end;
+      return {
+        objectId: object.id as string,
+        ...(anchor !== undefined
+          ? { anchor: typeof anchor === 'string' ? anchor : { ...anchor } }
+          : null),
+      };
+    }
+    return { x: end.x, y: end.y };
+  }
+
+  /**
+   * Returns object representation of an instance
+   * @param {Array} [propertiesToInclude] Any properties that you might want to additionally include in the output
+   * @return {Object} object representation of an instance
+   */
+  // @ts-expect-error TS this typing limitations
+  toObject<
+    T extends Omit<Props & TClassProperties<this>, keyof SProps>,
+    K extends keyof T = never
+  >(propertiesToInclude: K[] = []): Pick<T, K> & SProps {
+    return {
+      ...super.toObject<T, K>(propertiesToInclude),
+      connectorType: this.connectorType,
+      start: this.serializeEnd('start'),
+      end: this.serializeEnd('end'),
+    };
+  }
+
+  /**
+   * Returns string representation of an instance
+   * @return {string} string representation of an instance
+   */
+  toString() {
+    return `#<Connector (${this.connectorType}): { "start": ${JSON.stringify(
+      this.serializeEnd('start')
+    )}, "end": ${JSON.stringify(this.serializeEnd('end'))} }>`;
+  }
+
+  dispose() {
+    this.detach();
+    super.dispose();
+  }
+
+  /**
+   * Creates an instance of Connector from an object, attached objects are linked once it is added to a canvas
+   * @static
+   * @memberOf Connector
+   * @param {Object} object
+   * @returns {Promise<Connector>}
+   */
+  static fromObject<T extends TOptions<SerializedConnectorProps>>({
+    start,
+    end,
+    ...object
+  }: T) {
+    return this._fromObject<Connector>(
+      { ...object, ends: [start, end] },
+      { extraParam: 'ends' }
+    );
+  }
+}
+
+classRegistry.setClass(Connector);
@@ -7,6 +7,8 @@ import { FabricObject, cacheProperties } from './Object/FabricObject';
 import type { FabricObjectProps, SerializedObjectProps } from './Object/types';
 import type { ObjectEvents } from '../EventTypeDefs';
 import type { CSSRules } from '../parser/typedefs';
+import { getArcPath } from '../util/path';
+import type { TSimplePathData } from '../util/path/typedefs';
 
 export const ellipseDefaultValues: UniqueEllipseProps = {
   rx: 0,
@@ -137,6 +139,14 @@ export class Ellipse<
     this._renderPaintInOrder(ctx);
   }
 
+  /**
+   * Returns the outline of the ellipse as path data in its own plane
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    return [...getArcPath(this.rx, this.ry), ['Z']];
+  }
+
   /* _FROM_SVG_START_ */
 
   /**
@@ -6,6 +6,7 @@ import {
   ctrlKeysMapUp,
   keysMap,
   keysMapRtl,
+  keysMapVertical,
 } from './constants';
 import type { TFiller, TOptions } from '../../typedefs';
 import { classRegistry } from '../../ClassRegistry';
@@ -43,6 +44,7 @@ export const iTextDefaultValues = {
   inCompositionMode: false,
   keysMap,
   keysMapRtl,
+  keysMapVertical,
   ctrlKeysMapDown,
   ctrlKeysMapUp,
 };
@@ -439,9 +441,9 @@ export class IText<
     for (let i = 0; i < lineIndex; i++) {
       topOffset += this.getHeightOfLine(i);
     }
-    const lineLeftOffset = this._getLineLeftOffset(lineIndex);
-    const bound = this.__charBounds[lineIndex][charIndex];
-    bound && (leftOffset = bound.left);
+    const lineLeftOffset = this._getLineLeftOffset(lineIndex),
+      textAlign = this._getLineTextAlign(lineIndex);
+    leftOffset = this._getCursorLeft(lineIndex, charIndex);
     if (
       this.charSpacing !== 0 &&
       charIndex === this._textLines[lineIndex].length
@@ -454,17 +456,14 @@ export class IText<
     };
     if (this.direction === 'rtl') {
       if (
-        this.textAlign === RIGHT ||
-        this.textAlign === JUSTIFY ||
-        this.textAlign === JUSTIFY_RIGHT
+        textAlign === RIGHT ||
+        textAlign === JUSTIFY ||
+        textAlign === JUSTIFY_RIGHT
       ) {
         boundaries.left *= -1;
-      } else if (this.textAlign === LEFT || this.textAlign === JUSTIFY_LEFT) {
+      } else if (textAlign === LEFT || textAlign === JUSTIFY_LEFT) {
         boundaries.left = lineLeftOffset - (leftOffset > 0 ? leftOffset : 0);
-      } else if (
-        this.textAlign === CENTER ||
-        this.textAlign === JUSTIFY_CENTER
-      ) {
+      } else if (textAlign === CENTER || textAlign === JUSTIFY_CENTER) {
         boundaries.left = lineLeftOffset - (leftOffset > 0 ? leftOffset : 0);
       }
     }
@@ -500,13 +499,17 @@ export class IText<
       charIndex =
         cursorLocation.charIndex > 0 ? cursorLocation.charIndex - 1 : 0,
       charHeight = this.getValueOfPropertyAt(lineIndex, charIndex, 'fontSize'),
-      multiplier = this.getObjectScaling().x * this.canvas!.getZoom(),
+      scaling = this.getObjectScaling(),
+      // the cursor of vertical text is horizontal on the canvas
+      multiplier =
+        (this._isVertical() ? scaling.y : scaling.x) *
+        this._getTextScale() *
+        this.canvas!.getZoom(),
       cursorWidth = this.cursorWidth / multiplier,
       dy = this.getValueOfPropertyAt(lineIndex, charIndex, 'deltaY'),
       topOffset =
         boundaries.topOffset +
-        ((1 - this._fontSizeFraction) * this.getHeightOfLine(lineIndex)) /
-          this.lineHeight -
+        (1 - this._fontSizeFraction) * this.getHeightOfLineText(lineIndex) -
         charHeight * (1 - this._fontSizeFraction);
 
     if (this.inCompositionMode) {
@@ -514,6 +517,7 @@ export class IText<
       // and why can't happen at the top of the function
       this.renderSelection(ctx, boundaries);
     }
+    const isTransformed = this._transformToTextFrame(ctx);
     ctx.fillStyle =
       this.cursorColor ||
       (this.getValueOfPropertyAt(lineIndex, charIndex, 'fill') as string);
@@ -524,6 +528,7 @@ export class IText<
       cursorWidth,
       charHeight
     );
+    isTransformed && ctx.restore();
   }
 
   /**
@@ -575,17 +580,19 @@ export class IText<
   ) {
     const selectionStart = selection.selectionStart,
       selectionEnd = selection.selectionEnd,
-      isJustify = this.textAlign.includes(JUSTIFY),
       start = this.get2DCursorLocation(selectionStart),
       end = this.get2DCursorLocation(selectionEnd),
       startLine = start.lineIndex,
       endLine = end.lineIndex,
       startChar = start.charIndex < 0 ? 0 : start.charIndex,
-      endChar = end.charIndex < 0 ? 0 : end.charIndex;
+      endChar = end.charIndex < 0 ? 0 : end.charIndex,
+      isTransformed = this._transformToTextFrame(ctx);
 
     for (let i = startLine; i <= endLine; i++) {
-      const lineOffset = this._getLineLeftOffset(i) || 0;
-      let lineHeight = this.getHeightOfLine(i),
+      const lineOffset = this._getLineLeftOffset(i) || 0,
+        textAlign = this._getLineTextAlign(i);
+      // the space between paragraphs is not selected
+      let lineHeight = this.getHeightOfLine(i) - this._getSpaceAfterLine(i),
         realLineHeight = 0,
         boxStart = 0,
         boxEnd = 0;
@@ -595,8 +602,8 @@ export class IText<
       }
       if (i >= startLine && i < endLine) {
         boxEnd =
-          isJustify && !this.isEndOfWrapping(i)
-            ? this.width
+          textAlign.includes(JUSTIFY) && !this.isEndOfWrapping(i)
+            ? this._getInlineSize() - this._getLineIndent(i)
             : this.getLineWidth(i) || 5; // WTF is this 5?
       } else if (i === endLine) {
         if (endChar === 0) {
@@ -609,45 +616,54 @@ export class IText<
             charSpacing;
         }
       }
-      realLineHeight = lineHeight;
+      realLineHeight = this.getHeightOfLine(i);
       if (this.lineHeight < 1 || (i === endLine && this.lineHeight > 1)) {
         lineHeight /= this.lineHeight;
       }
-      let drawStart = boundaries.left + lineOffset + boxStart,
-        drawHeight = lineHeight,
-        extraTop = 0;
-      const drawWidth = boxEnd - boxStart;
-      if (this.inCompositionMode) {
-        ctx.fillStyle = this.compositionColor || 'black';
-        drawHeight = 1;
-        extraTop = lineHeight;
-      } else {
-        ctx.fillStyle = this.selectionColor;
-      }
-      if (this.direction === 'rtl') {
-        if (
-          this.textAlign === RIGHT ||
-          this.textAlign === JUSTIFY ||
-          this.textAlign === JUSTIFY_RIGHT
-        ) {
-          drawStart = this.width - drawStart - drawWidth;
-        } else if (this.textAlign === LEFT || this.textAlign === JUSTIFY_LEFT) {
-          drawStart = boundaries.left + lineOffset - boxEnd;
-        } else if (
-          this.textAlign === CENTER ||
-          this.textAlign === JUSTIFY_CENTER
-        ) {
-          drawStart = boundaries.left + lineOffset - boxEnd;
+      // the selected graphemes of lines mixing directions can be apart
+      const boxes: [number, number][] =
+        this._isBidiLine(i) && (i === startLine || i === endLine)
+          ? this._getBidiSelectionBoxes(
+              i,
+              i === startLine ? startChar : 0,
+              i === endLine ? endChar : this._textLines[i].length
+            )
+          : [[boxStart, boxEnd]];
+      for (const [selectionBoxStart, selectionBoxEnd] of boxes) {
+        let drawStart = boundaries.left + lineOffset + selectionBoxStart,
+          drawHeight = lineHeight,
+          extraTop = 0;
+        const drawWidth = selectionBoxEnd - selectionBoxStart;
+        if (this.inCompositionMode) {
+          ctx.fillStyle = this.compositionColor || 'black';
+          drawHeight = 1;
+          extraTop = lineHeight;
+        } else {
+          ctx.fillStyle = this.selectionColor;
+        }
+        if (this.direction === 'rtl') {
+          if (
+            textAlign === RIGHT ||
+            textAlign === JUSTIFY ||
+            textAlign === JUSTIFY_RIGHT
+          ) {
+            drawStart = this._getInlineSize() - drawStart - drawWidth;
+          } else if (textAlign === LEFT || textAlign === JUSTIFY_LEFT) {
+            drawStart = boundaries.left + lineOffset - selectionBoxEnd;
+          } else if (textAlign === CENTER || textAlign === JUSTIFY_CENTER) {
+            drawStart = boundaries.left + lineOffset - selectionBoxEnd;
+          }
         }
+        ctx.fillRect(
+          drawStart,
+          boundaries.top + boundaries.topOffset + extraTop,
+          drawWidth,
+          drawHeight
+        );
       }
-      ctx.fillRect(
-        drawStart,
-        boundaries.top + boundaries.topOffset + extraTop,
-        drawWidth,
-        drawHeight
-      );
       boundaries.topOffset += realLineHeight;
     }
+    isTransformed && ctx.restore();
   }
 
   /**
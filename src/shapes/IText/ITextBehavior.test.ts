@@ -1,4 +1,4 @@
-import { roundSnapshotOptions } from '../../../jest.extend';
+import { mockGlyphWidths, roundSnapshotOptions } from '../../../jest.extend';
 import { IText } from './IText';
 
 export function matchTextStateSnapshot(text: IText) {
@@ -90,3 +90,58 @@ describe('text imperative changes', () => {
     expect(iText.missingNewlineOffset(0)).toBe(1);
   });
 });
+
+describe('bidi cursor and selection', () => {
+  mockGlyphWidths();
+
+  // \u05d0\u05d1 are the hebrew letters alef and bet, laid out as \u05d1\u05d0
+  const create = () => new IText('ab \u05d0\u05d1', { fontSize: 400 });
+
+  it('the cursor is where the grapheme following it starts', () => {
+    const iText = create();
+    expect(
+      [0, 1, 2, 3, 4, 5].map((index) => iText._getCursorLeft(0, index))
+    ).toEqual([0, 10, 20, 50, 40, 50]);
+    expect(iText._getCursorIndexAtLeft(0, 38)).toBe(4);
+    expect(iText._getCursorIndexAtLeft(0, 12)).toBe(1);
+  });
+
+  it('selections of graphemes laid out in different directions are apart', () => {
+    const iText = create();
+    expect(iText._getBidiSelectionBoxes(0, 1, 4)).toEqual([
+      [10, 30],
+      [40, 50],
+    ]);
+    expect(iText._getBidiSelectionBoxes(0, 3, 5)).toEqual([[30, 50]]);
+  });
+});
+
+describe('vertical writing mode', () => {
+  mockGlyphWidths();
+
+  it('arrows move the cursor along the columns', () => {
+    const iText = new IText('ab\ncd', { writingMode: 'vertical-rl' });
+    iText.isEditing = true;
+    const moves = (
+      [
+        'moveCursorUp',
+        'moveCursorDown',
+        'moveCursorLeft',
+        'moveCursorRight',
+      ] as const
+    ).map((method) => jest.spyOn(iText, method).mockImplementation());
+    [37, 38, 39, 40].forEach((keyCode) =>
+      iText.onKeyDown({
+        keyCode,
+        stopImmediatePropagation: jest.fn(),
+        preventDefault: jest.fn(),
+      } as unknown as KeyboardEvent)
+    );
+    // left goes to the next column, right to the previous one
+    expect(moves.map((move) => move.mock.calls.length)).toEqual([1, 1, 1, 1]);
+    expect(moves[1].mock.calls[0][0].keyCode).toBe(37);
+    expect(moves[0].mock.calls[0][0].keyCode).toBe(39);
+    expect(moves[2].mock.calls[0][0].keyCode).toBe(38);
+    expect(moves[3].mock.calls[0][0].keyCode).toBe(40);
+  });
+});
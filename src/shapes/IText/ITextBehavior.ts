@@ -496,6 +496,78 @@ export abstract class ITextBehavior<
     };
   }
 
+  /**
+   * Returns the distance of the cursor from the start of its line.
+   * On lines mixing directions the cursor is at the side of the grapheme following it where the grapheme starts,
+   * at the end of the line after the last grapheme
+   * @private
+   * @param {Number} lineIndex
+   * @param {Number} charIndex index of the grapheme following the cursor
+   * @return {Number}
+   */
+  _getCursorLeft(lineIndex: number, charIndex: number): number {
+    const bound = this.__charBounds[lineIndex][charIndex];
+    if (!bound) {
+      return 0;
+    }
+    return charIndex < this._textLines[lineIndex].length &&
+      this._getBidiLevel(lineIndex, charIndex) % 2 !==
+        (this.direction === 'rtl' ? 1 : 0)
+      ? bound.left + bound.width
+      : bound.left;
+  }
+
+  /**
+   * Finds the index of the cursor closest to a distance from the start of a line
+   * mixing directions, see {@link _getCursorLeft}
+   * @private
+   * @param {Number} lineIndex
+   * @param {Number} left distance from the start of the line
+   * @return {Number} index of the grapheme following the cursor in the line
+   */
+  _getCursorIndexAtLeft(lineIndex: number, left: number): number {
+    let index = 0,
+      distance = Infinity;
+    for (let i = 0; i <= this._textLines[lineIndex].length; i++) {
+      const cursorDistance = Math.abs(this._getCursorLeft(lineIndex, i) - left);
+      if (cursorDistance < distance) {
+        index = i;
+        distance = cursorDistance;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Returns the boxes covering the graphemes from start to end of a line mixing directions,
+   * that are not next to each other when the graphemes are laid out in different directions
+   * @private
+   * @param {Number} lineIndex
+   * @param {Number} start index of the first grapheme
+   * @param {Number} end index following the last grapheme
+   * @return {[number, number][]} the distances of the start and the end of each box from the start of the line
+   */
+  _getBidiSelectionBoxes(
+    lineIndex: number,
+    start: number,
+    end: number
+  ): [number, number][] {
+    const boxes: [number, number][] = [];
+    this.__charBounds[lineIndex]
+      .slice(start, end)
+      .map(({ left, width }): [number, number] => [left, left + width])
+      .sort(([a], [b]) => a - b)
+      .forEach(([boxStart, boxEnd]) => {
+        const last = boxes[boxes.length - 1];
+        if (last && boxStart <= last[1]) {
+          last[1] = Math.max(last[1], boxEnd);
+        } else {
+          boxes.push([boxStart, boxEnd]);
+        }
+      });
+    return boxes;
+  }
+
   /**
    * @private
    */
@@ -578,9 +650,11 @@ export abstract class ITextBehavior<
       maxWidth = upperCanvasWidth - charHeight,
       maxHeight = upperCanvasHeight - charHeight;
 
-    const p = new Point(
-      boundaries.left + leftOffset,
-      boundaries.top + boundaries.topOffset + charHeight
+    const p = this._fromTextFrame(
+      new Point(
+        boundaries.left + leftOffset,
+        boundaries.top + boundaries.topOffset + charHeight
+      )
     )
       .transform(this.calcTransformMatrix())
       .transform(this.canvas.viewportTransform)
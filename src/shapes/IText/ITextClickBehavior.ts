@@ -241,9 +241,11 @@ export abstract class ITextClickBehavior<
    * @return {Number} Index of a character
    */
   getSelectionStartFromPointer(e: TPointerEvent): number {
-    const mouseOffset = this.canvas!.getPointer(e)
-      .transform(invertTransform(this.calcTransformMatrix()))
-      .add(new Point(-this._getLeftOffset(), -this._getTopOffset()));
+    const mouseOffset = this._toTextFrame(
+      this.canvas!.getPointer(e).transform(
+        invertTransform(this.calcTransformMatrix())
+      )
+    ).add(new Point(-this._getLeftOffset(), -this._getTopOffset()));
     let height = 0,
       charIndex = 0,
       lineIndex = 0;
@@ -264,23 +266,31 @@ export abstract class ITextClickBehavior<
     let width = lineLeftOffset;
     const charLength = this._textLines[lineIndex].length;
     const chars = this.__charBounds[lineIndex];
-    for (let j = 0; j < charLength; j++) {
-      // i removed something about flipX here, check.
-      const charWidth = chars[j].kernedWidth;
-      const widthAfter = width + charWidth;
-      if (mouseOffset.x <= widthAfter) {
-        // if the pointer is closer to the end of the char we increment charIndex
-        // in order to position the cursor after the char
-        if (
-          Math.abs(mouseOffset.x - widthAfter) <=
-          Math.abs(mouseOffset.x - width)
-        ) {
-          charIndex++;
+    if (this._isBidiLine(lineIndex)) {
+      // graphemes are not laid out in their order
+      charIndex += this._getCursorIndexAtLeft(
+        lineIndex,
+        mouseOffset.x - lineLeftOffset
+      );
+    } else {
+      for (let j = 0; j < charLength; j++) {
+        // i removed something about flipX here, check.
+        const charWidth = chars[j].kernedWidth;
+        const widthAfter = width + charWidth;
+        if (mouseOffset.x <= widthAfter) {
+          // if the pointer is closer to the end of the char we increment charIndex
+          // in order to position the cursor after the char
+          if (
+            Math.abs(mouseOffset.x - widthAfter) <=
+            Math.abs(mouseOffset.x - width)
+          ) {
+            charIndex++;
+          }
+          break;
         }
-        break;
+        width = widthAfter;
+        charIndex++;
       }
-      width = widthAfter;
-      charIndex++;
     }
 
     return Math.min(
@@ -31,6 +31,8 @@ export abstract class ITextKeyBehavior<
 
   declare keysMapRtl: TKeyMapIText;
 
+  declare keysMapVertical: TKeyMapIText;
+
   /**
    * For functionalities on keyUp + ctrl || cmd
    */
@@ -116,7 +118,11 @@ export abstract class ITextKeyBehavior<
     if (!this.isEditing) {
       return;
     }
-    const keyMap = this.direction === 'rtl' ? this.keysMapRtl : this.keysMap;
+    const keyMap = this._isVertical()
+      ? this.keysMapVertical
+      : this.direction === 'rtl'
+      ? this.keysMapRtl
+      : this.keysMap;
     if (e.keyCode in keyMap) {
       // @ts-expect-error legacy method calling pattern
       this[keyMap[e.keyCode]](e);
@@ -329,6 +335,9 @@ export abstract class ITextKeyBehavior<
     let widthBeforeCursor = this._getLineLeftOffset(lineIndex),
       bound;
 
+    if (this._isBidiLine(lineIndex)) {
+      return widthBeforeCursor + this._getCursorLeft(lineIndex, charIndex);
+    }
     if (charIndex > 0) {
       bound = this.__charBounds[lineIndex][charIndex - 1];
       widthBeforeCursor += bound.left + bound.width;
@@ -421,6 +430,10 @@ export abstract class ITextKeyBehavior<
       charWidth,
       foundMatch;
 
+    if (this._isBidiLine(lineIndex)) {
+      // the index of the grapheme preceding the cursor
+      return this._getCursorIndexAtLeft(lineIndex, width - lineLeftOffset) - 1;
+    }
     for (let j = 0, jlen = line.length; j < jlen; j++) {
       charWidth = this.__charBounds[lineIndex][j].width;
       widthOfCharsOnLine += charWidth;
@@ -48,6 +48,20 @@ export const keysMapRtl: TKeyMapIText = {
   40: MOVE_CURSOR_DOWN,
 };
 
+// lines of vertical text are columns that follow each other from right to left
+export const keysMapVertical: TKeyMapIText = {
+  9: EXIT_EDITING,
+  27: EXIT_EDITING,
+  33: MOVE_CURSOR_UP,
+  34: MOVE_CURSOR_DOWN,
+  35: MOVE_CURSOR_RIGHT,
+  36: MOVE_CURSOR_LEFT,
+  37: MOVE_CURSOR_DOWN,
+  38: MOVE_CURSOR_LEFT,
+  39: MOVE_CURSOR_UP,
+  40: MOVE_CURSOR_RIGHT,
+};
+
 /**
  * For functionalities on keyUp + ctrl || cmd
  */
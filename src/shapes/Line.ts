@@ -10,6 +10,7 @@ import type { ObjectEvents } from '../EventTypeDefs';
 import { makeBoundingBoxFromPoints } from '../util';
 import { CENTER, LEFT, TOP } from '../constants';
 import type { CSSRules } from '../parser/typedefs';
+import type { TSimplePathData } from '../util/path/typedefs';
 
 // @TODO this code is terrible and Line should be a special case of polyline.
 
@@ -140,6 +141,18 @@ export class Line<
     ctx.strokeStyle = origStrokeStyle;
   }
 
+  /**
+   * Returns the line as open path data in its own plane
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    const { x1, y1, x2, y2 } = this.calcLinePoints();
+    return [
+      ['M', x1, y1],
+      ['L', x2, y2],
+    ];
+  }
+
   /**
    * This function is an helper for svg import. it returns the center of the object in the svg
    * untransformed coordinates
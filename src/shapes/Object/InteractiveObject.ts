@@ -59,6 +59,7 @@ export class InteractiveFabricObject<
 
   declare snapAngle?: TDegree;
   declare snapThreshold?: TDegree;
+  declare excludeFromSnapping: boolean;
 
   declare lockMovementX: boolean;
   declare lockMovementY: boolean;
@@ -88,6 +89,7 @@ export class InteractiveFabricObject<
   declare selectable: boolean;
   declare evented: boolean;
   declare perPixelTargetFind: boolean;
+  declare shapeTargetFind: boolean;
   declare activeOn: 'down' | 'up';
 
   declare hoverCursor: CSSStyleDeclaration['cursor'] | null;
@@ -310,6 +312,8 @@ export class InteractiveFabricObject<
     super.setCoords();
     // set coordinates of the draggable boxes in the corners used to scale/rotate the image 设置用于缩放/旋转图像的角落中可拖动框的坐标
     this.canvas && (this.oCoords = this.calcOCoords());
+    // keep the index of the canvas up to date, canvas-like objects may have none
+    this.canvas?.spatialIndex?.update(this);
   }
 
   /**
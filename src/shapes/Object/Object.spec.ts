@@ -1,3 +1,8 @@
+import { Point } from '../../Point';
+import { Circle } from '../Circle';
+import { Path } from '../Path';
+import { Polyline } from '../Polyline';
+import { Rect } from '../Rect';
 import { FabricObject } from './Object';
 
 describe('Object', () => {
@@ -58,4 +63,104 @@ describe('Object', () => {
     expect(fObj.top).toBe(0);
     expect(fObj.left).toBe(0);
   });
+  describe('toPath', () => {
+    /**
+     * @returns the first point of the outline of the object in the parent plane
+     */
+    const getStart = (object: FabricObject) => {
+      const [[, x, y]] = object.toPathData() as [['M', number, number]];
+      return new Point(x, y).transform(object.calcOwnMatrix());
+    };
+
+    it.each([
+      ['rect', new Rect({ width: 20, height: 10, rx: 2, ry: 2, fill: 'red' })],
+      [
+        'partial circle',
+        new Circle({ radius: 10, startAngle: 0, endAngle: 90, fill: 'red' }),
+      ],
+      [
+        'polyline',
+        new Polyline(
+          [
+            { x: 10, y: 10 },
+            { x: 30, y: 20 },
+            { x: 20, y: 40 },
+          ],
+          { fill: 'red' }
+        ),
+      ],
+    ])('%s', (_, object) => {
+      object.set({
+        left: 50,
+        top: 30,
+        angle: 30,
+        scaleX: 2,
+        skewY: 10,
+        flipX: true,
+        stroke: 'blue',
+        strokeWidth: 4,
+        opacity: 0.5,
+      });
+      const path = object.toPath();
+      expect(path).toBeInstanceOf(Path);
+      expect(path).not.toBe(object);
+      expect(path.path[0][0]).toBe('M');
+      const { fill, stroke, strokeWidth, opacity, angle, scaleX, flipX } = path;
+      expect({
+        fill,
+        stroke,
+        strokeWidth,
+        opacity,
+        angle,
+        scaleX,
+        flipX,
+      }).toEqual({
+        fill: 'red',
+        stroke: 'blue',
+        strokeWidth: 4,
+        opacity: 0.5,
+        angle: 30,
+        scaleX: 2,
+        flipX: true,
+      });
+      const start = getStart(object),
+        pathStart = getStart(path);
+      expect(pathStart.x).toBeCloseTo(start.x);
+      expect(pathStart.y).toBeCloseTo(start.y);
+    });
+
+    it('keeps the bounding box of shapes filling their size', () => {
+      const rect = new Rect({ left: 10, top: 20, width: 30, height: 40 }),
+        path = rect.toPath();
+      expect(path.left).toBeCloseTo(10);
+      expect(path.top).toBeCloseTo(20);
+      expect(path.width).toBe(30);
+      expect(path.height).toBe(40);
+      expect(path.getBoundingRect()).toEqual(rect.getBoundingRect());
+    });
+  });
+
+  it('containsPointInShape', () => {
+    const circle = new Circle({
+      left: 0,
+      top: 0,
+      radius: 10,
+      fill: 'red',
+      strokeWidth: 0,
+      scaleX: 2,
+    });
+    // a corner of the bounding box
+    expect(circle.containsPoint(new Point(2, 2), true)).toBe(true);
+    expect(circle.containsPointInShape(new Point(2, 2))).toBe(false);
+    expect(circle.containsPointInShape(new Point(20, 10))).toBe(true);
+    expect(circle.containsPointInShape(new Point(38, 10))).toBe(true);
+    circle.set({ fill: null, stroke: 'blue', strokeWidth: 2 });
+    // the center of the stroke at the left and the top of the circle
+    expect(circle.containsPointInShape(new Point(20, 10))).toBe(false);
+    expect(circle.containsPointInShape(new Point(21, 1))).toBe(true);
+    expect(circle.containsPointInShape(new Point(2, 11))).toBe(true);
+    circle.set({ strokeUniform: true });
+    expect(circle.containsPointInShape(new Point(21, 1))).toBe(true);
+    expect(circle.containsPointInShape(new Point(21, 2.5))).toBe(false);
+  });
 });
@@ -19,6 +19,7 @@ import type {
   TCacheCanvasDimensions,
   Abortable,
   TOptions,
+  TMat2D,
 } from '../../typedefs';
 import { classRegistry } from '../../ClassRegistry';
 import { runningAnimations } from '../../util/animation/AnimationRegistry';
@@ -42,6 +43,7 @@ import {
   isTextObject,
 } from '../../util/typeAssertions';
 import type { FabricImage } from '../Image';
+import type { Path } from '../Path';
 import {
   cacheProperties,
   fabricObjectDefaultValues,
@@ -52,6 +54,9 @@ import type { Pattern } from '../../Pattern';
 import type { Canvas } from '../../canvas/Canvas';
 import type { SerializedObjectProps } from './types/SerializedObjectProps';
 import type { ObjectProps } from './types/ObjectProps';
+import type { TSimplePathData } from '../../util/path/typedefs';
+import { transformPath } from '../../util/path';
+import { Intersection } from '../../Intersection';
 import { getEnv } from '../../env';
 import { log } from '../../util/internals/console';
 
@@ -127,6 +132,10 @@ export class FabricObject<
 
   declare visible: boolean;
 
+  declare layer?: string;
+
+  declare id?: string;
+
   declare includeDefaultValues: boolean;
   declare excludeFromExport: boolean;
 
@@ -578,6 +587,8 @@ export class FabricObject<
         skewX: toFixed(this.skewX, NUM_FRACTION_DIGITS),
         skewY: toFixed(this.skewY, NUM_FRACTION_DIGITS),
         ...(clipPathData ? { clipPath: clipPathData } : null),
+        ...(this.layer !== undefined ? { layer: this.layer } : null),
+        ...(this.id !== undefined ? { id: this.id } : null),
       };
 
     return !this.includeDefaultValues
@@ -1242,6 +1253,78 @@ export class FabricObject<
     // placeholder to be overridden
   }
 
+  /**
+   * Returns the outline of the object as path data in its own plane, as drawn by {@link _render}, without stroke.
+   * Defaults to its bounding rectangle, subclasses return the outline of their shape
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    const x = this.width / 2,
+      y = this.height / 2;
+    return [['M', -x, -y], ['L', x, -y], ['L', x, y], ['L', -x, y], ['Z']];
+  }
+
+  /**
+   * Converts the object into an editable path drawn the same way, see {@link toPathData}.
+   * The path keeps the styles and the transform of the object and lands where the object is.
+   * The clip path of the object is not carried over.
+   * @return {Path}
+   */
+  toPath(): Path {
+    // TODO: how to import Path w/o an import cycle?
+    const PathClass = classRegistry.getClass('Path');
+    // the position and the size follow the path data, the clip path is left out
+    const omitted = ['left', 'top', 'width', 'height', 'clipPath'],
+      options = pick(
+        this,
+        [...stateProperties, ...cacheProperties, 'fillRule'].filter(
+          (key) => !omitted.includes(key)
+        ) as (keyof this)[]
+      );
+    const path: Path = new PathClass(this.toPathData(), options);
+    // the path is centered on its bounding box rather than on the center of the object
+    path.setPositionByOrigin(
+      this.getRelativeCenterPoint().add(
+        path.pathOffset.transform(path.calcOwnMatrix(), true)
+      ),
+      CENTER,
+      CENTER
+    );
+    return path;
+  }
+
+  /**
+   * Checks if a point is over the fill or the stroke of the object, following the curves of its shape, see {@link toPathData}.
+   * More accurate than {@link containsPoint} testing the bounding box and cheaper than pixel checks.
+   * Joins of the stroke are tested as round ones, dashes are ignored.
+   * @param {Point} point point in the canvas plane, without viewportTransform
+   * @return {Boolean} true if the point is over the fill or the stroke
+   */
+  containsPointInShape(point: Point): boolean {
+    const path = this.toPathData(),
+      matrix = this.calcTransformMatrix(),
+      localPoint = point.transform(invertTransform(matrix));
+    if (
+      this.fill &&
+      Intersection.isPointInPath(localPoint, path, this.fillRule)
+    ) {
+      return true;
+    }
+    if (!this.stroke || !this.strokeWidth) {
+      return false;
+    }
+    // uniform strokes are tested in the plane of the canvas, where their width is
+    const transform: TMat2D = this.strokeUniform
+      ? [matrix[0], matrix[1], matrix[2], matrix[3], 0, 0]
+      : iMatrix;
+    return Intersection.isPointInPathStroke(
+      localPoint.transform(transform),
+      transformPath(path, transform, new Point()),
+      this.strokeWidth,
+      this.strokeLineCap
+    );
+  }
+
   /**
    * @private
    * @param {CanvasRenderingContext2D} ctx Context to render on
@@ -321,6 +321,49 @@ export class ObjectGeometry<EventSpec extends ObjectEvents = ObjectEvents>
     );
   }
 
+  /**
+   * Checks if object intersects with a polygon, e.g. a lasso selection
+   * @param {Point[]} points polygon points
+   * @param {Boolean} [absolute] use coordinates without viewportTransform
+   * @param {Boolean} [calculate] use coordinates of current position instead of stored ones
+   * @return {Boolean} true if object intersects with the polygon, is contained in it or contains it
+   */
+  intersectsWithPolygon(
+    points: Point[],
+    absolute?: boolean,
+    calculate?: boolean
+  ): boolean {
+    const coords = this.getCoords(absolute, calculate),
+      intersection = Intersection.intersectPolygonPolygon(coords, points);
+    return (
+      intersection.status === 'Intersection' ||
+      intersection.status === 'Coincident' ||
+      coords.some((point) => Intersection.isPointInPolygon(point, points)) ||
+      points.some((point) => Intersection.isPointInPolygon(point, coords))
+    );
+  }
+
+  /**
+   * Checks if object is fully contained within a polygon, e.g. a lasso selection.
+   * The polygon may be concave so its sides must not cross the object.
+   * @param {Point[]} points polygon points
+   * @param {Boolean} [absolute] use coordinates without viewportTransform
+   * @param {Boolean} [calculate] use coordinates of current position instead of stored ones
+   * @return {Boolean} true if object is fully contained within the polygon
+   */
+  isContainedWithinPolygon(
+    points: Point[],
+    absolute?: boolean,
+    calculate?: boolean
+  ): boolean {
+    const coords = this.getCoords(absolute, calculate);
+    return (
+      coords.every((point) => Intersection.isPointInPolygon(point, points)) &&
+      Intersection.intersectPolygonPolygon(coords, points).status !==
+        'Intersection'
+    );
+  }
+
   isOverlapping<T extends ObjectGeometry>(other: T): boolean {
     return (
       this.intersectsWithObject(other) ||
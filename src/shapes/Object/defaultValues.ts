@@ -86,6 +86,7 @@ export const fabricObjectDefaultValues = {
   hasControls: true,
   hasBorders: true,
   perPixelTargetFind: false,
+  shapeTargetFind: false,
   includeDefaultValues: true,
   lockMovementX: false,
   lockMovementY: false,
@@ -95,6 +96,7 @@ export const fabricObjectDefaultValues = {
   lockSkewingX: false,
   lockSkewingY: false,
   lockScalingFlip: false,
+  excludeFromSnapping: false,
   excludeFromExport: false,
   objectCaching: true,
   noScaleCache: true,
@@ -53,6 +53,14 @@ export interface FabricObjectProps
    */
   snapThreshold?: TDegree;
 
+  /**
+   * When `true`, the object doesn't snap when transformed and other objects don't snap to it.
+   * Used only if {@link Canvas#objectSnapping} is enabled
+   * @type Boolean
+   * @default
+   */
+  excludeFromSnapping: boolean;
+
   /**
    * Default cursor value used when hovering over this object on canvas
    * @type CSSStyleDeclaration['cursor'] | null
@@ -83,6 +91,14 @@ export interface FabricObjectProps
    */
   perPixelTargetFind: boolean;
 
+  /**
+   * When set to `true`, objects are "found" on canvas only over their fill and stroke,
+   * following the curves of their shape rather than their bounding box, see {@link FabricObject#containsPointInShape}
+   * @type Boolean
+   * @default
+   */
+  shapeTargetFind: boolean;
+
   /**
    * When set to `false`, an object can not be selected for modification (using either point-click-based or group-based selection).
    * But events still fire on it.
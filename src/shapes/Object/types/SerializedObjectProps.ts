@@ -39,6 +39,18 @@ export interface SerializedObjectProps extends BaseProps, FillStrokeProps {
    */
   visible: boolean;
 
+  /**
+   * Name of the layer of the canvas the object belongs to, see {@link LayerManager}
+   * @type String
+   */
+  layer?: string;
+
+  /**
+   * Identifier of the object, used to reference it, e.g. by {@link Connector}, and as the id attribute of its SVG element
+   * @type String
+   */
+  id?: string;
+
   /**
    * a fabricObject that, without stroke define a clipping area with their shape. filled in black
    * the clipPath object gets used when the object has rendered, and the context is placed in the center
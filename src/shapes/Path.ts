@@ -10,6 +10,7 @@ import {
   joinPath,
   makePathSimpler,
   parsePath,
+  transformPath,
 } from '../util/path';
 import { classRegistry } from '../ClassRegistry';
 import { FabricObject, cacheProperties } from './Object/FabricObject';
@@ -27,7 +28,9 @@ import type {
   TOptions,
 } from '../typedefs';
 import { cloneDeep } from '../util/internals/cloneDeep';
-import { CENTER, LEFT, TOP } from '../constants';
+import { animatePath } from '../util/animation/animate';
+import type { PathAnimationOptions } from '../util/animation/types';
+import { CENTER, iMatrix, LEFT, TOP } from '../constants';
 import type { CSSRules } from '../parser/typedefs';
 
 interface UniquePathProps {
@@ -187,6 +190,14 @@ export class Path<
     this._renderPaintInOrder(ctx);
   }
 
+  /**
+   * Returns the path data in the plane of the object, relative to its center
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    return transformPath(this.path, iMatrix, this.pathOffset);
+  }
+
   /**
    * Returns string representation of an instance
    * @return {string} string representation of an instance
@@ -296,6 +307,61 @@ export class Path<
     this.setBoundingBox();
   }
 
+  /**
+   * Recalculates dimensions and `pathOffset` after `path` changed like {@link setDimensions},
+   * keeping the points of the path in place in the parent plane so that the object doesn't jump
+   */
+  setDimensionsInPlace() {
+    const center = this.getRelativeCenterPoint(),
+      prevOffset = this.pathOffset;
+    this.setBoundingBox();
+    this.setPositionByOrigin(
+      center.add(
+        this.pathOffset
+          .subtract(prevOffset)
+          .transform(this.calcOwnMatrix(), true)
+      ),
+      CENTER,
+      CENTER
+    );
+  }
+
+  /**
+   * Morphs the path into another one, see {@link PathAnimation}.
+   * Dimensions and `pathOffset` are updated on every frame, keeping the points of the path in place
+   * @param {TComplexPathData | string} path the path to morph into
+   * @param {Partial<PathAnimationOptions>} [options] animation options
+   * @returns the animation
+   */
+  animatePath(
+    path: TComplexPathData | string,
+    {
+      startValue,
+      onChange,
+      onComplete,
+      abort,
+      ...options
+    }: Partial<PathAnimationOptions> = {}
+  ) {
+    return animatePath({
+      ...options,
+      target: this,
+      startValue: startValue ?? this.path,
+      endValue: path,
+      abort: abort?.bind(this),
+      onChange: (value, valueProgress, durationProgress) => {
+        this.path = value;
+        this.setDimensionsInPlace();
+        this.set('dirty', true);
+        onChange && onChange(value, valueProgress, durationProgress);
+      },
+      onComplete: (value, valueProgress, durationProgress) => {
+        this.setCoords();
+        onComplete && onComplete(value, valueProgress, durationProgress);
+      },
+    });
+  }
+
   setBoundingBox(adjustPosition?: boolean) {
     const { width, height, pathOffset } = this._calcDimensions();
     this.set({ width, height, pathOffset });
@@ -18,6 +18,7 @@ import type { ObjectEvents } from '../EventTypeDefs';
 import { cloneDeep } from '../util/internals/cloneDeep';
 import { CENTER, LEFT, TOP } from '../constants';
 import type { CSSRules } from '../parser/typedefs';
+import type { TSimplePathData } from '../util/path/typedefs';
 
 export const polylineDefaultValues: Partial<TClassProperties<Polyline>> = {
   exactBoundingBox: false,
@@ -347,6 +348,25 @@ export class Polyline<
     this._renderPaintInOrder(ctx);
   }
 
+  /**
+   * Returns the outline of the polyline as path data in its own plane, closed for polygons
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    const { x, y } = this.pathOffset;
+    return [
+      ...this.points.map(
+        (point, index) =>
+          [index === 0 ? 'M' : 'L', point.x - x, point.y - y] as [
+            'M' | 'L',
+            number,
+            number
+          ]
+      ),
+      ...(this.isOpen() ? [] : [['Z'] as ['Z']]),
+    ];
+  }
+
   /**
    * Returns complexity of an instance
    * @return {Number} complexity of this instance
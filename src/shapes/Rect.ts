@@ -7,6 +7,7 @@ import { FabricObject, cacheProperties } from './Object/FabricObject';
 import type { FabricObjectProps, SerializedObjectProps } from './Object/types';
 import type { ObjectEvents } from '../EventTypeDefs';
 import type { CSSRules } from '../parser/typedefs';
+import type { TSimplePathData } from '../util/path/typedefs';
 
 export const rectDefaultValues: Partial<TClassProperties<Rect>> = {
   rx: 0,
@@ -142,6 +143,41 @@ export class Rect<
     this._renderPaintInOrder(ctx);
   }
 
+  /**
+   * Returns the outline of the rect, rounded corners included, as path data in its own plane
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    const { width: w, height: h } = this;
+    const x = -w / 2;
+    const y = -h / 2;
+    const rx = this.rx ? Math.min(this.rx, w / 2) : 0;
+    const ry = this.ry ? Math.min(this.ry, h / 2) : 0;
+    if (rx === 0 && ry === 0) {
+      return super.toPathData();
+    }
+    return [
+      ['M', x + rx, y],
+      ['L', x + w - rx, y],
+      ['C', x + w - kRect * rx, y, x + w, y + kRect * ry, x + w, y + ry],
+      ['L', x + w, y + h - ry],
+      [
+        'C',
+        x + w,
+        y + h - kRect * ry,
+        x + w - kRect * rx,
+        y + h,
+        x + w - rx,
+        y + h,
+      ],
+      ['L', x + rx, y + h],
+      ['C', x + kRect * rx, y + h, x, y + h - kRect * ry, x, y + h - ry],
+      ['L', x, y + ry],
+      ['C', x, y + kRect * ry, x + kRect * rx, y, x + rx, y],
+      ['Z'],
+    ];
+  }
+
   /**
    * Returns object representation of an instance
    * @param {Array} [propertiesToInclude] Any properties that you might want to additionally include in the output
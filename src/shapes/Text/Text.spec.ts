@@ -1,4 +1,4 @@
-import { roundSnapshotOptions } from '../../../jest.extend';
+import { mockGlyphWidths, roundSnapshotOptions } from '../../../jest.extend';
 import { cache } from '../../cache';
 import { config } from '../../config';
 import { FabricText } from './Text';
@@ -70,4 +70,79 @@ describe('FabricText', () => {
     text.setSubscript(4, 5);
     expect(text.toObject().styles).toMatchSnapshot();
   });
+
+  describe('bidi', () => {
+    mockGlyphWidths();
+
+    // \u05d0\u05d1 are the hebrew letters alef and bet
+    it('lays out right to left words of left to right lines in their visual order', () => {
+      const text = new FabricText('ab \u05d0\u05d1\nab', { fontSize: 400 });
+      expect(text._isBidiLine(0)).toBe(true);
+      expect(text._isBidiLine(1)).toBe(false);
+      expect(text.__charBounds[0].map(({ left }) => left)).toEqual([
+        0, 10, 20, 40, 30, 50,
+      ]);
+      expect(text._getVisualOrder(0)).toEqual([0, 1, 2, 4, 3]);
+      expect(text._getBidiLevel(0, 3)).toBe(1);
+      expect(text.getLineWidth(0)).toBe(50);
+    });
+
+    it('lays out left to right words of right to left lines from the end', () => {
+      const text = new FabricText('\u05d0 ab', {
+        fontSize: 400,
+        direction: 'rtl',
+      });
+      expect(text.__charBounds[0].map(({ left }) => left)).toEqual([
+        0, 10, 30, 20, 40,
+      ]);
+    });
+
+    it('exports runs of graphemes to SVG', () => {
+      const text = new FabricText('ab \u05d0\u05d1', { fontSize: 400 });
+      const svg = text.toSVG();
+      expect(svg).toContain('x="-25" y="');
+      expect(svg).toMatch(/x="5" y="[^"]*" >\u05d0\u05d1<\/tspan>/);
+    });
+  });
+
+  describe('writingMode', () => {
+    mockGlyphWidths();
+
+    // \u6f22 is the ideograph kan
+    it('lays out lines as columns swapping the dimensions', () => {
+      const horizontal = new FabricText('abc\nd', { fontSize: 400 });
+      const vertical = new FabricText('abc\nd', {
+        fontSize: 400,
+        writingMode: 'vertical-rl',
+      });
+      expect(vertical.getLineWidth(0)).toBe(30);
+      expect(vertical.width).toBe(horizontal.height);
+      expect(vertical.height).toBe(horizontal.width);
+      expect(vertical._getInlineSize()).toBe(30);
+      expect(vertical.toObject().writingMode).toBe('vertical-rl');
+    });
+
+    it('upright graphemes advance by one em', () => {
+      const text = new FabricText('\u6f22a', {
+        fontSize: 400,
+        writingMode: 'vertical-rl',
+      });
+      expect(text._isUpright('\u6f22')).toBe(true);
+      expect(text._isUpright('a')).toBe(false);
+      expect(text.__charBounds[0].map(({ width }) => width)).toEqual([
+        400, 10, 0,
+      ]);
+      expect(text.height).toBe(410);
+    });
+
+    it('exports a rotated text to SVG', () => {
+      const text = new FabricText('\u6f22a', {
+        fontSize: 400,
+        writingMode: 'vertical-rl',
+      });
+      const svg = text.toSVG();
+      expect(svg).toContain('<g transform="rotate(90)">');
+      expect(svg).toMatch(/rotate="-90" [^>]*>\u6f22<\/tspan>/);
+    });
+  });
 });
@@ -18,6 +18,7 @@ import type {
 } from '../../typedefs';
 import { classRegistry } from '../../ClassRegistry';
 import { graphemeSplit } from '../../util/lang_string';
+import { getBidiLevels, getVisualOrder } from '../../util/misc/bidi';
 import { createCanvasElement } from '../../util/misc/dom';
 import type { TextStyleArray } from '../../util/misc/textStyles';
 import {
@@ -42,6 +43,7 @@ import {
   JUSTIFY_RIGHT,
 } from './constants';
 import { CENTER, LEFT, RIGHT, TOP, BOTTOM } from '../../constants';
+import { Point } from '../../Point';
 import { isFiller } from '../../util/typeAssertions';
 import type { Gradient } from '../../gradient/Gradient';
 import type { Pattern } from '../../Pattern';
@@ -49,6 +51,16 @@ import type { CSSRules } from '../../parser/typedefs';
 
 let measuringContext: CanvasRenderingContext2D | null;
 
+/**
+ * Graphemes that stay upright in vertical text, CJK scripts, symbols and punctuation, fullwidth forms and emojis,
+ * see https://www.unicode.org/reports/tr50/
+ */
+const reUpright =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}\p{Script=Yi}\u3000-\u303f\uff01-\uff60\uffe0-\uffe6\p{Extended_Pictographic}]/u;
+// brackets, dashes and the wave dash are rotated as the other runs
+const reRotatedPunctuation =
+  /^[\u3008-\u3011\u3014-\u301c\u3030\uff08\uff09\uff0d\uff1c\uff1e\uff3b\uff3d\uff3f\uff5b-\uff60]/;
+
 /**
  * Return a context for measurement of text string.
  * if created it gets stored for reuse
@@ -64,6 +76,8 @@ export type TPathSide = 'left' | 'right';
 
 export type TPathAlign = 'baseline' | 'center' | 'ascender' | 'descender';
 
+export type TWritingMode = 'horizontal-tb' | 'vertical-rl';
+
 export type TextLinesInfo = {
   lines: string[];
   graphemeLines: string[][];
@@ -85,6 +99,8 @@ export type GraphemeBBox = {
   renderLeft?: number;
   renderTop?: number;
   angle?: number;
+  // the bidi embedding level, only on lines mixing directions
+  level?: number;
 };
 
 // @TODO this is not complete
@@ -102,6 +118,7 @@ interface UniqueTextProps {
   linethrough: boolean;
   textAlign: string;
   direction: CanvasDirection;
+  writingMode: TWritingMode;
   path?: Path;
 }
 
@@ -362,6 +379,17 @@ export class FabricText<
    */
   declare direction: CanvasDirection;
 
+  /**
+   * The direction in which lines of text are laid out.
+   * In 'vertical-rl' lines are columns read from top to bottom that follow each other from right to left,
+   * CJK glyphs stay upright while the other runs are rotated by 90 degrees clockwise.
+   * Ignored for text on a path.
+   * Gradients and patterns are applied to the lines as in horizontal text.
+   * @type {TWritingMode} 'horizontal-tb|vertical-rl'
+   * @default
+   */
+  declare writingMode: TWritingMode;
+
   /**
    * contains characters bounding boxes
    * This variable is considered to be protected.
@@ -465,9 +493,12 @@ export class FabricText<
       this.width = this.path.width;
       this.height = this.path.height;
     } else {
-      this.width =
-        this.calcTextWidth() || this.cursorWidth || this.MIN_TEXT_WIDTH;
-      this.height = this.calcTextHeight();
+      const width =
+          this.calcTextWidth() || this.cursorWidth || this.MIN_TEXT_WIDTH,
+        height = this.calcTextHeight();
+      // vertical lines are laid out as horizontal ones in a frame rotated by 90 degrees
+      this.width = this._isVertical() ? height : width;
+      this.height = this._isVertical() ? width : height;
     }
     if (this.textAlign.includes(JUSTIFY)) {
       // once text is measured we need to make space fatter to make justified text.
@@ -487,9 +518,11 @@ export class FabricText<
       charBound,
       spaces;
     for (let i = 0, len = this._textLines.length; i < len; i++) {
+      const textAlign = this._getLineTextAlign(i),
+        width = this._getInlineSize() - this._getLineIndent(i);
       if (
-        this.textAlign !== JUSTIFY &&
-        (i === len - 1 || this.isEndOfWrapping(i))
+        !textAlign.includes(JUSTIFY) ||
+        (textAlign !== JUSTIFY && (i === len - 1 || this.isEndOfWrapping(i)))
       ) {
         continue;
       }
@@ -497,12 +530,13 @@ export class FabricText<
       line = this._textLines[i];
       currentLineWidth = this.getLineWidth(i);
       if (
-        currentLineWidth < this.width &&
+        currentLineWidth < width &&
         (spaces = this.textLines[i].match(this._reSpacesAndTabs))
       ) {
         numberOfSpaces = spaces.length;
-        diffSpace = (this.width - currentLineWidth) / numberOfSpaces;
-        for (let j = 0; j <= line.length; j++) {
+        diffSpace = (width - currentLineWidth) / numberOfSpaces;
+        // spaces push the graphemes following them in the visual order
+        for (const j of [...this._getVisualOrder(i), line.length]) {
           charBound = this.__charBounds[i][j];
           if (this._reSpaceAndTab.test(line[j])) {
             charBound.width += diffSpace;
@@ -601,11 +635,13 @@ export class FabricText<
     const path = this.path;
     path && !path.isNotVisible() && path._render(ctx);
     this._setTextStyles(ctx);
+    const isTransformed = this._transformToTextFrame(ctx);
     this._renderTextLinesBackground(ctx);
     this._renderTextDecoration(ctx, 'underline');
     this._renderText(ctx);
     this._renderTextDecoration(ctx, 'overline');
     this._renderTextDecoration(ctx, 'linethrough');
+    isTransformed && ctx.restore();
   }
 
   /**
@@ -661,10 +697,10 @@ export class FabricText<
    * @return {Number} Maximum width of Text object
    */
   calcTextWidth(): number {
-    let maxWidth = this.getLineWidth(0);
+    let maxWidth = this.getLineWidth(0) + this._getLineIndent(0);
 
     for (let i = 1, len = this._textLines.length; i < len; i++) {
-      const currentLineWidth = this.getLineWidth(i);
+      const currentLineWidth = this.getLineWidth(i) + this._getLineIndent(i);
       if (currentLineWidth > maxWidth) {
         maxWidth = currentLineWidth;
       }
@@ -702,10 +738,11 @@ export class FabricText<
       return;
     }
     const originalFill = ctx.fillStyle,
-      leftOffset = this._getLeftOffset();
+      leftOffset = this._getLeftOffset(),
+      lines = this._getRenderedLines();
     let lineTopOffset = this._getTopOffset();
 
-    for (let i = 0, len = this._textLines.length; i < len; i++) {
+    for (let i = 0, len = lines.length; i < len; i++) {
       const heightOfLine = this.getHeightOfLine(i);
       if (
         !this.textBackgroundColor &&
@@ -714,10 +751,11 @@ export class FabricText<
         lineTopOffset += heightOfLine;
         continue;
       }
-      const jlen = this._textLines[i].length;
+      const jlen = lines[i].length;
+      const heightOfText = this.getHeightOfLineText(i);
       const lineLeftOffset = this._getLineLeftOffset(i);
       let boxWidth = 0;
-      let boxStart = 0;
+      let boxStart = this.__charBounds[i][0].left;
       let drawStart;
       let currentColor;
       let lastColor = this.getValueOfPropertyAt(i, 0, 'textBackgroundColor');
@@ -733,43 +771,38 @@ export class FabricText<
           currentColor &&
             ctx.fillRect(
               -charBox.width / 2,
-              (-heightOfLine / this.lineHeight) * (1 - this._fontSizeFraction),
+              -heightOfText * (1 - this._fontSizeFraction),
               charBox.width,
-              heightOfLine / this.lineHeight
+              heightOfText
             );
           ctx.restore();
-        } else if (currentColor !== lastColor) {
+        } else if (
+          currentColor !== lastColor ||
+          (j > 0 && this._getBidiLevel(i, j) !== this._getBidiLevel(i, j - 1))
+        ) {
           drawStart = leftOffset + lineLeftOffset + boxStart;
           if (this.direction === 'rtl') {
-            drawStart = this.width - drawStart - boxWidth;
+            drawStart = this._getInlineSize() - drawStart - boxWidth;
           }
           ctx.fillStyle = lastColor;
           lastColor &&
-            ctx.fillRect(
-              drawStart,
-              lineTopOffset,
-              boxWidth,
-              heightOfLine / this.lineHeight
-            );
+            ctx.fillRect(drawStart, lineTopOffset, boxWidth, heightOfText);
           boxStart = charBox.left;
           boxWidth = charBox.width;
           lastColor = currentColor;
         } else {
+          // graphemes of right to left runs in left to right lines go backward and vice versa
+          boxStart = Math.min(boxStart, charBox.left);
           boxWidth += charBox.kernedWidth;
         }
       }
       if (currentColor && !this.path) {
         drawStart = leftOffset + lineLeftOffset + boxStart;
         if (this.direction === 'rtl') {
-          drawStart = this.width - drawStart - boxWidth;
+          drawStart = this._getInlineSize() - drawStart - boxWidth;
         }
         ctx.fillStyle = currentColor;
-        ctx.fillRect(
-          drawStart,
-          lineTopOffset,
-          boxWidth,
-          heightOfLine / this.lineHeight
-        );
+        ctx.fillRect(drawStart, lineTopOffset, boxWidth, heightOfText);
       }
       lineTopOffset += heightOfLine;
     }
@@ -906,6 +939,9 @@ export class FabricText<
       height: this.fontSize,
       deltaY: 0,
     } as GraphemeBBox;
+    if (!path) {
+      this._layoutBidiLine(lineIndex);
+    }
     if (path && path.segmentsInfo) {
       let positionInPath = 0;
       const totalPathLength =
@@ -943,6 +979,76 @@ export class FabricText<
     return { width: width, numOfSpaces: 0 };
   }
 
+  /**
+   * Lays out the graphemes of a line mixing directions in their visual order:
+   * the `left` of their box becomes the distance of their visual position from the start of the line
+   * and the `level` of their box their bidi embedding level, see {@link getBidiLevels}.
+   * Graphemes keep their index in the line
+   * @private
+   * @param {Number} lineIndex
+   */
+  _layoutBidiLine(lineIndex: number) {
+    const line = this._textLines[lineIndex],
+      lineBounds = this.__charBounds[lineIndex],
+      baseLevel = this.direction === 'rtl' ? 1 : 0,
+      levels = getBidiLevels(line, baseLevel ? 'rtl' : 'ltr');
+    if (levels.every((level) => level === baseLevel)) {
+      return;
+    }
+    levels.forEach((level, i) => (lineBounds[i].level = level));
+    let left = 0;
+    this._getVisualOrder(lineIndex).forEach((i) => {
+      const box = lineBounds[i];
+      box.left = left + box.kernedWidth - box.width;
+      left = box.left + box.width;
+    });
+    lineBounds[line.length].left = left;
+  }
+
+  /**
+   * @private
+   * @param {Number} lineIndex
+   * @returns {Number[]} the indexes of the graphemes of the line in their visual order,
+   * from the start of the line
+   */
+  _getVisualOrder(lineIndex: number): number[] {
+    const length = this._textLines[lineIndex].length;
+    if (!this._isBidiLine(lineIndex)) {
+      return [...Array(length).keys()];
+    }
+    const order = getVisualOrder(
+      this.__charBounds[lineIndex]
+        .slice(0, length)
+        .map((box) => box.level as number)
+    );
+    return this.direction === 'rtl' ? order.reverse() : order;
+  }
+
+  /**
+   * @private
+   * @param {Number} lineIndex
+   * @returns {Boolean} true if the line mixes directions, see {@link _layoutBidiLine}
+   */
+  _isBidiLine(lineIndex: number): boolean {
+    const lineBounds = this.__charBounds[lineIndex];
+    return !!lineBounds && !!lineBounds[0] && lineBounds[0].level !== undefined;
+  }
+
+  /**
+   * @private
+   * @param {Number} lineIndex
+   * @param {Number} charIndex
+   * @returns {Number} the bidi embedding level of a grapheme, odd for right to left graphemes
+   */
+  _getBidiLevel(lineIndex: number, charIndex: number): number {
+    const box = this.__charBounds[lineIndex]?.[charIndex];
+    return box && box.level !== undefined
+      ? box.level
+      : this.direction === 'rtl'
+      ? 1
+      : 0;
+  }
+
   /**
    * Calculate the angle  and the left,top position of the char that follow a path.
    * It appends it to graphemeInfo to be reused later at rendering
@@ -986,6 +1092,11 @@ export class FabricText<
       width = info.width,
       charSpacing;
 
+    if (this._isVertical() && this._isUpright(grapheme)) {
+      // upright graphemes advance by one em along the column
+      kernedWidth = width = style.fontSize;
+    }
+
     if (this.charSpacing !== 0) {
       charSpacing = this._getWidthOfCharSpacing();
       width += charSpacing;
@@ -1025,7 +1136,21 @@ export class FabricText<
     }
 
     return (this.__lineHeights[lineIndex] =
-      maxHeight * this.lineHeight * this._fontSizeMult);
+      maxHeight * this.lineHeight * this._fontSizeMult +
+      this._getSpaceAfterLine(lineIndex));
+  }
+
+  /**
+   * Calculate the height of the text of the line at 'lineIndex',
+   * leaving out the space between lines
+   * @param {Number} lineIndex index of line to calculate
+   * @return {Number}
+   */
+  getHeightOfLineText(lineIndex: number): number {
+    return (
+      (this.getHeightOfLine(lineIndex) - this._getSpaceAfterLine(lineIndex)) /
+      this.lineHeight
+    );
   }
 
   /**
@@ -1036,17 +1161,65 @@ export class FabricText<
       height = 0;
     for (let i = 0, len = this._textLines.length; i < len; i++) {
       lineHeight = this.getHeightOfLine(i);
-      height += i === len - 1 ? lineHeight / this.lineHeight : lineHeight;
+      height += i === len - 1 ? this.getHeightOfLineText(i) : lineHeight;
     }
     return height;
   }
 
+  /**
+   * @private
+   * @returns the graphemes of the lines to render, see {@link Textbox#overflow}
+   */
+  _getRenderedLines(): string[][] {
+    return this._textLines;
+  }
+
+  /**
+   * @private
+   * @returns the alignment of the line at 'lineIndex', see {@link Textbox#paragraphStyles}
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _getLineTextAlign(lineIndex: number): string {
+    return this.textAlign;
+  }
+
+  /**
+   * @private
+   * @returns the space left empty at the start of the line at 'lineIndex', see {@link Textbox#paragraphStyles}
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _getLineIndent(lineIndex: number): number {
+    return 0;
+  }
+
+  /**
+   * @private
+   * @returns the space added below the line at 'lineIndex', see {@link Textbox#paragraphStyles}
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  _getSpaceAfterLine(lineIndex: number): number {
+    return 0;
+  }
+
+  /**
+   * @private
+   * @returns the list marker of the line at 'lineIndex' and its distance from the start of the text,
+   * see {@link Textbox#paragraphStyles}
+   */
+  _getLineMarker(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    lineIndex: number
+  ): { text: string; left: number } | undefined {
+    return undefined;
+  }
+
   /**
    * @private
    * @return {Number} Left offset
    */
   _getLeftOffset(): number {
-    return this.direction === 'ltr' ? -this.width / 2 : this.width / 2;
+    const inlineSize = this._getInlineSize();
+    return this.direction === 'ltr' ? -inlineSize / 2 : inlineSize / 2;
   }
 
   /**
@@ -1054,7 +1227,87 @@ export class FabricText<
    * @return {Number} Top offset
    */
   _getTopOffset(): number {
-    return -this.height / 2;
+    return -this._getBlockSize() / 2;
+  }
+
+  /**
+   * @returns {Boolean} true if lines are laid out as columns, see {@link writingMode}
+   */
+  _isVertical(): boolean {
+    return this.writingMode === 'vertical-rl' && !this.path;
+  }
+
+  /**
+   * Override to scale the text without changing its font sizes, see {@link _transformToTextFrame}
+   * @returns {Number} the scale of the text
+   */
+  _getTextScale(): number {
+    return 1;
+  }
+
+  /**
+   * Lines are laid out in their own frame, rotated by 90 degrees clockwise for vertical text,
+   * where lines run along the height of the object, and scaled by {@link _getTextScale}.
+   * @param {CanvasRenderingContext2D} ctx Context to render on
+   * @returns {Boolean} true if the context was saved and transformed, it needs to be restored then
+   */
+  _transformToTextFrame(ctx: CanvasRenderingContext2D): boolean {
+    const isVertical = this._isVertical(),
+      scale = this._getTextScale();
+    if (!isVertical && scale === 1) {
+      return false;
+    }
+    ctx.save();
+    isVertical && ctx.rotate(Math.PI / 2);
+    scale !== 1 && ctx.scale(scale, scale);
+    return true;
+  }
+
+  /**
+   * @param {Point} point a point in the plane of the object
+   * @returns {Point} the point in the frame of the lines, see {@link _transformToTextFrame}
+   */
+  _toTextFrame(point: Point): Point {
+    return (
+      this._isVertical() ? new Point(point.y, -point.x) : point
+    ).scalarDivide(this._getTextScale());
+  }
+
+  /**
+   * @param {Point} point a point in the frame of the lines, see {@link _transformToTextFrame}
+   * @returns {Point} the point in the plane of the object
+   */
+  _fromTextFrame(point: Point): Point {
+    const scaled = point.scalarMultiply(this._getTextScale());
+    return this._isVertical() ? new Point(-scaled.y, scaled.x) : scaled;
+  }
+
+  /**
+   * @returns {Number} the size of the frame of the lines along the lines, see {@link _transformToTextFrame}
+   */
+  _getInlineSize(): number {
+    return (
+      (this._isVertical() ? this.height : this.width) / this._getTextScale()
+    );
+  }
+
+  /**
+   * @returns {Number} the size of the frame of the lines across the lines, see {@link _transformToTextFrame}
+   */
+  _getBlockSize(): number {
+    return (
+      (this._isVertical() ? this.width : this.height) / this._getTextScale()
+    );
+  }
+
+  /**
+   * Override to customize which graphemes stay upright in vertical text,
+   * the others are rotated with their line
+   * @param {String} grapheme
+   * @returns {Boolean}
+   */
+  _isUpright(grapheme: string): boolean {
+    return reUpright.test(grapheme) && !reRotatedPunctuation.test(grapheme);
   }
 
   /**
@@ -1069,19 +1322,27 @@ export class FabricText<
     ctx.save();
     let lineHeights = 0;
     const left = this._getLeftOffset(),
-      top = this._getTopOffset();
-    for (let i = 0, len = this._textLines.length; i < len; i++) {
+      top = this._getTopOffset(),
+      lines = this._getRenderedLines();
+    for (let i = 0, len = lines.length; i < len; i++) {
       const heightOfLine = this.getHeightOfLine(i),
-        maxHeight = heightOfLine / this.lineHeight,
+        maxHeight = this.getHeightOfLineText(i),
         leftOffset = this._getLineLeftOffset(i);
       this._renderTextLine(
         method,
         ctx,
-        this._textLines[i],
+        lines[i],
         left + leftOffset,
         top + lineHeights + maxHeight,
         i
       );
+      this._renderLineMarker(
+        method,
+        ctx,
+        i,
+        left,
+        top + lineHeights + maxHeight * (1 - this._fontSizeFraction)
+      );
       lineHeights += heightOfLine;
     }
     ctx.restore();
@@ -1137,14 +1398,16 @@ export class FabricText<
     top: number,
     lineIndex: number
   ) {
-    const lineHeight = this.getHeightOfLine(lineIndex),
-      isJustify = this.textAlign.includes(JUSTIFY),
+    const heightOfText = this.getHeightOfLineText(lineIndex),
+      isJustify = this._getLineTextAlign(lineIndex).includes(JUSTIFY),
       path = this.path,
+      isVertical = this._isVertical(),
       shortCut =
         !isJustify &&
         this.charSpacing === 0 &&
         this.isEmptyStyles(lineIndex) &&
-        !path,
+        !path &&
+        !(isVertical && line.some((grapheme) => this._isUpright(grapheme))),
       isLtr = this.direction === 'ltr',
       sign = this.direction === 'ltr' ? 1 : -1,
       // this was changed in the PR #7674
@@ -1165,7 +1428,7 @@ export class FabricText<
       ctx.direction = isLtr ? 'ltr' : 'rtl';
       ctx.textAlign = isLtr ? LEFT : RIGHT;
     }
-    top -= (lineHeight * this._fontSizeFraction) / this.lineHeight;
+    top -= heightOfText * this._fontSizeFraction;
     if (shortCut) {
       // render all the line in one pass without checking
       // drawingLeft = isLtr ? left : left - this.getLineWidth(lineIndex);
@@ -1173,6 +1436,11 @@ export class FabricText<
       ctx.restore();
       return;
     }
+    if (!path && this._isBidiLine(lineIndex)) {
+      this._renderBidiChars(method, ctx, line, left, top, lineIndex);
+      ctx.restore();
+      return;
+    }
     for (let i = 0, len = line.length - 1; i <= len; i++) {
       timeToRender = i === len || this.charSpacing || path;
       charsToRender += line[i];
@@ -1195,6 +1463,10 @@ export class FabricText<
         nextStyle = this.getCompleteStyleDeclaration(lineIndex, i + 1);
         timeToRender = hasStyleChanged(actualStyle, nextStyle, false);
       }
+      if (!timeToRender && isVertical) {
+        // upright graphemes are rendered one by one
+        timeToRender = this._isUpright(line[i]) || this._isUpright(line[i + 1]);
+      }
       if (timeToRender) {
         if (path) {
           ctx.save();
@@ -1210,6 +1482,17 @@ export class FabricText<
             0
           );
           ctx.restore();
+        } else if (isVertical && this._isUpright(charsToRender)) {
+          this._renderUprightChar(
+            method,
+            ctx,
+            lineIndex,
+            i,
+            charsToRender,
+            isLtr ? left : left - boxWidth,
+            top,
+            boxWidth
+          );
         } else {
           drawingLeft = left;
           this._renderChar(
@@ -1231,6 +1514,110 @@ export class FabricText<
     ctx.restore();
   }
 
+  /**
+   * Renders a grapheme of vertical text upright, centered in its box across the rotated line
+   * @private
+   * @param {String} method fillText or strokeText.
+   * @param {CanvasRenderingContext2D} ctx Context to render on
+   * @param {Number} lineIndex
+   * @param {Number} charIndex
+   * @param {String} grapheme
+   * @param {Number} left left of the box of the grapheme along the line
+   * @param {Number} top baseline of the line
+   * @param {Number} width width of the box of the grapheme
+   */
+  _renderUprightChar(
+    method: 'fillText' | 'strokeText',
+    ctx: CanvasRenderingContext2D,
+    lineIndex: number,
+    charIndex: number,
+    grapheme: string,
+    left: number,
+    top: number,
+    width: number
+  ) {
+    const fontSize = this.getHeightOfChar(lineIndex, charIndex),
+      fraction = this._fontSizeFraction;
+    ctx.save();
+    ctx.translate(left + width / 2, top + (fraction - 0.5) * fontSize);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = CENTER;
+    this._renderChar(
+      method,
+      ctx,
+      lineIndex,
+      charIndex,
+      grapheme,
+      0,
+      (0.5 - fraction) * fontSize
+    );
+    ctx.restore();
+  }
+
+  /**
+   * Renders the graphemes of a line mixing directions by runs of graphemes of the same level and style,
+   * see {@link _layoutBidiLine}.
+   * The graphemes of a run are next to each other, a run is rendered in its direction
+   * from the side of its box where it starts
+   * @private
+   * @param {String} method fillText or strokeText.
+   * @param {CanvasRenderingContext2D} ctx Context to render on
+   * @param {Array} line Content of the line, splitted in an array by grapheme
+   * @param {Number} left
+   * @param {Number} top
+   * @param {Number} lineIndex
+   */
+  _renderBidiChars(
+    method: 'fillText' | 'strokeText',
+    ctx: CanvasRenderingContext2D,
+    line: string[],
+    left: number,
+    top: number,
+    lineIndex: number
+  ) {
+    const lineBounds = this.__charBounds[lineIndex],
+      isJustify = this._getLineTextAlign(lineIndex).includes(JUSTIFY),
+      baseLevel = this.direction === 'rtl' ? 1 : 0,
+      sign = baseLevel ? -1 : 1;
+    let charsToRender = '',
+      runStart = Infinity,
+      runEnd = -Infinity;
+    for (let i = 0, len = line.length - 1; i <= len; i++) {
+      const charBox = lineBounds[i],
+        level = this._getBidiLevel(lineIndex, i);
+      charsToRender += line[i];
+      runStart = Math.min(runStart, charBox.left);
+      runEnd = Math.max(runEnd, charBox.left + charBox.width);
+      if (
+        i === len ||
+        this.charSpacing ||
+        (isJustify && this._reSpaceAndTab.test(line[i])) ||
+        level !== this._getBidiLevel(lineIndex, i + 1) ||
+        hasStyleChanged(
+          this.getCompleteStyleDeclaration(lineIndex, i),
+          this.getCompleteStyleDeclaration(lineIndex, i + 1),
+          false
+        )
+      ) {
+        const isRtl = level % 2 === 1;
+        ctx.direction = isRtl ? 'rtl' : 'ltr';
+        ctx.textAlign = isRtl ? RIGHT : LEFT;
+        this._renderChar(
+          method,
+          ctx,
+          lineIndex,
+          i,
+          charsToRender,
+          left + sign * (level % 2 === baseLevel ? runStart : runEnd),
+          top
+        );
+        charsToRender = '';
+        runStart = Infinity;
+        runEnd = -Infinity;
+      }
+    }
+  }
+
   /**
    * This function try to patch the missing gradientTransform on canvas gradients.
    * transforming a context to transform the gradient, is going to transform the stroke too.
@@ -1329,6 +1716,42 @@ export class FabricText<
     return this.handleFiller(ctx, 'fillStyle', fill!);
   }
 
+  /**
+   * Renders the list marker of a line with the style of its first char
+   * @private
+   * @param {String} method fillText or strokeText.
+   * @param {CanvasRenderingContext2D} ctx Context to render on
+   * @param {Number} lineIndex
+   * @param {Number} left Left offset of the text
+   * @param {Number} top Baseline of the line
+   */
+  _renderLineMarker(
+    method: 'fillText' | 'strokeText',
+    ctx: CanvasRenderingContext2D,
+    lineIndex: number,
+    left: number,
+    top: number
+  ) {
+    const marker = this._getLineMarker(lineIndex);
+    if (!marker) {
+      return;
+    }
+    const isLtr = this.direction === 'ltr';
+    ctx.save();
+    ctx.direction = isLtr ? 'ltr' : 'rtl';
+    ctx.textAlign = isLtr ? LEFT : RIGHT;
+    this._renderChar(
+      method,
+      ctx,
+      lineIndex,
+      0,
+      marker.text,
+      isLtr ? left + marker.left : left - marker.left,
+      top
+    );
+    ctx.restore();
+  }
+
   /**
    * @private
    * @param {String} method
@@ -1444,10 +1867,13 @@ export class FabricText<
    */
   _getLineLeftOffset(lineIndex: number): number {
     const lineWidth = this.getLineWidth(lineIndex),
-      lineDiff = this.width - lineWidth,
-      textAlign = this.textAlign,
+      indent = this._getLineIndent(lineIndex),
+      lineDiff = this._getInlineSize() - indent - lineWidth,
+      textAlign = this._getLineTextAlign(lineIndex),
       direction = this.direction,
-      isEndOfWrapping = this.isEndOfWrapping(lineIndex);
+      isEndOfWrapping = this.isEndOfWrapping(lineIndex),
+      // the indent is at the start of the line
+      indentOffset = direction === 'rtl' ? -indent : indent;
     let leftOffset = 0;
     if (
       textAlign === JUSTIFY ||
@@ -1455,7 +1881,7 @@ export class FabricText<
       (textAlign === JUSTIFY_RIGHT && !isEndOfWrapping) ||
       (textAlign === JUSTIFY_LEFT && !isEndOfWrapping)
     ) {
-      return 0;
+      return indentOffset;
     }
     if (textAlign === CENTER) {
       leftOffset = lineDiff / 2;
@@ -1482,7 +1908,7 @@ export class FabricText<
         leftOffset = -lineDiff / 2;
       }
     }
-    return leftOffset;
+    return leftOffset + indentOffset;
   }
 
   /**
@@ -1550,18 +1976,19 @@ export class FabricText<
     const leftOffset = this._getLeftOffset(),
       path = this.path,
       charSpacing = this._getWidthOfCharSpacing(),
-      offsetY = this.offsets[type];
+      offsetY = this.offsets[type],
+      lines = this._getRenderedLines();
 
-    for (let i = 0, len = this._textLines.length; i < len; i++) {
+    for (let i = 0, len = lines.length; i < len; i++) {
       const heightOfLine = this.getHeightOfLine(i);
       if (!this[type] && !this.styleHas(type, i)) {
         topOffset += heightOfLine;
         continue;
       }
-      const line = this._textLines[i];
-      const maxHeight = heightOfLine / this.lineHeight;
+      const line = lines[i];
+      const maxHeight = this.getHeightOfLineText(i);
       const lineLeftOffset = this._getLineLeftOffset(i);
-      let boxStart = 0;
+      let boxStart = this.__charBounds[i][0].left;
       let boxWidth = 0;
       let lastDecoration = this.getValueOfPropertyAt(i, 0, type);
       let lastFill = this.getValueOfPropertyAt(i, 0, 'fill');
@@ -1593,12 +2020,13 @@ export class FabricText<
           (currentDecoration !== lastDecoration ||
             currentFill !== lastFill ||
             currentSize !== size ||
-            currentDy !== dy) &&
+            currentDy !== dy ||
+            this._getBidiLevel(i, j) !== this._getBidiLevel(i, j - 1)) &&
           boxWidth > 0
         ) {
           let drawStart = leftOffset + lineLeftOffset + boxStart;
           if (this.direction === 'rtl') {
-            drawStart = this.width - drawStart - boxWidth;
+            drawStart = this._getInlineSize() - drawStart - boxWidth;
           }
           if (lastDecoration && lastFill) {
             // bug? verify lastFill is a valid fill here.
@@ -1617,12 +2045,13 @@ export class FabricText<
           size = currentSize;
           dy = currentDy;
         } else {
+          boxStart = Math.min(boxStart, charBox.left);
           boxWidth += charBox.kernedWidth;
         }
       }
       let drawStart = leftOffset + lineLeftOffset + boxStart;
       if (this.direction === 'rtl') {
-        drawStart = this.width - drawStart - boxWidth;
+        drawStart = this._getInlineSize() - drawStart - boxWidth;
       }
       ctx.fillStyle = currentFill as string;
       currentDecoration &&
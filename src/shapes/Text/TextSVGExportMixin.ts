@@ -39,8 +39,8 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
 
   private _getSVGLeftTopOffsets(this: TextSVGExportMixin & FabricText) {
     return {
-      textLeft: -this.width / 2,
-      textTop: -this.height / 2,
+      textLeft: -this._getInlineSize() / 2,
+      textTop: -this._getBlockSize() / 2,
       lineTop: this.getHeightOfLine(0),
     };
   }
@@ -56,8 +56,19 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     }
   ) {
     const noShadow = true,
-      textDecoration = this.getSvgTextDecoration(this);
+      textDecoration = this.getSvgTextDecoration(this),
+      scale = this._getTextScale(),
+      // the frame of the lines, see FabricText#_transformToTextFrame
+      frameTransform = [
+        this._isVertical() ? 'rotate(90)' : '',
+        scale !== 1
+          ? `scale(${toFixed(scale, config.NUM_FRACTION_DIGITS)})`
+          : '',
+      ]
+        .filter(Boolean)
+        .join(' ');
     return [
+      frameTransform ? `\t\t<g transform="${frameTransform}">\n` : '',
       textBgRects.join(''),
       '\t\t<text xml:space="preserve" ',
       this.fontFamily
@@ -75,6 +86,7 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
       ' >',
       textSpans.join(''),
       '</text>\n',
+      frameTransform ? '\t\t</g>\n' : '',
     ];
   }
 
@@ -90,7 +102,9 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     textLeftOffset: number
   ) {
     const textSpans: string[] = [],
-      textBgRects: string[] = [];
+      textBgRects: string[] = [],
+      inlineSize = this._getInlineSize(),
+      blockSize = this._getBlockSize();
     let height = textTopOffset,
       lineOffset;
 
@@ -99,18 +113,18 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
       textBgRects.push(
         ...createSVGInlineRect(
           this.backgroundColor,
-          -this.width / 2,
-          -this.height / 2,
-          this.width,
-          this.height
+          -inlineSize / 2,
+          -blockSize / 2,
+          inlineSize,
+          blockSize
         )
       );
 
     // text and text-background
-    for (let i = 0, len = this._textLines.length; i < len; i++) {
+    for (let i = 0, len = this._getRenderedLines().length; i < len; i++) {
       lineOffset = this._getLineLeftOffset(i);
       if (this.direction === 'rtl') {
-        lineOffset += this.width;
+        lineOffset += inlineSize;
       }
       if (this.textBackgroundColor || this.styleHas('textBackgroundColor', i)) {
         this._setSVGTextLineBg(
@@ -126,6 +140,7 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
         textLeftOffset + lineOffset,
         height
       );
+      this._setSVGTextLineMarker(textSpans, i, height);
       height += this.getHeightOfLine(i);
     }
 
@@ -140,7 +155,8 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     char: string,
     styleDecl: TextStyleDeclaration,
     left: number,
-    top: number
+    top: number,
+    rotate?: number
   ) {
     const styleProps = this.getSvgSpanStyles(
         styleDecl,
@@ -148,7 +164,8 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
       ),
       fillStyles = styleProps ? `style="${styleProps}"` : '',
       dy = styleDecl.deltaY,
-      dySpan = dy ? ` dy="${toFixed(dy, config.NUM_FRACTION_DIGITS)}" ` : '';
+      dySpan = dy ? ` dy="${toFixed(dy, config.NUM_FRACTION_DIGITS)}" ` : '',
+      rotateSpan = rotate ? ` rotate="${rotate}" ` : '';
 
     return `<tspan x="${toFixed(
       left,
@@ -156,7 +173,7 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     )}" y="${toFixed(
       top,
       config.NUM_FRACTION_DIGITS
-    )}" ${dySpan}${fillStyles}>${escapeXml(char)}</tspan>`;
+    )}" ${dySpan}${rotateSpan}${fillStyles}>${escapeXml(char)}</tspan>`;
   }
 
   private _setSVGTextLineText(
@@ -166,9 +183,9 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     textLeftOffset: number,
     textTopOffset: number
   ) {
-    const lineHeight = this.getHeightOfLine(lineIndex),
-      isJustify = this.textAlign.includes(JUSTIFY),
-      line = this._textLines[lineIndex];
+    const isJustify = this._getLineTextAlign(lineIndex).includes(JUSTIFY),
+      isVertical = this._isVertical(),
+      line = this._getRenderedLines()[lineIndex];
     let actualStyle,
       nextStyle,
       charsToRender = '',
@@ -178,7 +195,16 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
       timeToRender;
 
     textTopOffset +=
-      (lineHeight * (1 - this._fontSizeFraction)) / this.lineHeight;
+      this.getHeightOfLineText(lineIndex) * (1 - this._fontSizeFraction);
+    if (this._isBidiLine(lineIndex)) {
+      this._setSVGBidiTextLineText(
+        textSpans,
+        lineIndex,
+        textLeftOffset,
+        textTopOffset
+      );
+      return;
+    }
     for (let i = 0, len = line.length - 1; i <= len; i++) {
       timeToRender = i === len || this.charSpacing;
       charsToRender += line[i];
@@ -201,16 +227,39 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
         nextStyle = this.getCompleteStyleDeclaration(lineIndex, i + 1);
         timeToRender = hasStyleChanged(actualStyle, nextStyle, true);
       }
+      if (!timeToRender && isVertical) {
+        timeToRender = this._isUpright(line[i]) || this._isUpright(line[i + 1]);
+      }
       if (timeToRender) {
         style = this._getStyleDeclaration(lineIndex, i);
-        textSpans.push(
-          this._createTextCharSpan(
-            charsToRender,
-            style,
-            textLeftOffset,
-            textTopOffset
-          )
-        );
+        if (isVertical && this._isUpright(charsToRender)) {
+          // the glyph turns around its origin, placed to center it in its box like when rendering
+          const fontSize = this.getHeightOfChar(lineIndex, i),
+            boxLeft =
+              this.direction === 'rtl'
+                ? textLeftOffset - boxWidth
+                : textLeftOffset;
+          textSpans.push(
+            this._createTextCharSpan(
+              charsToRender,
+              style,
+              boxLeft +
+                boxWidth / 2 +
+                (0.5 - this._fontSizeFraction) * fontSize,
+              textTopOffset + this._fontSizeFraction * fontSize,
+              -90
+            )
+          );
+        } else {
+          textSpans.push(
+            this._createTextCharSpan(
+              charsToRender,
+              style,
+              textLeftOffset,
+              textTopOffset
+            )
+          );
+        }
         charsToRender = '';
         actualStyle = nextStyle;
         if (this.direction === 'rtl') {
@@ -223,6 +272,76 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     }
   }
 
+  /**
+   * Creates a span for each run of graphemes of the same level and style of a line mixing directions,
+   * positioned at the side of the run where the line starts, see {@link FabricText#_layoutBidiLine}
+   * @private
+   */
+  private _setSVGBidiTextLineText(
+    this: TextSVGExportMixin & FabricText,
+    textSpans: string[],
+    lineIndex: number,
+    textLeftOffset: number,
+    textTop: number
+  ) {
+    const isJustify = this._getLineTextAlign(lineIndex).includes(JUSTIFY),
+      line = this._getRenderedLines()[lineIndex],
+      lineBounds = this.__charBounds[lineIndex],
+      sign = this.direction === 'rtl' ? -1 : 1;
+    let charsToRender = '',
+      runStart = Infinity;
+    for (let i = 0, len = line.length - 1; i <= len; i++) {
+      charsToRender += line[i];
+      runStart = Math.min(runStart, lineBounds[i].left);
+      if (
+        i === len ||
+        this.charSpacing ||
+        (isJustify && this._reSpaceAndTab.test(line[i])) ||
+        this._getBidiLevel(lineIndex, i) !==
+          this._getBidiLevel(lineIndex, i + 1) ||
+        hasStyleChanged(
+          this.getCompleteStyleDeclaration(lineIndex, i),
+          this.getCompleteStyleDeclaration(lineIndex, i + 1),
+          true
+        )
+      ) {
+        textSpans.push(
+          this._createTextCharSpan(
+            charsToRender,
+            this._getStyleDeclaration(lineIndex, i),
+            textLeftOffset + sign * runStart,
+            textTop
+          )
+        );
+        charsToRender = '';
+        runStart = Infinity;
+      }
+    }
+  }
+
+  private _setSVGTextLineMarker(
+    this: TextSVGExportMixin & FabricText,
+    textSpans: string[],
+    lineIndex: number,
+    textTopOffset: number
+  ) {
+    const marker = this._getLineMarker(lineIndex);
+    if (!marker) {
+      return;
+    }
+    textSpans.push(
+      this._createTextCharSpan(
+        marker.text,
+        this._getStyleDeclaration(lineIndex, 0),
+        this.direction === 'rtl'
+          ? this._getInlineSize() / 2 - marker.left
+          : -this._getInlineSize() / 2 + marker.left,
+        textTopOffset +
+          this.getHeightOfLineText(lineIndex) * (1 - this._fontSizeFraction)
+      )
+    );
+  }
+
   private _setSVGTextLineBg(
     this: TextSVGExportMixin & FabricText,
     textBgRects: (string | number)[],
@@ -230,16 +349,19 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
     leftOffset: number,
     textTopOffset: number
   ) {
-    const line = this._textLines[i],
-      heightOfLine = this.getHeightOfLine(i) / this.lineHeight;
+    const line = this._getRenderedLines()[i],
+      heightOfLine = this.getHeightOfLineText(i);
     let boxWidth = 0,
-      boxStart = 0,
+      boxStart = this.__charBounds[i][0].left,
       currentColor,
       lastColor = this.getValueOfPropertyAt(i, 0, 'textBackgroundColor');
     for (let j = 0; j < line.length; j++) {
       const { left, width, kernedWidth } = this.__charBounds[i][j];
       currentColor = this.getValueOfPropertyAt(i, j, 'textBackgroundColor');
-      if (currentColor !== lastColor) {
+      if (
+        currentColor !== lastColor ||
+        (j > 0 && this._getBidiLevel(i, j) !== this._getBidiLevel(i, j - 1))
+      ) {
         lastColor &&
           textBgRects.push(
             ...createSVGInlineRect(
@@ -254,6 +376,7 @@ export class TextSVGExportMixin extends FabricObjectSVGExportMixin {
         boxWidth = width;
         lastColor = currentColor;
       } else {
+        boxStart = Math.min(boxStart, left);
         boxWidth += kernedWidth;
       }
     }
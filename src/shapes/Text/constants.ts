@@ -26,6 +26,7 @@ export const textLayoutProperties: string[] = [
   'pathStartOffset',
   'pathSide',
   'pathAlign',
+  'writingMode',
 ];
 
 export const additionalProps = [
@@ -101,6 +102,7 @@ export const textDefaultValues: Partial<TClassProperties<FabricText>> = {
   charSpacing: 0,
   deltaY: 0,
   direction: 'ltr',
+  writingMode: 'horizontal-tb',
   CACHE_FONT_SIZE: 400,
   MIN_TEXT_WIDTH: 2,
 };
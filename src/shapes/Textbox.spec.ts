@@ -1,4 +1,4 @@
-import '../../jest.extend';
+import { mockGlyphWidths } from '../../jest.extend';
 import { Textbox } from './Textbox';
 
 describe('Textbox', () => {
@@ -85,4 +85,273 @@ describe('Textbox', () => {
       }
     }
   });
+
+  describe('sizingMode', () => {
+    mockGlyphWidths();
+
+    it('auto-width does not wrap lines', () => {
+      const textbox = new Textbox('abc def\nab', {
+        fontSize: 400,
+        width: 20,
+        sizingMode: 'auto-width',
+      });
+      expect(textbox.textLines).toEqual(['abc def', 'ab']);
+      expect(textbox.width).toBe(textbox.calcTextWidth());
+      textbox.set('text', 'abc');
+      expect(textbox.width).toBe(textbox.getLineWidth(0));
+    });
+
+    it('maxLines limits the visible lines', () => {
+      const textbox = new Textbox('aaa bbb ccc', {
+        fontSize: 400,
+        width: 35,
+        maxLines: 2,
+      });
+      expect(textbox.textLines).toEqual(['aaa', 'bbb', 'ccc']);
+      expect(textbox._getRenderedLines()).toEqual([
+        ['a', 'a', 'a'],
+        ['b', 'b', 'b'],
+      ]);
+      expect(textbox.height).toBeCloseTo(
+        textbox.getHeightOfLine(0) + textbox.getHeightOfLine(1) / 1.16
+      );
+      expect(textbox.toSVG()).not.toContain('ccc');
+    });
+
+    it('ellipsis ends the last visible line', () => {
+      const textbox = new Textbox('aaa bbb ccc', {
+        fontSize: 400,
+        width: 35,
+        maxLines: 2,
+        overflow: 'ellipsis',
+      });
+      expect(textbox._getRenderedLines()).toEqual([
+        ['a', 'a', 'a'],
+        ['b', 'b', '\u2026'],
+      ]);
+      expect(textbox.toSVG()).toContain('bb\u2026');
+    });
+
+    it('fixed-height hides overflowing lines', () => {
+      const textbox = new Textbox('aaa bbb ccc', {
+        fontSize: 400,
+        width: 35,
+        sizingMode: 'fixed-height',
+      });
+      const lineHeight = textbox.getHeightOfLine(0);
+      textbox.set('height', lineHeight * 1.5);
+      expect(textbox.height).toBe(lineHeight * 1.5);
+      expect(textbox._getRenderedLines()).toEqual([['a', 'a', 'a']]);
+      textbox.set('height', lineHeight * 3);
+      expect(textbox._getRenderedLines()).toHaveLength(3);
+    });
+
+    it('shrink-to-fit scales the text down keeping its font sizes', () => {
+      const textbox = new Textbox('aaa bbb ccc', {
+        fontSize: 400,
+        width: 40,
+        height: 500,
+        sizingMode: 'shrink-to-fit',
+        styles: { 0: { 0: { fontSize: 800 } } },
+      });
+      const scale = textbox._fitScale;
+      expect(scale).toBeLessThan(1);
+      expect(textbox.fontSize).toBe(400);
+      expect(textbox.styles[0][0].fontSize).toBe(800);
+      expect(textbox.height).toBe(500);
+      expect(textbox.calcTextHeight() * scale).toBeLessThanOrEqual(500);
+      expect(textbox._getRenderedLines()).toHaveLength(
+        textbox._textLines.length
+      );
+      const object = textbox.toObject();
+      expect(object.fontSize).toBe(400);
+      expect(object).not.toHaveProperty('_fitScale');
+      expect(Textbox.getDefaults()).not.toHaveProperty('_fitScale');
+      expect(textbox.toSVG()).toContain(
+        `transform="scale(${Number(scale.toFixed(4))})"`
+      );
+    });
+
+    it('shrink-to-fit text grows back when it gets shorter', () => {
+      const textbox = new Textbox('aaa bbb ccc', {
+        fontSize: 400,
+        width: 40,
+        height: 500,
+        sizingMode: 'shrink-to-fit',
+      });
+      expect(textbox._fitScale).toBeLessThan(1);
+      textbox.set('text', 'a');
+      expect(textbox._fitScale).toBe(1);
+      expect(textbox.fontSize).toBe(400);
+    });
+  });
+
+  describe('paragraphStyles', () => {
+    mockGlyphWidths();
+
+    it('indents wrap and offset the lines of a paragraph', () => {
+      const textbox = new Textbox('aaa bbb ccc', {
+        fontSize: 400,
+        width: 80,
+        paragraphStyles: { 0: { indent: 20, firstLineIndent: 20 } },
+      });
+      expect(textbox.textLines).toEqual(['aaa', 'bbb', 'ccc']);
+      expect(textbox._getLineLeftOffset(0)).toBe(40);
+      expect(textbox._getLineLeftOffset(1)).toBe(20);
+      textbox.set('paragraphStyles', {
+        0: { indent: 20, firstLineIndent: -20 },
+      });
+      expect(textbox.textLines).toEqual(['aaa bbb', 'ccc']);
+      expect(textbox._getLineLeftOffset(0)).toBe(0);
+    });
+
+    it('paragraphs override the alignment of the text', () => {
+      const textbox = new Textbox('aa\nbb\nc c', {
+        fontSize: 400,
+        width: 100,
+        paragraphStyles: {
+          1: { textAlign: 'right' },
+          2: { textAlign: 'justify' },
+        },
+      });
+      expect(textbox._getLineLeftOffset(0)).toBe(0);
+      expect(textbox._getLineLeftOffset(1)).toBe(80);
+      expect(textbox.__charBounds[2][2].left).toBe(90);
+    });
+
+    it('list items are indented and numbered by level', () => {
+      const textbox = new Textbox('one\ntwo\nsub\nthree\nend', {
+        fontSize: 400,
+        width: 200,
+        paragraphStyles: {
+          0: { listType: 'number' },
+          1: { listType: 'number' },
+          2: { listType: 'number', listLevel: 1 },
+          3: { listType: 'number' },
+          4: { listType: 'bullet', listLevel: 1 },
+        },
+      });
+      expect(textbox._listMarkers).toEqual(['1.', '2.', '1.', '3.', '\u25e6']);
+      expect(textbox._getLineLeftOffset(0)).toBe(24);
+      expect(textbox._getLineLeftOffset(2)).toBe(48);
+      expect(textbox._getLineMarker(2)).toEqual({ text: '1.', left: 24 });
+      const svg = textbox.toSVG();
+      expect(svg).toContain('>3.</tspan>');
+      expect(svg).toContain('>\u25e6</tspan>');
+    });
+
+    it('space is added between paragraphs', () => {
+      const textbox = new Textbox('a\nb', { fontSize: 400, width: 100 });
+      const height = textbox.height,
+        lineHeight = textbox.getHeightOfLine(0);
+      textbox.set('paragraphStyles', {
+        0: { spaceAfter: 10, spaceBefore: 20 },
+        1: { spaceBefore: 5, spaceAfter: 20 },
+      });
+      expect(textbox.height).toBeCloseTo(height + 15);
+      expect(textbox.getHeightOfLine(0)).toBeCloseTo(lineHeight + 15);
+      expect(textbox.getHeightOfLineText(0)).toBeCloseTo(lineHeight / 1.16);
+    });
+
+    it('paragraph styles follow the edits of the text', () => {
+      const textbox = new Textbox('ab\ncd', {
+        paragraphStyles: { 0: { listType: 'bullet' }, 1: { indent: 10 } },
+      });
+      textbox.insertChars('\n', undefined, 1);
+      expect(textbox.paragraphStyles).toEqual({
+        0: { listType: 'bullet' },
+        1: { listType: 'bullet' },
+        2: { indent: 10 },
+      });
+      textbox.removeChars(3);
+      expect(textbox.text).toBe('a\nbcd');
+      expect(textbox.paragraphStyles).toEqual({
+        0: { listType: 'bullet' },
+        1: { listType: 'bullet' },
+      });
+      textbox.setParagraphStyles(
+        { listType: undefined, textAlign: 'center' },
+        3
+      );
+      expect(textbox.getParagraphStyles(0, 3)).toEqual([
+        { listType: 'bullet' },
+        { textAlign: 'center' },
+      ]);
+      const { paragraphStyles } = textbox.toObject();
+      expect(paragraphStyles).toEqual(textbox.paragraphStyles);
+      expect(paragraphStyles[1]).not.toBe(textbox.paragraphStyles[1]);
+    });
+  });
+
+  describe('lineBreak', () => {
+    mockGlyphWidths();
+
+    it('wraps ideographs without spaces', () => {
+      const text = '漢字漢字漢字';
+      const textbox = new Textbox(text, { fontSize: 400, width: 25 });
+      expect(textbox.textLines).toEqual([text]);
+      textbox.set({ lineBreak: 'unicode', width: 25 });
+      expect(textbox.textLines).toEqual(['漢字', '漢字', '漢字']);
+      expect(textbox.width).toBe(25);
+      expect(textbox.missingNewlineOffset(0)).toBe(0);
+      expect(textbox.toObject().lineBreak).toBe('unicode');
+    });
+
+    it('breaks at soft hyphens rendering a hyphen', () => {
+      const textbox = new Textbox('aaa\u00adbbb', {
+        fontSize: 400,
+        width: 50,
+        lineBreak: 'unicode',
+      });
+      expect(textbox.textLines).toEqual(['aaa\u00ad', 'bbb']);
+      expect(textbox._getRenderedLines().map((line) => line.join(''))).toEqual([
+        'aaa-',
+        'bbb',
+      ]);
+      expect(textbox.getLineWidth(0)).toBe(40);
+      expect(textbox.getLineWidth(1)).toBe(30);
+    });
+
+    it('hyphenates words with the hyphenate hook', () => {
+      class HyphenatingTextbox extends Textbox {
+        hyphenate(word: string[]) {
+          return word.join('') === 'abcdef' ? [3] : [];
+        }
+      }
+      const textbox = new HyphenatingTextbox('x abcdef', {
+        fontSize: 400,
+        width: 70,
+        lineBreak: 'unicode',
+      });
+      expect(textbox.textLines).toEqual(['x abc', 'def']);
+      expect(textbox._getRenderedLines().map((line) => line.join(''))).toEqual([
+        'x abc-',
+        'def',
+      ]);
+    });
+  });
+
+  describe('writingMode', () => {
+    mockGlyphWidths();
+
+    it('wraps vertical lines at the height of the box', () => {
+      const textbox = new Textbox('aa bb cc', {
+        fontSize: 400,
+        height: 55,
+        writingMode: 'vertical-rl',
+      });
+      expect(textbox.textLines).toEqual(['aa bb', 'cc']);
+      expect(textbox.height).toBe(55);
+      expect(textbox.width).toBe(textbox.calcTextHeight());
+    });
+
+    it('grows the height of vertical auto width boxes', () => {
+      const textbox = new Textbox('aa bb', {
+        fontSize: 400,
+        sizingMode: 'auto-width',
+        writingMode: 'vertical-rl',
+      });
+      expect(textbox.height).toBe(50);
+    });
+  });
 });
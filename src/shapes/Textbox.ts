@@ -6,7 +6,8 @@ import { JUSTIFY } from './Text/constants';
 import type { TextStyleDeclaration } from './Text/StyledText';
 import type { SerializedITextProps, ITextProps } from './IText/IText';
 import type { ITextEvents } from './IText/ITextBehavior';
-import type { TextLinesInfo } from './Text/Text';
+import type { GraphemeBBox, TextLinesInfo } from './Text/Text';
+import { findLineBreaks } from '../util/misc/lineBreak';
 
 // @TODO: Many things here are configuration related and shouldn't be on the class nor prototype
 // regexes, list of properties that are not suppose to change by instances, magic consts.
@@ -18,12 +19,104 @@ export const textboxDefaultValues: Partial<TClassProperties<Textbox>> = {
   noScaleCache: false,
   _wordJoiners: /[ \t\r]/,
   splitByGrapheme: false,
+  sizingMode: 'wrap',
+  overflow: 'hidden',
+  maxLines: 0,
+  minFontSize: 1,
+  listIndent: 24,
+  lineBreak: 'spaces',
 };
 
+/**
+ * How a {@link Textbox} is sized, see {@link Textbox#sizingMode}
+ */
+export type TTextboxSizingMode =
+  | 'wrap'
+  | 'auto-width'
+  | 'shrink-to-fit'
+  | 'fixed-height';
+
+/**
+ * How lines overflowing a {@link Textbox} are hidden, see {@link Textbox#overflow}
+ */
+export type TTextboxOverflow = 'hidden' | 'ellipsis';
+
+/**
+ * Where lines of a {@link Textbox} can break, see {@link Textbox#lineBreak}
+ */
+export type TTextboxLineBreak = 'spaces' | 'unicode';
+
+const ELLIPSIS = '\u2026';
+
+const SOFT_HYPHEN = '\u00ad';
+
+const HYPHEN = '-';
+
+/**
+ * The list markers of the nesting levels of bulleted lists
+ */
+const BULLETS = ['\u2022', '\u25e6', '\u25aa'];
+
+/**
+ * The kind of list a paragraph belongs to, see {@link TParagraphStyle}
+ */
+export type TParagraphListType = 'bullet' | 'number';
+
+/**
+ * The style of a paragraph of a {@link Textbox}, see {@link Textbox#paragraphStyles}
+ */
+export type TParagraphStyle = {
+  /**
+   * Overrides the alignment of the text, see {@link Textbox#textAlign}
+   */
+  textAlign?: string;
+  /**
+   * Space left empty at the start of the lines
+   */
+  indent?: number;
+  /**
+   * Space added to the indent of the first line, negative values make a hanging indent
+   */
+  firstLineIndent?: number;
+  /**
+   * Space added above the paragraph, when it follows another one
+   */
+  spaceBefore?: number;
+  /**
+   * Space added below the paragraph, when another one follows it
+   */
+  spaceAfter?: number;
+  /**
+   * Makes the paragraph an item of a bulleted or numbered list
+   */
+  listType?: TParagraphListType;
+  /**
+   * Nesting level of the list item, starting from 0
+   */
+  listLevel?: number;
+};
+
+/**
+ * Paragraph styles keyed by the index of their line, counting only new lines
+ */
+export type TParagraphStyles = Record<number, TParagraphStyle>;
+
 export type GraphemeData = {
   wordsData: {
     word: string[];
     width: number;
+    /**
+     * width of the trailing spaces of the word, that can overflow the line
+     */
+    spaceWidth?: number;
+    /**
+     * the line can break after the word with a hyphen
+     */
+    hyphen?: boolean;
+    /**
+     * the line must break after the word
+     */
+    required?: boolean;
   }[][];
   largestWordWidth: number;
 };
@@ -36,11 +129,29 @@ interface UniqueTextboxProps {
   splitByGrapheme: boolean;
   dynamicMinWidth: number;
   _wordJoiners: RegExp;
+  sizingMode: TTextboxSizingMode;
+  overflow: TTextboxOverflow;
+  maxLines: number;
+  minFontSize: number;
+  paragraphStyles: TParagraphStyles;
+  listIndent: number;
+  lineBreak: TTextboxLineBreak;
 }
 
 export interface SerializedTextboxProps
   extends SerializedITextProps,
-    Pick<UniqueTextboxProps, 'minWidth' | 'splitByGrapheme'> {}
+    Pick<
+      UniqueTextboxProps,
+      | 'minWidth'
+      | 'splitByGrapheme'
+      | 'sizingMode'
+      | 'overflow'
+      | 'maxLines'
+      | 'minFontSize'
+      | 'paragraphStyles'
+      | 'listIndent'
+      | 'lineBreak'
+    > {}
 
 export interface TextboxProps extends ITextProps, UniqueTextboxProps {}
 
@@ -48,7 +159,7 @@ export interface TextboxProps extends ITextProps, UniqueTextboxProps {}
  * Textbox class, based on IText, allows the user to resize the text rectangle
  * and wraps lines automatically. Textboxes have their Y scaling locked, the
  * user can only change width. Height is adjusted automatically based on the
- * wrapping of lines.
+ * wrapping of lines, unless {@link sizingMode} fixes it.
  */
 export class Textbox<
     Props extends TOptions<TextboxProps> = Partial<TextboxProps>,
@@ -82,15 +193,112 @@ export class Textbox<
    */
   declare splitByGrapheme: boolean;
 
+  /**
+   * How the box is sized:
+   * - `wrap`: lines wrap to `width` and `height` follows the lines
+   * - `auto-width`: lines don't wrap, `width` and `height` follow the lines
+   * - `shrink-to-fit`: lines wrap to `width` and the text is scaled down until the lines fit `height`,
+   * as if its font size was reduced down to {@link minFontSize}, leaving `fontSize` and the styles as they are
+   * - `fixed-height`: lines wrap to `width`, lines overflowing `height` are hidden, see {@link overflow}
+   * @type TTextboxSizingMode
+   * @default
+   */
+  declare sizingMode: TTextboxSizingMode;
+
+  /**
+   * How lines overflowing `height` in the `shrink-to-fit` and `fixed-height` modes or exceeding {@link maxLines} are hidden:
+   * `hidden` leaves them out, `ellipsis` also ends the last visible line with an ellipsis.
+   * Hidden lines are still part of the text and can be edited
+   * @type TTextboxOverflow
+   * @default
+   */
+  declare overflow: TTextboxOverflow;
+
+  /**
+   * Maximum number of visible lines, 0 for no limit
+   * @type Number
+   * @default
+   */
+  declare maxLines: number;
+
+  /**
+   * Minimum font size of the `shrink-to-fit` mode
+   * @type Number
+   * @default
+   */
+  declare minFontSize: number;
+
+  /**
+   * Styles of the paragraphs, the lines ended by new lines, keyed by their index.
+   * Lists are indented by {@link listIndent} for each level and their markers are drawn in the indent,
+   * the items of numbered lists are numbered by level until a paragraph that is not a list item.
+   * Use {@link setParagraphStyles} to change them while editing
+   * @type TParagraphStyles
+   * @default
+   */
+  declare paragraphStyles: TParagraphStyles;
+
+  /**
+   * Indent of each level of the lists, see {@link paragraphStyles}
+   * @type Number
+   * @default
+   */
+  declare listIndent: number;
+
+  /**
+   * Where lines can break when wrapping:
+   * - `spaces`: at {@link _wordJoiners}
+   * - `unicode`: following the Unicode line breaking algorithm (UAX #14), see {@link findLineBreaks},
+   * so that text of scripts not using spaces wraps too and punctuation is kept with its words.
+   * Lines also break at soft hyphens and at the hyphenation points found by {@link hyphenate}, ending with a hyphen.
+   * Wrapped lines keep their trailing spaces.
+   *
+   * Ignored if {@link splitByGrapheme} is true
+   * @type TTextboxLineBreak
+   * @default
+   */
+  declare lineBreak: TTextboxLineBreak;
+
   declare _wordJoiners: RegExp;
 
   declare _styleMap: StyleMap;
 
   declare isWrapping: boolean;
 
+  /**
+   * Lines to render, leaving out overflowing lines
+   */
+  declare _visibleLines: string[][];
+
+  /**
+   * List markers of the paragraphs
+   */
+  declare _listMarkers: string[];
+
+  /**
+   * Wrapped lines ending with a hyphen, see {@link lineBreak}
+   */
+  declare _hyphenatedLines: boolean[];
+
+  /**
+   * Scale of the text fitting the box in the `shrink-to-fit` mode, computed by {@link initDimensions}, see {@link sizingMode}
+   */
+  declare _fitScale: number;
+
   static type = 'Textbox';
 
-  static textLayoutProperties = [...IText.textLayoutProperties, 'width'];
+  static textLayoutProperties = [
+    ...IText.textLayoutProperties,
+    'width',
+    'height',
+    'sizingMode',
+    'overflow',
+    'maxLines',
+    'minFontSize',
+    'paragraphStyles',
+    'listIndent',
+    'lineBreak',
+  ];
 
   static ownDefaults: Record<string, any> = textboxDefaultValues;
 
@@ -102,9 +310,17 @@ export class Textbox<
     };
   }
 
+  constructor(text: string, options?: Props) {
+    super(text, {
+      ...options,
+      paragraphStyles: options?.paragraphStyles || {},
+    } as Props);
+  }
+
   /**
    * Unlike superclass's version of this function, Textbox does not update
-   * its width.
+   * its width, unless {@link sizingMode} is `auto-width`.
+   * Vertical lines wrap at the height of the box instead, see {@link writingMode}.
    * @private
    * @override
    */
@@ -113,21 +329,421 @@ export class Textbox<
       return;
     }
     this.isEditing && this.initDelayedCursor();
+    this._fitScale = 1;
+    if (this.sizingMode === 'shrink-to-fit') {
+      this._shrinkToFit();
+    } else {
+      this._layoutLines();
+    }
+    this._visibleLines = this._calcVisibleLines();
+    this._listMarkers = this._calcListMarkers();
+  }
+
+  /**
+   * @private
+   * Wraps lines and updates the dimensions of the box
+   */
+  _layoutLines() {
     this._clearCache();
     // clear dynamicMinWidth as it will be different after we re-wrap line
     this.dynamicMinWidth = 0;
     // wrap lines
     this._styleMap = this._generateStyleMap(this._splitText());
+    // vertical lines run along the height of the box
+    const [inlineKey, blockKey] = this._isVertical()
+      ? (['height', 'width'] as const)
+      : (['width', 'height'] as const);
+    const scale = this._getTextScale();
+    if (this.sizingMode === 'auto-width') {
+      this._set(
+        inlineKey,
+        (this.calcTextWidth() || this.cursorWidth || this.MIN_TEXT_WIDTH) *
+          scale
+      );
+    }
     // if after wrapping, the width is smaller than dynamicMinWidth, change the width and re-wrap
-    if (this.dynamicMinWidth > this.width) {
-      this._set('width', this.dynamicMinWidth);
+    if (this.dynamicMinWidth > this._getInlineSize()) {
+      this._set(inlineKey, this.dynamicMinWidth * scale);
     }
-    if (this.textAlign.includes(JUSTIFY)) {
+    if (
+      this.textAlign.includes(JUSTIFY) ||
+      Object.values(this.paragraphStyles).some(({ textAlign }) =>
+        textAlign?.includes(JUSTIFY)
+      )
+    ) {
       // once text is measured we need to make space fatter to make justified text.
       this.enlargeSpaces();
     }
     // clear cache and re-calculate height
-    this.height = this.calcTextHeight();
+    if (!this._hasFixedHeight()) {
+      this[blockKey] = this._calcHeightOfLines(this._getMaxLineCount()) * scale;
+    }
+  }
+
+  /**
+   * @private
+   * @returns true if `height` is set by the user rather than following the lines
+   */
+  _hasFixedHeight() {
+    return (
+      this.sizingMode === 'shrink-to-fit' || this.sizingMode === 'fixed-height'
+    );
+  }
+
+  /**
+   * @private
+   * @returns the number of lines allowed by {@link maxLines}
+   */
+  _getMaxLineCount() {
+    return this.maxLines > 0
+      ? Math.min(this.maxLines, this._textLines.length)
+      : this._textLines.length;
+  }
+
+  /**
+   * @private
+   * @returns the height of the first `count` lines, like {@link calcTextHeight}
+   */
+  _calcHeightOfLines(count: number) {
+    let height = 0;
+    for (let i = 0; i < count; i++) {
+      height +=
+        i === count - 1 ? this.getHeightOfLineText(i) : this.getHeightOfLine(i);
+    }
+    return height;
+  }
+
+  /**
+   * @private
+   * Scales the text down until the lines fit the box, searching the largest integer font size
+   * between {@link minFontSize} and the current one, see {@link _fitScale}
+   */
+  _shrinkToFit() {
+    const fits = () =>
+      this.dynamicMinWidth <= this._getInlineSize() &&
+      (this.maxLines <= 0 || this._textLines.length <= this.maxLines) &&
+      this._calcHeightOfLines(this._textLines.length) <= this._getBlockSize();
+    this._layoutLines();
+    if (fits() || this.fontSize <= this.minFontSize) {
+      return;
+    }
+    const fontSize = this.fontSize;
+    const setFontSize = (size: number) => {
+      this._fitScale = size / fontSize;
+      this._layoutLines();
+    };
+    let low = Math.min(this.minFontSize, fontSize),
+      high = Math.ceil(fontSize);
+    setFontSize(low);
+    if (!fits()) {
+      // overflowing lines are hidden
+      return;
+    }
+    while (high - low > 1) {
+      const size = Math.floor((low + high) / 2);
+      setFontSize(size);
+      if (fits()) {
+        low = size;
+      } else {
+        high = size;
+      }
+    }
+    this._fitScale !== low / fontSize && setFontSize(low);
+  }
+
+  /**
+   * @override the text is scaled to fit the box in the `shrink-to-fit` mode, see {@link sizingMode}
+   */
+  _getTextScale() {
+    return this._fitScale;
+  }
+
+  /**
+   * @private
+   * @returns the lines to render, leaving out lines overflowing the box or {@link maxLines},
+   * the last visible line ends with an ellipsis if {@link overflow} is `ellipsis`
+   */
+  _calcVisibleLines(): string[][] {
+    let count = this._getMaxLineCount();
+    if (this._hasFixedHeight()) {
+      let height = 0;
+      for (let i = 0; i < count; i++) {
+        if (height + this.getHeightOfLineText(i) > this._getBlockSize()) {
+          count = i;
+          break;
+        }
+        height += this.getHeightOfLine(i);
+      }
+    }
+    const lines = this._textLines
+      .slice(0, count)
+      .map((line, lineIndex) =>
+        this._hyphenatedLines[lineIndex]
+          ? [...this._hideSoftHyphens(line), HYPHEN]
+          : this._hideSoftHyphens(line)
+      );
+    if (
+      count === 0 ||
+      count === this._textLines.length ||
+      this.overflow !== 'ellipsis'
+    ) {
+      return lines;
+    }
+    // drop the characters and spaces that leave no room for the ellipsis
+    const lineIndex = count - 1,
+      line = this._textLines[lineIndex];
+    // measuring the line sets its char bounds
+    this.getLineWidth(lineIndex);
+    const bounds = this.__charBounds[lineIndex],
+      width = this._getInlineSize() - this._getLineIndent(lineIndex);
+    let length = line.length;
+    while (
+      length > 0 &&
+      (this._reSpaceAndTab.test(line[length - 1]) ||
+        bounds[length - 1].left +
+          bounds[length - 1].kernedWidth +
+          this._measureWord([ELLIPSIS], lineIndex, length) >
+          width)
+    ) {
+      length--;
+    }
+    lines[lineIndex] = [
+      ...this._hideSoftHyphens(line.slice(0, length)),
+      ELLIPSIS,
+    ];
+    return lines;
+  }
+
+  /**
+   * @private
+   * @returns the graphemes of a line, soft hyphens being invisible when {@link lineBreak} is `unicode`
+   */
+  _hideSoftHyphens(line: string[]): string[] {
+    return this._isBreakingAtUnicode() && line.includes(SOFT_HYPHEN)
+      ? line.map((grapheme) => (grapheme === SOFT_HYPHEN ? '' : grapheme))
+      : line;
+  }
+
+  /**
+   * @private
+   * @returns true if lines break following {@link lineBreak} `unicode`
+   */
+  _isBreakingAtUnicode() {
+    return this.lineBreak === 'unicode' && !this.splitByGrapheme;
+  }
+
+  /**
+   * Soft hyphens have no width, see {@link lineBreak}
+   * @private
+   * @override
+   */
+  _getGraphemeBox(
+    grapheme: string,
+    lineIndex: number,
+    charIndex: number,
+    prevGrapheme?: string,
+    skipLeft?: boolean
+  ): GraphemeBBox {
+    return super._getGraphemeBox(
+      grapheme === SOFT_HYPHEN && this._isBreakingAtUnicode() ? '' : grapheme,
+      lineIndex,
+      charIndex,
+      prevGrapheme,
+      skipLeft
+    );
+  }
+
+  /**
+   * Lines ending with a hyphen are wider, see {@link lineBreak}
+   * @override
+   */
+  measureLine(lineIndex: number) {
+    const lineInfo = super.measureLine(lineIndex);
+    if (this._hyphenatedLines[lineIndex]) {
+      lineInfo.width += this._measureWord(
+        [HYPHEN],
+        lineIndex,
+        Math.max(this._textLines[lineIndex].length - 1, 0)
+      );
+    }
+    return lineInfo;
+  }
+
+  /**
+   * @private
+   * @override
+   */
+  _getRenderedLines(): string[][] {
+    return this._visibleLines || this._textLines;
+  }
+
+  /**
+   * @private
+   * @returns the indent of the first line of a paragraph and of its other lines
+   */
+  _getParagraphIndent(paragraphIndex: number): [number, number] {
+    const {
+        indent = 0,
+        firstLineIndent = 0,
+        listType,
+        listLevel = 0,
+      } = this.paragraphStyles[paragraphIndex] || {},
+      lineIndent = indent + (listType ? (listLevel + 1) * this.listIndent : 0);
+    return [Math.max(lineIndent + firstLineIndent, 0), lineIndent];
+  }
+
+  /**
+   * @private
+   * @returns the list markers of the paragraphs, numbering the items of numbered lists by level
+   */
+  _calcListMarkers(): string[] {
+    const counters: number[] = [];
+    return this._unwrappedTextLines.map((_, paragraphIndex) => {
+      const { listType, listLevel = 0 } =
+        this.paragraphStyles[paragraphIndex] || {};
+      if (!listType) {
+        counters.length = 0;
+        return '';
+      }
+      // deeper levels restart their numbering
+      counters.length = listLevel + 1;
+      if (listType === 'bullet') {
+        counters[listLevel] = 0;
+        return BULLETS[listLevel % BULLETS.length];
+      }
+      counters[listLevel] = (counters[listLevel] || 0) + 1;
+      return `${counters[listLevel]}.`;
+    });
+  }
+
+  /**
+   * @private
+   * @override
+   */
+  _getLineTextAlign(lineIndex: number): string {
+    const map = this._styleMap && this._styleMap[lineIndex];
+    return (map && this.paragraphStyles[map.line]?.textAlign) || this.textAlign;
+  }
+
+  /**
+   * @private
+   * @override
+   */
+  _getLineIndent(lineIndex: number): number {
+    const map = this._styleMap && this._styleMap[lineIndex];
+    if (!map) {
+      return 0;
+    }
+    const [firstLineIndent, lineIndent] = this._getParagraphIndent(map.line);
+    return map.offset === 0 ? firstLineIndent : lineIndent;
+  }
+
+  /**
+   * @private
+   * @override
+   */
+  _getSpaceAfterLine(lineIndex: number): number {
+    const map = this._styleMap && this._styleMap[lineIndex],
+      nextMap = this._styleMap && this._styleMap[lineIndex + 1];
+    if (!map || !nextMap || nextMap.line === map.line) {
+      return 0;
+    }
+    return (
+      (this.paragraphStyles[map.line]?.spaceAfter || 0) +
+      (this.paragraphStyles[nextMap.line]?.spaceBefore || 0)
+    );
+  }
+
+  /**
+   * @private
+   * @override
+   */
+  _getLineMarker(lineIndex: number) {
+    const map = this._styleMap && this._styleMap[lineIndex],
+      text = map && map.offset === 0 && this._listMarkers?.[map.line];
+    if (!text) {
+      return;
+    }
+    // the marker is at the start of the list indent of the first line
+    return {
+      text,
+      left: Math.max(this._getLineIndent(lineIndex) - this.listIndent, 0),
+    };
+  }
+
+  /**
+   * Returns the styles of the paragraphs of a selection
+   * @param {Number} [startIndex] Start index of the selection
+   * @param {Number} [endIndex] End index of the selection
+   * @returns {TParagraphStyle[]} the styles of the paragraphs
+   */
+  getParagraphStyles(
+    startIndex: number = this.selectionStart || 0,
+    endIndex: number = this.selectionEnd
+  ): TParagraphStyle[] {
+    const [start, end] = this._getParagraphRange(startIndex, endIndex),
+      styles: TParagraphStyle[] = [];
+    for (let i = start; i <= end; i++) {
+      styles.push({ ...this.paragraphStyles[i] });
+    }
+    return styles;
+  }
+
+  /**
+   * Extends the styles of the paragraphs of a selection, even if it is collapsed,
+   * `undefined` values remove a style
+   * @param {TParagraphStyle} style
+   * @param {Number} [startIndex] Start index of the selection
+   * @param {Number} [endIndex] End index of the selection
+   */
+  setParagraphStyles(
+    style: TParagraphStyle,
+    startIndex: number = this.selectionStart || 0,
+    endIndex: number = this.selectionEnd
+  ) {
+    const [start, end] = this._getParagraphRange(startIndex, endIndex);
+    for (let i = start; i <= end; i++) {
+      const paragraphStyle = { ...this.paragraphStyles[i], ...style };
+      (Object.keys(paragraphStyle) as (keyof TParagraphStyle)[]).forEach(
+        (key) => paragraphStyle[key] === undefined && delete paragraphStyle[key]
+      );
+      if (Object.keys(paragraphStyle).length > 0) {
+        this.paragraphStyles[i] = paragraphStyle;
+      } else {
+        delete this.paragraphStyles[i];
+      }
+    }
+    this.set('dirty', true);
+    this.initDimensions();
+    this.setCoords();
+  }
+
+  /**
+   * @private
+   * @returns the indexes of the first and last paragraphs of a selection
+   */
+  _getParagraphRange(startIndex: number, endIndex: number) {
+    return [
+      this.get2DCursorLocation(startIndex, true).lineIndex,
+      this.get2DCursorLocation(Math.max(startIndex, endIndex), true).lineIndex,
+    ];
+  }
+
+  /**
+   * Shifts paragraph styles up or down, like {@link shiftLineStyles}
+   * @private
+   * @param {Number} lineIndex Index of a line
+   * @param {Number} offset
+   */
+  _shiftParagraphStyles(lineIndex: number, offset: number) {
+    const paragraphStyles: TParagraphStyles = {};
+    for (const line in this.paragraphStyles) {
+      const numericLine = parseInt(line, 10);
+      paragraphStyles[
+        numericLine > lineIndex ? numericLine + offset : numericLine
+      ] = this.paragraphStyles[numericLine];
+    }
+    this.paragraphStyles = paragraphStyles;
   }
 
   /**
@@ -150,6 +766,7 @@ export class Textbox<
         realLineCount++;
       } else if (
         !this.splitByGrapheme &&
+        !this._isBreakingAtUnicode() &&
         this._reSpaceAndTab.test(textInfo.graphemeText[charCount]) &&
         i > 0
       ) {
@@ -313,7 +930,24 @@ export class Textbox<
     const data = this.getGraphemeDataForRender(lines);
     const wrapped: string[][] = [];
     for (let i = 0; i < data.wordsData.length; i++) {
-      wrapped.push(...this._wrapLine(i, desiredWidth, data));
+      const [firstLineIndent, lineIndent] = this._getParagraphIndent(i);
+      if (this._isBreakingAtUnicode()) {
+        const { lines, hyphens } = this._wrapLineAtBreaks(
+          i,
+          desiredWidth,
+          data,
+          lineIndent,
+          firstLineIndent
+        );
+        hyphens.forEach(
+          (hyphen, j) => (this._hyphenatedLines[wrapped.length + j] = hyphen)
+        );
+        wrapped.push(...lines);
+      } else {
+        wrapped.push(
+          ...this._wrapLine(i, desiredWidth, data, lineIndent, firstLineIndent)
+        );
+      }
     }
     this.isWrapping = false;
     return wrapped;
@@ -327,6 +961,9 @@ export class Textbox<
    *
    */
   getGraphemeDataForRender(lines: string[]): GraphemeData {
+    if (this._isBreakingAtUnicode()) {
+      return this._getGraphemeDataAtBreaks(lines);
+    }
     const splitByGrapheme = this.splitByGrapheme,
       infix = splitByGrapheme ? '' : ' ';
 
@@ -360,6 +997,75 @@ export class Textbox<
     };
   }
 
+  /**
+   * Like {@link getGraphemeDataForRender}, splitting lines at their line break opportunities
+   * and at the hyphenation points of their words, see {@link lineBreak}
+   * @private
+   * @param {string[]} lines the lines we need to measure
+   */
+  _getGraphemeDataAtBreaks(lines: string[]): GraphemeData {
+    let largestWordWidth = 0;
+
+    const data = lines.map((line, lineIndex) => {
+      const graphemes = this.graphemeSplit(line),
+        wordsData: GraphemeData['wordsData'][number] = [];
+      if (graphemes.length === 0) {
+        return [{ word: [], width: 0 }];
+      }
+      let start = 0;
+      [
+        ...findLineBreaks(graphemes),
+        { index: graphemes.length, required: false },
+      ].forEach(({ index, required }) => {
+        const segment = graphemes.slice(start, index);
+        let end = segment.length;
+        while (end > 0 && this._reSpaceAndTab.test(segment[end - 1])) {
+          end--;
+        }
+        const points = this.hyphenate(segment.slice(0, end), lineIndex)
+          .filter((point) => point > 0 && point < end)
+          .sort((a, b) => a - b);
+        let wordStart = 0;
+        [...points, segment.length].forEach((wordEnd, i, ends) => {
+          const word = segment.slice(wordStart, wordEnd),
+            isLast = i === ends.length - 1,
+            width = this._measureWord(word, lineIndex, start + wordStart),
+            spaceWidth = isLast
+              ? this._measureWord(segment.slice(end), lineIndex, start + end)
+              : 0;
+          largestWordWidth = Math.max(width - spaceWidth, largestWordWidth);
+          wordsData.push({
+            word,
+            width,
+            spaceWidth,
+            hyphen: !isLast || word[word.length - 1] === SOFT_HYPHEN,
+            required: isLast && required,
+          });
+          wordStart = wordEnd;
+        });
+        start = index;
+      });
+      return wordsData;
+    });
+
+    return {
+      wordsData: data,
+      largestWordWidth,
+    };
+  }
+
+  /**
+   * Override this method to hyphenate words when {@link lineBreak} is `unicode`,
+   * soft hyphens of the text are hyphenation points already
+   * @param {string[]} word the graphemes of a word, without its trailing spaces
+   * @param {number} lineIndex the index of the line of the word, counting only new lines
+   * @returns {number[]} the indexes of the graphemes of the word before which the line can break with a hyphen
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  hyphenate(word: string[], lineIndex: number): number[] {
+    return [];
+  }
+
   /**
    * Helper function to measure a string of text, given its lineIndex and charIndex offset
    * It gets called when charBounds are not available yet.
@@ -408,6 +1114,7 @@ export class Textbox<
    * @param {Number} desiredWidth width you want to wrap the line to
    * @param {GraphemeData} graphemeData an object containing all the lines' words width.
    * @param {Number} reservedSpace space to remove from wrapping for custom functionalities
+   * @param {Number} firstLineReservedSpace space to remove from wrapping the first line, defaults to reservedSpace
    * @returns {Array} Array of line(s) into which the given text is wrapped
    * to.
    */
@@ -415,7 +1122,8 @@ export class Textbox<
     lineIndex: number,
     desiredWidth: number,
     { largestWordWidth, wordsData }: GraphemeData,
-    reservedSpace = 0
+    reservedSpace = 0,
+    firstLineReservedSpace = reservedSpace
   ): string[][] {
     const additionalSpace = this._getWidthOfCharSpacing(),
       splitByGrapheme = this.splitByGrapheme,
@@ -429,6 +1137,12 @@ export class Textbox<
       infixWidth = 0,
       lineJustStarted = true;
 
+    const firstLineMaxWidth = Math.max(
+      desiredWidth - firstLineReservedSpace,
+      largestWordWidth,
+      this.dynamicMinWidth
+    );
+
     desiredWidth -= reservedSpace;
 
     const maxWidth = Math.max(
@@ -445,7 +1159,11 @@ export class Textbox<
       offset += word.length;
 
       lineWidth += infixWidth + wordWidth - additionalSpace;
-      if (lineWidth > maxWidth && !lineJustStarted) {
+      if (
+        lineWidth >
+          (graphemeLines.length === 0 ? firstLineMaxWidth : maxWidth) &&
+        !lineJustStarted
+      ) {
         graphemeLines.push(line);
         line = [];
         lineWidth = wordWidth;
@@ -471,12 +1189,76 @@ export class Textbox<
     // TODO: this code is probably not necessary anymore.
     // it can be moved out of this function since largestWordWidth is now
     // known in advance
+    reservedSpace = Math.max(reservedSpace, firstLineReservedSpace);
     if (largestWordWidth + reservedSpace > this.dynamicMinWidth) {
       this.dynamicMinWidth = largestWordWidth - additionalSpace + reservedSpace;
     }
     return graphemeLines;
   }
 
+  /**
+   * Wraps a line of text at the line break opportunities found by {@link getGraphemeDataForRender},
+   * like {@link _wrapLine}, see {@link lineBreak}.
+   * Trailing spaces don't wrap, hyphens take space at the end of the lines
+   * @private
+   * @param {Number} lineIndex
+   * @param {Number} desiredWidth width you want to wrap the line to
+   * @param {GraphemeData} graphemeData an object containing all the lines' words width.
+   * @param {Number} reservedSpace space to remove from wrapping for custom functionalities
+   * @param {Number} firstLineReservedSpace space to remove from wrapping the first line, defaults to reservedSpace
+   * @returns the lines into which the given text is wrapped and whether they end with a hyphen
+   */
+  _wrapLineAtBreaks(
+    lineIndex: number,
+    desiredWidth: number,
+    { largestWordWidth, wordsData }: GraphemeData,
+    reservedSpace = 0,
+    firstLineReservedSpace = reservedSpace
+  ) {
+    const hyphenWidth = this._measureWord([HYPHEN], lineIndex),
+      getMaxWidth = (space: number) =>
+        Math.max(desiredWidth - space, largestWordWidth, this.dynamicMinWidth),
+      maxWidth = getMaxWidth(reservedSpace),
+      firstLineMaxWidth = getMaxWidth(firstLineReservedSpace),
+      lines: string[][] = [],
+      hyphens: boolean[] = [];
+    let line: string[] = [],
+      lineWidth = 0,
+      hyphen = false;
+    const breakLine = () => {
+      lines.push(line);
+      hyphens.push(hyphen);
+      line = [];
+      lineWidth = 0;
+    };
+    wordsData[lineIndex].forEach(
+      ({ word, width, spaceWidth = 0, hyphen: wordHyphen, required }) => {
+        if (
+          line.length > 0 &&
+          lineWidth + width - spaceWidth + (wordHyphen ? hyphenWidth : 0) >
+            (lines.length > 0 ? maxWidth : firstLineMaxWidth)
+        ) {
+          breakLine();
+        }
+        line.push(...word);
+        lineWidth += width;
+        hyphen = !!wordHyphen;
+        if (required) {
+          hyphen = false;
+          breakLine();
+        }
+      }
+    );
+    hyphen = false;
+    (line.length > 0 || lines.length === 0) && breakLine();
+
+    reservedSpace = Math.max(reservedSpace, firstLineReservedSpace);
+    if (largestWordWidth + reservedSpace > this.dynamicMinWidth) {
+      this.dynamicMinWidth = largestWordWidth + reservedSpace;
+    }
+    return { lines, hyphens };
+  }
+
   /**
    * Detect if the text line is ended with an hard break
    * text and itext do not have wrapping, return false
@@ -503,7 +1285,10 @@ export class Textbox<
    * @return Number
    */
   missingNewlineOffset(lineIndex: number, skipWrapping?: boolean): 0 | 1 {
-    if (this.splitByGrapheme && !skipWrapping) {
+    if (
+      (this.splitByGrapheme || this._isBreakingAtUnicode()) &&
+      !skipWrapping
+    ) {
       return this.isEndOfWrapping(lineIndex) ? 1 : 0;
     }
     return 1;
@@ -517,8 +1302,12 @@ export class Textbox<
    * @override
    */
   _splitTextIntoLines(text: string) {
-    const newText = super._splitTextIntoLines(text),
-      graphemeLines = this._wrapText(newText.lines, this.width),
+    this._hyphenatedLines = [];
+    const newText = super._splitTextIntoLines(text);
+    if (this.sizingMode === 'auto-width') {
+      return newText;
+    }
+    const graphemeLines = this._wrapText(newText.lines, this._getInlineSize()),
       lines = new Array(graphemeLines.length);
     for (let i = 0; i < graphemeLines.length; i++) {
       lines[i] = graphemeLines[i].join('');
@@ -532,6 +1321,45 @@ export class Textbox<
     return Math.max(this.minWidth, this.dynamicMinWidth);
   }
 
+  /**
+   * Removes the paragraphs merged by the removal along with their styles
+   * @override
+   */
+  removeStyleFromTo(start: number, end: number) {
+    const lineStart = this.get2DCursorLocation(start, true).lineIndex,
+      lineEnd = this.get2DCursorLocation(end, true).lineIndex;
+    super.removeStyleFromTo(start, end);
+    if (lineStart !== lineEnd) {
+      for (let i = lineStart + 1; i <= lineEnd; i++) {
+        delete this.paragraphStyles[i];
+      }
+      this._shiftParagraphStyles(lineEnd, lineStart - lineEnd);
+    }
+  }
+
+  /**
+   * New paragraphs continue the style of the paragraph they are split from
+   * @override
+   */
+  insertNewlineStyleObject(
+    lineIndex: number,
+    charIndex: number,
+    qty: number,
+    copiedStyle?: { [index: number]: TextStyleDeclaration }
+  ) {
+    super.insertNewlineStyleObject(lineIndex, charIndex, qty, copiedStyle);
+    const paragraphStyle = this.paragraphStyles[lineIndex];
+    qty || (qty = 1);
+    this._shiftParagraphStyles(lineIndex, qty);
+    for (let i = 1; i <= qty; i++) {
+      if (paragraphStyle) {
+        this.paragraphStyles[lineIndex + i] = { ...paragraphStyle };
+      } else {
+        delete this.paragraphStyles[lineIndex + i];
+      }
+    }
+  }
+
   _removeExtraneousStyles() {
     const linesToKeep = new Map();
     for (const prop in this._styleMap) {
@@ -546,6 +1374,11 @@ export class Textbox<
         delete this.styles[prop];
       }
     }
+    for (const prop in this.paragraphStyles) {
+      if (!this._unwrappedTextLines[prop as unknown as number]) {
+        delete this.paragraphStyles[prop];
+      }
+    }
   }
 
   /**
@@ -559,11 +1392,27 @@ export class Textbox<
     T extends Omit<Props & TClassProperties<this>, keyof SProps>,
     K extends keyof T = never
   >(propertiesToInclude: K[] = []): Pick<T, K> & SProps {
-    return super.toObject<T, K>([
-      'minWidth',
-      'splitByGrapheme',
-      ...propertiesToInclude,
-    ] as K[]) as Pick<T, K> & SProps;
+    const paragraphStyles = Object.entries(this.paragraphStyles);
+    return {
+      ...super.toObject<T, K>([
+        'minWidth',
+        'splitByGrapheme',
+        'sizingMode',
+        'overflow',
+        'maxLines',
+        'minFontSize',
+        'listIndent',
+        'lineBreak',
+        ...propertiesToInclude,
+      ] as K[]),
+      ...(paragraphStyles.length > 0
+        ? {
+            paragraphStyles: Object.fromEntries(
+              paragraphStyles.map(([line, style]) => [line, { ...style }])
+            ),
+          }
+        : {}),
+    } as Pick<T, K> & SProps;
   }
 }
 
@@ -3,6 +3,7 @@ import { FabricObject } from './Object/FabricObject';
 import type { FabricObjectProps, SerializedObjectProps } from './Object/types';
 import type { TOptions } from '../typedefs';
 import type { ObjectEvents } from '../EventTypeDefs';
+import type { TSimplePathData } from '../util/path/typedefs';
 
 export const triangleDefaultValues = {
   width: 100,
@@ -42,6 +43,21 @@ export class Triangle<
     this._renderPaintInOrder(ctx);
   }
 
+  /**
+   * Returns the outline of the triangle as path data in its own plane
+   * @returns {TSimplePathData}
+   */
+  toPathData(): TSimplePathData {
+    const widthBy2 = this.width / 2,
+      heightBy2 = this.height / 2;
+    return [
+      ['M', -widthBy2, heightBy2],
+      ['L', 0, -heightBy2],
+      ['L', widthBy2, heightBy2],
+      ['Z'],
+    ];
+  }
+
   /**
    * Returns svg representation of an instance
    * @return {Array} an array of strings with the specific svg representation
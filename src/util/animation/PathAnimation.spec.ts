@@ -0,0 +1,94 @@
+import { Path } from '../../shapes/Path';
+import { PathAnimation } from './PathAnimation';
+import { animatePath } from './animate';
+import type { TSimplePathData } from '../path/typedefs';
+
+const linear = (t: number, b: number, c: number, d: number) => b + (c * t) / d;
+
+describe('PathAnimation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('converts both paths to compatible commands', () => {
+    const animation = new PathAnimation({
+      startValue: 'M 0 0 L 30 0 L 30 30 Z',
+      endValue: 'M 0 0 Q 15 15 30 0 Z',
+    });
+    expect(animation.startValue).toHaveLength(animation.endValue.length);
+    // the triangle has 3 curves, the closing one included
+    expect(animation.startValue).toHaveLength(2 + 3 * 6);
+    expect(animation.endValue.slice(-2)).toEqual([0, 0]);
+  });
+
+  it('morphs a path into another one', () => {
+    const values: TSimplePathData[] = [];
+    const onComplete = jest.fn();
+    animatePath({
+      startValue: 'M 0 0 L 30 0',
+      endValue: 'M 0 30 L 30 30',
+      duration: 100,
+      easing: linear,
+      onChange: (value) => values.push(value),
+      onComplete,
+    });
+    jest.advanceTimersByTime(200);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    const [end] = onComplete.mock.calls[0];
+    expect(end[0]).toEqual(['M', 0, 30]);
+    expect(end[1][0]).toBe('C');
+    expect(end[1].slice(-2)).toEqual([30, 30]);
+    values.forEach(([[, , y]]) => {
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(30);
+    });
+  });
+
+  it('adds subpaths to the path having less of them', () => {
+    const animation = new PathAnimation({
+      startValue: 'M 0 0 L 10 0 M 20 0 L 30 0',
+      endValue: 'M 0 0 L 10 10',
+    });
+    expect(animation.startValue).toHaveLength(animation.endValue.length);
+    // the missing subpath grows from the end of the path
+    expect(animation.endValue.slice(8)).toEqual([
+      10, 10, 10, 10, 10, 10, 10, 10,
+    ]);
+  });
+
+  it('splits curves keeping the shape of the path', () => {
+    const animation = new PathAnimation({
+      startValue: 'M 0 0 L 40 0',
+      endValue: 'M 0 0 L 10 0 L 20 0 L 40 0',
+      duration: 0,
+    });
+    const start = animation.startValue;
+    expect(start).toHaveLength(2 + 3 * 6);
+    for (let i = 1; i < start.length; i += 2) {
+      expect(start[i]).toBe(0);
+    }
+    expect(start.slice(-2)).toEqual([40, 0]);
+  });
+
+  it('Path#animatePath updates the dimensions of the path', () => {
+    const path = new Path('M 0 0 L 10 0 L 10 10 Z', { left: 50, top: 50 });
+    const onComplete = jest.fn();
+    path.animatePath('M 0 0 L 20 0 L 20 20 Z', {
+      duration: 100,
+      onComplete,
+    });
+    jest.advanceTimersByTime(200);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(path.width).toBeCloseTo(20);
+    expect(path.height).toBeCloseTo(20);
+    expect(path.pathOffset.x).toBeCloseTo(10);
+    expect(path.pathOffset.y).toBeCloseTo(10);
+    // the origin of the path stays in place
+    expect(path.left).toBeCloseTo(50);
+    expect(path.top).toBeCloseTo(50);
+  });
+});
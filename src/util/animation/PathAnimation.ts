@@ -0,0 +1,241 @@
+import { Point } from '../../Point';
+import { makePathSimpler, parsePath } from '../path';
+import type {
+  TComplexPathData,
+  TSimpleParsedCommand,
+  TSimplePathData,
+} from '../path/typedefs';
+import { AnimationBase } from './AnimationBase';
+import type { PathAnimationOptions, TOnAnimationChangeCallback } from './types';
+
+type TCubic = [Point, Point, Point, Point];
+
+type TCubicSubpath = { start: Point; curves: TCubic[]; closed: boolean };
+
+/**
+ * The commands of a path and the number of their values
+ */
+type TPathTemplate = { command: 'M' | 'C' | 'Z'; length: number }[];
+
+/**
+ * @private
+ * Converts the commands of a path to cubic curves, grouped by subpath
+ */
+const toCubicSubpaths = (path: TSimplePathData): TCubicSubpath[] => {
+  const subpaths: TCubicSubpath[] = [];
+  let subpath: TCubicSubpath | undefined,
+    current = new Point(),
+    start = new Point();
+  const addCurve = (c1: Point, c2: Point, end: Point) => {
+    if (!subpath) {
+      subpath = { start: current, curves: [], closed: false };
+      subpaths.push(subpath);
+    }
+    subpath.curves.push([current, c1, c2, end]);
+    current = end;
+  };
+  for (const command of path) {
+    switch (command[0]) {
+      case 'M':
+        current = start = new Point(command[1], command[2]);
+        subpath = { start, curves: [], closed: false };
+        subpaths.push(subpath);
+        break;
+      case 'L': {
+        const end = new Point(command[1], command[2]);
+        addCurve(current.lerp(end, 1 / 3), current.lerp(end, 2 / 3), end);
+        break;
+      }
+      case 'Q': {
+        const control = new Point(command[1], command[2]),
+          end = new Point(command[3], command[4]);
+        addCurve(current.lerp(control, 2 / 3), end.lerp(control, 2 / 3), end);
+        break;
+      }
+      case 'C':
+        addCurve(
+          new Point(command[1], command[2]),
+          new Point(command[3], command[4]),
+          new Point(command[5], command[6])
+        );
+        break;
+      case 'Z':
+        // the closing segment becomes a curve so that it can morph
+        !current.eq(start) &&
+          addCurve(
+            current.lerp(start, 1 / 3),
+            current.lerp(start, 2 / 3),
+            start
+          );
+        subpath && (subpath.closed = true);
+        subpath = undefined;
+        current = start;
+        break;
+    }
+  }
+  return subpaths;
+};
+
+/**
+ * @private
+ * Splits a cubic curve in halves with the de Casteljau algorithm
+ */
+const splitCubic = ([p0, p1, p2, p3]: TCubic): [TCubic, TCubic] => {
+  const a = p0.midPointFrom(p1),
+    b = p1.midPointFrom(p2),
+    c = p2.midPointFrom(p3),
+    d = a.midPointFrom(b),
+    e = b.midPointFrom(c),
+    f = d.midPointFrom(e);
+  return [
+    [p0, a, d, f],
+    [f, e, c, p3],
+  ];
+};
+
+/**
+ * @private
+ * Adds curves to a subpath until it has `count` curves, splitting its longest curves or,
+ * if it is a single point, repeating it
+ */
+const splitSubpath = (
+  { start, curves, closed }: TCubicSubpath,
+  count: number
+) => {
+  const result = [...curves];
+  while (result.length < count) {
+    if (result.length === 0) {
+      result.push([start, start, start, start]);
+      continue;
+    }
+    const lengths = result.map(
+        ([p0, p1, p2, p3]) =>
+          p0.distanceFrom(p1) + p1.distanceFrom(p2) + p2.distanceFrom(p3)
+      ),
+      index = lengths.indexOf(Math.max(...lengths));
+    result.splice(index, 1, ...splitCubic(result[index]));
+  }
+  return { start, curves: result, closed };
+};
+
+/**
+ * @private
+ * Converts two paths to the same sequence of commands, so that their values can be interpolated:
+ * all their segments become cubic curves, subpaths are added to the path having less of them,
+ * and curves are split in the subpaths having less of them
+ * @returns the template of the commands and the values of both paths
+ */
+const makePathsCompatible = (
+  from: TSimplePathData,
+  to: TSimplePathData
+): [TPathTemplate, number[], number[]] => {
+  const fromSubpaths = toCubicSubpaths(from),
+    toSubpaths = toCubicSubpaths(to),
+    count = Math.max(fromSubpaths.length, toSubpaths.length),
+    template: TPathTemplate = [],
+    fromValues: number[] = [],
+    toValues: number[] = [];
+  // missing subpaths grow from or shrink to the end of the path
+  const getSubpath = (subpaths: TCubicSubpath[], index: number) => {
+    if (index < subpaths.length) {
+      return subpaths[index];
+    }
+    const last = subpaths[subpaths.length - 1],
+      point = last
+        ? last.curves.length > 0
+          ? last.curves[last.curves.length - 1][3]
+          : last.start
+        : new Point();
+    return { start: point, curves: [], closed: false };
+  };
+  const addValues = (values: number[], subpath: TCubicSubpath) => {
+    values.push(subpath.start.x, subpath.start.y);
+    subpath.curves.forEach(([, c1, c2, end]) =>
+      values.push(c1.x, c1.y, c2.x, c2.y, end.x, end.y)
+    );
+  };
+  for (let i = 0; i < count; i++) {
+    const a = getSubpath(fromSubpaths, i),
+      b = getSubpath(toSubpaths, i),
+      curveCount = Math.max(a.curves.length, b.curves.length);
+    addValues(fromValues, splitSubpath(a, curveCount));
+    addValues(toValues, splitSubpath(b, curveCount));
+    template.push({ command: 'M', length: 2 });
+    for (let j = 0; j < curveCount; j++) {
+      template.push({ command: 'C', length: 6 });
+    }
+    a.closed && b.closed && template.push({ command: 'Z', length: 0 });
+  }
+  return [template, fromValues, toValues];
+};
+
+/**
+ * @private
+ * @returns the path data of the values of a path following its template
+ */
+const toPathData = (template: TPathTemplate, values: number[]) => {
+  let index = 0;
+  return template.map(({ command, length }) => {
+    const segment = [command, ...values.slice(index, index + length)];
+    index += length;
+    return segment as TSimpleParsedCommand;
+  });
+};
+
+const toSimplePath = (path: TComplexPathData | string) =>
+  makePathSimpler(typeof path === 'string' ? parsePath(path) : path);
+
+const wrapPathCallback = <R>(
+  template: TPathTemplate,
+  callback?: TOnAnimationChangeCallback<TSimplePathData, R>
+) =>
+  callback &&
+  ((values: number[], valueProgress: number, durationProgress: number) =>
+    callback(toPathData(template, values), valueProgress, durationProgress));
+
+/**
+ * Morphs a path into another one, interpolating the points of their commands.
+ * Both paths are simplified and converted to compatible commands, see {@link makePathSimpler}:
+ * segments become cubic curves and the path having less subpaths or curves gets more of them by splitting its curves.
+ * Callbacks receive the simplified path data of the current frame.
+ */
+export class PathAnimation extends AnimationBase<number[]> {
+  constructor({
+    startValue = [],
+    endValue = [],
+    onChange,
+    onComplete,
+    abort,
+    ...options
+  }: PathAnimationOptions) {
+    const [template, startValues, endValues] = makePathsCompatible(
+      toSimplePath(startValue),
+      toSimplePath(endValue)
+    );
+    super({
+      ...options,
+      startValue: startValues,
+      byValue: endValues.map((value, i) => value - startValues[i]),
+      onChange: wrapPathCallback(template, onChange),
+      onComplete: wrapPathCallback(template, onComplete),
+      abort: wrapPathCallback(template, abort),
+    });
+  }
+
+  protected calculate(timeElapsed: number) {
+    const values = this.startValue.map((value, i) =>
+      this.easing(timeElapsed, value, this.byValue[i], this.duration, i)
+    );
+    // to correctly calculate the change ratio we must find a changed value
+    const index = this.byValue.findIndex((value) => value !== 0);
+    return {
+      value: values,
+      valueProgress:
+        index > -1
+          ? Math.abs(
+              (values[index] - this.startValue[index]) / this.byValue[index]
+            )
+          : 0,
+    };
+  }
+}
@@ -1,10 +1,12 @@
 import { ValueAnimation } from './ValueAnimation';
 import { ArrayAnimation } from './ArrayAnimation';
 import { ColorAnimation } from './ColorAnimation';
+import { PathAnimation } from './PathAnimation';
 import type {
   ValueAnimationOptions,
   ArrayAnimationOptions,
   ColorAnimationOptions,
+  PathAnimationOptions,
 } from './types';
 import type { TColorArg } from '../../color/typedefs';
 
@@ -72,3 +74,23 @@ export function animateColor(options: ColorAnimationOptions) {
   animation.start();
   return animation;
 }
+
+/**
+ * Morphs a path into another one, see {@link PathAnimation}.
+ *
+ * @example
+ * animatePath({
+ *   startValue: path.path,
+ *   endValue: 'M 0 0 Q 50 100 100 0 Z',
+ *   onChange: (value) => {
+ *     path.path = value;
+ *     path.setDimensionsInPlace();
+ *     canvas.renderAll();
+ *   }
+ * });
+ */
+export function animatePath(options: PathAnimationOptions) {
+  const animation = new PathAnimation(options);
+  animation.start();
+  return animation;
+}
@@ -1,4 +1,5 @@
 import type { TColorArg } from '../../color/typedefs';
+import type { TComplexPathData, TSimplePathData } from '../path/typedefs';
 import type { AnimationBase } from './AnimationBase';
 
 export type AnimationState = 'pending' | 'running' | 'completed' | 'aborted';
@@ -129,6 +130,12 @@ export type ColorAnimationOptions = TAnimationOptions<
   number[]
 >;
 
+export type PathAnimationOptions = TAnimationOptions<
+  TComplexPathData | string,
+  TSimplePathData,
+  number[]
+>;
+
 export type AnimationOptions<T extends number | number[] | TColorArg> =
   T extends TColorArg
     ? ColorAnimationOptions
@@ -46,6 +46,10 @@ export {
   stylesToArray,
   hasStyleChanged,
 } from './misc/textStyles';
+export type { TLineBreakClass, TLineBreak } from './misc/lineBreak';
+export { getLineBreakClass, findLineBreaks } from './misc/lineBreak';
+export type { TBidiClass } from './misc/bidi';
+export { getBidiClass, getBidiLevels, getVisualOrder } from './misc/bidi';
 export {
   createCanvasElement,
   createImage,
@@ -71,6 +75,14 @@ export {
   sizeAfterTransform,
 } from './misc/objectTransforms';
 export { makeBoundingBoxFromPoints } from './misc/boundingBoxFromPoints';
+export type {
+  TAlignment,
+  TDistribution,
+  TAlignReference,
+  TAlignOptions,
+  TDistributeOptions,
+} from './misc/align';
+export { alignObjects, distributeObjects } from './misc/align';
 export {
   calcPlaneChangeMatrix,
   sendPointToPlane,
@@ -99,7 +111,21 @@ export {
   getPointOnPath,
   transformPath,
   getRegularPolygonPath,
+  getArcPath,
 } from './path';
+export type {
+  TBooleanOperation,
+  TBooleanOperand,
+  TBooleanOptions,
+} from './path/boolean';
+export { booleanPathData, booleanObjects } from './path/boolean';
+export type { TStrokeOutlineOptions, TOffsetOptions } from './path/outline';
+export {
+  outlineStrokePathData,
+  outlineStrokeObject,
+  offsetPathData,
+  offsetObject,
+} from './path/outline';
 export { setStyle } from './dom_style';
 export { isTouchEvent, getPointer } from './dom_event';
 export { isTransparent } from './misc/isTransparent';
@@ -0,0 +1,24 @@
+import type { FabricObject } from '../../shapes/Object/FabricObject';
+import { findObjectById } from './findObjectById';
+import { uid } from './uid';
+
+/**
+ * Assigns an {@link FabricObject#id} to `object` if missing, unique among `objects` and their descendants
+ * @param {FabricObject} object
+ * @param {FabricObject[]} objects
+ * @param {string} prefix prefix of the assigned id
+ */
+export const assignObjectId = (
+  object: FabricObject,
+  objects: FabricObject[],
+  prefix: string
+) => {
+  if (object.id !== undefined) {
+    return;
+  }
+  let id: string;
+  do {
+    id = `${prefix}_${uid()}`;
+  } while (findObjectById(objects, id));
+  object.id = id;
+};
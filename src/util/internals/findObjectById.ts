@@ -0,0 +1,24 @@
+import type { FabricObject } from '../../shapes/Object/FabricObject';
+import { isCollection } from '../typeAssertions';
+
+/**
+ * Searches `objects` and their descendants for the object having {@link FabricObject#id} `id`
+ * @param {FabricObject[]} objects
+ * @param {string} id
+ */
+export const findObjectById = (
+  objects: FabricObject[],
+  id: string
+): FabricObject | undefined => {
+  for (const object of objects) {
+    const found =
+      object.id === id
+        ? object
+        : isCollection(object)
+        ? findObjectById(object.getObjects(), id)
+        : undefined;
+    if (found) {
+      return found;
+    }
+  }
+};
@@ -0,0 +1,156 @@
+import { Canvas } from '../../canvas/Canvas';
+import { CanvasHistory } from '../../canvas/CanvasHistory';
+import { ActiveSelection } from '../../shapes/ActiveSelection';
+import type { FabricObject } from '../../shapes/Object/FabricObject';
+import { Rect } from '../../shapes/Rect';
+import { alignObjects, distributeObjects } from './align';
+
+const createRect = (left: number, top: number, width = 10, height = 10) =>
+  new Rect({ left, top, width, height, strokeWidth: 0 });
+
+const getBBox = (object: FabricObject) => {
+  const { left, top, width, height } = object.getBoundingRect(true, true);
+  return [left, top, width, height].map(
+    (value) => Math.round(value * 100) / 100
+  );
+};
+
+describe('align', () => {
+  let canvas: Canvas;
+
+  beforeEach(() => {
+    canvas = new Canvas(undefined, { width: 200, height: 100 });
+  });
+
+  afterEach(() => {
+    canvas.destroy();
+  });
+
+  test('alignObjects relative to the selection', () => {
+    const a = createRect(10, 10),
+      b = createRect(50, 30, 20, 20),
+      c = createRect(30, 60, 40, 10);
+    canvas.add(a, b, c);
+    expect(alignObjects([a, b, c], 'left')).toEqual([b, c]);
+    expect([a, b, c].map(({ left }) => left)).toEqual([10, 10, 10]);
+    alignObjects([a, b, c], 'right');
+    expect([a, b, c].map(({ left }) => left)).toEqual([40, 30, 10]);
+    alignObjects([a, b, c], 'center');
+    expect([a, b, c].map(({ left }) => left)).toEqual([25, 20, 10]);
+    alignObjects([a, b, c], 'top');
+    expect([a, b, c].map(({ top }) => top)).toEqual([10, 10, 10]);
+    alignObjects([a, b, c], 'bottom');
+    expect([a, b, c].map(({ top }) => top)).toEqual([20, 10, 20]);
+    alignObjects([a, b, c], 'middle');
+    expect([a, b, c].map(({ top }) => top)).toEqual([15, 10, 15]);
+    // nothing to move
+    expect(alignObjects([a, b, c], 'middle')).toEqual([]);
+  });
+
+  test('alignObjects respects rotation and movement locks', () => {
+    const a = createRect(10, 10),
+      rotated = new Rect({
+        left: 50,
+        top: 50,
+        width: 20,
+        height: 20,
+        angle: 45,
+        originX: 'center',
+        originY: 'center',
+        strokeWidth: 0,
+      }),
+      locked = createRect(100, 0);
+    locked.lockMovementX = true;
+    canvas.add(a, rotated, locked);
+    alignObjects([a, rotated, locked], 'left');
+    expect(getBBox(rotated)[0]).toBe(10);
+    expect(locked.left).toBe(100);
+    alignObjects([a, rotated, locked], 'top');
+    expect(getBBox(rotated)[1]).toBe(0);
+    expect(locked.top).toBe(0);
+  });
+
+  test('alignObjects relative to a key object or the canvas', () => {
+    const a = createRect(10, 10),
+      key = createRect(50, 30, 20, 20);
+    canvas.add(a, key);
+    alignObjects([a, key], 'right', { relativeTo: key });
+    expect(a.left).toBe(60);
+    expect(key.left).toBe(50);
+    alignObjects([a, key], 'bottom', { relativeTo: 'canvas' });
+    expect(a.top).toBe(90);
+    expect(key.top).toBe(80);
+    // the visible area of the canvas
+    canvas.setViewportTransform([2, 0, 0, 2, -100, 0]);
+    alignObjects([a], 'left', { relativeTo: 'canvas' });
+    expect(a.left).toBe(50);
+    expect(() =>
+      alignObjects([createRect(0, 0)], 'left', { relativeTo: 'canvas' })
+    ).toThrow();
+  });
+
+  test('objects of an active selection', () => {
+    const a = createRect(10, 10),
+      b = createRect(50, 30, 20, 20);
+    canvas.add(a, b);
+    const selection = new ActiveSelection([a, b], { canvas });
+    canvas.setActiveObject(selection);
+    selection.rotate(90);
+    selection.setCoords();
+    expect(getBBox(a)).toEqual([50, 0, 10, 10]);
+    expect(getBBox(b)).toEqual([20, 40, 20, 20]);
+    alignObjects(selection, 'left');
+    expect(getBBox(a)).toEqual([20, 0, 10, 10]);
+    expect(getBBox(b)).toEqual([20, 40, 20, 20]);
+    // the selection fits its objects
+    expect(getBBox(selection)).toEqual([20, 0, 20, 60]);
+  });
+
+  test('distributeObjects', () => {
+    const a = createRect(0, 0),
+      b = createRect(15, 0, 30),
+      c = createRect(50, 0, 20),
+      d = createRect(100, 0);
+    canvas.add(a, b, c, d);
+    const expectPositions = (key: 'left' | 'top', expected: number[]) =>
+      [a, b, c, d].forEach((object, index) =>
+        expect(object[key]).toBeCloseTo(expected[index])
+      );
+    // 40 of gaps in a span of 110
+    distributeObjects([d, c, b, a], 'horizontal');
+    expectPositions('left', [0, 10 + 40 / 3, 40 + 80 / 3, 100]);
+    // centers from 5 to 105
+    distributeObjects([a, b, c, d], 'horizontal', { mode: 'centers' });
+    expect(
+      [a, b, c, d].map(({ left, width }) => Math.round(left + width / 2))
+    ).toEqual([5, 38, 72, 105]);
+    distributeObjects([a, b, c, d], 'horizontal', { spacing: 5 });
+    expectPositions('left', [0, 15, 50, 75]);
+    distributeObjects([a, b, c, d], 'horizontal', {
+      spacing: 10,
+      relativeTo: c,
+    });
+    expectPositions('left', [-10, 10, 50, 80]);
+    distributeObjects([a, b, c, d], 'vertical', { relativeTo: 'canvas' });
+    expectPositions('top', [0, 30, 60, 90]);
+    distributeObjects([a, b, c, d], 'horizontal', { relativeTo: 'canvas' });
+    expectPositions('left', [0, 160 / 3, 380 / 3, 190]);
+  });
+
+  test('object:modified is fired in a single history entry', () => {
+    const history = new CanvasHistory(canvas);
+    const a = createRect(10, 10),
+      b = createRect(50, 30),
+      c = createRect(30, 60);
+    canvas.add(a, b, c);
+    history.clear();
+    const modified = jest.fn();
+    canvas.on('object:modified', modified);
+    alignObjects([a, b, c], 'left');
+    expect(modified).toHaveBeenCalledTimes(2);
+    expect(modified).toHaveBeenCalledWith({ target: b, action: 'align' });
+    history.undo();
+    expect([a, b, c].map(({ left }) => left)).toEqual([10, 50, 30]);
+    expect(history.canUndo()).toBe(false);
+  });
+});
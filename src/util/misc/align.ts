@@ -0,0 +1,278 @@
+import type { Canvas } from '../../canvas/Canvas';
+import { Point } from '../../Point';
+import type { ActiveSelection } from '../../shapes/ActiveSelection';
+import type { Group } from '../../shapes/Group';
+import type { FabricObject } from '../../shapes/Object/FabricObject';
+import type { TBBox } from '../../typedefs';
+import { FabricError } from '../internals/console';
+import { makeBoundingBoxFromPoints } from './boundingBoxFromPoints';
+
+export type TAlignment =
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'top'
+  | 'middle'
+  | 'bottom';
+
+export type TDistribution = 'horizontal' | 'vertical';
+
+/**
+ * - `selection` the bounds of the aligned objects
+ * - `canvas` the visible area of the canvas
+ * - an object, the key object, that doesn't move
+ */
+export type TAlignReference = 'selection' | 'canvas' | FabricObject;
+
+export type TAlignOptions = {
+  /**
+   * @default 'selection'
+   */
+  relativeTo?: TAlignReference;
+};
+
+export type TDistributeOptions = {
+  /**
+   * the span objects are distributed in, first and last objects stay in place when relative to the selection.
+   * Relative to a key object, objects are laid out around it using the average gap of the selection
+   * @default 'selection'
+   */
+  relativeTo?: TAlignReference;
+  /**
+   * - `gaps` equal gaps between objects
+   * - `centers` equal distances between the centers of objects
+   * @default 'gaps'
+   */
+  mode?: 'gaps' | 'centers';
+  /**
+   * fixed gap between objects, or between centers in `centers` mode, in place of the computed one.
+   * Objects are then laid out from the start of the reference or around the key object
+   */
+  spacing?: number;
+};
+
+type TAxis = 'x' | 'y';
+
+type TSegment = { start: number; size: number };
+
+const ALIGNMENTS: Record<TAlignment, { axis: TAxis; ratio: number }> = {
+  left: { axis: 'x', ratio: 0 },
+  center: { axis: 'x', ratio: 0.5 },
+  right: { axis: 'x', ratio: 1 },
+  top: { axis: 'y', ratio: 0 },
+  middle: { axis: 'y', ratio: 0.5 },
+  bottom: { axis: 'y', ratio: 1 },
+};
+
+/**
+ * @private
+ * @returns the bounding box of `object` in the canvas coordinate plane, taking its group and rotation into account
+ */
+const getCanvasBBox = (object: FabricObject) =>
+  makeBoundingBoxFromPoints(object.getCoords(true, true));
+
+/**
+ * @private
+ */
+const getSegment = (
+  { left, top, width, height }: TBBox,
+  axis: TAxis
+): TSegment =>
+  axis === 'x' ? { start: left, size: width } : { start: top, size: height };
+
+/**
+ * @private
+ */
+const getObjects = (target: ActiveSelection | FabricObject[]) =>
+  Array.isArray(target) ? [...target] : target.getObjects();
+
+/**
+ * @private
+ */
+const getCanvas = (objects: FabricObject[]) => {
+  const canvas = objects.find((object) => object.canvas)?.canvas as
+    | Canvas
+    | undefined;
+  if (!canvas) {
+    throw new FabricError('objects must belong to a canvas to align them');
+  }
+  return canvas;
+};
+
+/**
+ * @private
+ * @returns the bounds of `relativeTo` in the canvas coordinate plane
+ */
+const getReferenceBBox = (
+  objects: FabricObject[],
+  relativeTo: TAlignReference
+) => {
+  if (relativeTo === 'canvas') {
+    const { tl, tr, br, bl } = getCanvas(objects).vptCoords;
+    return makeBoundingBoxFromPoints([tl, tr, br, bl]);
+  }
+  return relativeTo === 'selection'
+    ? makeBoundingBoxFromPoints(
+        objects.flatMap((object) => object.getCoords(true, true))
+      )
+    : getCanvasBBox(relativeTo);
+};
+
+/**
+ * @private
+ * Moves objects along `axis` in the canvas coordinate plane, respecting their movement locks.
+ * Fires `object:modified` for each moved object, in a single transaction of the history of the canvas
+ * @returns the moved objects
+ */
+const moveObjects = (
+  moves: { object: FabricObject; delta: number }[],
+  axis: TAxis,
+  action: string
+) => {
+  const lock = axis === 'x' ? 'lockMovementX' : 'lockMovementY',
+    moved = moves
+      .filter(({ object, delta }) => delta !== 0 && !object[lock])
+      .map(({ object, delta }) => {
+        object.setXY(
+          object
+            .getXY()
+            .add(axis === 'x' ? new Point(delta, 0) : new Point(0, delta))
+        );
+        object.setCoords();
+        return object;
+      });
+  if (moved.length === 0) {
+    return moved;
+  }
+  const groups = new Set(
+    moved.map(({ group }) => group).filter(Boolean) as Group[]
+  );
+  groups.forEach((group) => group.triggerLayout());
+  const canvas = getCanvas(moved),
+    fire = () =>
+      moved.forEach((target) =>
+        canvas.fire('object:modified', { target, action })
+      );
+  canvas.history ? canvas.history.transaction(fire) : fire();
+  canvas.requestRenderAll();
+  return moved;
+};
+
+/**
+ * Aligns objects relative to their bounds, a key object or the canvas.
+ * Objects are aligned by their bounding box in the canvas coordinate plane, so that rotated objects
+ * and objects of groups, e.g. of an active selection, are aligned as they are seen.
+ * @param {ActiveSelection | FabricObject[]} target objects to align, objects of an active selection are aligned within it
+ * @param {TAlignment} alignment
+ * @param {TAlignOptions} [options]
+ * @returns {FabricObject[]} the moved objects
+ */
+export const alignObjects = (
+  target: ActiveSelection | FabricObject[],
+  alignment: TAlignment,
+  { relativeTo = 'selection' }: TAlignOptions = {}
+) => {
+  const objects = getObjects(target).filter((object) => object !== relativeTo);
+  if (objects.length === 0) {
+    return [];
+  }
+  const { axis, ratio } = ALIGNMENTS[alignment],
+    reference = getSegment(getReferenceBBox(objects, relativeTo), axis);
+  return moveObjects(
+    objects.map((object) => {
+      const { start, size } = getSegment(getCanvasBBox(object), axis);
+      return {
+        object,
+        delta: reference.start + (reference.size - size) * ratio - start,
+      };
+    }),
+    axis,
+    'align'
+  );
+};
+
+/**
+ * Distributes objects along an axis, by equal gaps or equal distances between centers,
+ * relative to their bounds, a key object or the canvas.
+ * Objects are ordered by their center and measured by their bounding box in the canvas coordinate plane, see {@link alignObjects}.
+ * @param {ActiveSelection | FabricObject[]} target objects to distribute
+ * @param {TDistribution} direction
+ * @param {TDistributeOptions} [options]
+ * @returns {FabricObject[]} the moved objects
+ */
+export const distributeObjects = (
+  target: ActiveSelection | FabricObject[],
+  direction: TDistribution,
+  { relativeTo = 'selection', mode = 'gaps', spacing }: TDistributeOptions = {}
+) => {
+  const axis: TAxis = direction === 'horizontal' ? 'x' : 'y',
+    objects = getObjects(target);
+  typeof relativeTo !== 'string' &&
+    !objects.includes(relativeTo) &&
+    objects.push(relativeTo);
+  if (objects.length < (relativeTo === 'canvas' ? 1 : 2)) {
+    return [];
+  }
+  const items = objects
+      .map((object) => ({
+        object,
+        ...getSegment(getCanvasBBox(object), axis),
+      }))
+      .sort((a, b) => a.start + a.size / 2 - (b.start + b.size / 2)),
+    first = items[0],
+    last = items[items.length - 1],
+    byCenters = mode === 'centers',
+    // the space the objects are distributed in
+    span =
+      relativeTo === 'canvas'
+        ? getSegment(getReferenceBBox(objects, relativeTo), axis)
+        : { start: first.start, size: last.start + last.size - first.start },
+    extent = byCenters
+      ? span.size - (first.size + last.size) / 2
+      : span.size - items.reduce((total, { size }) => total + size, 0),
+    step =
+      spacing ?? (items.length > 1 ? extent / (items.length - 1) : extent / 2),
+    key = typeof relativeTo !== 'string' ? relativeTo : undefined;
+
+  // lay out objects one after the other from the start of the span or around the key object
+  const keyIndex = key ? items.findIndex(({ object }) => object === key) : -1,
+    starts: number[] = [];
+  const next = (index: number, position: number, forward: boolean) => {
+    const { size } = items[index],
+      adjacent = items[index + (forward ? -1 : 1)];
+    return forward
+      ? byCenters
+        ? position + adjacent.size / 2 + step - size / 2
+        : position + adjacent.size + step
+      : byCenters
+      ? position + adjacent.size / 2 - step - size / 2
+      : position - step - size;
+  };
+  if (keyIndex > -1) {
+    starts[keyIndex] = items[keyIndex].start;
+    for (let i = keyIndex + 1; i < items.length; i++) {
+      starts[i] = next(i, starts[i - 1], true);
+    }
+    for (let i = keyIndex - 1; i >= 0; i--) {
+      starts[i] = next(i, starts[i + 1], false);
+    }
+  } else {
+    starts[0] =
+      items.length === 1
+        ? span.start + (span.size - first.size) / 2
+        : span.start;
+    for (let i = 1; i < items.length; i++) {
+      starts[i] = next(i, starts[i - 1], true);
+    }
+  }
+  return moveObjects(
+    items
+      .map(({ object, start }, index) => ({
+        object,
+        delta: starts[index] - start,
+      }))
+      .filter(({ object }) => object !== key),
+    axis,
+    'distribute'
+  );
+};
@@ -0,0 +1,53 @@
+import { graphemeSplit } from '../lang_string';
+import { getBidiClass, getBidiLevels, getVisualOrder } from './bidi';
+
+// \u05d0, \u05d1 and \u05d2 are the hebrew letters alef, bet and gimel, \u0628 is the arabic letter beh
+const getLevels = (text: string, direction?: 'ltr' | 'rtl') =>
+  getBidiLevels(graphemeSplit(text), direction);
+
+describe('bidi', () => {
+  test('getBidiClass', () => {
+    expect(getBidiClass('a')).toBe('L');
+    expect(getBidiClass('\u05d0')).toBe('R');
+    expect(getBidiClass('\u0628')).toBe('AL');
+    expect(getBidiClass('5')).toBe('EN');
+    expect(getBidiClass('\u0665')).toBe('AN');
+    expect(getBidiClass('$')).toBe('ET');
+    expect(getBidiClass(',')).toBe('CS');
+    expect(getBidiClass('-')).toBe('ES');
+    expect(getBidiClass(' ')).toBe('WS');
+    expect(getBidiClass('\t')).toBe('S');
+    expect(getBidiClass('!')).toBe('ON');
+    expect(getBidiClass('\u05b4')).toBe('NSM');
+    expect(getBidiClass('\u200b')).toBe('BN');
+  });
+
+  test('right to left words in left to right text', () => {
+    const levels = getLevels('abc \u05d0\u05d1\u05d2 d');
+    expect(levels).toEqual([0, 0, 0, 0, 1, 1, 1, 0, 0]);
+    expect(getVisualOrder(levels)).toEqual([0, 1, 2, 3, 6, 5, 4, 7, 8]);
+  });
+
+  test('numbers in right to left text', () => {
+    const levels = getLevels('\u05d0\u05d1 12.5%', 'rtl');
+    expect(levels).toEqual([1, 1, 1, 2, 2, 2, 2, 2]);
+    expect(getVisualOrder(levels)).toEqual([3, 4, 5, 6, 7, 2, 1, 0]);
+    // arabic letters turn european numbers into arabic ones
+    expect(getLevels('\u0628 12')).toEqual([1, 1, 2, 2]);
+  });
+
+  test('neutrals take the direction around them or of the paragraph', () => {
+    expect(getLevels('\u05d0 - \u05d1')).toEqual([1, 1, 1, 1, 1]);
+    expect(getLevels('a \u05d0 !')).toEqual([0, 0, 1, 0, 0]);
+    expect(getLevels('a \u05d0 !', 'rtl')).toEqual([2, 1, 1, 1, 1]);
+    // trailing spaces are at the level of the paragraph
+    expect(getLevels('\u05d0\u05d1  ')).toEqual([1, 1, 0, 0]);
+  });
+
+  test('getVisualOrder', () => {
+    expect(getVisualOrder([])).toEqual([]);
+    expect(getVisualOrder([0, 0, 0])).toEqual([0, 1, 2]);
+    expect(getVisualOrder([1, 1, 1])).toEqual([2, 1, 0]);
+    expect(getVisualOrder([0, 1, 2, 2, 1, 0])).toEqual([0, 4, 2, 3, 1, 5]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Bidirectional character types of the Unicode bidirectional algorithm (UAX #9),
+ * see https://www.unicode.org/reports/tr9/#Bidirectional_Character_Types
+ * Explicit embeddings, overrides and isolates are not supported and are boundary neutrals
+ */
+export type TBidiClass =
+  | 'L'
+  | 'R'
+  | 'AL'
+  | 'EN'
+  | 'ES'
+  | 'ET'
+  | 'AN'
+  | 'CS'
+  | 'NSM'
+  | 'BN'
+  | 'B'
+  | 'S'
+  | 'WS'
+  | 'ON';
+
+/**
+ * Types of separators, spaces and of the numbers related chars that can't be told by their general category
+ */
+const classesByChar: Record<string, TBidiClass> = {};
+(
+  [
+    ['B', '\n\r\u001c\u001d\u001e\u0085\u2029'],
+    ['S', '\t\u000b\u001f'],
+    ['WS', ' \u000c\u1680\u2028\u205f\u3000'],
+    ['ES', '+-\u207a\u207b\u208a\u208b\u2212\ufb29\ufe62\ufe63\uff0b\uff0d'],
+    ['ET', '#%\u00b0\u00b1\u0609\u060a\u066a\u2030\u2031\u2032\u2033\u2034'],
+    [
+      'CS',
+      ',./:\u00a0\u060c\u202f\u2044\ufe50\ufe52\ufe55\uff0c\uff0e\uff0f\uff1a',
+    ],
+    ['L', '\u200e'],
+    ['R', '\u200f'],
+    ['AL', '\u061c'],
+  ] as const
+).forEach(([bidiClass, chars]) => {
+  for (const char of chars) {
+    classesByChar[char] = bidiClass;
+  }
+});
+
+const reNonSpacingMark = /^[\p{Mn}\p{Me}]/u;
+const reSpace = /^[\u2000-\u200a]/;
+const reBoundaryNeutral =
+  /^[\u00ad\u180e\u200b-\u200d\u202a-\u202e\u2060-\u2069\ufeff]/;
+const reEuropeanNumber =
+  /^[0-9\u00b2\u00b3\u00b9\u06f0-\u06f9\u2070\u2074-\u2079\u2080-\u2089\uff10-\uff19]/;
+const reArabicNumber = /^[\u0600-\u0605\u0660-\u0669\u066b\u066c\u06dd\u08e2]/;
+const reCurrency = /^\p{Sc}/u;
+const reArabicLetter =
+  /^[\u0600-\u07bf\u0860-\u08ff\ufb50-\ufdcf\ufdf0-\ufdff\ufe70-\ufefe\u{1ee00}-\u{1eeff}]/u;
+const reRightToLeftLetter =
+  /^[\u0590-\u05ff\u07c0-\u085f\ufb1d-\ufb4f\u{10800}-\u{10fff}\u{1e800}-\u{1efff}]/u;
+const reOtherNeutral = /^[\p{P}\p{S}\p{Z}]/u;
+
+/**
+ * @param {String} grapheme
+ * @returns {TBidiClass} the bidirectional type of the first code point of a grapheme,
+ * unknown code points are left to right
+ */
+export const getBidiClass = (grapheme: string): TBidiClass => {
+  const code = grapheme.codePointAt(0) || 0,
+    char = String.fromCodePoint(code);
+  if (classesByChar[char]) {
+    return classesByChar[char];
+  }
+  if (
+    code <= 0x08 ||
+    (code >= 0x0e && code <= 0x1b) ||
+    (code >= 0x7f && code <= 0x9f) ||
+    reBoundaryNeutral.test(char)
+  ) {
+    return 'BN';
+  }
+  if (reSpace.test(char)) {
+    return 'WS';
+  }
+  if (reNonSpacingMark.test(char)) {
+    return 'NSM';
+  }
+  if (reEuropeanNumber.test(char)) {
+    return 'EN';
+  }
+  if (reArabicNumber.test(char)) {
+    return 'AN';
+  }
+  if (reCurrency.test(char)) {
+    return 'ET';
+  }
+  if (reArabicLetter.test(char)) {
+    return 'AL';
+  }
+  if (reRightToLeftLetter.test(char)) {
+    return 'R';
+  }
+  if (reOtherNeutral.test(char)) {
+    return 'ON';
+  }
+  return 'L';
+};
+
+const isNeutral = (bidiClass: TBidiClass) =>
+  bidiClass === 'B' ||
+  bidiClass === 'S' ||
+  bidiClass === 'WS' ||
+  bidiClass === 'ON';
+
+/**
+ * Resolves the embedding levels of the graphemes of a line following the rules W1 to I2 and L1
+ * of the Unicode bidirectional algorithm, with no explicit embeddings and no bracket pairs.
+ * Even levels are left to right, odd levels right to left.
+ * @param {String[]} graphemes the graphemes of a line
+ * @param {'ltr' | 'rtl'} direction the direction of the paragraph
+ * @returns {Number[]} the level of each grapheme
+ */
+export const getBidiLevels = (
+  graphemes: string[],
+  direction: 'ltr' | 'rtl' = 'ltr'
+): number[] => {
+  const baseLevel = direction === 'rtl' ? 1 : 0,
+    baseClass: TBidiClass = baseLevel ? 'R' : 'L',
+    original = graphemes.map(getBidiClass),
+    types = [...original],
+    length = types.length;
+  // W1, marks take the type of their base, boundary neutrals are removed by X9
+  for (let i = 0; i < length; i++) {
+    if (types[i] === 'NSM' || types[i] === 'BN') {
+      types[i] = i > 0 ? types[i - 1] : baseClass;
+    }
+  }
+  // W2 and W3
+  let lastStrong: TBidiClass = baseClass;
+  for (let i = 0; i < length; i++) {
+    const type = types[i];
+    if (type === 'EN' && lastStrong === 'AL') {
+      types[i] = 'AN';
+    } else if (type === 'L' || type === 'R' || type === 'AL') {
+      lastStrong = type;
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    types[i] === 'AL' && (types[i] = 'R');
+  }
+  // W4
+  for (let i = 1; i < length - 1; i++) {
+    const before = types[i - 1],
+      after = types[i + 1];
+    if (types[i] === 'ES' && before === 'EN' && after === 'EN') {
+      types[i] = 'EN';
+    } else if (
+      types[i] === 'CS' &&
+      before === after &&
+      (before === 'EN' || before === 'AN')
+    ) {
+      types[i] = before;
+    }
+  }
+  // W5
+  for (let i = 0; i < length; i++) {
+    if (types[i] !== 'ET') {
+      continue;
+    }
+    let end = i;
+    while (end < length && types[end] === 'ET') {
+      end++;
+    }
+    if ((i > 0 && types[i - 1] === 'EN') || types[end] === 'EN') {
+      types.fill('EN', i, end);
+    }
+    i = end;
+  }
+  // W6 and W7
+  lastStrong = baseClass;
+  for (let i = 0; i < length; i++) {
+    const type = types[i];
+    if (type === 'ES' || type === 'ET' || type === 'CS') {
+      types[i] = 'ON';
+    } else if (type === 'EN' && lastStrong === 'L') {
+      types[i] = 'L';
+    } else if (type === 'L' || type === 'R') {
+      lastStrong = type;
+    }
+  }
+  // N1 and N2, numbers count as right to left
+  const getStrongClass = (index: number) =>
+    index < 0 || index >= length ? baseClass : types[index] === 'L' ? 'L' : 'R';
+  for (let i = 0; i < length; i++) {
+    if (!isNeutral(types[i])) {
+      continue;
+    }
+    let end = i;
+    while (end < length && isNeutral(types[end])) {
+      end++;
+    }
+    const before = getStrongClass(i - 1);
+    types.fill(before === getStrongClass(end) ? before : baseClass, i, end);
+    i = end;
+  }
+  // I1 and I2
+  const levels = types.map((type) =>
+    baseLevel === 0
+      ? type === 'R'
+        ? 1
+        : type === 'EN' || type === 'AN'
+        ? 2
+        : 0
+      : type === 'R'
+      ? 1
+      : 2
+  );
+  // L1, separators and the spaces before them or at the end of the line go back to the paragraph level
+  let isTrailing = true;
+  for (let i = length - 1; i >= 0; i--) {
+    const type = original[i];
+    if (type === 'B' || type === 'S') {
+      levels[i] = baseLevel;
+      isTrailing = true;
+    } else if (isTrailing && (type === 'WS' || type === 'BN')) {
+      levels[i] = baseLevel;
+    } else {
+      isTrailing = false;
+    }
+  }
+  return levels;
+};
+
+/**
+ * Reorders the graphemes of a line following the rule L2 of the Unicode bidirectional algorithm
+ * @param {Number[]} levels the levels of the graphemes of the line, see {@link getBidiLevels}
+ * @returns {Number[]} the indexes of the graphemes in their visual order, from left to right
+ */
+export const getVisualOrder = (levels: number[]): number[] => {
+  const order = levels.map((_, index) => index);
+  if (order.length === 0) {
+    return order;
+  }
+  const highest = Math.max(...levels),
+    lowest = Math.min(...levels),
+    lowestOdd = lowest % 2 === 1 ? lowest : lowest + 1;
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let i = 0; i < order.length; i++) {
+      if (levels[order[i]] < level) {
+        continue;
+      }
+      let end = i;
+      while (end < order.length && levels[order[end]] >= level) {
+        end++;
+      }
+      order.splice(i, end - i, ...order.slice(i, end).reverse());
+      i = end;
+    }
+  }
+  return order;
+};
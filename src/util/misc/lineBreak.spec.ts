@@ -0,0 +1,52 @@
+import { graphemeSplit } from '../lang_string';
+import { findLineBreaks, getLineBreakClass } from './lineBreak';
+
+const getBreakIndexes = (text: string) =>
+  findLineBreaks(graphemeSplit(text)).map(({ index }) => index);
+
+describe('lineBreak', () => {
+  test('getLineBreakClass', () => {
+    expect(getLineBreakClass('a')).toBe('AL');
+    expect(getLineBreakClass('5')).toBe('NU');
+    expect(getLineBreakClass(' ')).toBe('SP');
+    expect(getLineBreakClass('(')).toBe('OP');
+    expect(getLineBreakClass(')')).toBe('CP');
+    expect(getLineBreakClass('。')).toBe('CL');
+    expect(getLineBreakClass('「')).toBe('OP');
+    expect(getLineBreakClass('漢')).toBe('ID');
+    expect(getLineBreakClass('ก')).toBe('SA');
+    expect(getLineBreakClass('\u00ad')).toBe('BA');
+    expect(getLineBreakClass('\u{1f600}')).toBe('ID');
+  });
+
+  test('breaks after spaces and hyphens', () => {
+    expect(getBreakIndexes('one two  three')).toEqual([4, 9]);
+    expect(getBreakIndexes('well-known')).toEqual([5]);
+    expect(getBreakIndexes('co\u00adop')).toEqual([3]);
+    // no break between the numbers of a range nor around a no-break space
+    expect(getBreakIndexes('1-2 a\u00a0b')).toEqual([4]);
+  });
+
+  test('punctuation does not start or end lines', () => {
+    expect(getBreakIndexes('(a) b, c! d')).toEqual([4, 7, 10]);
+    expect(getBreakIndexes('$5 10%')).toEqual([3]);
+    expect(getBreakIndexes('"a" b')).toEqual([4]);
+  });
+
+  test('ideographs break between each other except around punctuation', () => {
+    expect(getBreakIndexes('「漢字」です。')).toEqual([2, 4, 5]);
+  });
+
+  test('required breaks', () => {
+    expect(findLineBreaks(graphemeSplit('a\u2028b c'))).toEqual([
+      { index: 2, required: true },
+      { index: 4, required: false },
+    ]);
+  });
+
+  test('words of complex context scripts', () => {
+    // สวัสดีครับ, hello in thai, is made of two words
+    const breaks = getBreakIndexes('สวัสดีครับ');
+    expect(breaks).toEqual(Intl.Segmenter ? [6] : []);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Line breaking classes of the Unicode line breaking algorithm (UAX #14),
+ * see https://www.unicode.org/reports/tr14/#Table1
+ */
+export type TLineBreakClass =
+  | 'BK'
+  | 'CR'
+  | 'LF'
+  | 'NL'
+  | 'SP'
+  | 'ZW'
+  | 'WJ'
+  | 'GL'
+  | 'ZWJ'
+  | 'CM'
+  | 'OP'
+  | 'CL'
+  | 'CP'
+  | 'QU'
+  | 'EX'
+  | 'IS'
+  | 'SY'
+  | 'NS'
+  | 'BA'
+  | 'BB'
+  | 'HY'
+  | 'B2'
+  | 'IN'
+  | 'PR'
+  | 'PO'
+  | 'NU'
+  | 'HL'
+  | 'ID'
+  | 'RI'
+  | 'SA'
+  | 'AL';
+
+/**
+ * A line break opportunity before the grapheme at `index`,
+ * `required` if the line must break there
+ */
+export type TLineBreak = { index: number; required: boolean };
+
+/**
+ * Classes of punctuation and symbols that can't be told by their general category
+ */
+const classesByChar: Record<string, TLineBreakClass> = {};
+(
+  [
+    ['BK', '\u000b\u000c\u2028\u2029'],
+    ['CR', '\r'],
+    ['LF', '\n'],
+    ['NL', '\u0085'],
+    ['SP', ' '],
+    ['ZW', '\u200b'],
+    ['WJ', '\u2060\ufeff'],
+    ['GL', '\u00a0\u202f\u2007\u2011\u0f0c\u180e'],
+    ['ZWJ', '\u200d'],
+    ['OP', '\u00a1\u00bf'],
+    ['CP', ')]'],
+    ['CL', '}\u3001\u3002\uff0c\uff0e\uff61\uff64\ufe11\ufe12'],
+    ['QU', '"\''],
+    ['EX', '!?\uff01\uff1f\u061f'],
+    ['IS', ',.:;\u037e\u0589\u060c\u060d\u07f8\u2044\ufe10\ufe13\ufe14'],
+    ['SY', '/'],
+    [
+      'NS',
+      '\u17d6\u203d\u2047\u301c\u303b\u303c\u309b\u309c\u309d\u309e\u30a0\u30fb\u30fd\u30fe\ua015\uff1a\uff1b\uff65\uff9e\uff9f\u3005',
+    ],
+    [
+      'BA',
+      '\t\u00ad\u058a\u2010\u2012\u2013\u2000\u2001\u2002\u2003\u2004\u2005\u2006\u2008\u2009\u200a\u205f\u3000|\u1680\u2027\u2056\u2058\u2059\u205a\u205b\u205d\u205e',
+    ],
+    ['BB', '\u00b4\u02c8\u02cc\u02df\u1ffd\ua874\ua875'],
+    ['HY', '-'],
+    ['B2', '\u2014\u2e3a\u2e3b'],
+    ['IN', '\u2024\u2025\u2026\u22ef\ufe19'],
+    ['PR', '+\\\u00b1\u2116\u2212\u2213'],
+    [
+      'PO',
+      '%\u00a2\u00b0\u2030\u2031\u2032\u2033\u2034\u2103\u2109\uff05\uffe0',
+    ],
+  ] as [TLineBreakClass, string][]
+).forEach(([lineBreakClass, chars]) => {
+  for (const char of chars) {
+    classesByChar[char] = lineBreakClass;
+  }
+});
+
+const reCombiningMark = /^\p{M}/u;
+const reIdeographic =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}\p{Script=Yi}\u3000-\u303f\uff01-\uff60\uffe0-\uffe6\p{Extended_Pictographic}]/u;
+const reComplexContext =
+  /^[\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}\p{Script=Tai_Tham}\p{Script=Tai_Viet}\p{Script=New_Tai_Lue}]/u;
+const reRegionalIndicator = /^[\u{1f1e6}-\u{1f1ff}]/u;
+const reHebrewLetter = /^\p{Script=Hebrew}/u;
+
+/**
+ * @param {String} grapheme
+ * @returns {TLineBreakClass} the line breaking class of the first code point of a grapheme,
+ * ambiguous and unknown code points are alphabetic
+ */
+export const getLineBreakClass = (grapheme: string): TLineBreakClass => {
+  const char = String.fromCodePoint(grapheme.codePointAt(0) || 0);
+  if (classesByChar[char]) {
+    return classesByChar[char];
+  }
+  if (reCombiningMark.test(char)) {
+    return reComplexContext.test(char) ? 'SA' : 'CM';
+  }
+  if (/^\p{Nd}/u.test(char)) {
+    return 'NU';
+  }
+  if (reRegionalIndicator.test(char)) {
+    return 'RI';
+  }
+  if (reComplexContext.test(char)) {
+    return 'SA';
+  }
+  if (/^[\p{Pi}\p{Pf}]/u.test(char)) {
+    return 'QU';
+  }
+  if (/^\p{Ps}/u.test(char)) {
+    return 'OP';
+  }
+  if (/^\p{Pe}/u.test(char)) {
+    return 'CL';
+  }
+  if (/^\p{Sc}/u.test(char)) {
+    return 'PR';
+  }
+  if (reIdeographic.test(char)) {
+    return 'ID';
+  }
+  if (reHebrewLetter.test(char)) {
+    return 'HL';
+  }
+  return 'AL';
+};
+
+/**
+ * @returns the indexes of the graphemes starting a word, found with `Intl.Segmenter` where available
+ */
+const getWordStarts = (graphemes: string[]) => {
+  const starts = new Set<number>();
+  if (typeof Intl === 'undefined' || !Intl.Segmenter) {
+    return starts;
+  }
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'word' }),
+    offsets: number[] = [];
+  let offset = 0;
+  graphemes.forEach((grapheme, index) => {
+    offsets[offset] = index;
+    offset += grapheme.length;
+  });
+  for (const { index } of segmenter.segment(graphemes.join(''))) {
+    offsets[index] !== undefined && starts.add(offsets[index]);
+  }
+  return starts;
+};
+
+/**
+ * Finds the line break opportunities of a line of text following the Unicode line breaking algorithm (UAX #14),
+ * see https://www.unicode.org/reports/tr14/#Algorithm.
+ * Breaks inside words of scripts that don't separate them with spaces, like Thai, are found with `Intl.Segmenter`
+ * and are not allowed where it is not available.
+ * Ideographs and kana break as `ID`, following the common tailoring of East Asian text.
+ * @param {String[]} graphemes the graphemes of the text
+ * @returns {TLineBreak[]} the line break opportunities, the end of the text excluded
+ */
+export const findLineBreaks = (graphemes: string[]): TLineBreak[] => {
+  const breaks: TLineBreak[] = [],
+    original = graphemes.map(getLineBreakClass),
+    wordStarts = original.includes('SA')
+      ? getWordStarts(graphemes)
+      : new Set<number>(),
+    // LB1 resolves complex context to alphabetic or combining marks
+    classes = original.map((lineBreakClass, i) =>
+      lineBreakClass === 'SA'
+        ? reCombiningMark.test(graphemes[i])
+          ? 'CM'
+          : 'AL'
+        : lineBreakClass
+    );
+  // LB9 and LB10: combining marks take the class of their base
+  for (let i = 0; i < classes.length; i++) {
+    if (classes[i] !== 'CM' && classes[i] !== 'ZWJ') {
+      continue;
+    }
+    const base = classes[i - 1];
+    classes[i] =
+      i > 0 &&
+      base !== 'BK' &&
+      base !== 'CR' &&
+      base !== 'LF' &&
+      base !== 'NL' &&
+      base !== 'SP' &&
+      base !== 'ZW'
+        ? base
+        : 'AL';
+  }
+  let regionalIndicators = original[0] === 'RI' ? 1 : 0;
+  for (let i = 1; i < classes.length; i++) {
+    const before = classes[i - 1],
+      after = classes[i];
+    // the class before the spaces preceding the opportunity
+    let j = i - 1;
+    while (j > 0 && classes[j] === 'SP') {
+      j--;
+    }
+    const beforeSpaces = classes[j];
+    const result = ((): boolean | 'required' => {
+      // LB4 and LB5
+      if (before === 'CR' && after === 'LF') {
+        return false;
+      }
+      if (
+        before === 'BK' ||
+        before === 'CR' ||
+        before === 'LF' ||
+        before === 'NL'
+      ) {
+        return 'required';
+      }
+      // LB6 and LB7
+      if (
+        after === 'BK' ||
+        after === 'CR' ||
+        after === 'LF' ||
+        after === 'NL' ||
+        after === 'SP' ||
+        after === 'ZW'
+      ) {
+        return false;
+      }
+      // LB8
+      if (beforeSpaces === 'ZW') {
+        return true;
+      }
+      // LB9, a combining mark never starts a segment
+      if (
+        (original[i] === 'CM' || original[i] === 'ZWJ') &&
+        before !== 'SP' &&
+        before !== 'ZW'
+      ) {
+        return false;
+      }
+      // LB8a
+      if (original[i - 1] === 'ZWJ') {
+        return false;
+      }
+      // LB11, LB12 and LB12a
+      if (after === 'WJ' || before === 'WJ' || before === 'GL') {
+        return false;
+      }
+      if (
+        after === 'GL' &&
+        before !== 'SP' &&
+        before !== 'BA' &&
+        before !== 'HY'
+      ) {
+        return false;
+      }
+      // LB13
+      if (
+        after === 'CL' ||
+        after === 'CP' ||
+        after === 'EX' ||
+        after === 'IS' ||
+        after === 'SY'
+      ) {
+        return false;
+      }
+      // LB14 to LB17
+      if (beforeSpaces === 'OP') {
+        return false;
+      }
+      if (beforeSpaces === 'QU' && after === 'OP') {
+        return false;
+      }
+      if ((beforeSpaces === 'CL' || beforeSpaces === 'CP') && after === 'NS') {
+        return false;
+      }
+      if (beforeSpaces === 'B2' && after === 'B2') {
+        return false;
+      }
+      // LB18
+      if (before === 'SP') {
+        return true;
+      }
+      // LB19
+      if (before === 'QU' || after === 'QU') {
+        return false;
+      }
+      // LB21, LB21a and LB21b
+      if (
+        after === 'BA' ||
+        after === 'HY' ||
+        after === 'NS' ||
+        before === 'BB'
+      ) {
+        return false;
+      }
+      if (
+        i > 1 &&
+        classes[i - 2] === 'HL' &&
+        (before === 'HY' || before === 'BA')
+      ) {
+        return false;
+      }
+      if (before === 'SY' && after === 'HL') {
+        return false;
+      }
+      // LB22
+      if (after === 'IN') {
+        return false;
+      }
+      // LB23 to LB25
+      const isAlphabetic = (lineBreakClass: TLineBreakClass) =>
+        lineBreakClass === 'AL' || lineBreakClass === 'HL';
+      if (
+        (isAlphabetic(before) && after === 'NU') ||
+        (before === 'NU' && isAlphabetic(after)) ||
+        (before === 'PR' && after === 'ID') ||
+        (before === 'ID' && after === 'PO') ||
+        ((before === 'PR' || before === 'PO') && isAlphabetic(after)) ||
+        (isAlphabetic(before) && (after === 'PR' || after === 'PO'))
+      ) {
+        return false;
+      }
+      if (
+        (after === 'NU' &&
+          (before === 'PR' ||
+            before === 'PO' ||
+            before === 'OP' ||
+            before === 'HY' ||
+            before === 'IS' ||
+            before === 'SY' ||
+            before === 'NU')) ||
+        ((before === 'NU' || before === 'CL' || before === 'CP') &&
+          (after === 'PO' || after === 'PR')) ||
+        ((before === 'PR' || before === 'PO') && after === 'OP')
+      ) {
+        return false;
+      }
+      // LB28 and LB29, words of complex context scripts break where they end
+      if (isAlphabetic(before) && isAlphabetic(after)) {
+        return (
+          original[i - 1] === 'SA' && original[i] === 'SA' && wordStarts.has(i)
+        );
+      }
+      if (before === 'IS' && isAlphabetic(after)) {
+        return false;
+      }
+      // LB30, for brackets that are not East Asian
+      if (
+        (isAlphabetic(before) || before === 'NU') &&
+        after === 'OP' &&
+        graphemes[i].charCodeAt(0) < 0x2e80
+      ) {
+        return false;
+      }
+      if (
+        before === 'CP' &&
+        (isAlphabetic(after) || after === 'NU') &&
+        graphemes[i - 1].charCodeAt(0) < 0x2e80
+      ) {
+        return false;
+      }
+      // LB30a, regional indicators pair as flags
+      if (before === 'RI' && after === 'RI') {
+        return regionalIndicators % 2 === 0;
+      }
+      // LB31
+      return true;
+    })();
+    regionalIndicators = original[i] === 'RI' ? regionalIndicators + 1 : 0;
+    result && breaks.push({ index: i, required: result === 'required' });
+  }
+  return breaks;
+};
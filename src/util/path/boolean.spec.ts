@@ -0,0 +1,207 @@
+import { Circle } from '../../shapes/Circle';
+import { Group } from '../../shapes/Group';
+import { Path } from '../../shapes/Path';
+import { Rect } from '../../shapes/Rect';
+import { booleanObjects, booleanPathData } from './boolean';
+import type { TSimplePathData } from './typedefs';
+
+const square = (
+  x: number,
+  y: number,
+  size: number,
+  clockwise = true
+): TSimplePathData =>
+  clockwise
+    ? [
+        ['M', x, y],
+        ['L', x + size, y],
+        ['L', x + size, y + size],
+        ['L', x, y + size],
+        ['Z'],
+      ]
+    : [
+        ['M', x, y],
+        ['L', x, y + size],
+        ['L', x + size, y + size],
+        ['L', x + size, y],
+        ['Z'],
+      ];
+
+/**
+ * signed areas of the subpaths of polygonal path data
+ */
+const getAreas = (path: TSimplePathData) => {
+  const areas: number[] = [];
+  let points: number[][] = [];
+  path.forEach(([command, x, y]) => {
+    if (command === 'Z') {
+      areas.push(
+        points.reduce((area, [x1, y1], index) => {
+          const [x2, y2] = points[(index + 1) % points.length];
+          return area + (x1 * y2 - x2 * y1) / 2;
+        }, 0)
+      );
+      points = [];
+    } else {
+      points.push([x as number, y as number]);
+    }
+  });
+  return areas;
+};
+
+const getArea = (path: TSimplePathData) =>
+  getAreas(path).reduce((total, area) => total + area, 0);
+
+describe('boolean operations', () => {
+  const a = { path: square(0, 0, 10) },
+    b = { path: square(5, 5, 10) };
+
+  test.each([
+    ['union', 175],
+    ['intersect', 25],
+    ['subtract', 75],
+    ['exclude', 150],
+  ] as const)('%s', (operation, area) => {
+    const result = booleanPathData(operation, [a, b]);
+    expect(Math.abs(getArea(result))).toBeCloseTo(area);
+    // filled areas and holes go in opposite directions
+    const areas = getAreas(result);
+    expect(
+      areas.every((value) => Math.sign(value) === Math.sign(areas[0]))
+    ).toBe(operation !== 'exclude' ? true : areas.length === 2);
+  });
+
+  test('union of a polygon is simplified', () => {
+    expect(booleanPathData('union', [a, { path: square(10, 0, 10) }])).toEqual([
+      ['M', 0, 0],
+      ['L', 20, 0],
+      ['L', 20, 10],
+      ['L', 0, 10],
+      ['Z'],
+    ]);
+    expect(
+      booleanPathData('intersect', [a, { path: square(20, 0, 10) }])
+    ).toEqual([]);
+  });
+
+  test('holes', () => {
+    const result = booleanPathData('subtract', [
+      { path: square(0, 0, 10) },
+      { path: square(2, 2, 6) },
+    ]);
+    const areas = getAreas(result);
+    expect(areas).toHaveLength(2);
+    expect(Math.sign(areas[0])).toBe(-Math.sign(areas[1]));
+    expect(Math.abs(getArea(result))).toBeCloseTo(64);
+    // holes of the operand are kept
+    expect(
+      Math.abs(
+        getArea(
+          booleanPathData('union', [
+            { path: result },
+            { path: square(20, 0, 5) },
+          ])
+        )
+      )
+    ).toBeCloseTo(89);
+  });
+
+  test('fill rules of the operands', () => {
+    const nested = [...square(0, 0, 10), ...square(2, 2, 6)];
+    expect(
+      Math.abs(getArea(booleanPathData('union', [{ path: nested }])))
+    ).toBeCloseTo(100);
+    expect(
+      Math.abs(
+        getArea(
+          booleanPathData('union', [{ path: nested, fillRule: 'evenodd' }])
+        )
+      )
+    ).toBeCloseTo(64);
+    // with nonzero, an inner subpath going in the other direction is a hole
+    const opposite = [...square(0, 0, 10), ...square(2, 2, 6, false)];
+    expect(
+      Math.abs(getArea(booleanPathData('union', [{ path: opposite }])))
+    ).toBeCloseTo(64);
+    // self intersecting subpaths
+    const bowtie: TSimplePathData = [
+      ['M', 0, 0],
+      ['L', 10, 10],
+      ['L', 10, 0],
+      ['L', 0, 10],
+      ['Z'],
+    ];
+    expect(
+      Math.abs(getArea(booleanPathData('union', [{ path: bowtie }])))
+    ).toBeCloseTo(50);
+  });
+
+  test('curves are approximated within the tolerance', () => {
+    const circle = new Circle({ radius: 10 }).toPathData();
+    const area = Math.abs(
+      getArea(booleanPathData('union', [{ path: circle }], { tolerance: 0.01 }))
+    );
+    expect(area).toBeGreaterThan(Math.PI * 100 * 0.995);
+    expect(area).toBeLessThan(Math.PI * 100 * 1.001);
+  });
+
+  test('outlines of shapes', () => {
+    const area = (object: Rect | Circle) =>
+      Math.abs(
+        getArea(
+          booleanPathData('union', [{ path: object.toPathData() }], {
+            tolerance: 0.001,
+          })
+        )
+      );
+    expect(area(new Rect({ width: 20, height: 10 }))).toBeCloseTo(200);
+    expect(area(new Rect({ width: 20, height: 10, rx: 2, ry: 2 }))).toBeCloseTo(
+      200 - (4 - Math.PI) * 4,
+      1
+    );
+    // half circle closed by its diameter
+    expect(
+      area(new Circle({ radius: 10, startAngle: 0, endAngle: 180 }))
+    ).toBeCloseTo(50 * Math.PI, 0);
+  });
+
+  test('booleanObjects accounts for the transform of objects', () => {
+    const rect = new Rect({
+        left: 10,
+        top: 10,
+        width: 20,
+        height: 10,
+        scaleX: 2,
+        fill: 'red',
+        stroke: 'blue',
+        strokeWidth: 0,
+      }),
+      rotated = new Rect({
+        left: 80,
+        top: 80,
+        width: 20,
+        height: 20,
+        angle: 90,
+        originX: 'center',
+        originY: 'center',
+        strokeWidth: 0,
+      }),
+      group = new Group([rotated]);
+    // scaled around the top left corner of the group, at 70, 70
+    group.set({ scaleX: 0.5, scaleY: 0.5 });
+    const result = booleanObjects('union', [rect, rotated]);
+    expect(result).toBeInstanceOf(Path);
+    expect(result.fill).toBe('red');
+    expect(result.stroke).toBe('blue');
+    expect(result.fillRule).toBe('nonzero');
+    const { left, top, width, height } = result.getBoundingRect(true, true);
+    expect([left, top, width, height].map(Math.round)).toEqual([
+      10, 10, 70, 70,
+    ]);
+    expect(Math.abs(getArea(result.path))).toBeCloseTo(500);
+    expect(
+      Math.abs(getArea(booleanObjects('intersect', [rect, rect]).path))
+    ).toBeCloseTo(400);
+    expect(() => booleanObjects('union', [])).toThrow();
+  });
+});
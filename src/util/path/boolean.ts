@@ -0,0 +1,349 @@
+import { Point } from '../../Point';
+import type { FabricObject } from '../../shapes/Object/FabricObject';
+import type { PathProps } from '../../shapes/Path';
+import { Path } from '../../shapes/Path';
+import { FabricError } from '../internals/console';
+import { makeBoundingBoxFromPoints } from '../misc/boundingBoxFromPoints';
+import { pick } from '../misc/pick';
+import { magnitude } from '../misc/vectors';
+import { flattenPath } from './flatten';
+import { transformPath } from './index';
+import type { TSimplePathData } from './typedefs';
+
+export type TBooleanOperation = 'union' | 'intersect' | 'subtract' | 'exclude';
+
+export type TBooleanOperand = {
+  path: TSimplePathData;
+  /**
+   * @default 'nonzero'
+   */
+  fillRule?: CanvasFillRule;
+};
+
+export type TBooleanOptions = {
+  /**
+   * maximum distance between curves and the segments approximating them
+   * @default 0.1
+   */
+  tolerance?: number;
+};
+
+type TEdge = { a: Point; b: Point };
+
+type TSplit = { t: number; point: Point };
+
+const OPERATIONS: Record<
+  TBooleanOperation,
+  (inA: boolean, inB: boolean) => boolean
+> = {
+  union: (inA, inB) => inA || inB,
+  intersect: (inA, inB) => inA && inB,
+  subtract: (inA, inB) => inA && !inB,
+  exclude: (inA, inB) => inA !== inB,
+};
+
+/**
+ * Style properties the resulting path inherits from the first object
+ */
+const STYLE_PROPERTIES = [
+  'fill',
+  'stroke',
+  'strokeWidth',
+  'strokeDashArray',
+  'strokeDashOffset',
+  'strokeLineCap',
+  'strokeLineJoin',
+  'strokeMiterLimit',
+  'opacity',
+] as const;
+
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+
+/**
+ * @private
+ * Approximates the subpaths of `path` with closed polygons, as they are filled
+ */
+const toRings = (path: TSimplePathData, tolerance: number): Point[][] =>
+  flattenPath(path, tolerance)
+    .map(({ points }) => points)
+    .filter((points) => points.length > 2);
+
+/**
+ * @private
+ * @returns the winding number of `rings` around `point`
+ */
+const getWinding = (point: Point, rings: Point[][]) => {
+  let winding = 0;
+  for (const ring of rings) {
+    for (let i = 0, l = ring.length; i < l; i++) {
+      const a = ring[i],
+        b = ring[(i + 1) % l];
+      if (a.y <= point.y) {
+        b.y > point.y &&
+          cross(b.subtract(a), point.subtract(a)) > 0 &&
+          winding++;
+      } else if (
+        b.y <= point.y &&
+        cross(b.subtract(a), point.subtract(a)) < 0
+      ) {
+        winding--;
+      }
+    }
+  }
+  return winding;
+};
+
+/**
+ * @private
+ */
+const isInside = (point: Point, rings: Point[][], fillRule: CanvasFillRule) => {
+  const winding = getWinding(point, rings);
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+};
+
+/**
+ * @private
+ * Collects the points where edges cross or overlap each other
+ */
+const splitEdges = (edges: TEdge[], epsilon: number) => {
+  const splits: TSplit[][] = edges.map(() => []);
+  for (let i = 0; i < edges.length; i++) {
+    const { a: a1, b: b1 } = edges[i],
+      d1 = b1.subtract(a1);
+    for (let j = i + 1; j < edges.length; j++) {
+      const { a: a2, b: b2 } = edges[j];
+      if (
+        Math.max(a2.x, b2.x) < Math.min(a1.x, b1.x) - epsilon ||
+        Math.min(a2.x, b2.x) > Math.max(a1.x, b1.x) + epsilon ||
+        Math.max(a2.y, b2.y) < Math.min(a1.y, b1.y) - epsilon ||
+        Math.min(a2.y, b2.y) > Math.max(a1.y, b1.y) + epsilon
+      ) {
+        continue;
+      }
+      const d2 = b2.subtract(a2),
+        denominator = cross(d1, d2),
+        offset = a2.subtract(a1),
+        l1 = magnitude(d1),
+        l2 = magnitude(d2);
+      if (Math.abs(denominator) > 1e-12 * l1 * l2) {
+        const t = cross(offset, d2) / denominator,
+          u = cross(offset, d1) / denominator;
+        if (
+          t >= -epsilon / l1 &&
+          t <= 1 + epsilon / l1 &&
+          u >= -epsilon / l2 &&
+          u <= 1 + epsilon / l2
+        ) {
+          const point = a1.add(d1.scalarMultiply(t));
+          splits[i].push({ t, point });
+          splits[j].push({ t: u, point });
+        }
+      } else if (Math.abs(cross(offset, d1)) <= epsilon * l1) {
+        // collinear edges overlap at the ends of each other
+        [a2, b2].forEach((point) =>
+          splits[i].push({ t: dot(point.subtract(a1), d1) / l1 ** 2, point })
+        );
+        [a1, b1].forEach((point) =>
+          splits[j].push({ t: dot(point.subtract(a2), d2) / l2 ** 2, point })
+        );
+      }
+    }
+  }
+  return splits;
+};
+
+/**
+ * @private
+ * Chains edges into closed rings, turning as much as possible at vertexes shared by several rings
+ */
+const chainEdges = (edges: TEdge[], keyOf: (point: Point) => string) => {
+  const outgoing = new Map<string, TEdge[]>();
+  edges.forEach((edge) => {
+    const key = keyOf(edge.a);
+    outgoing.set(key, [...(outgoing.get(key) || []), edge]);
+  });
+  const used = new Set<TEdge>(),
+    rings: Point[][] = [];
+  edges.forEach((first) => {
+    if (used.has(first)) {
+      return;
+    }
+    const ring: Point[] = [];
+    let edge: TEdge | undefined = first;
+    while (edge && !used.has(edge)) {
+      used.add(edge);
+      ring.push(edge.a);
+      const direction: Point = edge.b.subtract(edge.a),
+        candidates: TEdge[] = (outgoing.get(keyOf(edge.b)) || []).filter(
+          (candidate) => !used.has(candidate)
+        );
+      edge = candidates.reduce<TEdge | undefined>((best, candidate) => {
+        const turn = (next: TEdge): number => {
+          const d = next.b.subtract(next.a);
+          return Math.atan2(cross(direction, d), dot(direction, d));
+        };
+        return !best || turn(candidate) > turn(best) ? candidate : best;
+      }, undefined);
+    }
+    // drop vertexes in the middle of straight lines
+    const simplified = ring.filter((point, index) => {
+      const prev = ring[(index - 1 + ring.length) % ring.length],
+        next = ring[(index + 1) % ring.length],
+        d1 = point.subtract(prev),
+        d2 = next.subtract(point);
+      return (
+        Math.abs(cross(d1, d2)) > 1e-9 * magnitude(d1) * magnitude(d2) ||
+        dot(d1, d2) < 0
+      );
+    });
+    simplified.length > 2 && rings.push(simplified);
+  });
+  return rings;
+};
+
+/**
+ * Combines 2 shapes into one, see {@link booleanPathData}
+ */
+const combine = (
+  operation: TBooleanOperation,
+  first: TBooleanOperand,
+  second: TBooleanOperand,
+  tolerance: number
+): TSimplePathData => {
+  const ringsA = toRings(first.path, tolerance),
+    ringsB = toRings(second.path, tolerance),
+    points = [...ringsA, ...ringsB].flat();
+  if (points.length === 0) {
+    return [];
+  }
+  const { width, height } = makeBoundingBoxFromPoints(points),
+    extent = Math.max(width, height, 1),
+    epsilon = extent * 1e-9,
+    snap = (point: Point) =>
+      new Point(
+        Math.round(point.x / epsilon) * epsilon,
+        Math.round(point.y / epsilon) * epsilon
+      ),
+    keyOf = ({ x, y }: Point) =>
+      `${Math.round(x / epsilon)},${Math.round(y / epsilon)}`;
+
+  const edges: TEdge[] = [...ringsA, ...ringsB].flatMap((ring) =>
+    ring.map((a, index) => ({ a, b: ring[(index + 1) % ring.length] }))
+  );
+  const splits = splitEdges(edges, epsilon),
+    pieces = new Map<string, TEdge>();
+  edges.forEach(({ a, b }, index) => {
+    const vertexes = [
+      { t: 0, point: a },
+      ...splits[index].filter(({ t }) => t > 0 && t < 1),
+      { t: 1, point: b },
+    ]
+      .sort((s1, s2) => s1.t - s2.t)
+      .map(({ point }) => snap(point));
+    for (let i = 0; i < vertexes.length - 1; i++) {
+      const start = vertexes[i],
+        end = vertexes[i + 1],
+        startKey = keyOf(start),
+        endKey = keyOf(end);
+      // overlapping pieces are the same boundary and are evaluated once
+      startKey !== endKey &&
+        pieces.set(
+          startKey < endKey ? `${startKey} ${endKey}` : `${endKey} ${startKey}`,
+          { a: start, b: end }
+        );
+    }
+  });
+
+  // keep the pieces separating the inside from the outside of the result, with the inside on their left
+  const isInResult = (point: Point) =>
+      OPERATIONS[operation](
+        isInside(point, ringsA, first.fillRule || 'nonzero'),
+        isInside(point, ringsB, second.fillRule || 'nonzero')
+      ),
+    offset = extent * 1e-7,
+    boundary: TEdge[] = [];
+  pieces.forEach(({ a, b }) => {
+    const direction = b.subtract(a),
+      normal = new Point(-direction.y, direction.x).scalarMultiply(
+        offset / magnitude(direction)
+      ),
+      middle = a.midPointFrom(b),
+      left = isInResult(middle.add(normal)),
+      right = isInResult(middle.subtract(normal));
+    left !== right && boundary.push(left ? { a, b } : { a: b, b: a });
+  });
+
+  return chainEdges(boundary, keyOf).flatMap((ring) => [
+    ['M', ring[0].x, ring[0].y] as const,
+    ...ring.slice(1).map(({ x, y }) => ['L', x, y] as const),
+    ['Z'] as const,
+  ]) as TSimplePathData;
+};
+
+/**
+ * Computes a boolean operation between filled shapes described by path data,
+ * e.g. the path data of objects in the same plane, see {@link booleanObjects}.
+ * Operands are combined in order, subtracting all following operands from the first one for `subtract`.
+ * Subpaths are filled according to the `fillRule` of their operand, curves are approximated by segments.
+ * The resulting subpaths go around the filled areas in one direction and around holes in the other one,
+ * so that they are filled the same with both fill rules.
+ * @param {TBooleanOperation} operation
+ * @param {TBooleanOperand[]} operands
+ * @param {TBooleanOptions} [options]
+ * @returns {TSimplePathData} path data of the result
+ */
+export const booleanPathData = (
+  operation: TBooleanOperation,
+  operands: TBooleanOperand[],
+  { tolerance = 0.1 }: TBooleanOptions = {}
+): TSimplePathData => {
+  if (operands.length === 0) {
+    return [];
+  }
+  const [first, ...others] = operands;
+  return others.reduce(
+    (result, operand) =>
+      combine(operation, { path: result }, operand, tolerance),
+    // normalizes a single operand the same way
+    combine('union', first, { path: [] }, tolerance)
+  );
+};
+
+/**
+ * Computes a boolean operation between the filled shapes of objects, see {@link FabricObject#toPathData} and {@link booleanPathData}.
+ * Shapes are taken in the canvas coordinate plane, including the transform of their groups,
+ * so that the resulting `Path` lands where the objects are when added to the canvas.
+ * The path inherits the fill and stroke styles of the first object.
+ * @param {TBooleanOperation} operation
+ * @param {FabricObject[]} objects
+ * @param {Partial<PathProps> & TBooleanOptions} [options] options of the resulting path
+ * @returns {Path}
+ */
+export const booleanObjects = (
+  operation: TBooleanOperation,
+  objects: FabricObject[],
+  { tolerance, ...options }: Partial<PathProps> & TBooleanOptions = {}
+) => {
+  if (objects.length === 0) {
+    throw new FabricError('boolean operations need at least one object');
+  }
+  const path = booleanPathData(
+    operation,
+    objects.map((object) => ({
+      path: transformPath(
+        object.toPathData(),
+        object.calcTransformMatrix(),
+        new Point()
+      ),
+      fillRule: object.fillRule,
+    })),
+    { tolerance }
+  );
+  return new Path(path, {
+    ...pick(objects[0], [...STYLE_PROPERTIES]),
+    fillRule: 'nonzero',
+    ...options,
+  });
+};
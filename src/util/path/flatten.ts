@@ -0,0 +1,110 @@
+import { Point } from '../../Point';
+import { magnitude } from '../misc/vectors';
+import type { TSimplePathData } from './typedefs';
+
+/**
+ * A subpath approximated by a polyline
+ */
+export type TFlatSubpath = {
+  points: Point[];
+  /**
+   * for every point, true if it ends a command of the path rather than lying on a curve
+   */
+  vertices: boolean[];
+  /**
+   * true if the subpath ends with a `Z` command
+   */
+  closed: boolean;
+};
+
+/**
+ * Approximates the subpaths of `path` with polylines, subdividing curves in segments
+ * @param {TSimplePathData} path
+ * @param {number} tolerance maximum distance between curves and the segments approximating them
+ * @returns {TFlatSubpath[]}
+ */
+export const flattenPath = (
+  path: TSimplePathData,
+  tolerance: number
+): TFlatSubpath[] => {
+  const subpaths: TFlatSubpath[] = [];
+  let subpath: TFlatSubpath = { points: [], vertices: [], closed: false },
+    current = new Point(),
+    start = new Point();
+  const addSubpath = (closed = false) => {
+    subpath.closed = closed;
+    subpath.points.length > 0 && subpaths.push(subpath);
+    subpath = { points: [], vertices: [], closed: false };
+  };
+  const addPoint = (point: Point, vertex = true) => {
+    // a subpath following `Z` starts where the previous one started
+    if (subpath.points.length === 0 && point !== start) {
+      subpath.points.push(start);
+      subpath.vertices.push(true);
+    }
+    subpath.points.push(point);
+    subpath.vertices.push(vertex);
+  };
+  const subdivide = (dd: number, at: (t: number) => Point) => {
+    const steps = Math.max(1, Math.ceil(Math.sqrt(dd / tolerance)));
+    for (let i = 1; i <= steps; i++) {
+      addPoint(at(i / steps), i === steps);
+    }
+  };
+  for (const command of path) {
+    switch (command[0]) {
+      case 'M':
+        addSubpath();
+        current = start = new Point(command[1], command[2]);
+        addPoint(current);
+        break;
+      case 'L':
+        current = new Point(command[1], command[2]);
+        addPoint(current);
+        break;
+      case 'Q': {
+        const p0 = current,
+          p1 = new Point(command[1], command[2]),
+          p2 = new Point(command[3], command[4]);
+        subdivide(
+          magnitude(p0.subtract(p1.scalarMultiply(2)).add(p2)) / 4,
+          (t) =>
+            p0
+              .scalarMultiply((1 - t) ** 2)
+              .add(p1.scalarMultiply(2 * t * (1 - t)))
+              .add(p2.scalarMultiply(t ** 2))
+        );
+        current = p2;
+        break;
+      }
+      case 'C': {
+        const p0 = current,
+          p1 = new Point(command[1], command[2]),
+          p2 = new Point(command[3], command[4]),
+          p3 = new Point(command[5], command[6]);
+        subdivide(
+          (Math.max(
+            magnitude(p0.subtract(p1.scalarMultiply(2)).add(p2)),
+            magnitude(p1.subtract(p2.scalarMultiply(2)).add(p3))
+          ) *
+            3) /
+            4,
+          (t) =>
+            p0
+              .scalarMultiply((1 - t) ** 3)
+              .add(p1.scalarMultiply(3 * t * (1 - t) ** 2))
+              .add(p2.scalarMultiply(3 * t ** 2 * (1 - t)))
+              .add(p3.scalarMultiply(t ** 3))
+        );
+        current = p3;
+        break;
+      }
+      case 'Z':
+        addSubpath(true);
+        current = start;
+        break;
+    }
+  }
+  addSubpath();
+  return subpaths;
+};
@@ -1059,6 +1059,53 @@ export const getRegularPolygonPath = (
   return d;
 };
 
+/**
+ * Returns an array of path commands approximating an arc of an ellipse centered at the origin with cubic curves,
+ * drawn like `CanvasRenderingContext2D#arc` in the clockwise direction of the canvas
+ * @param {number} rx horizontal radius
+ * @param {number} ry vertical radius
+ * @param {TRadian} [startAngle]
+ * @param {TRadian} [endAngle] a full ellipse is drawn when the arc spans 2 PI or more
+ * @returns {TSimplePathData} An array of SVG path commands, not closed
+ */
+export const getArcPath = (
+  rx: number,
+  ry: number,
+  startAngle = 0 as TRadian,
+  endAngle = (2 * Math.PI) as TRadian
+): TSimplePathData => {
+  const twoPI = 2 * Math.PI,
+    sweep =
+      endAngle - startAngle >= twoPI
+        ? twoPI
+        : (((endAngle - startAngle) % twoPI) + twoPI) % twoPI,
+    segments = Math.max(1, Math.ceil(sweep / halfPI - 1e-9)),
+    step = sweep / segments,
+    // length of the tangents of each segment, relative to the radius
+    k = (4 / 3) * Math.tan(step / 4),
+    d: TSimplePathData = [
+      ['M', rx * cos(startAngle as TRadian), ry * sin(startAngle as TRadian)],
+    ];
+  for (let i = 0; i < segments; i++) {
+    const from = startAngle + i * step,
+      to = from + step,
+      cosFrom = cos(from as TRadian),
+      sinFrom = sin(from as TRadian),
+      cosTo = cos(to as TRadian),
+      sinTo = sin(to as TRadian);
+    d.push([
+      'C',
+      rx * (cosFrom - k * sinFrom),
+      ry * (sinFrom + k * cosFrom),
+      rx * (cosTo + k * sinTo),
+      ry * (sinTo - k * cosTo),
+      rx * cosTo,
+      ry * sinTo,
+    ]);
+  }
+  return d;
+};
+
 /**
  * Join path commands to go back to svg format
  * @param {TSimplePathData} pathData fabricJS parsed path commands
@@ -0,0 +1,187 @@
+import { Circle } from '../../shapes/Circle';
+import { Path } from '../../shapes/Path';
+import { Rect } from '../../shapes/Rect';
+import {
+  offsetObject,
+  offsetPathData,
+  outlineStrokeObject,
+  outlineStrokePathData,
+} from './outline';
+import type { TSimplePathData } from './typedefs';
+
+const line: TSimplePathData = [
+  ['M', 0, 0],
+  ['L', 10, 0],
+];
+
+const square: TSimplePathData = [
+  ['M', 0, 0],
+  ['L', 10, 0],
+  ['L', 10, 10],
+  ['L', 0, 10],
+  ['Z'],
+];
+
+/**
+ * signed areas of the subpaths of polygonal path data
+ */
+const getAreas = (path: TSimplePathData) => {
+  const areas: number[] = [];
+  let points: number[][] = [];
+  path.forEach(([command, x, y]) => {
+    if (command === 'Z') {
+      areas.push(
+        points.reduce((area, [x1, y1], index) => {
+          const [x2, y2] = points[(index + 1) % points.length];
+          return area + (x1 * y2 - x2 * y1) / 2;
+        }, 0)
+      );
+      points = [];
+    } else {
+      points.push([x as number, y as number]);
+    }
+  });
+  return areas;
+};
+
+const getArea = (path: TSimplePathData) =>
+  Math.abs(getAreas(path).reduce((total, area) => total + area, 0));
+
+describe('stroke outline', () => {
+  test.each([
+    ['butt', 20],
+    ['square', 24],
+    ['round', 20 + Math.PI],
+  ] as const)('%s caps', (strokeLineCap, area) => {
+    expect(
+      getArea(
+        outlineStrokePathData(line, {
+          strokeWidth: 2,
+          strokeLineCap,
+          tolerance: 0.001,
+        })
+      )
+    ).toBeCloseTo(area, 2);
+  });
+
+  test.each([
+    ['miter', 80],
+    ['bevel', 78],
+    ['round', 76 + Math.PI],
+  ] as const)('%s joins', (strokeLineJoin, area) => {
+    const outline = outlineStrokePathData(square, {
+      strokeWidth: 2,
+      strokeLineJoin,
+      tolerance: 0.001,
+    });
+    // the outline is a ring
+    expect(getAreas(outline)).toHaveLength(2);
+    expect(getArea(outline)).toBeCloseTo(area, 2);
+  });
+
+  test('miter limit', () => {
+    const sharp: TSimplePathData = [
+        ['M', 0, 0],
+        ['L', 20, 2],
+        ['L', 0, 4],
+      ],
+      bevel = getArea(
+        outlineStrokePathData(sharp, {
+          strokeWidth: 2,
+          strokeLineJoin: 'bevel',
+        })
+      );
+    expect(
+      getArea(outlineStrokePathData(sharp, { strokeWidth: 2 }))
+    ).toBeCloseTo(bevel);
+    expect(
+      getArea(
+        outlineStrokePathData(sharp, { strokeWidth: 2, strokeMiterLimit: 20 })
+      )
+    ).toBeGreaterThan(bevel + 1);
+  });
+
+  test('dashes', () => {
+    const dashed = outlineStrokePathData(line, {
+      strokeWidth: 2,
+      strokeDashArray: [2, 3],
+    });
+    expect(getAreas(dashed)).toHaveLength(2);
+    expect(getArea(dashed)).toBeCloseTo(8);
+    const offset = outlineStrokePathData(line, {
+      strokeWidth: 2,
+      strokeDashArray: [2, 3],
+      strokeDashOffset: 1,
+    });
+    expect(getAreas(offset)).toHaveLength(3);
+    expect(getArea(offset)).toBeCloseTo(8);
+    // odd dash arrays are repeated
+    expect(
+      getAreas(
+        outlineStrokePathData(line, { strokeWidth: 2, strokeDashArray: [2] })
+      )
+    ).toHaveLength(3);
+  });
+
+  test('offsetPathData', () => {
+    expect(getArea(offsetPathData(square, 2))).toBeCloseTo(196);
+    expect(getArea(offsetPathData(square, -2))).toBeCloseTo(36);
+    expect(getArea(offsetPathData(square, -6))).toBe(0);
+    expect(
+      getArea(
+        offsetPathData(square, 2, { strokeLineJoin: 'round', tolerance: 0.001 })
+      )
+    ).toBeCloseTo(180 + 4 * Math.PI, 1);
+  });
+
+  test('outlineStrokeObject', () => {
+    const rect = new Rect({
+        left: 10,
+        top: 20,
+        width: 10,
+        height: 10,
+        angle: 30,
+        stroke: 'blue',
+        strokeWidth: 2,
+      }),
+      outline = outlineStrokeObject(rect);
+    expect(outline).toBeInstanceOf(Path);
+    expect(outline.fill).toBe('blue');
+    expect(outline.stroke).toBe(null);
+    expect(outline.strokeWidth).toBe(0);
+    expect(outline.angle).toBe(30);
+    expect(getArea(outline.path)).toBeCloseTo(80);
+    const { left, top, width, height } = outline.getBoundingRect();
+    const expected = rect.getBoundingRect();
+    expect(left).toBeCloseTo(expected.left);
+    expect(top).toBeCloseTo(expected.top);
+    expect(width).toBeCloseTo(expected.width);
+    expect(height).toBeCloseTo(expected.height);
+  });
+
+  test('outlineStrokeObject of uniform strokes', () => {
+    const outline = outlineStrokeObject(
+      new Rect({
+        width: 10,
+        height: 10,
+        scaleX: 2,
+        stroke: 'blue',
+        strokeWidth: 2,
+        strokeUniform: true,
+      })
+    );
+    // 22 * 12 - 18 * 8 in the canvas plane
+    expect(getArea(outline.path) * 2).toBeCloseTo(120);
+    expect(outline.getScaledWidth()).toBeCloseTo(22);
+    expect(outline.getScaledHeight()).toBeCloseTo(12);
+  });
+
+  test('offsetObject', () => {
+    const circle = new Circle({ left: 10, top: 10, radius: 10, fill: 'red' }),
+      offset = offsetObject(circle, 5, { tolerance: 0.01 });
+    expect(offset.fill).toBe('red');
+    expect(getArea(offset.path)).toBeCloseTo(Math.PI * 225, 0);
+    expect(offset.getCenterPoint().x).toBeCloseTo(circle.getCenterPoint().x);
+    expect(offset.getCenterPoint().y).toBeCloseTo(circle.getCenterPoint().y);
+  });
+});
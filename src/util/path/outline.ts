@@ -0,0 +1,452 @@
+import { CENTER } from '../../constants';
+import { Point } from '../../Point';
+import type { FabricObject } from '../../shapes/Object/FabricObject';
+import type { PathProps } from '../../shapes/Path';
+import type { TMat2D } from '../../typedefs';
+import { invertTransform } from '../misc/matrix';
+import type { TProjectStrokeOnPointsOptions } from '../misc/projectStroke/types';
+import {
+  crossProduct,
+  dotProduct,
+  getOrthonormalVector,
+  getUnitVector,
+} from '../misc/vectors';
+import type { TBooleanOptions } from './boolean';
+import { booleanPathData } from './boolean';
+import type { TFlatSubpath } from './flatten';
+import { flattenPath } from './flatten';
+import { transformPath } from './index';
+import type { TSimplePathData } from './typedefs';
+
+export type TStrokeOutlineOptions = TBooleanOptions &
+  Partial<
+    Pick<
+      TProjectStrokeOnPointsOptions,
+      'strokeWidth' | 'strokeLineCap' | 'strokeLineJoin' | 'strokeMiterLimit'
+    >
+  > & {
+    strokeDashArray?: number[] | null;
+    strokeDashOffset?: number;
+  };
+
+export type TOffsetOptions = TBooleanOptions &
+  Partial<
+    Pick<TProjectStrokeOnPointsOptions, 'strokeLineJoin' | 'strokeMiterLimit'>
+  > & {
+    /**
+     * @default 'nonzero'
+     */
+    fillRule?: CanvasFillRule;
+  };
+
+type TStrokeStyle = Required<
+  Pick<
+    TStrokeOutlineOptions,
+    'strokeWidth' | 'strokeLineCap' | 'strokeLineJoin' | 'strokeMiterLimit'
+  >
+>;
+
+/**
+ * @private
+ * Splits a subpath in the dashes of `dashArray`, the way the canvas dashes strokes
+ */
+const dashSubpath = (
+  { points, vertices, closed }: TFlatSubpath,
+  dashArray: number[],
+  dashOffset: number
+): TFlatSubpath[] => {
+  const dashes =
+      dashArray.length % 2 === 0 ? dashArray : [...dashArray, ...dashArray],
+    total = dashes.reduce((total, dash) => total + dash, 0),
+    pieces: TFlatSubpath[] = [];
+  if (total <= 0 || dashes.some((dash) => dash < 0 || !isFinite(dash))) {
+    return [{ points, vertices, closed }];
+  }
+  let phase = ((dashOffset % total) + total) % total,
+    index = 0;
+  while (phase >= dashes[index]) {
+    phase -= dashes[index];
+    index = (index + 1) % dashes.length;
+  }
+  let remaining = dashes[index] - phase,
+    piece: TFlatSubpath | undefined =
+      index % 2 === 0
+        ? { points: [points[0]], vertices: [true], closed: false }
+        : undefined;
+  const ends = closed ? [...points.slice(1), points[0]] : points.slice(1),
+    endVertices = closed ? [...vertices.slice(1), true] : vertices.slice(1);
+  ends.forEach((end, i) => {
+    const start = i === 0 ? points[0] : ends[i - 1],
+      length = start.distanceFrom(end);
+    let position = 0;
+    while (length - position > remaining) {
+      position += remaining;
+      const point = start.lerp(end, position / length);
+      if (piece) {
+        piece.points.push(point);
+        piece.vertices.push(true);
+        pieces.push(piece);
+        piece = undefined;
+      } else {
+        piece = { points: [point], vertices: [true], closed: false };
+      }
+      index = (index + 1) % dashes.length;
+      remaining = dashes[index];
+    }
+    remaining -= length - position;
+    if (piece) {
+      piece.points.push(end);
+      piece.vertices.push(endVertices[i]);
+    }
+  });
+  piece && pieces.push(piece);
+  return pieces;
+};
+
+/**
+ * @private
+ * @returns a polygon approximating a circle
+ */
+const getCirclePolygon = (center: Point, radius: number, tolerance: number) => {
+  const steps = Math.max(
+    8,
+    Math.ceil(Math.PI / Math.acos(Math.max(0, 1 - tolerance / radius)))
+  );
+  const polygon: Point[] = [];
+  for (let i = 0; i < steps; i++) {
+    const angle = (i / steps) * Math.PI * 2;
+    polygon.push(
+      center.add(
+        new Point(Math.cos(angle), Math.sin(angle)).scalarMultiply(radius)
+      )
+    );
+  }
+  return polygon;
+};
+
+/**
+ * @private
+ * Adds the polygons covering the stroke of a polyline: its segments, joins and caps
+ */
+const outlineSubpath = (
+  subpath: TFlatSubpath,
+  {
+    strokeWidth,
+    strokeLineCap,
+    strokeLineJoin,
+    strokeMiterLimit,
+  }: TStrokeStyle,
+  tolerance: number,
+  polygons: Point[][]
+) => {
+  const radius = strokeWidth / 2,
+    points: Point[] = [],
+    vertices: boolean[] = [];
+  // remove duplicate neighboring points
+  subpath.points.forEach((point, index) => {
+    if (points.length > 0 && points[points.length - 1].eq(point)) {
+      vertices[vertices.length - 1] =
+        vertices[vertices.length - 1] || subpath.vertices[index];
+    } else {
+      points.push(point);
+      vertices.push(subpath.vertices[index]);
+    }
+  });
+  if (
+    subpath.closed &&
+    points.length > 1 &&
+    points[0].eq(points[points.length - 1])
+  ) {
+    points.pop();
+    vertices.pop();
+  }
+  if (points.length === 1) {
+    // zero length subpaths are drawn as dots by round and square caps
+    if (subpath.points.length > 1 && strokeLineCap === 'round') {
+      polygons.push(getCirclePolygon(points[0], radius, tolerance));
+    } else if (subpath.points.length > 1 && strokeLineCap === 'square') {
+      polygons.push(
+        [
+          new Point(-radius, -radius),
+          new Point(radius, -radius),
+          new Point(radius, radius),
+          new Point(-radius, radius),
+        ].map((corner) => points[0].add(corner))
+      );
+    }
+    return;
+  }
+  const closed = subpath.closed,
+    count = points.length,
+    segmentCount = closed ? count : count - 1;
+  for (let i = 0; i < segmentCount; i++) {
+    const a = points[i],
+      b = points[(i + 1) % count],
+      normal = getOrthonormalVector(b.subtract(a)).scalarMultiply(radius);
+    polygons.push([
+      a.add(normal),
+      b.add(normal),
+      b.subtract(normal),
+      a.subtract(normal),
+    ]);
+  }
+  for (let i = closed ? 0 : 1; i < (closed ? count : count - 1); i++) {
+    const b = points[i],
+      d1 = getUnitVector(b.subtract(points[(i - 1 + count) % count])),
+      d2 = getUnitVector(points[(i + 1) % count].subtract(b)),
+      cross = crossProduct(d1, d2),
+      dot = dotProduct(d1, d2),
+      // points of curves are joined by bevels, small enough to be accurate
+      join = vertices[i] ? strokeLineJoin : 'bevel';
+    // straight points and reversals of the direction need no join, but for round ones
+    if (Math.abs(cross) < 1e-9 && (dot > 0 || join !== 'round')) {
+      continue;
+    }
+    if (join === 'round') {
+      polygons.push(getCirclePolygon(b, radius, tolerance));
+      continue;
+    }
+    // the outer side of the turn
+    const side = cross > 0 ? -radius : radius,
+      n1 = getOrthonormalVector(d1).scalarMultiply(side),
+      n2 = getOrthonormalVector(d2).scalarMultiply(side),
+      // ratio of the length of the miter to the stroke width
+      miterRatio = 1 / Math.sqrt((1 + dot) / 2);
+    polygons.push(
+      join === 'miter' && miterRatio <= strokeMiterLimit
+        ? [
+            b,
+            b.add(n1),
+            b.add(
+              getUnitVector(n1.add(n2)).scalarMultiply(radius * miterRatio)
+            ),
+            b.add(n2),
+          ]
+        : [b, b.add(n1), b.add(n2)]
+    );
+  }
+  if (!closed && strokeLineCap !== 'butt') {
+    [
+      [points[0], points[1]],
+      [points[count - 1], points[count - 2]],
+    ].forEach(([end, previous]) => {
+      if (strokeLineCap === 'round') {
+        polygons.push(getCirclePolygon(end, radius, tolerance));
+        return;
+      }
+      const direction = getUnitVector(end.subtract(previous)).scalarMultiply(
+          radius
+        ),
+        normal = getOrthonormalVector(direction).scalarMultiply(radius);
+      polygons.push([
+        end.add(normal),
+        end.add(normal).add(direction),
+        end.subtract(normal).add(direction),
+        end.subtract(normal),
+      ]);
+    });
+  }
+};
+
+/**
+ * @private
+ * @returns path data of the polygons covering the strokes of `subpaths`, all going in the same direction
+ * so that they are filled together with the `nonzero` fill rule
+ */
+const outlineSubpaths = (
+  subpaths: TFlatSubpath[],
+  style: TStrokeStyle,
+  tolerance: number
+): TSimplePathData => {
+  const polygons: Point[][] = [];
+  style.strokeWidth > 0 &&
+    subpaths.forEach((subpath) =>
+      outlineSubpath(subpath, style, tolerance, polygons)
+    );
+  return polygons.flatMap((polygon) => {
+    const area = polygon.reduce(
+      (area, point, index) =>
+        area + crossProduct(point, polygon[(index + 1) % polygon.length]),
+      0
+    );
+    area < 0 && polygon.reverse();
+    return [
+      ...polygon.map(
+        ({ x, y }, index) =>
+          [index === 0 ? 'M' : 'L', x, y] as ['M', number, number]
+      ),
+      ['Z'] as ['Z'],
+    ];
+  });
+};
+
+/**
+ * Computes the outline of the stroke of a path as a filled shape, the way the canvas strokes it,
+ * including joins, caps and dashes.
+ * Curves are approximated by segments.
+ * @param {TSimplePathData} path
+ * @param {TStrokeOutlineOptions} [options]
+ * @returns {TSimplePathData} path data of the outline, to fill with the `nonzero` fill rule
+ */
+export const outlineStrokePathData = (
+  path: TSimplePathData,
+  {
+    strokeWidth = 1,
+    strokeLineCap = 'butt',
+    strokeLineJoin = 'miter',
+    strokeMiterLimit = 4,
+    strokeDashArray,
+    strokeDashOffset = 0,
+    tolerance = 0.1,
+  }: TStrokeOutlineOptions = {}
+): TSimplePathData => {
+  let subpaths = flattenPath(path, tolerance);
+  if (strokeDashArray && strokeDashArray.length > 0) {
+    subpaths = subpaths.flatMap((subpath) =>
+      dashSubpath(subpath, strokeDashArray, strokeDashOffset)
+    );
+  }
+  return booleanPathData(
+    'union',
+    [
+      {
+        path: outlineSubpaths(
+          subpaths,
+          { strokeWidth, strokeLineCap, strokeLineJoin, strokeMiterLimit },
+          tolerance
+        ),
+      },
+    ],
+    { tolerance }
+  );
+};
+
+/**
+ * Offsets the filled shape of a path outwards by a positive `distance` or inwards by a negative one.
+ * Subpaths are considered closed, the way they are filled.
+ * Corners moving outwards are joined according to `strokeLineJoin`, `miter` by default.
+ * @param {TSimplePathData} path
+ * @param {number} distance
+ * @param {TOffsetOptions} [options]
+ * @returns {TSimplePathData} path data of the offset shape
+ */
+export const offsetPathData = (
+  path: TSimplePathData,
+  distance: number,
+  {
+    strokeLineJoin = 'miter',
+    strokeMiterLimit = 4,
+    fillRule,
+    tolerance = 0.1,
+  }: TOffsetOptions = {}
+): TSimplePathData => {
+  const outline = outlineSubpaths(
+    flattenPath(path, tolerance).map((subpath) => ({
+      ...subpath,
+      closed: true,
+    })),
+    {
+      strokeWidth: Math.abs(distance) * 2,
+      strokeLineCap: 'butt',
+      strokeLineJoin,
+      strokeMiterLimit,
+    },
+    tolerance
+  );
+  return booleanPathData(
+    distance < 0 ? 'subtract' : 'union',
+    [{ path, fillRule }, { path: outline }],
+    { tolerance }
+  );
+};
+
+/**
+ * @private
+ * @returns the path of `object` with other path data in the plane of the object, landing where the object is
+ */
+const toObjectPath = (
+  object: FabricObject,
+  path: TSimplePathData,
+  options: Partial<PathProps>
+) => {
+  const result = object.toPath(),
+    center = result.getRelativeCenterPoint();
+  result.set(options);
+  result.setPositionByOrigin(center, CENTER, CENTER);
+  result.path = path;
+  result.setDimensionsInPlace();
+  return result;
+};
+
+/**
+ * Converts the stroke of an object into a filled `Path` landing where the stroke is,
+ * filled with the stroke of the object, see {@link outlineStrokePathData}.
+ * Useful to expand strokes before cutting or plotting.
+ * @param {FabricObject} object
+ * @param {TBooleanOptions} [options]
+ * @returns {Path}
+ */
+export const outlineStrokeObject = (
+  object: FabricObject,
+  { tolerance }: TBooleanOptions = {}
+) => {
+  const {
+      strokeWidth,
+      strokeLineCap,
+      strokeLineJoin,
+      strokeMiterLimit,
+      strokeDashArray,
+      strokeDashOffset,
+      strokeUniform,
+    } = object,
+    // uniform strokes are outlined in the plane of the canvas, where their width is
+    transform: TMat2D = strokeUniform
+      ? ([...object.calcTransformMatrix().slice(0, 4), 0, 0] as TMat2D)
+      : [1, 0, 0, 1, 0, 0],
+    outline = outlineStrokePathData(
+      transformPath(object.toPathData(), transform, new Point()),
+      {
+        strokeWidth,
+        strokeLineCap,
+        strokeLineJoin,
+        strokeMiterLimit,
+        strokeDashArray,
+        strokeDashOffset,
+        tolerance,
+      }
+    );
+  return toObjectPath(
+    object,
+    transformPath(outline, invertTransform(transform), new Point()),
+    {
+      fill: object.stroke,
+      stroke: null,
+      strokeWidth: 0,
+      strokeDashArray: null,
+      fillRule: 'nonzero',
+    }
+  );
+};
+
+/**
+ * Offsets the filled shape of an object outwards by a positive `distance` or inwards by a negative one,
+ * see {@link offsetPathData}.
+ * The distance is measured in the plane of the object, before it is scaled.
+ * @param {FabricObject} object
+ * @param {number} distance
+ * @param {TOffsetOptions} [options]
+ * @returns {Path} a path with the styles and the transform of the object
+ */
+export const offsetObject = (
+  object: FabricObject,
+  distance: number,
+  options: TOffsetOptions = {}
+) =>
+  toObjectPath(
+    object,
+    offsetPathData(object.toPathData(), distance, {
+      fillRule: object.fillRule,
+      ...options,
+    }),
+    { fillRule: 'nonzero' }
+  );
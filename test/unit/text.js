@@ -64,7 +64,8 @@
     direction:                  'ltr',
     pathStartOffset:            0,
     pathSide:                   'left',
-    pathAlign:                  'baseline'
+    pathAlign:                  'baseline',
+    writingMode:                'horizontal-tb'
   };
 
   QUnit.test('constructor', function(assert) {
@@ -790,7 +791,7 @@
 
   QUnit.test('cacheProperties for text', function(assert) {
     var text = new fabric.Text('a');
-    assert.equal(fabric.Text.cacheProperties.join('-'), 'fill-stroke-strokeWidth-strokeDashArray-width-height-paintFirst-strokeUniform-strokeLineCap-strokeDashOffset-strokeLineJoin-strokeMiterLimit-backgroundColor-clipPath-fontSize-fontWeight-fontFamily-fontStyle-lineHeight-text-charSpacing-textAlign-styles-path-pathStartOffset-pathSide-pathAlign-underline-overline-linethrough-textBackgroundColor-direction');
+    assert.equal(fabric.Text.cacheProperties.join('-'), 'fill-stroke-strokeWidth-strokeDashArray-width-height-paintFirst-strokeUniform-strokeLineCap-strokeDashOffset-strokeLineJoin-strokeMiterLimit-backgroundColor-clipPath-fontSize-fontWeight-fontFamily-fontStyle-lineHeight-text-charSpacing-textAlign-styles-path-pathStartOffset-pathSide-pathAlign-writingMode-underline-overline-linethrough-textBackgroundColor-direction');
   });
 
   QUnit.test('_getLineLeftOffset', function(assert) {